@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
+// ビルドごとの識別子。Service Worker（/sw.js）に埋め込み、ブラウザが新しいビルドを検知できるようにする
+const buildId = process.env.BUILD_ID ?? new Date().toISOString().replace(/\D/g, "").slice(0, 14);
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  generateBuildId: async () => buildId,
+  env: { APP_BUILD_ID: buildId },
 };
 
 export default nextConfig;
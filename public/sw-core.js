@@ -0,0 +1,100 @@
+/* River Agent service worker 本体（/sw.js から読み込む）
+ * - オフライン：アプリの画面（HTML）と静的ファイルをキャッシュし、接続がなくても開けるようにする。
+ *   データは端末内（localStorage）にあるので、オフラインでもクエストの記録ができる。
+ * - 更新：新しいビルドの Service Worker はインストール後に待機し、画面の「更新」で切り替える。
+ * - ブラウザ通知
+ */
+
+const VERSION = self.BUILD_ID || "dev";
+const CACHE_PREFIX = "river-agent-";
+const CACHE = CACHE_PREFIX + VERSION;
+const SHELL_URL = "/";
+
+// 画面の HTML と一緒にキャッシュするもの（アイコンは src/lib/appInfo.ts の APP_ICONS）。取れなくてもインストールは続ける
+const EXTRAS = ["/manifest.webmanifest", "/icon/192", "/icon/512", "/icon/maskable", "/apple-icon", "/favicon.ico"];
+
+// ビルドごとにファイル名が変わる静的ファイル（一度取得したものは変わらない）
+const isStaticAsset = (url) => url.pathname.startsWith("/_next/static/");
+
+// 画面の HTML から、読み込む静的ファイルの URL を拾う
+function assetsIn(html) {
+  return [...new Set(html.match(/\/_next\/static\/[^"'\s\\)]+/g) || [])];
+}
+
+async function precache() {
+  const cache = await caches.open(CACHE);
+  const res = await fetch(SHELL_URL, { cache: "reload" });
+  if (!res.ok) throw new Error(`shell: ${res.status}`);
+  const html = await res.clone().text();
+  await cache.addAll(assetsIn(html));
+  await cache.put(SHELL_URL, res);
+  await Promise.all(EXTRAS.map((url) => cache.add(url).catch(() => undefined)));
+}
+
+self.addEventListener("install", (event) => {
+  // 初めてのインストールはすぐ有効にする。更新のときは画面で「更新」を押すまで待つ
+  if (!self.registration.active) self.skipWaiting();
+  if (self.OFFLINE_ENABLED) event.waitUntil(precache());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith(CACHE_PREFIX) && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+// キャッシュにあればそれを返し、なければ取得してキャッシュする
+async function cacheFirst(request, key = request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) await cache.put(key, res.clone());
+  return res;
+}
+
+// 取得できればキャッシュを更新し、オフラインならキャッシュを返す
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok) await cache.put(request, res.clone());
+    return res;
+  } catch (e) {
+    // アイコンなどは ?ハッシュ 付きで読み込まれるので、クエリを無視して探す
+    const cached = (await cache.match(request)) || (await cache.match(request, { ignoreSearch: true }));
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  if (!self.OFFLINE_ENABLED) return;
+  const { request } = event;
+  const url = new URL(request.url);
+  // API（チャット・同期・ログイン）はキャッシュしない。オフライン時のエラーは画面側で扱う
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  // 画面はこのビルドの HTML を返す（新しいビルドは Service Worker の更新で入れ替わる）
+  if (request.mode === "navigate") return event.respondWith(cacheFirst(request, SHELL_URL));
+  if (isStaticAsset(url)) return event.respondWith(cacheFirst(request));
+  event.respondWith(networkFirst(request));
+});
+
+// 通知をタップしたら開いているタブを前面に、なければ新しく開く
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => "focus" in c);
+      return client ? client.focus() : self.clients.openWindow("/");
+    })
+  );
+});
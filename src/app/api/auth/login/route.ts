@@ -0,0 +1,46 @@
+import { requestLocale, translator, type Translate } from "@/lib/i18n";
+import { AccountError, getFileStore } from "@/lib/sync/store";
+import { authRateLimit, clearLoginFailures, loginBackoff, parseCredentials, recordLoginFailure, startSession } from "@/lib/sync/session";
+
+/** -----------------------------
+ *  POST /api/auth/login
+ *  body: { username; password }。成功するとセッションのクッキーを発行する。
+ *  ----------------------------*/
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const json = (status: number, error: string, headers?: HeadersInit) =>
+  Response.json({ error }, { status, headers });
+
+const tooMany = (t: Translate, retryAfterSec: number) =>
+  json(429, t("api.auth.rateLimited"), { "Retry-After": String(retryAfterSec) });
+
+export async function POST(req: Request) {
+  const t = translator(requestLocale(req));
+  const limited = authRateLimit(req);
+  if (!limited.ok) return tooMany(t, limited.retryAfterSec);
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, t("api.badJson"));
+  }
+  const credentials = parseCredentials(body);
+  if (!credentials) return json(400, t("api.auth.missingCredentials"));
+  const backoff = loginBackoff(credentials.username);
+  if (!backoff.ok) return tooMany(t, backoff.retryAfterSec);
+
+  try {
+    const { token, username } = await getFileStore().logIn(credentials.username, credentials.password);
+    await startSession(token);
+    clearLoginFailures(credentials.username);
+    return Response.json({ username });
+  } catch (e) {
+    if (e instanceof AccountError) {
+      recordLoginFailure(credentials.username);
+      return json(e.status, t(e.key, e.params));
+    }
+    throw e;
+  }
+}
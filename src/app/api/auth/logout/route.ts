@@ -0,0 +1,12 @@
+import { endSession } from "@/lib/sync/session";
+
+/** -----------------------------
+ *  POST /api/auth/logout
+ *  ----------------------------*/
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  await endSession();
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,15 @@
+import { requestLocale, translator } from "@/lib/i18n";
+import { sessionUser } from "@/lib/sync/session";
+
+/** -----------------------------
+ *  GET /api/auth/session
+ *  ログイン中なら { username }、そうでなければ 401。
+ *  ----------------------------*/
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const user = await sessionUser();
+  if (!user) return Response.json({ error: translator(requestLocale(req))("api.notSignedIn") }, { status: 401 });
+  return Response.json({ username: user.username });
+}
@@ -0,0 +1,40 @@
+import { requestLocale, translator, type Translate } from "@/lib/i18n";
+import { AccountError, getFileStore } from "@/lib/sync/store";
+import { authRateLimit, parseCredentials, startSession } from "@/lib/sync/session";
+
+/** -----------------------------
+ *  POST /api/auth/signup
+ *  body: { username; password }。登録してそのままログインする。
+ *  ----------------------------*/
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const json = (status: number, error: string, headers?: HeadersInit) =>
+  Response.json({ error }, { status, headers });
+
+const tooMany = (t: Translate, retryAfterSec: number) =>
+  json(429, t("api.auth.rateLimited"), { "Retry-After": String(retryAfterSec) });
+
+export async function POST(req: Request) {
+  const t = translator(requestLocale(req));
+  const limited = authRateLimit(req);
+  if (!limited.ok) return tooMany(t, limited.retryAfterSec);
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, t("api.badJson"));
+  }
+  const credentials = parseCredentials(body);
+  if (!credentials) return json(400, t("api.auth.missingCredentials"));
+
+  try {
+    const { token, username } = await getFileStore().signUp(credentials.username, credentials.password);
+    await startSession(token);
+    return Response.json({ username });
+  } catch (e) {
+    if (e instanceof AccountError) return json(e.status, t(e.key, e.params));
+    throw e;
+  }
+}
@@ -0,0 +1,118 @@
+import { getChatProvider } from "@/lib/chat/providers";
+import { createRateLimiter } from "@/lib/chat/rateLimit";
+import { chatRateLimitKey } from "@/lib/chat/session";
+import { ChatProviderError, type ChatChunk, type ChatMsg, type PlanContext } from "@/lib/chat/types";
+import { isLocale, requestLocale, translator, type Locale } from "@/lib/i18n";
+import { isRecord } from "@/lib/utils";
+
+/** -----------------------------
+ *  POST /api/chat
+ *  body: { messages: ChatMsg[]; context?: PlanContext; locale?: Locale }
+ *  レート制限はサーバー側で決めたキーで数える（lib/chat/session.ts）。
+ *  locale がなければ Accept-Language から応答の言語を決める。
+ *  応答は ChatChunk を 1 行 1 JSON（NDJSON）でストリーミングする。
+ *  ----------------------------*/
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_MESSAGES = 50;
+const MAX_CONTENT_LENGTH = 4000;
+
+const rateLimit = createRateLimiter({
+  limit: Number(process.env.CHAT_RATE_LIMIT ?? 20) || 20,
+  windowMs: 60_000,
+});
+
+function parseMessages(body: unknown): ChatMsg[] | null {
+  if (!isRecord(body) || !Array.isArray(body.messages)) return null;
+  const messages = body.messages.slice(-MAX_MESSAGES);
+  const ok = messages.every(
+    (m) =>
+      isRecord(m) &&
+      (m.role === "user" || m.role === "assistant") &&
+      typeof m.content === "string" &&
+      m.content.length <= MAX_CONTENT_LENGTH
+  );
+  return ok && messages.length ? (messages as ChatMsg[]) : null;
+}
+
+function parseContext(body: unknown): PlanContext | undefined {
+  if (!isRecord(body) || !isRecord(body.context)) return undefined;
+  const ctx = body.context;
+  const ok =
+    typeof ctx.todayIndex === "number" &&
+    typeof ctx.cycle === "number" &&
+    isRecord(ctx.today) &&
+    Array.isArray(ctx.today.quests) &&
+    Array.isArray(ctx.week);
+  return ok ? (ctx as PlanContext) : undefined;
+}
+
+function parseLocale(body: unknown, req: Request): Locale {
+  return isRecord(body) && isLocale(body.locale) ? body.locale : requestLocale(req);
+}
+
+const json = (status: number, error: string, headers?: HeadersInit) =>
+  Response.json({ error }, { status, headers });
+
+export async function POST(req: Request) {
+  const limited = rateLimit(await chatRateLimitKey(req));
+  if (!limited.ok) {
+    return json(429, translator(requestLocale(req))("api.chat.rateLimited"), {
+      "Retry-After": String(limited.retryAfterSec),
+    });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, translator(requestLocale(req))("api.badJson"));
+  }
+  const locale = parseLocale(body, req);
+  const t = translator(locale);
+  const messages = parseMessages(body);
+  if (!messages) return json(400, t("api.chat.badMessages"));
+  const context = parseContext(body);
+
+  let provider;
+  try {
+    provider = getChatProvider(t);
+  } catch (e) {
+    return json(500, e instanceof ChatProviderError ? e.message : t("api.chat.failed"));
+  }
+
+  // クライアントの切断・ストリームのキャンセルでプロバイダも止める
+  const abort = new AbortController();
+  req.signal.addEventListener("abort", () => abort.abort(), { once: true });
+  const encoder = new TextEncoder();
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, chunk: ChatChunk) =>
+    controller.enqueue(encoder.encode(`${JSON.stringify(chunk)}\n`));
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const chunk of provider.stream(messages, { signal: abort.signal, context, locale })) {
+          send(controller, chunk);
+        }
+      } catch (e) {
+        if (abort.signal.aborted) return;
+        // ヘッダ送信後なので、エラーもストリームの中で伝える
+        send(controller, { type: "error", message: e instanceof ChatProviderError ? e.message : t("api.chat.failed") });
+      }
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Chat-Provider": provider.name,
+      "X-RateLimit-Remaining": String(limited.remaining),
+    },
+  });
+}
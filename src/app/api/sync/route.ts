@@ -0,0 +1,69 @@
+import { requestLocale, translator } from "@/lib/i18n";
+import { CURRENT_SCHEMA_VERSION, migrate, MigrationError } from "@/lib/migrations";
+import { sessionUser } from "@/lib/sync/session";
+import { getFileStore } from "@/lib/sync/store";
+import type { QuestStamps, SyncSnapshot } from "@/lib/sync/types";
+import { isRecord } from "@/lib/utils";
+import { validateAppState } from "@/lib/validation";
+
+/** -----------------------------
+ *  GET /api/sync → SyncSnapshot
+ *  PUT /api/sync  body: SyncPush
+ *    → 200 { revision, updatedAt } / 409 { error, snapshot }（baseRevision が古い。マージしてから再送する）
+ *  ----------------------------*/
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_BODY_BYTES = 5_000_000;
+
+const json = (status: number, error: string) => Response.json({ error }, { status });
+
+function parseStamps(raw: unknown): QuestStamps {
+  if (!isRecord(raw)) return {};
+  return Object.fromEntries(Object.entries(raw).filter((e): e is [string, string] => typeof e[1] === "string"));
+}
+
+export async function GET(req: Request) {
+  const user = await sessionUser();
+  if (!user) return json(401, translator(requestLocale(req))("api.notSignedIn"));
+  const snapshot = await getFileStore().readSnapshot(user.id);
+  return Response.json(snapshot, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function PUT(req: Request) {
+  const t = translator(requestLocale(req));
+  const user = await sessionUser();
+  if (!user) return json(401, t("api.notSignedIn"));
+  if (Number(req.headers.get("content-length") ?? 0) > MAX_BODY_BYTES) return json(413, t("api.sync.tooLarge"));
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, t("api.badJson"));
+  }
+  if (!isRecord(body) || typeof body.baseRevision !== "number" || typeof body.schemaVersion !== "number") {
+    return json(400, t("api.sync.badBody"));
+  }
+
+  // 古いアプリから送られてきても、保存するのは常に最新の形式
+  let migrated: unknown;
+  try {
+    migrated = migrate(body.state, body.schemaVersion);
+  } catch (e) {
+    const detail = e instanceof MigrationError ? t(e.key, e.params) : t("storage.migrationFailed");
+    return json(400, t("api.sync.invalid", { detail }));
+  }
+  const result = validateAppState(migrated);
+  if (!result.ok) return json(400, t("api.sync.invalid", { detail: t(result.error.key, result.error.params) }));
+
+  const written = await getFileStore().writeSnapshot(user.id, body.baseRevision, {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    state: result.state,
+    stamps: parseStamps(body.stamps),
+  });
+  if (!written.ok) {
+    return Response.json({ error: t("api.sync.conflict"), snapshot: written.snapshot satisfies SyncSnapshot }, { status: 409 });
+  }
+  return Response.json({ revision: written.snapshot.revision, updatedAt: written.snapshot.updatedAt });
+}
@@ -0,0 +1,9 @@
+import { appIconResponse } from "@/components/AppIconArt";
+
+// ホーム画面に追加したときの iOS のアイコン（角は iOS が丸める）
+export const size = { width: 180, height: 180 };
+export const contentType = "image/png";
+
+export default function AppleIcon() {
+  return appIconResponse(size.width, { fullBleed: true });
+}
@@ -0,0 +1,12 @@
+import { appIconResponse } from "@/components/AppIconArt";
+import { APP_ICONS } from "@/lib/appInfo";
+
+// PWA のアイコン（/icon/192・/icon/512・/icon/maskable）。Web App Manifest から参照する
+export function generateImageMetadata() {
+  return APP_ICONS.map((icon) => ({ id: icon.id, size: { width: icon.size, height: icon.size }, contentType: "image/png" }));
+}
+
+export default function Icon({ id }: { id: string }) {
+  const icon = APP_ICONS.find((i) => i.id === id) ?? APP_ICONS[0];
+  return appIconResponse(icon.size, { fullBleed: icon.purpose === "maskable" });
+}
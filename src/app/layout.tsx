@@ -1,10 +1,18 @@
 // app/layout.tsx
 import "./globals.css";
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
+import { APP_NAME, appDescription, THEME_COLOR } from "@/lib/appInfo";
 
+// Web App Manifest（app/manifest.ts）も同じ名前と説明から作る
 export const metadata: Metadata = {
-  title: "River Agent",
-  description: "AIとともに成長する、7日間の自己成長プランナー",
+  title: APP_NAME,
+  description: appDescription(),
+  applicationName: APP_NAME,
+  appleWebApp: { capable: true, title: APP_NAME, statusBarStyle: "default" },
+};
+
+export const viewport: Viewport = {
+  themeColor: THEME_COLOR,
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
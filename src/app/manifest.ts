@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+import { APP_ICONS, appDescription, APP_NAME, BACKGROUND_COLOR, THEME_COLOR } from "@/lib/appInfo";
+
+// Web App Manifest（/manifest.webmanifest）。名前と色は layout の metadata と同じ値
+// 表示言語は端末ごとに切り替わるので lang は指定しない
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: "/",
+    name: APP_NAME,
+    short_name: APP_NAME,
+    description: appDescription(),
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: BACKGROUND_COLOR,
+    theme_color: THEME_COLOR,
+    categories: ["productivity", "lifestyle"],
+    icons: APP_ICONS.map((icon) => ({ src: `/icon/${icon.id}`, sizes: `${icon.size}x${icon.size}`, type: "image/png", purpose: icon.purpose })),
+  };
+}
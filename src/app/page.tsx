@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
-import { Home, ClipboardList, MessageCircle, Settings, type LucideIcon, Bot,
+import { Home, ClipboardList, NotebookPen, MessageCircle, Settings, type LucideIcon, Bot,
+  Square,
+  RotateCcw,
   Circle,
   Ellipsis,
   Plus,
@@ -9,166 +11,114 @@ import { Home, ClipboardList, MessageCircle, Settings, type LucideIcon, Bot,
   Send,
   Mic,
   Camera,
-  Paperclip, Bell } from "lucide-react";
-
-
-/** -----------------------------
- *  型定義（既存 + 拡張）
- *  ----------------------------*/
- type CategoryKey =
-  | "運動"
-  | "学習"
-  | "習慣"
-  | "信仰"
-  | "人間力"
-  | "金銭"
-  | "睡眠"
-  | "食事"
-  | "メンタル";
-
-type Quest = {
-  id: string;
-  title: string;
-  done: boolean;
-  enabled: boolean; // ON/OFF
-  // --- 追加（表示強化用・任意） ---
-  category?: string; // サブラベル表示
-  points?: number;   // 行ごとのポイント表示
-  progress?: number; // 0-100（長時間タスク）
-  locked?: boolean;  // ロック表示
-  note?: string;     // 小メモ
-};
-
-type DayPlan = {
-  day: number; // 1..7
-  quests: Quest[];
-};
-
-type Theme = {
-  backgroundColor: string;
-  textColor: string;
-};
-
-type AppState = {
-  selectedCategories: CategoryKey[];
-  plans: DayPlan[]; // 7日
-  createdAt?: string; // ISO
-  theme?: Theme; // テーマ設定
-};
-
-type ChatRole = "user" | "assistant";
-type ChatMsg = { role: "assistant" | "user"; content: string };
-
-/** -----------------------------
- *  ランク判定
- *  ----------------------------*/
-type Rank = "入門者 (Novice)" | "従者 (Squire)" | "騎士 (Knight)" | "侯爵 (Marquis)" | "公爵 (Duke)" | "王者 (Sovereign)";
-
-function calculateRank(score: number): Rank {
-  if (score >= 1000) return "王者 (Sovereign)";
-  if (score >= 500) return "公爵 (Duke)";
-  if (score >= 200) return "侯爵 (Marquis)";
-  if (score >= 100) return "騎士 (Knight)";
-  if (score >= 50) return "従者 (Squire)";
-  return "入門者 (Novice)";
-}
-
-/** -----------------------------
- *  定数
- *  ----------------------------*/
-const ALL_CATEGORIES: { key: CategoryKey; label: string }[] = [
-  { key: "運動", label: "運動" },
-  { key: "学習", label: "学習" },
-  { key: "習慣", label: "習慣" },
-  { key: "信仰", label: "信仰" },
-  { key: "人間力", label: "社会性・人助け" },
-  { key: "金銭", label: "金銭・資産形成" },
-  { key: "睡眠", label: "睡眠" },
-  { key: "食事", label: "食事" },
-  { key: "メンタル", label: "メンタル" },
-];
-
-const TEMPLATE_QUESTS: Record<CategoryKey, string[]> = {
-  運動: ["10分ストレッチ（首・肩・腰）", "軽いジョグ10分", "腕立て・腹筋・背筋 各10回"],
-  学習: ["英単語15分", "読書20分", "講義ノートの復習10分"],
-  習慣: ["デスク片付け5分", "洗濯物たたむ", "翌日のToDoを3つ書く"],
-  信仰: ["日記3行（感謝）", "静かな祈り・瞑想5分", "善い行いを1つ"],
-  人間力: ["誰かに挨拶＋一言", "家族/友人にLINEで近況", "ありがとうを3回伝える"],
-  金銭: ["家計簿入力3分", "不要支出チェック", "投資/貯蓄を500円検討"],
-  睡眠: ["就寝前のブルーライト10分カット", "就寝/起床時刻を記録", "水分を一杯飲む"],
-  食事: ["水を1日1.5L目標", "サラダ/タンパク質を一品", "間食を一度スキップ"],
-  メンタル: ["深呼吸3回", "3分瞑想", "散歩5分"],
-};
-
-const DEFAULT_THEME: Theme = {
-  backgroundColor: "#ffffff",
-  textColor: "#000000",
-};
-
-const STORAGE_KEY = "growth-planner-v1";
-const POINTS_PER_QUEST = 10;
-
-/** -----------------------------
- *  ユーティリティ
- *  ----------------------------*/
-const uid = () => Math.random().toString(36).slice(2, 10);
-
-function buildWeekPlan(selected: CategoryKey[]): DayPlan[] {
-  const days: DayPlan[] = [];
-  for (let i = 1; i <= 7; i++) {
-    const quests: Quest[] = [];
-    selected.forEach((cat, idx) => {
-      const candidates = TEMPLATE_QUESTS[cat];
-      const base = (i + idx) % candidates.length;
-      const titles = [candidates[base], candidates[(base + 1) % candidates.length]];
-      titles.forEach((t, j) =>
-        quests.push({
-          id: uid(),
-          title: t,
-          done: false,
-          enabled: true,
-          category: cat,
-          points: POINTS_PER_QUEST + (j === 1 ? 5 : 0), // 少し変化をつける
-          progress: Math.random() < 0.3 ? Math.floor(Math.random() * 70) + 10 : undefined,
-          locked: false,
-        })
-      );
-    });
-    const trimmed = quests.slice(0, 5);
-    days.push({ day: i, quests: trimmed });
-  }
-return days;
-}
-
-function loadState(): AppState | null {
-  if (typeof window === "undefined") return null;
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? (JSON.parse(raw) as AppState) : null;
-  } catch {
-    return null;
-  }
-}
-
-function saveState(state: AppState) {
-  if (typeof window === "undefined") return;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-}
+  Paperclip, Bell, Lock, ChartColumn, History, WifiOff } from "lucide-react";
+import { appDescription } from "@/lib/appInfo";
+import { categoryLabel, DEFAULT_AVATAR, DEFAULT_REMINDERS, defaultProfile, DEFAULT_THEME, QUEST_CHAINS } from "@/lib/constants";
+import { createI18n, DEFAULT_LOCALE, detectLocale, LOCALES, type I18n, type Locale } from "@/lib/i18n";
+import { I18nProvider, useI18n } from "@/lib/i18n/context";
+import { dayKeyAt, fromDateKey, planDate, toDateKey, weekdayOf } from "@/lib/calendar";
+import { advanceCycle, todayIndexOf } from "@/lib/cycle";
+import { DEFAULT_FOCUS_MINUTES, finishTimer, focusedSeconds, pauseTimer, questMinutes, resumeTimer, startTimer } from "@/lib/focus";
+import { isMeasurable, logQuestAmount } from "@/lib/measure";
+import { describeUnlock, refreshLocks } from "@/lib/unlock";
+import { completionEvents, lastCompletion } from "@/lib/completions";
+import { summarizeStreaks } from "@/lib/streak";
+import { dayStartHourOf } from "@/lib/profile";
+import { achievementProgress, findAchievement, newAchievements, settleAchievements, type Achievement } from "@/lib/achievements";
+import { dayEntry, dayPrompts, questEntry, questPrompt, saveEntry, type JournalDraft } from "@/lib/journal";
+import { categoryColor, categoryIcon, DEFAULT_LIBRARY, hasCategory, libraryCategories, plannableCategories } from "@/lib/library";
+import { buildWeekPlan, defaultGeneratorSettings, localizePlanTitles, planOptionsFor } from "@/lib/plan";
+import { applyTheme, DARK_QUERY } from "@/lib/theme";
+import { downloadText } from "@/lib/transfer";
+import { useSync, type SyncController } from "@/lib/sync/useSync";
+import { addNotifications, dueReminders, isQuietTime, progressNotifications, unreadCount } from "@/lib/notifications";
+import { showBrowserNotification } from "@/lib/notify";
+import { usePwa, type PwaController } from "@/lib/pwa/usePwa";
+import { calculateRank, nextRankOf, rankLabel } from "@/lib/rank";
+import { addChain, addQuest, copyQuest, deleteQuest, moveDay, moveQuest, sameQuestCount, setDayEnabled, toggleDone, toggleEnabled, updateQuest } from "@/lib/questEdit";
+import { EMPTY_ACTIONS, forCycle, recordAction, redoAction, undoAction, undoTo, type ActionHistory, type ActionLabel, type PlanCommand } from "@/lib/undo";
+import { DAY_CLEAR_BONUS, dayBonusEarned, ledgerTotal, pointsForDay, questEarned, questPoints, reconcileLedger } from "@/lib/scoring";
+import { backupState, clearState, clearTrash, listBackups, loadState, readBackup, readTrash, removeBackup, saveState, trashState, type BackupEntry, type Recovery, type TrashEntry } from "@/lib/storage";
+import type { AppNotification, AppState, ArchivedWeek, CategoryKey, CompletionEvent, JournalEntry, CustomCategory, DayPlan, GeneratorSettings, PointEvent, Profile, ProfileAvatar, QuestChain, StreakRule, ReminderSettings, TemplateLibrary, Theme } from "@/lib/types";
+import { NotificationCenter } from "@/components/NotificationCenter";
+import { QuestForm, type QuestFormResult } from "@/components/QuestForm";
+import { ReminderSettingsCard } from "@/components/ReminderSettingsCard";
+import { AvatarIcon } from "@/components/AvatarIcon";
+import { ProfileEditorCard } from "@/components/ProfileEditorCard";
+import { ThemeEditorCard } from "@/components/ThemeEditorCard";
+import { MeasureControl } from "@/components/MeasureControl";
+import { AnalyticsView } from "@/components/AnalyticsView";
+import { FocusTimerButton, FocusTimerPanel } from "@/components/FocusTimerPanel";
+import { GeneratorSettingsCard } from "@/components/GeneratorSettingsCard";
+import { TemplateLibraryCard } from "@/components/TemplateLibraryCard";
+import { InstallAppCard } from "@/components/InstallAppCard";
+import { DataTransferCard } from "@/components/DataTransferCard";
+import { AccountCard } from "@/components/AccountCard";
+import { ActionHistoryPanel, describeAction } from "@/components/ActionHistoryPanel";
+import { TOAST_MS, UndoToast, type Toast } from "@/components/UndoToast";
+import { AchievementToast } from "@/components/AchievementToast";
+import { BadgeShowcase } from "@/components/BadgeShowcase";
+import { DayReflectionCard, JournalView } from "@/components/JournalView";
+import { QuestNoteSheet } from "@/components/QuestNoteSheet";
+import { DeleteQuestDialog } from "@/components/DeleteQuestDialog";
+
+import { ChatRequestError, streamChat } from "@/lib/chat/client";
+import { buildPlanContext } from "@/lib/chat/context";
+import { applyToolCall, describeToolCall } from "@/lib/chat/tools";
+import { autoTitle, loadConversations, newConversation, saveConversations } from "@/lib/chat/history";
+import type { Streak, StreakSummary } from "@/lib/streak";
+import type { ChatItem, ChatMsg, Conversation, PlanContext, ProposalItem, ToolCall } from "@/lib/chat/types";
+import { ChatHistoryMenu } from "@/components/ChatHistoryMenu";
+import { uid } from "@/lib/utils";
 
 /** -----------------------------
  *  画面コンポーネント
  *  ----------------------------*/
- type Tab = "ホーム" | "クエスト" | "チャット" | "設定";
+ type Tab = "home" | "quests" | "analytics" | "journal" | "chat" | "settings";
+
+/** 時単位のローカル時刻（1日の始まりの判定に使う） */
+const localHourKey = (d: Date) => `${toDateKey(d)}T${d.getHours()}`;
 
 export default function Page() {
-  const [tab, setTab] = useState<Tab>("ホーム");
+  const [tab, setTab] = useState<Tab>("home");
   const [state, setState] = useState<AppState | null>(null);
+  const [wizardLocale, setWizardLocale] = useState<Locale>(DEFAULT_LOCALE); // プラン作成前の言語
+  const [wizardLibrary, setWizardLibrary] = useState<TemplateLibrary>(DEFAULT_LIBRARY); // プラン作成前のテンプレート
   const [selected, setSelected] = useState<CategoryKey[]>([]);
+  const [recovery, setRecovery] = useState<Recovery | null>(null);
+  const [finishedWeek, setFinishedWeek] = useState<ArchivedWeek | null>(null);
+  const [composeDay, setComposeDay] = useState<number | null>(null); // ホームの「+ 追加」から開いた日
+  const [notifOpen, setNotifOpen] = useState(false);
+  const [timerSetup, setTimerSetup] = useState<{ dayIdx: number; qid: string } | null>(null);
+  const [noteFor, setNoteFor] = useState<{ dayIdx: number; qid: string } | null>(null); // メモを書くクエスト
+  const [actions, setActions] = useState<ActionHistory>(EMPTY_ACTIONS); // 元に戻す / やり直す
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [toast, setToast] = useState<Toast | null>(null);
+  const [trash, setTrash] = useState<TrashEntry | null>(null); // リセットしたデータ（猶予期間内）
+  const [celebration, setCelebration] = useState<Achievement[] | null>(null); // 獲得したばかりの実績
+
+  // 週が終わっていれば次の週へ進める（読み込み・同期・インポートのときも通す）。
+  // これまでの記録で満たしている実績は、お祝いせずに獲得済みにする
+  const rollover = (s: AppState): AppState => {
+    const advanced = advanceCycle(s);
+    if (advanced) {
+      advanced.ledger = reconcileLedger(advanced);
+      setFinishedWeek(advanced.history[advanced.history.length - 1]);
+    }
+    const rolled = advanced ?? s;
+    const next = settleAchievements(rolled, todayIndexOf(rolled));
+    if (next !== s) saveState(next);
+    return next;
+  };
 
-  // 初期ロード
+  // 初期ロード（プランがなければ言語はブラウザの設定から決める）
   useEffect(() => {
-    const s = loadState();
-    if (s) {
+    setWizardLocale(detectLocale());
+    const { state: loaded, recovery: r } = loadState();
+    if (r) setRecovery(r);
+    setTrash(readTrash());
+    if (loaded) {
+      const s = rollover(loaded);
       setState(s);
       if (!s.plans?.length && s.selectedCategories?.length) {
         setSelected(s.selectedCategories);
@@ -176,81 +126,326 @@ export default function Page() {
     }
   }, []);
 
+  // 開いたまま日付をまたいだ場合も、1 分ごとの確認と画面に戻ったタイミングで今日と週を進める
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const [, setLocalHour] = useState(() => localHourKey(new Date())); // 変わると再描画して今日を求め直す
+  useEffect(() => {
+    const check = () => {
+      setLocalHour(localHourKey(new Date()));
+      if (document.visibilityState !== "visible" || !stateRef.current) return;
+      const next = rollover(stateRef.current);
+      if (next !== stateRef.current) setState(next);
+    };
+    document.addEventListener("visibilitychange", check);
+    const timer = setInterval(check, 60_000);
+    return () => {
+      document.removeEventListener("visibilitychange", check);
+      clearInterval(timer);
+    };
+  }, []);
+
+  // 受信箱に入れた通知を、設定に応じてブラウザ通知でも出す（おやすみ時間は除く）
+  const notifyBrowser = (s: AppState, added: AppNotification[]) => {
+    if (!s.reminders.browser || isQuietTime(s.reminders.quietHours, new Date())) return;
+    added.forEach((n) => void showBrowserNotification(n));
+  };
+
+  // リマインダー：起動時と 1 分ごとに判定
+  useEffect(() => {
+    const tick = () => {
+      const s = stateRef.current;
+      if (!s?.startDate || !s.plans.length) return;
+      const due = dueReminders(s, todayIndexOf(s));
+      if (!due.length) return;
+      const next = { ...s, notifications: addNotifications(s.notifications, due) };
+      setState(next);
+      saveState(next);
+      notifyBrowser(next, due);
+    };
+    tick();
+    const timer = setInterval(tick, 60_000);
+    return () => clearInterval(timer);
+  }, [state?.startDate]);
+
+  // PWA：Service Worker（オフライン・ブラウザ通知）の登録と、新しいビルドの確認
+  const pwa = usePwa();
+
+  // テーマ：保存された設定を <html> に反映。system のときは OS の切り替えにも追従する
+  const theme = state?.theme ?? DEFAULT_THEME;
+  useEffect(() => {
+    const media = window.matchMedia(DARK_QUERY);
+    const apply = () => applyTheme(theme, media.matches);
+    apply();
+    media.addEventListener("change", apply);
+    return () => media.removeEventListener("change", apply);
+  }, [theme]);
+
+  // 言語：保存された設定を <html lang> と説明文に反映する
+  const locale = state?.locale ?? wizardLocale;
+  const i18n = createI18n(locale);
+  const { t, fmt } = i18n;
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.querySelector('meta[name="description"]')?.setAttribute("content", appDescription(locale));
+  }, [locale]);
+
+  // 端末間同期：ほかの端末の変更を取り込んだ結果を反映する
+  const sync = useSync(state, locale, (synced) => {
+    const next = rollover(synced);
+    setState(next);
+    saveState(next);
+    setSelected(next.selectedCategories);
+  });
+
   const hasPlan = !!state?.plans?.length;
 
-  const todayIndex = useMemo(() => {
-    if (!state?.createdAt) return 0;
-    const created = new Date(state.createdAt);
-    const diffMs = new Date().getTime() - created.getTime();
-    const day = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-    return Math.max(0, Math.min(6, day));
-  }, [state?.createdAt]);
+  // 暦日で数える（1日の始まりの時刻より前は前日）
+  const todayIndex = state ? todayIndexOf(state) : 0;
 
   const todayPlan = state?.plans?.[todayIndex];
 
-  // スコアは全期間の完了クエスト×ポイントで概算
-  const totalPoints = useMemo(() => {
-    if (!state?.plans) return 0;
-    const flat = state.plans.flatMap((p) => p.quests);
-    const doneCnt = flat.filter((q) => q.enabled && q.done).length;
-    return doneCnt * POINTS_PER_QUEST;
-  }, [state?.plans]);
+  // スコアはポイント台帳の合計
+  const totalPoints = useMemo(() => ledgerTotal(state?.ledger ?? []), [state?.ledger]);
 
-  const username = "勇者タクロウ"; // mock
   const currentRank = calculateRank(totalPoints);
-  const rankOrder: Rank[] = [
-    "入門者 (Novice)",
-    "従者 (Squire)",
-    "騎士 (Knight)",
-    "侯爵 (Marquis)",
-    "公爵 (Duke)",
-    "王者 (Sovereign)",
-  ];
-  const nextRank = rankOrder[Math.min(rankOrder.indexOf(currentRank) + 1, rankOrder.length - 1)];
-  const thresholdByRank: Record<Rank, number> = {
-    "入門者 (Novice)": 0,
-    "従者 (Squire)": 50,
-    "騎士 (Knight)": 100,
-    "侯爵 (Marquis)": 200,
-    "公爵 (Duke)": 500,
-    "王者 (Sovereign)": 1000,
-  };
-  const toNext = Math.max(thresholdByRank[nextRank] - totalPoints, 0);
+  const { pointsToNext: toNext } = nextRankOf(totalPoints);
+
+  const streaks = useMemo(() => (state ? summarizeStreaks(state, todayIndex) : null), [state, todayIndex]);
+  const achievements = useMemo(() => (state ? achievementProgress(state, todayIndex) : []), [state, todayIndex]);
 
   const weekDoneTotal = useMemo(() => state?.plans?.reduce((s, p) => s + p.quests.filter((q) => q.enabled && q.done).length, 0) ?? 0, [state?.plans]);
   const weekAllTotal = useMemo(() => state?.plans?.reduce((s, p) => s + p.quests.filter((q) => q.enabled).length, 0) ?? 0, [state?.plans]);
   const weekProgress = weekAllTotal ? Math.round((weekDoneTotal / weekAllTotal) * 100) : 0;
 
-  const toggleDone = (dayIdx: number, qid: string) => {
+  // プランを変更したら台帳を突き合わせてから保存する
+  const commit = (next: AppState) => {
+    next.ledger = reconcileLedger(next);
+    next.plans = refreshLocks(next);
+    if (state) next.completions = [...next.completions, ...completionEvents(state, next)];
+    earnAchievements(next);
+    const added = state ? progressNotifications(state, next) : [];
+    next.notifications = addNotifications(next.notifications, added);
+    setState(next);
+    saveState(next);
+    notifyBrowser(next, added);
+  };
+
+  // 実績：新しく条件を満たしたものを獲得済みにしてお祝いする（元に戻しても取り消さない）
+  const earnAchievements = (next: AppState) => {
+    const earned = newAchievements(next, todayIndexOf(next));
+    if (!earned.length) return;
+    next.achievements = [...next.achievements, ...earned];
+    setCelebration(earned.map((e) => findAchievement(e.id)).filter((a): a is Achievement => !!a));
+  };
+
+  // 通知・設定など、台帳に関係しない項目の更新
+  const update = (patch: Partial<AppState>) => {
+    if (!state) return;
+    const next = { ...state, ...patch };
+    setState(next);
+    saveState(next);
+  };
+
+  const showToast = (message: string, undo?: Toast["undo"]) => setToast({ id: uid(), message, undo });
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+  useEffect(() => {
+    if (!celebration) return;
+    const timer = setTimeout(() => setCelebration(null), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [celebration]);
+
+  // プランを変える操作はすべてここを通し、操作履歴に積む（変化がなければ何もしない）
+  const dispatch = (command: PlanCommand) => {
+    if (!state) return;
+    const plans = command.run(state.plans);
+    if (plans === state.plans) return;
+    commit({ ...state, plans });
+    setActions((h) => recordAction(forCycle(h, state.cycle), command, state.cycle, state.plans, plans));
+    showToast(describeAction(command, t), "action");
+  };
+
+  // 元に戻す / やり直す：保存しておいたプランを通常の変更として commit する
+  const undo = () => {
+    if (!state) return;
+    const result = undoAction(forCycle(actions, state.cycle));
+    if (!result) return;
+    commit({ ...state, plans: result.action.before });
+    setActions(result.history);
+    showToast(t("undo.undone", { action: describeAction(result.action, t) }));
+  };
+
+  const redo = () => {
     if (!state) return;
-    const copy = structuredClone(state) as AppState;
-    const day = copy.plans[dayIdx];
-    const q = day.quests.find((x) => x.id === qid);
-    if (!q || !q.enabled) return;
-    q.done = !q.done;
-    setState(copy);
-    saveState(copy);
+    const result = redoAction(forCycle(actions, state.cycle));
+    if (!result) return;
+    commit({ ...state, plans: result.action.after });
+    setActions(result.history);
+    showToast(t("undo.redone", { action: describeAction(result.action, t) }));
   };
 
-  const toggleEnabled = (dayIdx: number, qid: string) => {
+  const undoUntil = (id: string) => {
     if (!state) return;
-    const copy = structuredClone(state) as AppState;
-    const day = copy.plans[dayIdx];
-    const q = day.quests.find((x) => x.id === qid);
-    if (!q) return;
-    q.enabled = !q.enabled;
-    // 有効→無効にしたら完了フラグも落とす
-    if (!q.enabled) q.done = false;
-    setState(copy);
-    saveState(copy);
+    const result = undoTo(forCycle(actions, state.cycle), id);
+    if (!result) return;
+    commit({ ...state, plans: result.plans });
+    setActions(result.history);
+  };
+
+  // キーボード：Ctrl/⌘+Z で元に戻す、Ctrl/⌘+Shift+Z または Ctrl+Y でやり直す（入力中は除く）
+  const shortcutsRef = useRef({ undo, redo });
+  shortcutsRef.current = { undo, redo };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) shortcutsRef.current.undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") shortcutsRef.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  const editPlans = (fn: (plans: DayPlan[]) => DayPlan[], label: ActionLabel) => dispatch({ ...label, run: fn });
+
+  const titleOf = (dayIdx: number, qid: string) => state?.plans[dayIdx]?.quests.find((q) => q.id === qid)?.title;
+
+  // 完了にしたらメモの入力を開く（書かずに閉じてもよい）
+  const toggleQuestDone = (dayIdx: number, qid: string) => {
+    const quest = state?.plans[dayIdx]?.quests.find((q) => q.id === qid);
+    dispatch({ kind: "toggle_done", title: quest?.title, run: (plans) => toggleDone(plans, dayIdx, qid) });
+    if (quest && quest.enabled && !quest.locked && !quest.done) setNoteFor({ dayIdx, qid });
   };
 
+  const toggleQuestEnabled = (dayIdx: number, qid: string) =>
+    dispatch({ kind: "toggle_enabled", title: titleOf(dayIdx, qid), run: (plans) => toggleEnabled(plans, dayIdx, qid) });
+
+  const setDayEnabledAll = (dayIdx: number, enabled: boolean) =>
+    dispatch({ kind: "toggle_day", title: t("common.day", { day: dayIdx + 1 }), run: (plans) => setDayEnabled(plans, dayIdx, enabled) });
+
+  // チャットの提案カードから確認済みの操作を適用する（失敗時はエラーメッセージ）
+  const applyTool = (call: ToolCall): string | null => {
+    if (!state) return t("chat.noPlan");
+    const result = applyToolCall(state.plans, call, i18n, state.library);
+    if (!result.ok) return result.error;
+    dispatch({ kind: "chat", title: describeToolCall(state.plans, call, i18n, state.library), run: () => result.plans });
+    return null;
+  };
+
+  // 集中タイマー：開始前に時間を決め、終了時に記録とクエストの完了を反映する
+  const setupQuest = timerSetup ? state?.plans[timerSetup.dayIdx]?.quests.find((q) => q.id === timerSetup.qid) : undefined;
+
+  const startFocus = (minutes: number) => {
+    if (!state || !timerSetup || !setupQuest) return;
+    update({ timer: startTimer(setupQuest, state.cycle, timerSetup.dayIdx, minutes) });
+    setTimerSetup(null);
+  };
+
+  const finishFocus = () => {
+    if (state?.timer) commit(finishTimer(state));
+  };
+
+  // 日記：書き直しは上書き保存（操作履歴には積まない）。日記の実績もあるので commit を通す
+  const saveJournal = (draft: JournalDraft) => {
+    if (!state) return;
+    commit({ ...state, journal: saveEntry(state.journal, draft) });
+    showToast(t(draft.text.trim() || draft.mood || draft.energy ? "journal.saved" : "journal.removed"));
+  };
+
+  const noteQuest = noteFor ? state?.plans[noteFor.dayIdx]?.quests.find((q) => q.id === noteFor.qid) : undefined;
+
+  const saveQuestNote = (text: string) => {
+    if (!state?.startDate || !noteFor || !noteQuest) return;
+    saveJournal({
+      kind: "quest",
+      cycle: state.cycle,
+      dayIndex: noteFor.dayIdx,
+      date: planDate(state.startDate, noteFor.dayIdx),
+      questId: noteQuest.id,
+      questTitle: noteQuest.title,
+      category: noteQuest.category,
+      prompt: questPrompt(noteQuest.category),
+      text,
+    });
+    setNoteFor(null);
+  };
+
+  const saveReflection = (reflection: Pick<JournalDraft, "text" | "mood" | "energy" | "prompt">) => {
+    if (!state?.startDate) return;
+    saveJournal({ kind: "day", cycle: state.cycle, dayIndex: todayIndex, date: planDate(state.startDate, todayIndex), ...reflection });
+  };
+
+  // インポート：現在のデータを退避してから置き換える（統合済みの state もここを通る）
+  const importState = (imported: AppState) => {
+    if (state) backupState(state);
+    const next = rollover(imported);
+    setState(next);
+    saveState(next);
+    setSelected(next.selectedCategories);
+    setActions(EMPTY_ACTIONS);
+  };
+
+  // 言語の切り替え：テンプレートから作ったクエストのタイトルも新しい言語にする
+  const changeLocale = (next: Locale) => {
+    if (!state) return setWizardLocale(next);
+    update({ locale: next, plans: localizePlanTitles(state.plans, next) });
+  };
+
+  // テンプレートライブラリ：削除したカテゴリは選択からも外す
+  const library = state?.library ?? wizardLibrary;
+  const changeLibrary = (next: TemplateLibrary) => {
+    setSelected((prev) => prev.filter((k) => hasCategory(next, k)));
+    if (!state) return setWizardLibrary(next);
+    // 選んだカテゴリでプランを作れなくなったら、来週は既定のカテゴリで作る
+    const selectedCategories = plannableCategories(next, state.selectedCategories);
+    if (!selectedCategories.every((k) => state.selectedCategories.includes(k))) showToast(t("library.fallbackCategories"));
+    update({ library: next, selectedCategories });
+  };
+
+  // リセット：データはゴミ箱に移し、猶予期間のうちは元に戻せる
   const resetAll = () => {
+    if (state && !trashState(state)) {
+      // ゴミ箱に入らない（容量不足など）ときは、戻せないことを確認してから消す
+      if (!confirm(t("reset.noUndoConfirm"))) return;
+      clearState();
+    }
     setState(null);
     setSelected([]);
-    if (typeof window !== "undefined") localStorage.removeItem(STORAGE_KEY);
+    setActions(EMPTY_ACTIONS);
+    setTrash(readTrash());
+    showToast(t("reset.done"), "reset");
+  };
+
+  const restoreReset = () => {
+    const entry = readTrash();
+    setTrash(null);
+    if (!entry) return showToast(t("reset.expired"));
+    clearTrash();
+    importState(entry.state);
+    showToast(t("reset.restored"));
+  };
+
+  const undoToast = () => {
+    if (toast?.undo === "reset") restoreReset();
+    else undo();
+    setToast(null);
   };
 
+  const toastView = (
+    <>
+      {toast && <UndoToast toast={toast} onUndo={undoToast} onDismiss={() => setToast(null)} />}
+      {celebration?.length ? <AchievementToast achievements={celebration} onDismiss={() => setCelebration(null)} /> : null}
+    </>
+  );
+
   // まだプランがない → 旧ウィザードを表示
   if (!hasPlan) {
     const toggleCategory = (key: CategoryKey) => {
@@ -258,127 +453,198 @@ export default function Page() {
     };
 
     const generate = () => {
-      const base = selected.length ? selected : (["運動", "学習"] as CategoryKey[]);
-      const plans = buildWeekPlan(base);
+      const base = plannableCategories(library, selected);
+      const generator = state?.generator ?? defaultGeneratorSettings();
+      const cycle = state?.cycle ?? 1;
+      const plans = buildWeekPlan(base, planOptionsFor({ generator, history: state?.history ?? [], locale, library }, cycle));
+      const profile = state?.profile ?? defaultProfile(t);
+      const now = new Date();
       const next: AppState = {
-        selectedCategories: base as CategoryKey[],
+        selectedCategories: base,
         plans,
-        createdAt: new Date().toISOString(),
+        createdAt: now.toISOString(),
+        startDate: dayKeyAt(now, dayStartHourOf(profile)),
+        ledger: state?.ledger ?? [],
+        cycle,
+        history: state?.history ?? [],
+        notifications: state?.notifications ?? [],
+        reminders: state?.reminders ?? DEFAULT_REMINDERS,
+        generator,
+        timer: null,
+        focusLog: state?.focusLog ?? [],
+        completions: state?.completions ?? [],
+        streakRule: state?.streakRule ?? "any",
+        profile,
+        locale,
+        library,
+        journal: state?.journal ?? [],
+        achievements: state?.achievements ?? [],
       };
       setState(next);
       saveState(next);
     };
 
     return (
+      <I18nProvider locale={locale}>
       <main className="mx-auto max-w-screen-sm p-4 text-black">
-        <h1 className="text-xl font-semibold mb-4">どんな分野を伸ばしたい？</h1>
-        <p className="text-sm text-neutral-600 mb-3">3つ前後選ぶのがおすすめ（後で変更できます）</p>
+        {recovery && <RecoveryNotice recovery={recovery} onDismiss={() => setRecovery(null)} />}
+        {trash && <ResetTrashNotice entry={trash} onRestore={restoreReset} />}
+        {pwa.updateReady && <UpdateNotice onUpdate={pwa.update} onDismiss={pwa.dismissUpdate} />}
+        <div className="mb-4 flex items-start justify-between gap-3">
+          <h1 className="text-xl font-semibold">{t("wizard.title")}</h1>
+          <LocaleSelect locale={locale} onChange={changeLocale} />
+        </div>
+        <p className="text-sm text-neutral-600 mb-3">{t("wizard.hint")}</p>
         <div className="grid grid-cols-3 gap-3">
-          {ALL_CATEGORIES.map((c) => {
-            const active = selected.includes(c.key);
+          {libraryCategories(library).map((key) => {
+            const active = selected.includes(key);
+            const color = categoryColor(library, key);
             return (
               <button
-                key={c.key}
-                onClick={() => toggleCategory(c.key)}
+                key={key}
+                onClick={() => toggleCategory(key)}
                 className={`rounded-2xl border p-4 text-sm shadow-sm transition ${active ? "bg-rose-100 border-rose-300" : "bg-white border-neutral-200 hover:bg-neutral-50"}`}
+                style={color ? { borderLeftColor: color, borderLeftWidth: 4 } : undefined}
               >
-                {c.label}
+                <span className="me-1" aria-hidden>{categoryIcon(library, key)}</span>
+                {categoryLabel(key, t, library.categories)}
               </button>
             );
           })}
         </div>
 
         <div className="mt-6 flex items-center justify-between">
-          <button onClick={generate} className="rounded-xl bg-rose-500 px-4 py-2 text-white shadow">7日間プランを作成</button>
-          <button onClick={() => setSelected([])} className="text-sm text-neutral-600 underline underline-offset-4">選択をクリア</button>
+          <button onClick={generate} className="rounded-xl bg-rose-500 px-4 py-2 text-white shadow">{t("wizard.generate")}</button>
+          <button onClick={() => setSelected([])} className="text-sm text-neutral-600 underline underline-offset-4">{t("wizard.clear")}</button>
+        </div>
+
+        <div className="mt-8 space-y-4">
+          <TemplateLibraryCard library={library} onChange={changeLibrary} />
+          <AccountCard sync={sync} />
+          <DataTransferCard state={null} onImport={importState} />
         </div>
+        {toastView}
       </main>
+      </I18nProvider>
     );
   }
 
-  // Page() 内に追加
-  const setDayEnabledAll = (dayIdx: number, enabled: boolean) => {
-    if (!state) return;
-    const copy = structuredClone(state) as AppState;
-    copy.plans[dayIdx].quests = copy.plans[dayIdx].quests.map(q => ({
-      ...q,
-      enabled,
-      // 無効化時は done も落とす
-      done: enabled ? q.done : false,
-    }));
-    setState(copy);
-    saveState(copy);
-  };
-
   // 以降：新デザイン UI
   const todayEnabled = todayPlan?.quests.filter((q) => q.enabled) ?? [];
   const todayDone = todayEnabled.filter((q) => q.done);
   const doneCount = todayDone.length;
   const totalCount = todayEnabled.length;
-  const todayEarned = doneCount * POINTS_PER_QUEST;
+  const todayEarned = todayPlan ? pointsForDay(state.ledger, state.cycle, todayIndex, todayPlan) : 0;
   const achievementRate = totalCount === 0 ? 0 : Math.round((doneCount / totalCount) * 100);
+  const unread = unreadCount(state.notifications);
+  const todayReflection = dayEntry(state.journal, state.cycle, todayIndex);
+  const reflectionPrompts = dayPrompts(todayEnabled.map((q) => q.category));
 
   return (
+    <I18nProvider locale={locale}>
     <main className="min-h-dvh bg-[var(--background)] text-[var(--foreground)]">
-      {/* CSS Variables for light/dark */}
-      <style jsx global>{`
-        :root { --background: #f7f7f7; --foreground: #111111; }
-        .dark { --background: #0a0a0a; --foreground: #e5e5e5; }
-      `}</style>
-
           <div className="mx-auto max-w-4xl px-4 pb-24 pt-6 lg:px-6">
       {/* Header */}
       <header className="mb-4 flex items-center justify-between">
         <h1 className="text-xl font-semibold">River Agent</h1>
-        <button
-          className="relative inline-flex items-center justify-center rounded-full p-2 text-neutral-600 hover:bg-black/5 dark:text-neutral-300 dark:hover:bg-white/10"
-          aria-label="通知"
-          onClick={() => alert("通知一覧を開く（実装予定）")}
-        >
-          <Bell className="h-5 w-5" />
-          {/* 未読バッジ */}
-          <span className="absolute -top-0.5 -right-0.5 flex h-2.5 w-2.5 items-center justify-center rounded-full bg-red-500 text-[10px] text-white"></span>
-        </button>
+        <div className="flex items-center gap-1">
+        {!pwa.online && (
+          <span className="inline-flex items-center gap-1 rounded-full bg-neutral-200 px-2 py-0.5 text-xs text-neutral-700 dark:bg-white/10 dark:text-neutral-300" title={t("pwa.offlineHint")}>
+            <WifiOff className="h-3.5 w-3.5" />
+            {t("pwa.offline")}
+          </span>
+        )}
+        <div className="relative">
+          <button
+            className="inline-flex items-center justify-center rounded-full p-2 text-neutral-600 hover:bg-black/5 dark:text-neutral-300 dark:hover:bg-white/10"
+            aria-label={t("undo.history")}
+            aria-expanded={historyOpen}
+            onClick={() => {
+              setHistoryOpen((v) => !v);
+              setNotifOpen(false);
+            }}
+          >
+            <History className="h-5 w-5" />
+          </button>
+          {historyOpen && <ActionHistoryPanel history={forCycle(actions, state.cycle)} onUndo={undo} onRedo={redo} onUndoTo={undoUntil} />}
+        </div>
+        <div className="relative">
+          <button
+            className="relative inline-flex items-center justify-center rounded-full p-2 text-neutral-600 hover:bg-black/5 dark:text-neutral-300 dark:hover:bg-white/10"
+            aria-label={unread ? t("notif.unreadLabel", { count: unread }) : t("notif.title")}
+            aria-expanded={notifOpen}
+            onClick={() => {
+              setNotifOpen((v) => !v);
+              setHistoryOpen(false);
+            }}
+          >
+            <Bell className="h-5 w-5" />
+            {/* 未読バッジ */}
+            {unread > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] text-white">
+                {unread > 99 ? "99+" : unread}
+              </span>
+            )}
+          </button>
+          {notifOpen && (
+            <NotificationCenter
+              notifications={state.notifications}
+              onMarkRead={(id) => update({ notifications: state.notifications.map((n) => (n.id === id ? { ...n, read: true } : n)) })}
+              onMarkAllRead={() => update({ notifications: state.notifications.map((n) => ({ ...n, read: true })) })}
+              onClear={() => update({ notifications: [] })}
+            />
+          )}
+        </div>
+        </div>
         {/*右上ボタン */}
       </header>
 
-        {tab === "ホーム" && (
+      {recovery && <RecoveryNotice recovery={recovery} onDismiss={() => setRecovery(null)} />}
+      {pwa.updateReady && <UpdateNotice onUpdate={pwa.update} onDismiss={pwa.dismissUpdate} />}
+      {finishedWeek && <WeekFinishedNotice week={finishedWeek} onDismiss={() => setFinishedWeek(null)} />}
+
+        {tab === "home" && (
           <>
             {/* Profile Card */}
             <section className="mb-6 rounded-2xl border bg-white/80 p-4 shadow-sm backdrop-blur-sm dark:border-white/10 dark:bg-white/5">
               <div className="flex items-start gap-4">
                 {/* Avatar */}
-                <div className="grid h-12 w-12 place-items-center rounded-full bg-gradient-to-br from-blue-100 to-indigo-100 text-lg font-bold text-blue-700 dark:from-sky-900/40 dark:to-indigo-900/40 dark:text-sky-200">
-                  🙂
-                </div>
+                <AvatarIcon avatar={state.profile.avatar} />
 
                 <div className="flex-1">
                   <div className="flex flex-wrap items-center gap-2">
-                    <p className="text-sm text-neutral-500">{username}</p>
-                    <span className="rounded-full bg-neutral-900 px-2.5 py-0.5 text-xs text-white dark:bg-sky-600">
-                      {currentRank}
+                    <p className="text-sm text-neutral-500">{state.profile.displayName}</p>
+                    <span className="rounded-full bg-accent px-2.5 py-0.5 text-xs text-white">
+                      {rankLabel(currentRank, t)}
                     </span>
                   </div>
+                  {state.profile.goal && <p className="mt-1 text-sm">🎯 {state.profile.goal}</p>}
                   <div className="mt-1 flex flex-wrap items-center gap-3 text-sm">
-                    <span className="font-medium">★ {totalPoints.toLocaleString()} ポイント</span>
-                    <span className="text-neutral-500">次ランクまで {toNext.toLocaleString()} pt</span>
+                    <span className="font-medium">★ {t("home.points", { points: totalPoints })}</span>
+                    <span className="text-neutral-500">{t("home.toNextRank", { points: toNext })}</span>
                   </div>
 
+                  {/* 連続記録 */}
+                  <StreakBadges summary={streaks} rule={state.streakRule} custom={state.library.categories} />
+
+                  {/* 実績のバッジ */}
+                  <BadgeShowcase progress={achievements} custom={state.library.categories} />
+
                   {/* Week progress bar */}
                   <div className="mt-4 h-2 w-full overflow-hidden rounded-full bg-neutral-100 dark:bg-white/10">
-                    <div className="h-full rounded-full bg-neutral-900 transition-all dark:bg-sky-500" style={{ width: `${weekProgress}%` }} />
+                    <div className="h-full rounded-full bg-accent transition-all" style={{ width: `${weekProgress}%` }} />
                   </div>
 
                   {/* Week days */}
                   <div className="mt-3 flex items-center gap-3 overflow-x-auto">
-                    {["月", "火", "水", "木", "金", "土", "日"].map((d, i) => {
+                    {state.plans.map((_, i) => (state.startDate ? fmt.weekday(weekdayOf(planDate(state.startDate, i))) : "")).map((d, i) => {
                       const state = i < todayIndex ? "done" : i === todayIndex ? "active" : "future";
                       return (
-                        <div key={d} className="flex items-center gap-2">
+                        <div key={i} className="flex items-center gap-2">
                           <div
                             className={[
                               "grid h-7 w-7 place-items-center rounded-full text-xs",
-                              state === "done" && "bg-neutral-900 text-white dark:bg-sky-500",
+                              state === "done" && "bg-accent text-white",
                               state === "active" && "border-2 border-neutral-900 text-neutral-900 dark:border-sky-400 dark:text-sky-200",
                               state === "future" && "bg-neutral-100 text-neutral-400 dark:bg-white/10",
                             ].filter(Boolean).join(" ")}
@@ -392,9 +658,12 @@ export default function Page() {
                     <div className="grow" />
                     <button
                       className="ms-auto inline-flex items-center gap-1 rounded-lg border px-2.5 py-1.5 text-xs hover:bg-black/5 dark:hover:bg-white/10"
-                      onClick={() => setTab("クエスト")}
+                      onClick={() => {
+                        setComposeDay(todayIndex);
+                        setTab("quests");
+                      }}
                     >
-                      + 追加
+                      {t("home.add")}
                     </button>
                   </div>
                 </div>
@@ -403,37 +672,62 @@ export default function Page() {
 
             {/* Today's Quests */}
             <section className="space-y-3">
-              <h2 className="sr-only">今日のクエスト</h2>
+              <h2 className="sr-only">{t("home.todayQuests")}</h2>
               {todayEnabled.map((q) => (
                 <article key={q.id} className="rounded-2xl border bg-white/80 p-4 shadow-sm backdrop-blur-sm dark:border-white/10 dark:bg-white/5">
                   <div className="flex items-start gap-3">
                     <label className="mt-0.5 inline-flex items-center gap-2">
                       <input
                         type="checkbox"
-                        className="size-4 rounded border-neutral-300 text-neutral-900 focus:ring-neutral-900 dark:text-sky-500"
+                        className="size-4 rounded border-neutral-300 text-neutral-900 focus:ring-neutral-900 disabled:opacity-40 dark:text-sky-500"
                         checked={q.done}
-                        onChange={() => toggleDone(todayIndex, q.id)}
+                        disabled={q.locked}
+                        onChange={() => toggleQuestDone(todayIndex, q.id)}
                       />
                     </label>
                     <div className="flex-1">
                       <div className="flex flex-wrap items-center justify-between gap-2">
                         <div>
                           <p className="font-medium leading-tight">{q.title}</p>
-                          <p className="text-xs text-neutral-500">Day {todayIndex + 1}</p>
+                          <p className="text-xs text-neutral-500">{t("common.day", { day: todayIndex + 1 })}</p>
                         </div>
                         <div className="whitespace-nowrap text-xs">
-                          <span className="inline-flex items-center gap-1 rounded-full bg-neutral-900 px-2 py-0.5 text-white dark:bg-sky-600">
-                            +{POINTS_PER_QUEST}ポイント
+                          <span className="inline-flex items-center gap-1 rounded-full bg-accent px-2 py-0.5 text-white">
+                            {t("home.questPoints", { points: questPoints(q) })}
                           </span>
                         </div>
                       </div>
-                      <div className="mt-2 text-xs text-neutral-500">{q.done ? "完了済み" : "未開始"}</div>
+                      {q.locked && q.unlock && (
+                        <p className="mt-2 inline-flex items-center gap-1 text-xs text-amber-700">
+                          <Lock className="h-3.5 w-3.5" />
+                          {describeUnlock(q.unlock, state, t)}
+                        </p>
+                      )}
+                      {isMeasurable(q) && !q.locked && (
+                        <MeasureControl quest={q} onLog={(delta) => editPlans((p) => logQuestAmount(p, todayIndex, q.id, delta), { kind: "log_amount", title: q.title })} />
+                      )}
+                      <div className="mt-2 flex items-center justify-between gap-2 text-xs text-neutral-500">
+                        <span>
+                          {t(q.done ? "quest.status.done" : q.locked ? "quest.status.locked" : q.amount ? "quest.status.inProgress" : "quest.status.notStarted")}
+                          {focusedSeconds(state.focusLog, q.id) >= 60 && t("quest.focused", { minutes: Math.floor(focusedSeconds(state.focusLog, q.id) / 60) })}
+                        </span>
+                        {!q.done && !q.locked && (
+                          <FocusTimerButton onClick={() => setTimerSetup({ dayIdx: todayIndex, qid: q.id })} disabled={!!state.timer} />
+                        )}
+                        {q.done && (
+                          <button onClick={() => setNoteFor({ dayIdx: todayIndex, qid: q.id })} className="inline-flex items-center gap-1 underline underline-offset-4">
+                            <NotebookPen className="h-3.5 w-3.5" />
+                            {t(questEntry(state.journal, state.cycle, q.id) ? "journal.editNote" : "journal.writeNote")}
+                          </button>
+                        )}
+                      </div>
+                      <QuestNoteText entry={questEntry(state.journal, state.cycle, q.id)} />
                     </div>
                   </div>
                 </article>
               ))}
               {todayEnabled.length === 0 && (
-                <div className="rounded-2xl border bg-white/60 p-4 text-sm text-neutral-500">今日は有効なクエストがありません</div>
+                <div className="rounded-2xl border bg-white/60 p-4 text-sm text-neutral-500">{t("home.noQuests")}</div>
               )}
             </section>
 
@@ -441,72 +735,153 @@ export default function Page() {
             <section className="mt-6 grid grid-cols-1 gap-3 sm:grid-cols-3">
               <div className="rounded-2xl border bg-white/80 p-4 text-center shadow-sm backdrop-blur-sm dark:border-white/10 dark:bg-white/5">
                 <div className="text-2xl font-semibold">{doneCount}/{totalCount}</div>
-                <div className="mt-1 text-xs text-neutral-500">完了クエスト</div>
+                <div className="mt-1 text-xs text-neutral-500">{t("home.summary.done")}</div>
               </div>
               <div className="rounded-2xl border bg-white/80 p-4 text-center shadow-sm backdrop-blur-sm dark:border-white/10 dark:bg-white/5">
-                <div className="text-2xl font-semibold">{todayEarned}</div>
-                <div className="mt-1 text-xs text-neutral-500">獲得ポイント</div>
+                <div className="text-2xl font-semibold">{fmt.number(todayEarned)}</div>
+                <div className="mt-1 text-xs text-neutral-500">{t("home.summary.earned")}</div>
               </div>
               <div className="rounded-2xl border bg-white/80 p-4 text-center shadow-sm backdrop-blur-sm dark:border-white/10 dark:bg-white/5">
                 <div className="text-2xl font-semibold">{achievementRate}%</div>
-                <div className="mt-1 text-xs text-neutral-500">達成率</div>
+                <div className="mt-1 text-xs text-neutral-500">{t("home.summary.rate")}</div>
               </div>
             </section>
+
+            {/* 今日のふりかえり */}
+            <section className="mt-6">
+              <DayReflectionCard
+                key={todayReflection?.updatedAt ?? `new:${todayIndex}`}
+                title={t("journal.reflection")}
+                entry={todayReflection}
+                prompts={reflectionPrompts}
+                onSave={saveReflection}
+              />
+            </section>
           </>
         )}
 
-        {tab === "クエスト" && state && (
+        {tab === "quests" && state && (
           <QuestView
             plans={state.plans}
+            ledger={state.ledger}
+            completions={state.completions}
+            cycle={state.cycle}
+            history={state.history}
+            library={state.library}
+            journal={state.journal}
+            startDate={state.startDate}
             todayIndex={todayIndex}
-            onToggleDone={toggleDone}
-            onToggleEnabled={toggleEnabled}
-            onToggleDayEnabled={setDayEnabledAll} 
+            onToggleDone={toggleQuestDone}
+            onToggleEnabled={toggleQuestEnabled}
+            onToggleDayEnabled={setDayEnabledAll}
+            onEditPlans={editPlans}
+            onOpenTimer={state.timer ? undefined : (dayIdx, qid) => setTimerSetup({ dayIdx, qid })}
+            onOpenNote={(dayIdx, qid) => setNoteFor({ dayIdx, qid })}
+            initialComposeDay={composeDay}
           />
         )}
 
-        {tab === "チャット" && <ChatView />}
+        {tab === "analytics" && <AnalyticsView state={state} todayIndex={todayIndex} />}
 
-        {tab === "設定" && (
+        {tab === "journal" && (
+          <JournalView
+            journal={state.journal}
+            today={{ entry: todayReflection, prompts: reflectionPrompts }}
+            onChange={(journal) => update({ journal })}
+            onSaveToday={saveReflection}
+          />
+        )}
+
+        {tab === "chat" && (
+          <ChatView
+            avatar={state.profile.avatar}
+            agent={{
+              context: buildPlanContext(state, todayIndex, { totalPoints, rank: rankLabel(currentRank, t), pointsToNextRank: toNext }, t),
+              plans: state.plans,
+              library: state.library,
+              onApply: applyTool,
+            }}
+          />
+        )}
+
+        {tab === "settings" && (
           <SettingsView
             onReset={resetAll}
-            theme={state.theme ?? DEFAULT_THEME}
-            onThemeChange={(theme) => {
-              setState((prev) => (prev ? { ...prev, theme } : null));
-              if (state) saveState({ ...state, theme });
-            }}
+            state={state}
+            onImport={importState}
+            theme={theme}
+            onThemeChange={(theme) => update({ theme })}
+            reminders={state.reminders}
+            onRemindersChange={(reminders) => update({ reminders })}
+            onGeneratorChange={(generator) => update({ generator })}
+            onStreakRuleChange={(streakRule) => update({ streakRule })}
+            onProfileChange={(profile) => update({ profile })}
+            onLocaleChange={changeLocale}
+            onLibraryChange={changeLibrary}
+            sync={sync}
+            pwa={pwa}
           />
         )}
       </div>
 
-      {/* 下のボタン4つ */}
+      <FocusTimerPanel
+        key={state.timer ? "running" : timerSetup?.qid ?? "idle"}
+        timer={state.timer}
+        setup={setupQuest ? { title: setupQuest.title, minutes: questMinutes(setupQuest) ?? DEFAULT_FOCUS_MINUTES } : null}
+        onStart={startFocus}
+        onCancelSetup={() => setTimerSetup(null)}
+        onPause={() => state.timer && update({ timer: pauseTimer(state.timer) })}
+        onResume={() => state.timer && update({ timer: resumeTimer(state.timer) })}
+        onFinish={finishFocus}
+        onDiscard={() => update({ timer: null })}
+      />
+
+      {noteFor && noteQuest && (
+        <QuestNoteSheet
+          key={`${noteFor.dayIdx}:${noteQuest.id}`}
+          title={noteQuest.title}
+          prompt={questPrompt(noteQuest.category)}
+          text={questEntry(state.journal, state.cycle, noteQuest.id)?.text}
+          onSave={saveQuestNote}
+          onClose={() => setNoteFor(null)}
+        />
+      )}
+
+      {/* 下のタブ */}
       <nav className="fixed inset-x-0 bottom-0 z-40 border-t bg-white/90 backdrop-blur supports-[backdrop-filter]:bg-white/60 dark:border-white/10 dark:bg-zinc-900/70">
-        <ul className="mx-auto grid max-w-4xl grid-cols-4 px-4 py-2 text-xs">
+        <ul className="mx-auto grid max-w-4xl grid-cols-6 px-2 py-2 text-xs">
           {([
-            { label: "ホーム", icon: Home },
-            { label: "クエスト", icon: ClipboardList },
-            { label: "チャット", icon: MessageCircle },
-            { label: "設定", icon: Settings },
+            { tab: "home", icon: Home },
+            { tab: "quests", icon: ClipboardList },
+            { tab: "analytics", icon: ChartColumn },
+            { tab: "journal", icon: NotebookPen },
+            { tab: "chat", icon: MessageCircle },
+            { tab: "settings", icon: Settings },
           ] as const).map((item) => (
-            <li key={item.label} className="flex items-center justify-center">
+            <li key={item.tab} className="flex items-center justify-center">
               <button
                 className={[
-                  "flex min-w-[4.5rem] flex-col items-center rounded-xl px-3 py-1.5",
-                  tab === item.label
-                    ? "bg-neutral-900 text-white dark:bg-sky-600"
+                  "flex min-w-[3.75rem] flex-col items-center rounded-xl px-2 py-1.5",
+                  tab === item.tab
+                    ? "bg-accent text-white"
                     : "text-neutral-600 hover:bg-black/5 dark:text-neutral-300 dark:hover:bg-white/10",
                 ].join(" ")}
-                onClick={() => setTab(item.label as Tab)}
+                onClick={() => {
+                  setComposeDay(null);
+                  setTab(item.tab);
+                }}
               >
                 {/* ←ここを修正 */}
                 <item.icon className="h-5 w-5 mb-1" strokeWidth={2} />
-                <span>{item.label}</span>
+                <span>{t(`tab.${item.tab}`)}</span>
               </button>
             </li>
           ))}
         </ul>
       </nav>
+      {toastView}
     </main>
+    </I18nProvider>
   );
 }
 
@@ -515,39 +890,131 @@ export default function Page() {
  *  ----------------------------*/
 function QuestView({
   plans,
+  ledger,
+  completions,
+  cycle,
+  history,
+  library,
+  journal,
+  startDate,
   todayIndex,
   onToggleDone,
   onToggleEnabled,
   onToggleDayEnabled,
+  onEditPlans,
+  onOpenTimer,
+  onOpenNote,
+  initialComposeDay,
 }: {
   plans: DayPlan[];
+  ledger: PointEvent[];
+  completions: CompletionEvent[];
+  cycle: number;
+  history: ArchivedWeek[];
+  library: TemplateLibrary;
+  journal: JournalEntry[];
+  startDate?: string; // 今週の1日目
   todayIndex: number;
   onToggleDone: (dayIdx: number, qid: string) => void;
   onToggleEnabled: (dayIdx: number, qid: string) => void;
   onToggleDayEnabled: (dayIdx: number, enabled: boolean) => void;
+  onEditPlans: (fn: (plans: DayPlan[]) => DayPlan[], label: ActionLabel) => void;
+  onOpenTimer?: (dayIdx: number, qid: string) => void; // タイマー実行中は undefined
+  onOpenNote: (dayIdx: number, qid: string) => void;
+  initialComposeDay: number | null;
 }) {
+  const { locale, t, fmt } = useI18n();
+  // 表示中の週（過去の週は閲覧のみ）
+  const [viewCycle, setViewCycle] = useState(cycle);
+  const archived = history.find((w) => w.cycle === viewCycle);
+  const readOnly = !!archived;
+  const shownPlans = archived?.plans ?? plans;
+  const shownStart = archived ? archived.startDate : startDate;
+
+  // 編集モード
+  const [editing, setEditing] = useState(initialComposeDay !== null);
+  const [form, setForm] = useState<{ dayIdx: number; qid?: string } | null>(
+    initialComposeDay !== null ? { dayIdx: initialComposeDay } : null
+  );
+  const [dragFrom, setDragFrom] = useState<{ dayIdx: number; index: number } | null>(null);
+  const canEdit = editing && !readOnly;
+
+  const submitForm = ({ draft, days, applyToWeek }: QuestFormResult) => {
+    if (!form) return;
+    const { dayIdx, qid } = form;
+    if (qid) {
+      onEditPlans((ps) => copyQuest(updateQuest(ps, dayIdx, qid, draft, applyToWeek), dayIdx, qid, days), { kind: "edit_quest", title: draft.title });
+    } else {
+      onEditPlans((ps) => addQuest(ps, days, draft), { kind: "add_quest", title: draft.title });
+    }
+    setForm(null);
+  };
+
+  // ロック条件の前提にできるクエスト（編集中のクエスト自身は除く）
+  const prerequisitesFor = (qid?: string) =>
+    plans.flatMap((p, i) => p.quests.filter((q) => q.id !== qid).map((q) => ({ id: q.id, label: `${t("common.day", { day: i + 1 })}: ${q.title}` })));
+
+  // 週内に同じクエストが複数あれば、削除する範囲をダイアログで選ぶ
+  const [deleting, setDeleting] = useState<{ dayIdx: number; qid: string; title: string; count: number } | null>(null);
+  const removeQuest = (dayIdx: number, qid: string, title: string) => {
+    const count = sameQuestCount(plans, dayIdx, qid);
+    if (count > 1) setDeleting({ dayIdx, qid, title, count });
+    else if (confirm(t("quests.confirmDelete", { title }))) {
+      onEditPlans((ps) => deleteQuest(ps, dayIdx, qid), { kind: "delete_quest", title });
+    }
+  };
+
   return (
     <section className="space-y-4">
-      <h1 className="text-xl font-semibold">クエスト</h1>
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-xl font-semibold">{t("tab.quests")}</h1>
+        <div className="grow" />
+        {!readOnly && (
+          <button
+            onClick={() => {
+              setEditing((v) => !v);
+              setForm(null);
+            }}
+            className={[
+              "rounded-lg border px-2.5 py-1 text-sm",
+              editing ? "border-violet-300 bg-violet-50 text-violet-700" : "hover:bg-black/5",
+            ].join(" ")}
+          >
+            {editing ? t("quests.finishEditing") : t("common.edit")}
+          </button>
+        )}
+        {history.length > 0 && (
+          <select
+            value={viewCycle}
+            onChange={(e) => setViewCycle(Number(e.target.value))}
+            className="rounded-lg border bg-white px-2 py-1 text-sm dark:border-white/10 dark:bg-white/10"
+            aria-label={t("quests.weekSelect")}
+          >
+            <option value={cycle}>{t("quests.thisWeek", { cycle: String(cycle) })}</option>
+            {[...history].reverse().map((w) => (
+              <option key={w.cycle} value={w.cycle}>
+                {t("quests.pastWeek", { cycle: String(w.cycle), date: fmt.date(w.startedAt) })}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {archived && <WeekStatsCard week={archived} />}
+
+      {canEdit && <ChainPicker dayCount={plans.length} onAdd={(chain, dayIdx) => onEditPlans((ps) => addChain(ps, chain, dayIdx, locale), { kind: "add_chain", title: chain.name[locale] })} />}
 
       <div className="space-y-4">
-        {plans.map((p, idx) => {
-          const isToday = idx === todayIndex;
+        {shownPlans.map((p, idx) => {
+          const isToday = !readOnly && idx === todayIndex;
           const dayEnabled = p.quests.some((q) => q.enabled);
-
-          const toggleDay = (checked: boolean) => {
-            // Day単位でON/OFF（全クエストの enabled を切り替え）
-            p.quests.forEach((q) => {
-              q.enabled = checked;
-              if (!checked) q.done = false;
-            });
-          };
+          const bonusEarned = dayBonusEarned(ledger, viewCycle, idx);
 
           return (
             <div
               key={p.day}
               className={[
-                "rounded-2xl border bg-white p-4 shadow-sm",
+                "rounded-2xl border bg-white p-4 shadow-sm dark:border-white/10 dark:bg-white/5",
                 isToday ? "border-rose-300 ring-2 ring-rose-100" : "border-neutral-200",
               ].join(" ")}
             >
@@ -557,24 +1024,46 @@ function QuestView({
                   <span className="grid h-7 w-7 place-items-center rounded-full bg-neutral-100 text-sm font-medium text-neutral-700">{p.day}</span>
                   <div>
                     <div className="flex items-center gap-2">
-                      <div className="font-semibold">Day {p.day}</div>
+                      <div className="font-semibold">{t("common.day", { day: p.day })}</div>
+                      {shownStart && <PlanDateLabel date={planDate(shownStart, idx)} />}
                       {isToday && (
-                        <span className="rounded-full bg-rose-500 px-2 py-0.5 text-[10px] font-semibold text-white">TODAY</span>
+                        <span className="rounded-full bg-rose-500 px-2 py-0.5 text-[10px] font-semibold text-white">{t("quests.today")}</span>
                       )}
                     </div>
                   </div>
+                  {canEdit && (
+                    <div className="flex gap-1 text-xs">
+                      <button
+                        onClick={() => onEditPlans((ps) => moveDay(ps, idx, idx - 1), { kind: "move_day", title: t("common.day", { day: p.day }) })}
+                        disabled={idx === 0}
+                        className="rounded border px-1.5 disabled:opacity-30"
+                        aria-label={t("quests.moveDayUp", { day: p.day })}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => onEditPlans((ps) => moveDay(ps, idx, idx + 1), { kind: "move_day", title: t("common.day", { day: p.day }) })}
+                        disabled={idx === shownPlans.length - 1}
+                        className="rounded border px-1.5 disabled:opacity-30"
+                        aria-label={t("quests.moveDayDown", { day: p.day })}
+                      >
+                        ↓
+                      </button>
+                    </div>
+                  )}
                 </div>
 
               {/* Dayスイッチ */}
               <label className="inline-flex cursor-pointer items-center gap-2 select-none">
                 <span className="hidden text-xs text-neutral-500 sm:inline">
-                  {dayEnabled ? "有効" : "無効"}
+                  {dayEnabled ? t("quests.enabled") : t("quests.disabled")}
                 </span>
 
                 <input
                   type="checkbox"
                   checked={dayEnabled}                                
-                  onChange={(e) => onToggleDayEnabled(idx, e.target.checked)}  
+                  onChange={(e) => onToggleDayEnabled(idx, e.target.checked)}
+                  disabled={readOnly}
                   className="peer sr-only"
                 />
 
@@ -592,15 +1081,58 @@ function QuestView({
 
               {/* Quests list */}
               <ul className="space-y-3">
-                {p.quests.map((q) => (
-                  <li key={q.id} className="rounded-xl border border-neutral-100 bg-white/80 p-3 shadow-sm">
+                {p.quests.map((q, qi) => (
+                  <li
+                    key={q.id}
+                    className={[
+                      "rounded-xl border border-neutral-100 bg-white/80 p-3 shadow-sm dark:border-white/10 dark:bg-white/5",
+                      dragFrom?.dayIdx === idx && dragFrom.index === qi && "opacity-50",
+                    ].filter(Boolean).join(" ")}
+                    draggable={canEdit}
+                    onDragStart={() => setDragFrom({ dayIdx: idx, index: qi })}
+                    onDragEnd={() => setDragFrom(null)}
+                    onDragOver={(e) => {
+                      if (dragFrom?.dayIdx === idx) e.preventDefault();
+                    }}
+                    onDrop={() => {
+                      if (dragFrom?.dayIdx === idx) onEditPlans((ps) => moveQuest(ps, idx, dragFrom.index, qi), { kind: "move_quest", title: p.quests[dragFrom.index]?.title });
+                      setDragFrom(null);
+                    }}
+                  >
+                    {form?.qid === q.id ? (
+                      <QuestForm
+                        mode="edit"
+                        dayIdx={idx}
+                        dayCount={shownPlans.length}
+                        initial={{ title: q.title, category: q.category, points: q.points, note: q.note, remindAt: q.remindAt, target: q.target, unit: q.unit, unlock: q.unlock }}
+                        prerequisites={prerequisitesFor(q.id)}
+                        library={library}
+                        onSubmit={submitForm}
+                        onCancel={() => setForm(null)}
+                      />
+                    ) : (
                     <div className="flex items-start gap-3">
+                      {/* 並べ替えハンドル（ドラッグ or ↑↓キー） */}
+                      {canEdit && (
+                        <button
+                          className="mt-0.5 cursor-grab rounded px-1 text-neutral-400 hover:bg-black/5 focus:outline-none focus:ring-2 focus:ring-violet-400/40"
+                          aria-label={t("quests.reorder", { title: q.title })}
+                          onKeyDown={(e) => {
+                            if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+                            e.preventDefault();
+                            const to = e.key === "ArrowUp" ? qi - 1 : qi + 1;
+                            onEditPlans((ps) => moveQuest(ps, idx, qi, to), { kind: "move_quest", title: q.title });
+                          }}
+                        >
+                          ⋮⋮
+                        </button>
+                      )}
                       {/* checkbox */}
                       <input
                         type="checkbox"
                         className="mt-0.5 h-5 w-5 rounded border-neutral-300 text-violet-600 focus:ring-violet-600 disabled:opacity-40"
                         checked={q.done}
-                        disabled={!q.enabled || q.locked}
+                        disabled={readOnly || !q.enabled || q.locked}
                         onChange={() => onToggleDone(idx, q.id)}
                       />
 
@@ -610,45 +1142,80 @@ function QuestView({
                             <p className={["font-medium", q.done ? "line-through text-neutral-400" : ""].filter(Boolean).join(" ")}>{q.title}</p>
                             {/* サブ情報 */}
                             {(q.category || q.note) && (
-                              <p className="text-xs text-neutral-500">{q.category}{q.note ? ` ・ ${q.note}` : ""}</p>
+                              <p className="text-xs text-neutral-500">{q.category && categoryLabel(q.category, t, library.categories)}{q.note ? ` ・ ${q.note}` : ""}</p>
                             )}
                           </div>
 
-                          {/* ポイントバッジ */}
-                          <span className="whitespace-nowrap rounded-full bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-600">
-                            +{(q.points ?? POINTS_PER_QUEST)}pt
-                          </span>
+                          {/* ポイントバッジ（獲得済みなら台帳の値） */}
+                          {(() => {
+                            const earned = questEarned(ledger, q.id);
+                            return (
+                              <span
+                                className={[
+                                  "whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-medium",
+                                  earned > 0 ? "bg-emerald-50 text-emerald-700" : "bg-indigo-50 text-indigo-600",
+                                ].join(" ")}
+                              >
+                                {t(earned > 0 ? "quests.pointsEarned" : "quests.points", { points: earned > 0 ? earned : questPoints(q) })}
+                              </span>
+                            );
+                          })()}
                         </div>
 
-                        {/* 進捗バー or ステータス */}
-                        {typeof q.progress === "number" && !q.done && (
-                          <div className="mt-2 flex items-center gap-2">
-                            <div className="h-2 flex-1 overflow-hidden rounded-full bg-neutral-100">
-                              <div className="h-full rounded-full bg-orange-400 transition-all" style={{ width: `${q.progress}%` }} />
-                            </div>
-                            <span className="text-xs text-neutral-500">{q.progress}%</span>
-                          </div>
+                        {/* 数値目標の進捗 */}
+                        {isMeasurable(q) && (
+                          <MeasureControl
+                            quest={q}
+                            disabled={readOnly || !q.enabled}
+                            onLog={(delta) => onEditPlans((p) => logQuestAmount(p, idx, q.id, delta), { kind: "log_amount", title: q.title })}
+                          />
                         )}
 
                         <div className="mt-2 flex items-center gap-3 text-xs">
                           {q.done && (
                             <span className="inline-flex items-center gap-1 text-emerald-600">
                               <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="M20 6L9 17l-5-5"/></svg>
-                              完了済み
+                              {t("quest.status.done")}
+                              {(() => {
+                                const c = lastCompletion(completions, q.id);
+                                if (!c?.done) return null;
+                                return (
+                                  <>
+                                    <span className="text-neutral-400">{fmt.shortDateTime(c.at)}</span>
+                                    {!c.sameDay && (
+                                      <span className="rounded bg-amber-50 px-1 text-amber-700" title={t("quests.lateHint")}>{t("quests.late")}</span>
+                                    )}
+                                  </>
+                                );
+                              })()}
                             </span>
                           )}
-                          {!q.enabled && (
-                            <span className="inline-flex items-center gap-1 text-neutral-400">
-                              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 17a2 2 0 0 0 2-2V7a2 2 0 0 0-4 0v8a2 2 0 0 0 2 2z"/><path d="M5 11h14v10H5z"/></svg>
-                              ロック中
+                          {!q.enabled && <span className="text-neutral-400">{t("quests.disabled")}</span>}
+                          {q.enabled && q.locked && q.unlock && (
+                            <span className="inline-flex items-center gap-1 text-amber-700">
+                              <Lock className="h-3.5 w-3.5" />
+                              {t("quests.lockedReason", { reason: describeUnlock(q.unlock, { plans, history, ledger, library }, t) })}
                             </span>
                           )}
+                          {!readOnly && q.enabled && !q.done && !q.locked && (
+                            <span className="ms-auto">
+                              <FocusTimerButton onClick={() => onOpenTimer?.(idx, q.id)} disabled={!onOpenTimer} />
+                            </span>
+                          )}
+                          {!readOnly && q.done && (
+                            <button onClick={() => onOpenNote(idx, q.id)} className="ms-auto inline-flex items-center gap-1 text-neutral-500 underline underline-offset-4">
+                              <NotebookPen className="h-3.5 w-3.5" />
+                              {t(questEntry(journal, viewCycle, q.id) ? "journal.editNote" : "journal.writeNote")}
+                            </button>
+                          )}
                         </div>
+                        <QuestNoteText entry={questEntry(journal, viewCycle, q.id)} />
                       </div>
 
                       {/* 個別ON/OFF */}
                       <button
                         onClick={() => onToggleEnabled(idx, q.id)}
+                        disabled={readOnly}
                         className={["rounded-full border px-2 py-1 text-xs",
                           q.enabled ? "border-emerald-200 bg-emerald-50 text-emerald-700" : "border-neutral-200 bg-neutral-100 text-neutral-500"
                         ].join(" ")}
@@ -656,69 +1223,252 @@ function QuestView({
                       >
                         {q.enabled ? "ON" : "OFF"}
                       </button>
+
+                      {canEdit && (
+                        <div className="flex flex-col gap-1 text-xs">
+                          <button onClick={() => setForm({ dayIdx: idx, qid: q.id })} className="rounded border px-2 py-0.5 hover:bg-black/5">
+                            {t("common.edit")}
+                          </button>
+                          <button onClick={() => removeQuest(idx, q.id, q.title)} className="rounded border border-rose-200 px-2 py-0.5 text-rose-600 hover:bg-rose-50">
+                            {t("common.delete")}
+                          </button>
+                        </div>
+                      )}
                     </div>
+                    )}
                   </li>
                 ))}
               </ul>
 
-              {/* Bonus banner（今日のみ）*/}
-              {isToday && (
+              {canEdit && (
+                form && !form.qid && form.dayIdx === idx ? (
+                  <div className="mt-3">
+                    <QuestForm
+                      mode="add"
+                      dayIdx={idx}
+                      dayCount={shownPlans.length}
+                      prerequisites={prerequisitesFor()}
+                      library={library}
+                      onSubmit={submitForm}
+                      onCancel={() => setForm(null)}
+                    />
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setForm({ dayIdx: idx })}
+                    className="mt-3 w-full rounded-xl border border-dashed py-2 text-sm text-neutral-500 hover:bg-black/5"
+                  >
+                    {t("quests.addQuest")}
+                  </button>
+                )
+              )}
+
+              {/* Bonus banner（今日 or 獲得済みの日）*/}
+              {(isToday || bonusEarned > 0) && (
                 <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">
                   <div className="flex items-center gap-2 font-medium">
-                    <span>🔥 今日のボーナス</span>
-                    <span className="rounded-full bg-white/80 px-2 py-0.5 text-xs text-rose-600">+50pt</span>
+                    <span>🔥 {isToday ? t("quests.bonusToday") : t("quests.bonus")}</span>
+                    <span className="rounded-full bg-white/80 px-2 py-0.5 text-xs text-rose-600">{t("quests.points", { points: DAY_CLEAR_BONUS })}</span>
+                    {bonusEarned > 0 && <span className="text-xs text-emerald-700">{t("quests.bonusEarned")}</span>}
                   </div>
-                  <p className="mt-1 text-rose-600/90">すべてのクエストを完了すると追加ポイントを獲得！</p>
+                  {bonusEarned === 0 && (
+                    <p className="mt-1 text-rose-600/90">{t("quests.bonusHint")}</p>
+                  )}
                 </div>
               )}
             </div>
           );
         })}
       </div>
+      {deleting && (
+        <DeleteQuestDialog
+          title={deleting.title}
+          count={deleting.count}
+          onDelete={(applyToWeek) => {
+            const { dayIdx, qid, title } = deleting;
+            onEditPlans((ps) => deleteQuest(ps, dayIdx, qid, applyToWeek), { kind: "delete_quest", title });
+            setDeleting(null);
+          }}
+          onCancel={() => setDeleting(null)}
+        />
+      )}
     </section>
   );
 }
 
 
 /** -----------------------------
- *  NEW: チャット（模擬）<-バックエンド連携
+ *  チャット（/api/chat とストリーミング連携）
  *  ----------------------------*/
-/* ---------- NEW ChatView (replace here) ---------- */
-function ChatView() {
-  const [messages, setMessages] = useState<ChatMsg[]>([
-    { role: "assistant", content: "River Agentです！ 何でもお聞きください 🤖" },
-    { role: "assistant", content: "こんにちは！今日はどのようなことでお手伝いできますか？" },
-  ]);
+// エージェントの提案（ツール呼び出し）は確認カード（ProposalItem）としてタイムラインに並べる
+type ChatAgent = {
+  context: PlanContext;
+  plans: DayPlan[];
+  library: TemplateLibrary;
+  onApply: (call: ToolCall) => string | null;
+};
+
+/** API に送る履歴。提案は結果を添えたアシスタント発言に置き換える */
+function toApiMessages(items: ChatItem[], plans: DayPlan[], library: TemplateLibrary, i18n: I18n): ChatMsg[] {
+  const { t } = i18n;
+  return items.map((m) => {
+    if (m.role !== "proposal") return { role: m.role, content: m.content };
+    const status = t(`chat.proposal.${m.status}`);
+    return { role: "assistant", content: t("chat.proposal.history", { description: describeToolCall(plans, m.call, i18n, library), status }) };
+  });
+}
+
+const nowIso = () => new Date().toISOString();
+
+function ChatView({ agent, avatar = DEFAULT_AVATAR }: { agent?: ChatAgent; avatar?: ProfileAvatar }) {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  // 会話は localStorage に保存し、タブを切り替えても残す
+  const [conversations, setConversations] = useState<Conversation[]>(() => {
+    const loaded = loadConversations(t);
+    return loaded.length ? loaded : [newConversation(t)];
+  });
+  const [activeId, setActiveId] = useState(() => conversations[0].id);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const active = conversations.find((c) => c.id === activeId) ?? conversations[0];
+  const messages = active.items;
+
+  useEffect(() => {
+    saveConversations(conversations);
+  }, [conversations]);
+
+  const updateItems = (id: string, fn: (items: ChatItem[]) => ChatItem[]) => {
+    setConversations((prev) =>
+      prev.map((c) => {
+        if (c.id !== id) return c;
+        const next = { ...c, items: fn(c.items), updatedAt: nowIso() };
+        return { ...next, title: autoTitle(next) };
+      })
+    );
+  };
+  const setMessages = (fn: ChatItem[] | ((items: ChatItem[]) => ChatItem[])) =>
+    updateItems(active.id, typeof fn === "function" ? fn : () => fn);
+
   const [isTyping, setIsTyping] = useState(false);
+  const [streaming, setStreaming] = useState<string | null>(null); // 受信中の応答
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement | null>(null);
 
-  const handleSubmit = (text: string) => {
-    const t = text.trim();
-    if (!t) return;
-    const userMsg: ChatMsg = { role: "user", content: t };
-    setMessages((prev) => [...prev, userMsg]);
-    setIsTyping(true);
+  // タブ切り替えなどでアンマウントされたら受信を止める
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-    const reply = mockAssistant(t, messages);
-    setTimeout(() => {
-      setMessages((prev) => [...prev, { role: "assistant", content: reply }]);
+  const request = async (history: ChatItem[]) => {
+    const convId = active.id;
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setError(null);
+    setIsTyping(true);
+    setStreaming(null);
+
+    let text = "";
+    const proposals: ProposalItem[] = [];
+    try {
+      await streamChat(toApiMessages(history, agent?.plans ?? [], agent?.library ?? DEFAULT_LIBRARY, i18n), {
+        signal: ctrl.signal,
+        locale,
+        context: agent?.context,
+        onToken: (token) => {
+          text += token;
+          setStreaming(text);
+        },
+        onToolCall: (call) => proposals.push({ role: "proposal", id: uid(), call, status: "pending", at: nowIso() }),
+      });
+      updateItems(convId, (prev) => [
+        ...prev,
+        ...(text ? [{ role: "assistant" as const, content: text, at: nowIso() }] : []),
+        ...(agent ? proposals : []),
+      ]);
+    } catch (e) {
+      if (ctrl.signal.aborted) {
+        // 中断：受信済みの部分だけ残す
+        if (text) updateItems(convId, (prev) => [...prev, { role: "assistant", content: t("chat.interrupted", { text }), at: nowIso() }]);
+      } else if (e instanceof ChatRequestError && e.status === 429) {
+        setError(t("chat.error.rateLimited", { seconds: e.retryAfterSec ?? 60 }));
+      } else {
+        setError(e instanceof Error ? e.message : t("chat.error.failed"));
+      }
+    } finally {
+      if (abortRef.current === ctrl) abortRef.current = null;
       setIsTyping(false);
-    }, Math.min(1200, Math.max(300, reply.length * 25)));
+      setStreaming(null);
+    }
+  };
+
+  const handleSubmit = (text: string) => {
+    const content = text.trim();
+    if (!content || isTyping) return;
+    const next: ChatItem[] = [...messages, { role: "user", content, at: nowIso() }];
+    setMessages(next);
+    void request(next);
+  };
+
+  const stop = () => abortRef.current?.abort();
+
+  const resolveProposal = (id: string, accept: boolean) => {
+    const item = messages.find((m): m is ProposalItem => m.role === "proposal" && m.id === id);
+    if (!item || item.status !== "pending") return;
+    const error = accept && agent ? agent.onApply(item.call) : null;
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.role === "proposal" && m.id === id
+          ? error
+            ? { ...m, error }
+            : { ...m, status: accept ? "applied" : "rejected", error: undefined }
+          : m
+      )
+    );
+  };
+
+  // 最後のユーザー発言までを再送
+  const retry = () => {
+    const last = messages.map((m) => m.role).lastIndexOf("user");
+    if (last < 0) return;
+    const history = messages.slice(0, last + 1);
+    setMessages(history);
+    void request(history);
+  };
+
+  // 会話を切り替えるときは受信中の応答を止める
+  const switchTo = (id: string) => {
+    stop();
+    setError(null);
+    setActiveId(id);
+    setMenuOpen(false);
   };
 
   const resetChat = () => {
-    setMessages([{ role: "assistant", content: "新しいチャットを始めよう。目標は？" }]);
+    const c = newConversation(t, t("chat.newGreeting"));
+    setConversations((prev) => [c, ...prev]);
+    switchTo(c.id);
+  };
+
+  const renameConversation = (id: string, title: string) => {
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title, titleEdited: true } : c)));
+  };
+
+  const deleteConversation = (id: string) => {
+    const rest = conversations.filter((c) => c.id !== id);
+    const next = rest.length ? rest : [newConversation(t)];
+    setConversations(next);
+    if (id === active.id) switchTo(next[0].id);
   };
 
   // 送受信のたびに最下部へ
   useEffect(() => {
     scrollRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streaming, error]);
 
   return (
     <section className="my-2 space-y-3">
       {/* Header */}
-      <div className="rounded-2xl border bg-white px-4 py-3 shadow-sm">
+      <div className="rounded-2xl border bg-white px-4 py-3 shadow-sm dark:border-white/10 dark:bg-white/5">
         <div className="flex items-center gap-3">
           <div className="relative">
             <div className="flex h-10 w-10 items-center justify-center rounded-full bg-violet-600 text-white">
@@ -730,25 +1480,50 @@ function ChatView() {
           </div>
           <div className="flex-1">
             <div className="text-base font-semibold leading-5">River Agent</div>
-            <div className="text-xs text-neutral-500">オンライン</div>
+            <div className="text-xs text-neutral-500">{t("chat.online")}</div>
           </div>
-          <button className="rounded-full p-2 text-neutral-500 hover:bg-neutral-100" aria-label="メニュー">
+          <button
+            className={["rounded-full p-2 text-neutral-500 hover:bg-neutral-100", menuOpen && "bg-neutral-100"].filter(Boolean).join(" ")}
+            aria-label={t("chat.menu")}
+            aria-expanded={menuOpen}
+            onClick={() => setMenuOpen((v) => !v)}
+          >
             <Ellipsis className="h-5 w-5" />
           </button>
         </div>
+        {menuOpen && (
+          <ChatHistoryMenu
+            conversations={conversations}
+            activeId={active.id}
+            onSelect={switchTo}
+            onNew={resetChat}
+            onRename={renameConversation}
+            onDelete={deleteConversation}
+          />
+        )}
       </div>
 
       {/* Timeline */}
-      <div className="h-80 space-y-3 overflow-y-auto rounded-2xl border bg-white p-4 shadow-sm">
+      <div className="h-80 space-y-3 overflow-y-auto rounded-2xl border bg-white p-4 shadow-sm dark:border-white/10 dark:bg-white/5">
         {messages.map((m, i) =>
-          m.role === "assistant" ? (
-            <BotBubble key={i}>{m.content}</BotBubble>
+          m.role === "proposal" ? (
+            <ProposalCard
+              key={m.id}
+              item={m}
+              description={describeToolCall(agent?.plans ?? [], m.call, i18n, agent?.library ?? DEFAULT_LIBRARY)}
+              onAccept={() => resolveProposal(m.id, true)}
+              onReject={() => resolveProposal(m.id, false)}
+            />
+          ) : m.role === "assistant" ? (
+            <BotBubble key={i} at={m.at}>{m.content}</BotBubble>
           ) : (
-            <UserBubble key={i}>{m.content}</UserBubble>
+            <UserBubble key={i} at={m.at} avatar={avatar}>{m.content}</UserBubble>
           )
         )}
 
-        {isTyping && (
+        {streaming !== null && <BotBubble streaming>{streaming}</BotBubble>}
+
+        {isTyping && streaming === null && (
           <div className="flex items-end gap-2">
             <div className="flex h-8 w-8 items-center justify-center rounded-full bg-violet-600 text-white">
               <Bot className="h-4 w-4" />
@@ -763,24 +1538,42 @@ function ChatView() {
           </div>
         )}
 
+        {error && (
+          <div className="flex items-center justify-between gap-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            <span>{error}</span>
+            <button onClick={retry} className="inline-flex items-center gap-1 whitespace-nowrap text-xs underline underline-offset-4">
+              <RotateCcw className="h-3.5 w-3.5" />
+              {t("chat.retry")}
+            </button>
+          </div>
+        )}
+
         {/* アンカー */}
         <div ref={scrollRef} />
 
         {/* サジェスト（タイピング時は非表示） */}
         {!isTyping && (
           <div className="mt-2 flex flex-wrap gap-2">
-            <SuggestChip onClick={() => handleSubmit("アイデア提案が欲しい")}>アイデア提案</SuggestChip>
-            <SuggestChip onClick={() => handleSubmit("データ分析をお願い")}>データ分析</SuggestChip>
+            <SuggestChip onClick={() => handleSubmit(t("chat.suggest.ideasPrompt"))}>{t("chat.suggest.ideas")}</SuggestChip>
+            <SuggestChip onClick={() => handleSubmit(t("chat.suggest.dataPrompt"))}>{t("chat.suggest.data")}</SuggestChip>
           </div>
         )}
       </div>
 
       {/* Input */}
-      <ChatInput onSubmit={handleSubmit} />
+      {isTyping && (
+        <div className="flex justify-center">
+          <button onClick={stop} className="inline-flex items-center gap-1 rounded-full border bg-white px-3 py-1 text-xs shadow-sm hover:bg-neutral-50 dark:border-white/10 dark:bg-white/10">
+            <Square className="h-3 w-3 fill-current" />
+            {t("chat.stop")}
+          </button>
+        </div>
+      )}
+      <ChatInput onSubmit={handleSubmit} disabled={isTyping} />
 
       <div className="flex justify-end">
         <button onClick={resetChat} className="text-xs text-neutral-600 underline underline-offset-4">
-          チャットをリセット
+          {t("chat.newChat")}
         </button>
       </div>
     </section>
@@ -788,28 +1581,65 @@ function ChatView() {
 }
 
 /* ---------- Sub Components ---------- */
-function BotBubble({ children }: { children: React.ReactNode }) {
+function BubbleTime({ at, className }: { at?: string; className: string }) {
+  const { fmt } = useI18n();
+  return <div className={className}>{fmt.time(at ?? new Date())}</div>;
+}
+
+function BotBubble({ children, streaming = false, at }: { children: React.ReactNode; streaming?: boolean; at?: string }) {
   return (
     <div className="flex items-start gap-2">
       <div className="mt-0.5 flex h-8 w-8 items-center justify-center rounded-full bg-violet-600 text-white">
         <Bot className="h-4 w-4" />
       </div>
-      <div className="max-w-[85%] rounded-2xl bg-white px-3 py-2 text-sm shadow ring-1 ring-black/5">
-        {children}
-        <div className="mt-1 text-[10px] text-neutral-400">14:23</div>
+      <div className="max-w-[85%] rounded-2xl bg-white px-3 py-2 text-sm shadow ring-1 ring-black/5 dark:border-white/10 dark:bg-white/5">
+        <span className="whitespace-pre-wrap">{children}</span>
+        {streaming && <span className="ms-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-neutral-400 align-middle" />}
+        <BubbleTime at={at} className="mt-1 text-[10px] text-neutral-400" />
       </div>
     </div>
   );
 }
 
-function UserBubble({ children }: { children: React.ReactNode }) {
+function ProposalCard({
+  item,
+  description,
+  onAccept,
+  onReject,
+}: {
+  item: ProposalItem;
+  description: string;
+  onAccept: () => void;
+  onReject: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="ms-10 max-w-[85%] rounded-2xl border border-violet-200 bg-violet-50 px-3 py-2 text-sm">
+      <div className="text-[10px] font-semibold uppercase tracking-wide text-violet-500">{t("chat.proposal.title")}</div>
+      <p className="mt-1">{description}</p>
+      {item.error && <p className="mt-1 text-xs text-rose-600">{item.error}</p>}
+      {item.status === "pending" ? (
+        <div className="mt-2 flex gap-2">
+          <button onClick={onAccept} className="rounded-lg bg-violet-600 px-3 py-1 text-xs text-white">{t("chat.proposal.accept")}</button>
+          <button onClick={onReject} className="rounded-lg border bg-white px-3 py-1 text-xs dark:border-white/10 dark:bg-white/10">{t("chat.proposal.reject")}</button>
+        </div>
+      ) : (
+        <p className={["mt-2 text-xs", item.status === "applied" ? "text-emerald-700" : "text-neutral-500"].join(" ")}>
+          {item.status === "applied" ? t("chat.proposal.appliedNote") : t("chat.proposal.rejectedNote")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function UserBubble({ children, at, avatar }: { children: React.ReactNode; at?: string; avatar: ProfileAvatar }) {
   return (
     <div className="flex items-start justify-end gap-2">
       <div className="max-w-[85%] rounded-2xl bg-blue-600 px-3 py-2 text-sm text-white shadow">
         {children}
-        <div className="mt-1 text-right text-[10px] text-blue-100/90">14:24</div>
+        <BubbleTime at={at} className="mt-1 text-right text-[10px] text-blue-100/90" />
       </div>
-      <div className="mt-0.5 h-8 w-8 rounded-full bg-neutral-300" />
+      <AvatarIcon avatar={avatar} className="mt-0.5 h-8 w-8 text-base" />
     </div>
   );
 }
@@ -822,26 +1652,27 @@ function SuggestChip({ children, onClick }: { children: React.ReactNode; onClick
   );
 }
 
-function ChatInput({ onSubmit }: { onSubmit: (text: string) => void }) {
+function ChatInput({ onSubmit, disabled = false }: { onSubmit: (text: string) => void; disabled?: boolean }) {
+  const { t } = useI18n();
   const [text, setText] = useState("");
 
   const send = () => {
-    const t = text.trim();
-    if (!t) return;
-    onSubmit(t);
+    const content = text.trim();
+    if (!content || disabled) return;
+    onSubmit(content);
     setText("");
   };
 
   return (
-    <div className="rounded-2xl border bg-white p-3 shadow-sm">
+    <div className="rounded-2xl border bg-white p-3 shadow-sm dark:border-white/10 dark:bg-white/5">
       <div className="flex items-center gap-2">
-        <button className="rounded-full p-2 text-neutral-600 hover:bg-neutral-100" aria-label="追加">
+        <button className="rounded-full p-2 text-neutral-600 hover:bg-neutral-100" aria-label={t("common.add")}>
           <Plus className="h-5 w-5" />
         </button>
 
         <input
           className="flex-1 rounded-xl border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-400/40"
-          placeholder="メッセージを入力…"
+          placeholder={t("chat.input.placeholder")}
           value={text}
           onChange={(e) => setText(e.target.value)}
           onKeyDown={(e) => {
@@ -852,19 +1683,19 @@ function ChatInput({ onSubmit }: { onSubmit: (text: string) => void }) {
           }}
         />
 
-        <button className="rounded-full p-2 text-neutral-600 hover:bg-neutral-100" aria-label="絵文字">
+        <button className="rounded-full p-2 text-neutral-600 hover:bg-neutral-100" aria-label={t("chat.input.emoji")}>
           <Smile className="h-5 w-5" />
         </button>
 
-        <button onClick={send} className="rounded-full bg-blue-600 p-2 text-white shadow hover:bg-blue-600/90" aria-label="送信">
+        <button onClick={send} disabled={disabled} className="rounded-full bg-blue-600 p-2 text-white shadow hover:bg-blue-600/90 disabled:opacity-40" aria-label={t("chat.input.send")}>
           <Send className="h-5 w-5" />
         </button>
       </div>
 
       <div className="mt-2 flex flex-wrap gap-2 text-sm">
-        <AttachmentChip icon={<Mic className="h-4 w-4" />}>音声入力</AttachmentChip>
-        <AttachmentChip icon={<Camera className="h-4 w-4" />}>写真</AttachmentChip>
-        <AttachmentChip icon={<Paperclip className="h-4 w-4" />}>ファイル</AttachmentChip>
+        <AttachmentChip icon={<Mic className="h-4 w-4" />}>{t("chat.input.voice")}</AttachmentChip>
+        <AttachmentChip icon={<Camera className="h-4 w-4" />}>{t("chat.input.photo")}</AttachmentChip>
+        <AttachmentChip icon={<Paperclip className="h-4 w-4" />}>{t("chat.input.file")}</AttachmentChip>
       </div>
     </div>
   );
@@ -881,30 +1712,306 @@ function AttachmentChip({ icon, children }: { icon: React.ReactNode; children: R
 
 
 
-//言葉を適当に返すだけの簡易版 //バックエンド
-// ダミー応答（既存のmockAssistantがあれば差し替え）
-function mockAssistant(input: string, _messages: ChatMsg[]): string {
-  if (/進捗|status|ステータス/.test(input)) return "現在の進捗を要約します。まずはタスク一覧を共有してください。";
-  if (/データ|分析/.test(input)) return "CSVかスプレッドシートをアップロードいただければ、概要統計→可視化→所見まで出します。";
-  return "承知しました。もう少し具体的に状況を教えてください。";
-}
-
 /** -----------------------------
  *  補助 UI
  *  ----------------------------*/
-function SettingsView({ onReset, theme, onThemeChange }: { onReset: () => void; theme: Theme; onThemeChange: (theme: Theme) => void }) {
+/** クエストに書いた日記のメモ */
+function QuestNoteText({ entry }: { entry?: JournalEntry }) {
+  if (!entry?.text) return null;
+  return <p className="mt-2 whitespace-pre-wrap rounded-lg bg-neutral-50 px-2 py-1.5 text-xs text-neutral-600 dark:bg-white/5 dark:text-neutral-300">📝 {entry.text}</p>;
+}
+
+/** プランの日の日付と曜日 */
+function PlanDateLabel({ date }: { date: string }) {
+  const { t, fmt } = useI18n();
+  return (
+    <span className="text-xs text-neutral-500">
+      {t("quests.date", { date: fmt.monthDay(fromDateKey(date)), weekday: fmt.weekday(weekdayOf(date), "short") })}
+    </span>
+  );
+}
+
+function StreakBadges({ summary, rule, custom }: { summary: StreakSummary | null; rule: StreakRule; custom: CustomCategory[] }) {
+  const { t } = useI18n();
+  if (!summary) return null;
+  const categories = (Object.entries(summary.categories) as [CategoryKey, Streak][]).filter(([, s]) => s.current > 0);
+  return (
+    <div className="mt-3 space-y-1.5 text-xs">
+      <div className="flex flex-wrap gap-2">
+        <span className="rounded-full bg-orange-50 px-2.5 py-1 text-orange-700 dark:bg-orange-500/10 dark:text-orange-300" title={t("streak.best", { count: summary.daily.best })}>
+          🔥 {t("streak.daily", { count: summary.daily.current })}
+        </span>
+        <span className="rounded-full bg-amber-50 px-2.5 py-1 text-amber-700 dark:bg-amber-500/10 dark:text-amber-300" title={t("streak.best", { count: summary.perfect.best })}>
+          ✨ {t("streak.perfect", { count: summary.perfect.current })}
+        </span>
+        {rule === "same_day" && <span className="px-1 py-1 text-neutral-400">{t("streak.sameDayOnly")}</span>}
+      </div>
+      {categories.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-neutral-500">
+          {categories.map(([cat, s]) => (
+            <span key={cat}>{t("streak.category", { category: categoryLabel(cat, t, custom), count: s.current })}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WeekStatsCard({ week }: { week: ArchivedWeek }) {
+  const { t, fmt } = useI18n();
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+      {[
+        { label: t("home.summary.done"), value: `${week.stats.done}/${week.stats.total}` },
+        { label: t("home.summary.rate"), value: `${week.stats.rate}%` },
+        { label: t("home.summary.earned"), value: fmt.number(week.stats.points) },
+        { label: t("week.clearedDays"), value: t("week.days", { count: week.stats.clearedDays }) },
+      ].map((c) => (
+        <div key={c.label} className="rounded-2xl border bg-white p-3 text-center shadow-sm dark:border-white/10 dark:bg-white/5">
+          <div className="text-lg font-semibold">{c.value}</div>
+          <div className="mt-1 text-xs text-neutral-500">{c.label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function WeekFinishedNotice({ week, onDismiss }: { week: ArchivedWeek; onDismiss: () => void }) {
+  const { t } = useI18n();
+  return (
+    <div className="mb-4 rounded-2xl border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium">{t("week.started", { cycle: String(week.cycle + 1) })}</p>
+          <p className="mt-1 text-xs text-emerald-700">
+            {t("week.lastWeekSummary", { rate: week.stats.rate, points: week.stats.points })}
+          </p>
+        </div>
+        <button onClick={onDismiss} className="text-xs underline underline-offset-4">{t("common.close")}</button>
+      </div>
+    </div>
+  );
+}
+
+function UpdateNotice({ onUpdate, onDismiss }: { onUpdate: () => void; onDismiss: () => void }) {
+  const { t } = useI18n();
+  return (
+    <div role="status" className="mb-4 rounded-2xl border border-sky-200 bg-sky-50 p-3 text-sm text-sky-800">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium">{t("pwa.updateReady")}</p>
+          <p className="mt-1 text-xs text-sky-700">{t("pwa.updateHint")}</p>
+        </div>
+        <div className="flex shrink-0 items-center gap-3">
+          <button onClick={onDismiss} className="text-xs underline underline-offset-4">{t("pwa.later")}</button>
+          <button onClick={onUpdate} className="rounded-lg bg-sky-600 px-2.5 py-1 text-xs font-medium text-white">{t("pwa.update")}</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ResetTrashNotice({ entry, onRestore }: { entry: TrashEntry; onRestore: () => void }) {
+  const { t, fmt } = useI18n();
+  return (
+    <div className="mb-4 rounded-2xl border border-sky-200 bg-sky-50 p-3 text-sm text-sky-800">
+      <div className="flex items-start justify-between gap-3">
+        <p>{t("reset.trashNotice", { date: fmt.dateTime(entry.expiresAt) })}</p>
+        <button onClick={onRestore} className="shrink-0 text-xs font-medium underline underline-offset-4">{t("undo.undo")}</button>
+      </div>
+    </div>
+  );
+}
+
+function RecoveryNotice({ recovery, onDismiss }: { recovery: Recovery; onDismiss: () => void }) {
+  const { t } = useI18n();
+  return (
+    <div className="mb-4 rounded-2xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium">{t(recovery.reason.key, recovery.reason.params)}</p>
+          {recovery.backupKey && (
+            <p className="mt-1 text-xs text-amber-700">{t("recovery.backedUp")}</p>
+          )}
+          {recovery.repairs.length > 0 && (
+            <details className="mt-1 text-xs text-amber-700">
+              <summary className="cursor-pointer">{t("recovery.repairs", { count: recovery.repairs.length })}</summary>
+              <ul className="mt-1 list-disc ps-4">
+                {recovery.repairs.map((r, i) => <li key={i}>{t(r.key, r.params)}</li>)}
+              </ul>
+            </details>
+          )}
+        </div>
+        <button onClick={onDismiss} className="text-xs underline underline-offset-4">{t("common.close")}</button>
+      </div>
+    </div>
+  );
+}
+
+/* 表示言語の切り替え（ウィザード・設定タブ） */
+function LocaleSelect({ locale, onChange }: { locale: Locale; onChange: (locale: Locale) => void }) {
+  const { t } = useI18n();
+  return (
+    <select
+      value={locale}
+      onChange={(e) => onChange(e.target.value as Locale)}
+      className="rounded-lg border bg-white px-2 py-1 text-sm dark:border-white/10 dark:bg-white/10"
+      aria-label={t("settings.language")}
+    >
+      {LOCALES.map((l) => (
+        <option key={l.locale} value={l.locale}>{l.label}</option>
+      ))}
+    </select>
+  );
+}
+
+function SettingsView({
+  onReset,
+  state,
+  onImport,
+  theme,
+  onThemeChange,
+  reminders,
+  onRemindersChange,
+  onGeneratorChange,
+  onStreakRuleChange,
+  onProfileChange,
+  onLocaleChange,
+  onLibraryChange,
+  sync,
+  pwa,
+}: {
+  onReset: () => void;
+  state: AppState;
+  onImport: (state: AppState) => void;
+  theme: Theme;
+  onThemeChange: (theme: Theme) => void;
+  reminders: ReminderSettings;
+  onRemindersChange: (reminders: ReminderSettings) => void;
+  onGeneratorChange: (generator: GeneratorSettings) => void;
+  onStreakRuleChange: (rule: StreakRule) => void;
+  onProfileChange: (profile: Profile) => void;
+  onLocaleChange: (locale: Locale) => void;
+  onLibraryChange: (library: TemplateLibrary) => void;
+  sync: SyncController;
+  pwa: PwaController;
+}) {
+  const { t } = useI18n();
   return (
     <section className="space-y-4">
-      <h1 className="text-xl font-semibold">設定</h1>
-      <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3">
-        <div className="text-sm text-neutral-600">進行中のクエストをリセットして最初から始めます。</div>
-        <button onClick={onReset} className="rounded-xl bg-neutral-900 px-4 py-2 text-white">すべてをリセット</button>
+      <h1 className="text-xl font-semibold">{t("tab.settings")}</h1>
+      {/* 読み込みなどで外から変わったときは入力欄を作り直す */}
+      <ProfileEditorCard key={`${state.profile.displayName}\n${state.profile.goal}`} profile={state.profile} onChange={onProfileChange} />
+      <div className="rounded-2xl border bg-white p-4 shadow-sm flex items-center justify-between gap-3 text-sm dark:border-white/10 dark:bg-white/5">
+        <div>
+          <div className="font-medium">{t("settings.language")}</div>
+          <p className="text-xs text-neutral-500">{t("settings.languageHint")}</p>
+        </div>
+        <LocaleSelect locale={state.locale} onChange={onLocaleChange} />
+      </div>
+      <ThemeEditorCard theme={theme} onChange={onThemeChange} />
+      <ReminderSettingsCard reminders={reminders} onChange={onRemindersChange} />
+      <GeneratorSettingsCard
+        generator={state.generator}
+        selected={state.selectedCategories}
+        history={state.history}
+        custom={state.library.categories}
+        onChange={onGeneratorChange}
+      />
+      <TemplateLibraryCard library={state.library} onChange={onLibraryChange} />
+      <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-2 text-sm dark:border-white/10 dark:bg-white/5">
+        <div className="font-medium">{t("settings.streak")}</div>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={state.streakRule === "same_day"}
+            onChange={(e) => onStreakRuleChange(e.target.checked ? "same_day" : "any")}
+          />
+          {t("settings.streakSameDay")}
+        </label>
+        <p className="text-xs text-neutral-500">{t("settings.streakHint")}</p>
+      </div>
+      <AccountCard sync={sync} />
+      <InstallAppCard pwa={pwa} />
+      <DataTransferCard state={state} onImport={onImport} />
+      <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 dark:border-white/10 dark:bg-white/5">
+        <div className="text-sm text-neutral-600">{t("settings.resetHint")}</div>
+        <button onClick={onReset} className="rounded-xl bg-neutral-900 px-4 py-2 text-white">{t("settings.reset")}</button>
       </div>
+      <BackupList />
     </section>
   );
 }
 
+/* 連続クエスト（チェーン）を選んで週に追加する */
+function ChainPicker({ dayCount, onAdd }: { dayCount: number; onAdd: (chain: QuestChain, dayIdx: number) => void }) {
+  const [chainId, setChainId] = useState(QUEST_CHAINS[0].id);
+  const [dayIdx, setDayIdx] = useState(0);
+  const chain = QUEST_CHAINS.find((c) => c.id === chainId)!;
+  const { locale, t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-2xl border border-violet-200 bg-violet-50/40 p-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <span className="text-xs text-neutral-500">{t("chain.add")}</span>
+      <select value={chainId} onChange={(e) => setChainId(e.target.value)} className="rounded-lg border bg-white px-2 py-1 dark:border-white/10 dark:bg-white/10">
+        {QUEST_CHAINS.map((c) => (
+          <option key={c.id} value={c.id}>{t("chain.option", { name: c.name[locale], steps: c.steps.map((s) => s.title[locale]).join(" → ") })}</option>
+        ))}
+      </select>
+      <select value={dayIdx} onChange={(e) => setDayIdx(Number(e.target.value))} className="rounded-lg border bg-white px-2 py-1 dark:border-white/10 dark:bg-white/10">
+        {Array.from({ length: dayCount }, (_, i) => (
+          <option key={i} value={i}>{t("chain.fromDay", { day: i + 1 })}</option>
+        ))}
+      </select>
+      <button onClick={() => onAdd(chain, dayIdx)} className="rounded-lg bg-violet-600 px-3 py-1 text-white">{t("common.add")}</button>
+      <span className="w-full text-xs text-neutral-500">{t("chain.hint")}</span>
+    </div>
+  );
+}
+
+/* 読み込めなかった保存データの退避先一覧 */
+function BackupList() {
+  const { t, fmt } = useI18n();
+  const [backups, setBackups] = useState<BackupEntry[]>([]);
+
+  useEffect(() => {
+    setBackups(listBackups());
+  }, []);
+
+  if (!backups.length) return null;
+
+  const download = (b: BackupEntry) => {
+    const raw = readBackup(b.key);
+    if (raw === null) return;
+    downloadText(`growth-planner-backup-${b.createdAt.replace(/[:.]/g, "-")}.json`, raw, "application/json");
+  };
+
+  const remove = (b: BackupEntry) => {
+    removeBackup(b.key);
+    setBackups(listBackups());
+  };
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 dark:border-white/10 dark:bg-white/5">
+      <div className="text-sm font-medium">{t("backups.title")}</div>
+      <div className="text-xs text-neutral-500">{t("backups.hint")}</div>
+      <ul className="space-y-2">
+        {backups.map((b) => (
+          <li key={b.key} className="flex items-center justify-between gap-2 text-sm">
+            <span>{fmt.dateTime(b.createdAt)}<span className="ms-2 text-xs text-neutral-400">{t("backups.size", { count: b.size })}</span></span>
+            <span className="flex gap-3 text-xs">
+              <button onClick={() => download(b)} className="underline underline-offset-4">{t("backups.download")}</button>
+              <button onClick={() => remove(b)} className="text-rose-600 underline underline-offset-4">{t("common.delete")}</button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function MessageInput({ onSubmit }: { onSubmit: (message: string) => void }) {
+  const { t } = useI18n();
   const [input, setInput] = useState("");
   const handleSend = () => {
     if (!input.trim()) return;
@@ -917,11 +2024,11 @@ function MessageInput({ onSubmit }: { onSubmit: (message: string) => void }) {
         type="text"
         value={input}
         onChange={(e) => setInput(e.target.value)}
-        placeholder="メッセージを入力..."
+        placeholder={t("chat.input.placeholder")}
         className="flex-1 rounded-lg border px-3 py-2 text-sm"
         onKeyDown={(e) => { if (e.key === "Enter") handleSend(); }}
       />
-      <button onClick={handleSend} className="rounded-lg bg-rose-500 px-4 py-2 text-white">送信</button>
+      <button onClick={handleSend} className="rounded-lg bg-rose-500 px-4 py-2 text-white">{t("chat.input.send")}</button>
     </div>
   );
 }
@@ -0,0 +1,18 @@
+/** -----------------------------
+ *  Service Worker の入口（/sw.js）
+ *  ビルド ID を埋め込んで、ビルドごとに内容が変わるようにする（ブラウザはこの差分で更新を検知する）。
+ *  本体は public/sw-core.js。開発中（next dev）はキャッシュを使わない。
+ *  ----------------------------*/
+export const dynamic = "force-static";
+
+export function GET() {
+  const buildId = process.env.APP_BUILD_ID ?? "dev";
+  const body = [
+    `self.BUILD_ID = ${JSON.stringify(buildId)};`,
+    `self.OFFLINE_ENABLED = ${process.env.NODE_ENV === "production"};`,
+    `importScripts("/sw-core.js?v=" + encodeURIComponent(self.BUILD_ID));`,
+  ].join("\n");
+  return new Response(body, {
+    headers: { "Content-Type": "text/javascript; charset=utf-8", "Cache-Control": "no-cache" },
+  });
+}
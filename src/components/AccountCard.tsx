@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useI18n } from "@/lib/i18n/context";
+import { SyncRequestError } from "@/lib/sync/client";
+import { conflictTitle } from "@/lib/sync/merge";
+import type { SyncController } from "@/lib/sync/useSync";
+
+const button = "rounded-xl border px-3 py-1.5 hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:hover:bg-white/10";
+const input = "w-full rounded-xl border bg-white px-3 py-1.5 dark:border-white/10 dark:bg-white/10";
+
+/** -----------------------------
+ *  アカウントと端末間同期（設定タブ・ウィザード）
+ *  ----------------------------*/
+export function AccountCard({ sync }: { sync: SyncController }) {
+  const { account, status, error } = sync;
+  const { t, fmt } = useI18n();
+  const formatTime = (iso: string | null) => (iso ? fmt.shortDateTime(iso) : "-");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const submit = async (mode: "signup" | "login") => {
+    setBusy(true);
+    setFormError(null);
+    try {
+      await sync.signIn(mode, username.trim(), password);
+      setPassword("");
+    } catch (e) {
+      setFormError(e instanceof SyncRequestError ? e.message : t("account.signInFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!account) {
+    return (
+      <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+        <div className="font-medium">{t("account.title")}</div>
+        <p className="text-xs text-neutral-500">{t("account.intro")}</p>
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submit("login");
+          }}
+        >
+          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder={t("account.username")} autoComplete="username" className={input} />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={t("account.password")}
+            autoComplete="current-password"
+            className={input}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button type="submit" disabled={busy || !username.trim() || !password} className="rounded-xl bg-accent px-3 py-1.5 text-white disabled:opacity-50">
+              {t("account.logIn")}
+            </button>
+            <button type="button" onClick={() => void submit("signup")} disabled={busy || !username.trim() || !password} className={button}>
+              {t("account.signUp")}
+            </button>
+          </div>
+        </form>
+        {(formError ?? error) && <p className="text-xs text-rose-600">{formError ?? error}</p>}
+      </div>
+    );
+  }
+
+  const statusLabel =
+    status === "syncing"
+      ? t("account.status.syncing")
+      : status === "offline"
+        ? t("account.status.offline")
+        : account.pending
+          ? t("account.status.pending", { count: account.pending })
+          : t("account.status.synced", { time: formatTime(account.syncedAt) });
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-medium">{t("account.title")}</div>
+        <span className="text-xs text-neutral-500">{t("account.signedInAs", { username: account.username })}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={status === "offline" || status === "error" ? "text-amber-700 dark:text-amber-300" : "text-neutral-600 dark:text-neutral-300"}>
+          {statusLabel}
+        </span>
+        <button onClick={() => void sync.syncNow()} disabled={status === "syncing"} className={`${button} ms-auto`}>
+          {t("account.syncNow")}
+        </button>
+        <button onClick={() => void sync.signOut()} className={button}>
+          {t("account.logOut")}
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      {account.conflicts.length > 0 && (
+        <div className="space-y-1 rounded-xl border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-200">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{t("account.conflicts")}</span>
+            <button onClick={sync.dismissConflicts} className="underline underline-offset-4">{t("common.close")}</button>
+          </div>
+          <ul className="list-disc ps-5">
+            {account.conflicts.map((c) => (
+              <li key={`${c.key}:${c.at}`}>
+                {t(c.kept === "local" ? "account.conflict.keptLocal" : "account.conflict.keptRemote", { title: conflictTitle(c, t), time: formatTime(c.at) })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="text-xs text-neutral-500">{t("account.note")}</p>
+    </div>
+  );
+}
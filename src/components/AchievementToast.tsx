@@ -0,0 +1,33 @@
+import { achievementTitle, type Achievement } from "@/lib/achievements";
+import { useI18n } from "@/lib/i18n/context";
+
+/** -----------------------------
+ *  実績を獲得したときのお祝い（画面上部。下の「元に戻す」トーストとは別に出す）
+ *  表示時間は出す側で管理する。
+ *  ----------------------------*/
+export function AchievementToast({ achievements, onDismiss }: { achievements: Achievement[]; onDismiss: () => void }) {
+  const { locale, t } = useI18n();
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 top-4 z-50 mx-auto flex w-fit max-w-[calc(100vw-2rem)] items-center gap-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 shadow-lg dark:border-amber-400/30 dark:bg-neutral-900 dark:text-amber-200"
+    >
+      <span className="text-3xl leading-none motion-safe:animate-bounce" aria-hidden>
+        {achievements[0].icon}
+      </span>
+      <span>
+        <span className="block text-xs font-semibold uppercase tracking-wide">🎉 {t("achievement.unlocked")}</span>
+        {achievements.map((a) => (
+          <span key={a.id} className="block font-medium">
+            {achievements.length > 1 && `${a.icon} `}
+            {achievementTitle(a, locale)}
+          </span>
+        ))}
+      </span>
+      <button onClick={onDismiss} className="text-xs opacity-70" aria-label={t("common.close")}>
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { Redo2, Undo2 } from "lucide-react";
+import { useI18n } from "@/lib/i18n/context";
+import type { Translate } from "@/lib/i18n";
+import type { ActionHistory, ActionLabel } from "@/lib/undo";
+
+/** -----------------------------
+ *  操作履歴（ヘッダーの時計アイコンから開く）
+ *  新しい順に並べ、任意の操作の時点まで戻せる。戻した操作は薄く表示し、やり直せる。
+ *  ----------------------------*/
+export function describeAction(action: ActionLabel, t: Translate): string {
+  const label = t(`undo.kind.${action.kind}`);
+  return action.title ? t("undo.withTitle", { action: label, title: action.title }) : label;
+}
+
+export function ActionHistoryPanel({
+  history,
+  onUndo,
+  onRedo,
+  onUndoTo,
+}: {
+  history: ActionHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onUndoTo: (id: string) => void;
+}) {
+  const { t, fmt } = useI18n();
+  const past = [...history.past].reverse();
+  return (
+    <div className="absolute right-0 top-10 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-2xl border bg-white p-3 text-sm text-neutral-900 shadow-lg dark:border-white/10 dark:bg-neutral-900 dark:text-neutral-100">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="font-semibold">{t("undo.history")}</div>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!history.past.length}
+            className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs hover:bg-black/5 disabled:opacity-40 dark:hover:bg-white/10"
+            title={t("undo.shortcut.undo")}
+          >
+            <Undo2 className="h-3.5 w-3.5" />
+            {t("undo.undo")}
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!history.future.length}
+            className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs hover:bg-black/5 disabled:opacity-40 dark:hover:bg-white/10"
+            title={t("undo.shortcut.redo")}
+          >
+            <Redo2 className="h-3.5 w-3.5" />
+            {t("undo.redo")}
+          </button>
+        </div>
+      </div>
+      <ul className="max-h-96 space-y-1 overflow-y-auto">
+        {history.future.map((a) => (
+          <li key={a.id} className="flex items-start gap-2 rounded-xl px-2 py-1.5 text-neutral-400 line-through">
+            <span className="flex-1">
+              <span className="block">{describeAction(a, t)}</span>
+              <span className="block text-[10px]">{fmt.time(a.at)}</span>
+            </span>
+          </li>
+        ))}
+        {past.map((a, i) => (
+          <li key={a.id} className="flex items-start gap-2 rounded-xl px-2 py-1.5">
+            <span className="flex-1">
+              <span className="block">{describeAction(a, t)}</span>
+              <span className="block text-[10px] text-neutral-400">{fmt.time(a.at)}</span>
+            </span>
+            <button onClick={() => onUndoTo(a.id)} className="shrink-0 text-xs underline underline-offset-4">
+              {i === 0 ? t("undo.undo") : t("undo.undoTo")}
+            </button>
+          </li>
+        ))}
+        {past.length === 0 && history.future.length === 0 && (
+          <li className="px-2 py-4 text-center text-xs text-neutral-500">{t("undo.empty")}</li>
+        )}
+      </ul>
+      <p className="mt-2 text-[10px] text-neutral-500">{t("undo.note")}</p>
+    </div>
+  );
+}
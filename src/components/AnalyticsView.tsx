@@ -0,0 +1,277 @@
+import { useMemo } from "react";
+import {
+  bestAndWorstWeekday,
+  categoryTrends,
+  dayRecords,
+  heatLevel,
+  pointsPerWeek,
+  rateOf,
+  weekdayStats,
+  type DayRecord,
+} from "@/lib/analytics";
+import { categoryLabel, isBuiltinCategory } from "@/lib/constants";
+import { addDays, daysBetween, fromDateKey, toDateKey, weekdayOf } from "@/lib/calendar";
+import { useI18n } from "@/lib/i18n/context";
+import { categoryColor, libraryCategories } from "@/lib/library";
+import { MOOD_ICONS, moodStats } from "@/lib/journal";
+import { weekdayOrder } from "@/lib/profile";
+import { streakFilter, streakSeries } from "@/lib/streak";
+import type { AppState, BuiltinCategoryKey, CategoryKey, TemplateLibrary, WeekStart } from "@/lib/types";
+
+/** 組み込みのカテゴリの線の色。自分で作ったカテゴリは設定した色 */
+const CATEGORY_COLORS: Record<BuiltinCategoryKey, string> = {
+  exercise: "#ef4444",
+  study: "#3b82f6",
+  habit: "#f59e0b",
+  faith: "#8b5cf6",
+  social: "#ec4899",
+  money: "#10b981",
+  sleep: "#6366f1",
+  diet: "#84cc16",
+  mental: "#14b8a6",
+};
+
+const lineColor = (library: TemplateLibrary, key: CategoryKey) =>
+  isBuiltinCategory(key) ? CATEGORY_COLORS[key] : categoryColor(library, key) ?? "#a3a3a3";
+
+const card = "rounded-2xl border bg-white p-4 shadow-sm dark:border-white/10 dark:bg-white/5";
+
+/** -----------------------------
+ *  分析タブ（すべて端末内で集計・描画する）
+ *  ----------------------------*/
+export function AnalyticsView({ state, todayIndex }: { state: AppState; todayIndex: number }) {
+  const { t, fmt } = useI18n();
+  const records = useMemo(() => dayRecords(state, todayIndex), [state, todayIndex]);
+  const trends = useMemo(() => categoryTrends(records), [records]);
+  const weekdays = useMemo(() => weekdayStats(records), [records]);
+  const weeks = useMemo(() => pointsPerWeek(state), [state]);
+  const moods = useMemo(() => moodStats(state.journal, records), [state.journal, records]);
+  // 連続日数は設定の数え方（当日中のみ など）に合わせる
+  const streaks = useMemo(() => streakSeries(dayRecords(state, todayIndex, streakFilter(state))), [state, todayIndex]);
+
+  const done = records.reduce((s, r) => s + r.done, 0);
+  const total = records.reduce((s, r) => s + r.total, 0);
+  const longest = Math.max(0, ...streaks.map((s) => s.streak));
+  const extremes = bestAndWorstWeekday(weekdays);
+  const weekStart = state.profile.weekStart;
+
+  return (
+    <section className="space-y-4">
+      <h1 className="text-xl font-semibold">{t("analytics.title")}</h1>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {[
+          { label: t("analytics.daysRecorded"), value: t("analytics.days", { count: records.length }) },
+          { label: t("analytics.overallRate"), value: `${rateOf(done, total)}%` },
+          { label: t("analytics.totalPoints"), value: fmt.number(state.ledger.reduce((s, e) => s + e.amount, 0)) },
+          { label: t("analytics.longestStreak"), value: t("analytics.days", { count: longest }) },
+        ].map((c) => (
+          <div key={c.label} className={`${card} text-center`}>
+            <div className="text-lg font-semibold">{c.value}</div>
+            <div className="mt-1 text-xs text-neutral-500">{c.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className={card}>
+        <h2 className="mb-3 text-sm font-medium">{t("analytics.categoryTrends")}</h2>
+        <CategoryTrendChart trends={trends} categories={state.selectedCategories} library={state.library} />
+      </div>
+
+      <div className={card}>
+        <h2 className="mb-3 text-sm font-medium">{t("analytics.calendar")}</h2>
+        <Heatmap records={records} weekStart={weekStart} />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className={card}>
+          <h2 className="mb-3 text-sm font-medium">{t("analytics.byWeekday")}</h2>
+          <Bars
+            items={weekdayOrder(weekStart).map((d) => weekdays[d]).map((w) => ({ label: fmt.weekday(w.weekday), value: w.rate ?? 0, note: w.rate === null ? "-" : `${w.rate}%` }))}
+            max={100}
+          />
+          {extremes && extremes.best.weekday !== extremes.worst.weekday && (
+            <p className="mt-3 text-xs text-neutral-500">
+              {t("analytics.bestWorst", {
+                best: fmt.weekday(extremes.best.weekday, "long"),
+                bestRate: extremes.best.rate ?? 0,
+                worst: fmt.weekday(extremes.worst.weekday, "long"),
+                worstRate: extremes.worst.rate ?? 0,
+              })}
+            </p>
+          )}
+        </div>
+        <div className={card}>
+          <h2 className="mb-3 text-sm font-medium">{t("analytics.pointsPerWeek")}</h2>
+          <Bars
+            items={weeks.map((w) => ({ label: `${w.cycle}`, value: w.points, note: fmt.number(w.points) }))}
+            max={Math.max(1, ...weeks.map((w) => w.points))}
+          />
+          <p className="mt-2 text-xs text-neutral-500">{t("analytics.weekAxis")}</p>
+        </div>
+      </div>
+
+      <div className={card}>
+        <h2 className="mb-3 text-sm font-medium">{t("analytics.streakHistory")}</h2>
+        <StreakChart series={streaks} />
+      </div>
+
+      <div className={card}>
+        <h2 className="mb-3 text-sm font-medium">{t("analytics.moodVsRate")}</h2>
+        {moods.some((m) => m.days > 0) ? (
+          <>
+            <Bars
+              items={moods.map((m) => ({ label: MOOD_ICONS[m.mood], value: m.rate ?? 0, note: m.rate === null ? "-" : `${m.rate}%` }))}
+              max={100}
+            />
+            <p className="mt-2 text-xs text-neutral-500">{t("analytics.moodAxis")}</p>
+          </>
+        ) : (
+          <p className="text-xs text-neutral-500">{t("analytics.moodEmpty")}</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+/* 折れ線（週 × カテゴリ）と、先週との差 */
+function CategoryTrendChart({
+  trends,
+  categories,
+  library,
+}: {
+  trends: ReturnType<typeof categoryTrends>;
+  categories: CategoryKey[];
+  library: TemplateLibrary;
+}) {
+  const { t } = useI18n();
+  const shown = libraryCategories(library).filter((k) => categories.includes(k) || trends.some((w) => w.rates[k] !== undefined));
+  if (!trends.length || !shown.length) return <p className="text-sm text-neutral-500">{t("analytics.empty")}</p>;
+
+  const W = 320;
+  const H = 120;
+  const x = (i: number) => (trends.length === 1 ? W / 2 : (i / (trends.length - 1)) * (W - 16) + 8);
+  const y = (rate: number) => H - 8 - (rate / 100) * (H - 16);
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${W} ${H}`} className="h-40 w-full" role="img" aria-label={t("analytics.categoryTrendsLabel")}>
+        {[0, 50, 100].map((v) => (
+          <line key={v} x1={0} x2={W} y1={y(v)} y2={y(v)} stroke="currentColor" strokeOpacity={0.1} />
+        ))}
+        {shown.map((cat) => {
+          const points = trends
+            .map((w, i) => (w.rates[cat] === undefined ? null : `${x(i)},${y(w.rates[cat]!)}`))
+            .filter((p): p is string => p !== null);
+          return (
+            <g key={cat} stroke={lineColor(library, cat)} fill={lineColor(library, cat)}>
+              <polyline points={points.join(" ")} fill="none" strokeWidth={2} strokeLinejoin="round" />
+              {points.map((p) => {
+                const [cx, cy] = p.split(",");
+                return <circle key={p} cx={cx} cy={cy} r={2.5} />;
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs sm:grid-cols-3">
+        {shown.map((cat) => {
+          const rated = trends.filter((w) => w.rates[cat] !== undefined);
+          const last = rated[rated.length - 1]?.rates[cat];
+          const prev = rated[rated.length - 2]?.rates[cat];
+          const diff = last !== undefined && prev !== undefined ? last - prev : null;
+          return (
+            <li key={cat} className="flex items-center gap-1.5">
+              <span className="size-2 rounded-full" style={{ backgroundColor: lineColor(library, cat) }} />
+              <span className="truncate">{categoryLabel(cat, t, library.categories)}</span>
+              <span className="ms-auto tabular-nums text-neutral-500">{last === undefined ? "-" : `${last}%`}</span>
+              {diff !== null && diff !== 0 && (
+                <span className={diff > 0 ? "text-emerald-600" : "text-rose-600"}>{diff > 0 ? `↑${diff}` : `↓${-diff}`}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+/* 週を列・曜日を行にしたカレンダー */
+function Heatmap({ records, weekStart = 0 }: { records: DayRecord[]; weekStart?: WeekStart }) {
+  const { t, fmt } = useI18n();
+  if (!records.length) return <p className="text-sm text-neutral-500">{t("analytics.empty")}</p>;
+
+  const byDate = new Map(records.map((r) => [toDateKey(r.date), r]));
+  const first = toDateKey(records[0].date);
+  const last = toDateKey(records[records.length - 1].date);
+  const start = addDays(first, -((weekdayOf(first) - weekStart + 7) % 7));
+  const columns: string[][] = [];
+  for (let col = start; daysBetween(col, last) >= 0; col = addDays(col, 7)) {
+    columns.push(Array.from({ length: 7 }, (_, i) => addDays(col, i)));
+  }
+  const opacity = [0.08, 0.3, 0.5, 0.75, 1];
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      <div className="grid grid-rows-7 gap-1 text-[10px] leading-3 text-neutral-400">
+        {weekdayOrder(weekStart).map((d) => <span key={d}>{fmt.weekday(d)}</span>)}
+      </div>
+      {columns.map((col) => (
+        <div key={col[0]} className="grid grid-rows-7 gap-1">
+          {col.map((key) => {
+            const d = fromDateKey(key);
+            const r = byDate.get(key);
+            const level = r ? heatLevel(r) : -1;
+            return (
+              <span
+                key={key}
+                className={["size-3 rounded-sm", level < 0 ? "bg-neutral-100 dark:bg-white/5" : "bg-accent"].join(" ")}
+                style={level >= 0 ? { opacity: opacity[level] } : undefined}
+                title={r ? t("analytics.heatmapDay", { date: fmt.date(d), done: r.done, total: r.total }) : fmt.date(d)}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Bars({ items, max }: { items: { label: string; value: number; note: string }[]; max: number }) {
+  return (
+    <div className="flex h-32 items-end gap-1.5">
+      {items.map((it, i) => (
+        <div key={i} className="flex h-full flex-1 flex-col items-center justify-end gap-1">
+          <span className="text-[10px] tabular-nums text-neutral-500">{it.note}</span>
+          <div className="w-full rounded-t bg-accent" style={{ height: `${Math.max(0, (it.value / max) * 100)}%`, minHeight: it.value > 0 ? 2 : 0 }} />
+          <span className="text-[10px] text-neutral-500">{it.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StreakChart({ series }: { series: { date: Date; streak: number }[] }) {
+  const { t, fmt } = useI18n();
+  if (!series.length) return <p className="text-sm text-neutral-500">{t("analytics.empty")}</p>;
+  const W = 320;
+  const H = 80;
+  const max = Math.max(1, ...series.map((s) => s.streak));
+  const x = (i: number) => (series.length === 1 ? W / 2 : (i / (series.length - 1)) * W);
+  const y = (v: number) => H - (v / max) * (H - 4);
+  const line = series.map((s, i) => `${x(i)},${y(s.streak)}`).join(" ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="h-24 w-full text-accent" role="img" aria-label={t("analytics.streakHistory")} preserveAspectRatio="none">
+        <polygon points={`0,${H} ${line} ${x(series.length - 1)},${H}`} fill="currentColor" fillOpacity={0.15} />
+        <polyline points={line} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="mt-1 flex justify-between text-[10px] text-neutral-500">
+        <span>{fmt.date(series[0].date)}</span>
+        <span>{t("analytics.streakMax", { count: max })}</span>
+        <span>{fmt.date(series[series.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+}
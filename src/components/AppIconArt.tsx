@@ -0,0 +1,42 @@
+import { ImageResponse } from "next/og";
+import { BACKGROUND_COLOR, THEME_COLOR } from "@/lib/appInfo";
+
+/** -----------------------------
+ *  アプリアイコンの絵柄（app/icon.tsx・app/apple-icon.tsx で PNG にする）
+ *  fullBleed：角を丸めず全面を塗る（maskable と iOS 用。形は OS が切り抜くので絵柄は中央に小さめに置く）
+ *  ----------------------------*/
+export function appIconResponse(size: number, { fullBleed = false }: { fullBleed?: boolean } = {}) {
+  const mark = Math.round(size * (fullBleed ? 0.5 : 0.64));
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: THEME_COLOR,
+          borderRadius: fullBleed ? 0 : Math.round(size * 0.22),
+        }}
+      >
+        <div
+          style={{
+            width: mark,
+            height: mark,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            borderRadius: "50%",
+            background: BACKGROUND_COLOR,
+            color: THEME_COLOR,
+            fontSize: Math.round(mark * 0.62),
+          }}
+        >
+          R
+        </div>
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
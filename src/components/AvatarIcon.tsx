@@ -0,0 +1,29 @@
+import type { ProfileAvatar } from "@/lib/types";
+
+/** -----------------------------
+ *  プロフィールのアバター（絵文字 or 縮小済みの画像）
+ *  ----------------------------*/
+export function AvatarIcon({ avatar, className = "h-12 w-12 text-lg" }: { avatar: ProfileAvatar; className?: string }) {
+  const base = "grid shrink-0 place-items-center overflow-hidden rounded-full";
+  if (avatar.kind === "image") {
+    return (
+      <div className={[base, className].join(" ")}>
+        {/* data URL なので next/image の最適化は不要 */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={avatar.dataUrl} alt="" className="h-full w-full object-cover" />
+      </div>
+    );
+  }
+  return (
+    <div
+      className={[
+        base,
+        "bg-gradient-to-br from-blue-100 to-indigo-100 dark:from-sky-900/40 dark:to-indigo-900/40",
+        className,
+      ].join(" ")}
+      aria-hidden
+    >
+      {avatar.emoji}
+    </div>
+  );
+}
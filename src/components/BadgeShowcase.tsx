@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { achievementTitle, describeRule, type AchievementProgress } from "@/lib/achievements";
+import { useI18n } from "@/lib/i18n/context";
+import type { CustomCategory } from "@/lib/types";
+
+/** 並べて見せるバッジの数（新しく獲得した順） */
+const SHOWCASE_SIZE = 8;
+
+/** -----------------------------
+ *  バッジ（プロフィールカード）
+ *  獲得したバッジを新しい順に並べ、「すべての実績」で未獲得のものと進み具合も見られる。
+ *  ----------------------------*/
+export function BadgeShowcase({ progress, custom }: { progress: AchievementProgress[]; custom: CustomCategory[] }) {
+  const { locale, t, fmt } = useI18n();
+  const [open, setOpen] = useState(false);
+  const earned = progress.filter((p) => p.earned).sort((a, b) => b.earned!.at.localeCompare(a.earned!.at));
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {earned.slice(0, SHOWCASE_SIZE).map((p) => (
+          <span
+            key={p.achievement.id}
+            title={achievementTitle(p.achievement, locale)}
+            aria-label={achievementTitle(p.achievement, locale)}
+            className="grid h-8 w-8 place-items-center rounded-full bg-amber-50 text-base ring-1 ring-amber-200 dark:bg-amber-400/10 dark:ring-amber-400/30"
+          >
+            {p.achievement.icon}
+          </span>
+        ))}
+        {earned.length === 0 && <span className="text-xs text-neutral-500">{t("achievement.none")}</span>}
+        <button
+          onClick={() => setOpen((v) => !v)}
+          aria-expanded={open}
+          className="ms-auto inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-neutral-600 hover:bg-black/5 dark:text-neutral-300 dark:hover:bg-white/10"
+        >
+          {t("achievement.showAll")}
+          <span className="tabular-nums text-neutral-400">{t("achievement.summary", { earned: earned.length, total: progress.length })}</span>
+          {open ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+        </button>
+      </div>
+
+      {open && (
+        <ul className="mt-2 grid gap-2 sm:grid-cols-2">
+          {progress.map((p) => (
+            <li key={p.achievement.id} className="flex items-start gap-3 rounded-xl border p-2.5 text-sm dark:border-white/10">
+              <span className={["text-2xl leading-none", p.earned ? "" : "opacity-40 grayscale"].join(" ")} aria-hidden>
+                {p.achievement.icon}
+              </span>
+              <div className="min-w-0 flex-1">
+                <div className="font-medium">{achievementTitle(p.achievement, locale)}</div>
+                <div className="text-xs text-neutral-500">{describeRule(p.achievement.rule, t, custom)}</div>
+                {p.earned ? (
+                  <div className="mt-1 text-[11px] text-emerald-600">{t("achievement.earnedAt", { date: fmt.date(p.earned.at) })}</div>
+                ) : (
+                  <div className="mt-1.5 flex items-center gap-2" aria-label={t("achievement.locked")}>
+                    <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-neutral-100 dark:bg-white/10">
+                      <div className="h-full rounded-full bg-accent" style={{ width: `${(p.value / p.target) * 100}%` }} />
+                    </div>
+                    <span className="text-[11px] tabular-nums text-neutral-500">{t("achievement.progress", { value: p.value, target: p.target })}</span>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
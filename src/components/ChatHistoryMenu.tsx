@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { searchConversations } from "@/lib/chat/history";
+import type { Conversation } from "@/lib/chat/types";
+import { useI18n } from "@/lib/i18n/context";
+
+/** -----------------------------
+ *  チャット履歴メニュー（ヘッダーの ⋯ から開く）
+ *  ----------------------------*/
+export function ChatHistoryMenu({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: {
+  conversations: Conversation[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { t, fmt } = useI18n();
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const shown = searchConversations(conversations, query);
+
+  const commitRename = () => {
+    if (renaming && renaming.title.trim()) onRename(renaming.id, renaming.title.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t pt-3 text-sm">
+      <div className="flex items-center gap-2">
+        <label className="flex flex-1 items-center gap-2 rounded-xl border px-3 py-1.5">
+          <Search className="h-4 w-4 text-neutral-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("chatHistory.search")}
+            className="flex-1 bg-transparent outline-none"
+          />
+        </label>
+        <button onClick={onNew} className="inline-flex items-center gap-1 rounded-xl bg-violet-600 px-3 py-1.5 text-white">
+          <Plus className="h-4 w-4" />
+          {t("chatHistory.new")}
+        </button>
+      </div>
+
+      <ul className="max-h-60 space-y-1 overflow-y-auto">
+        {shown.map((c) => (
+          <li
+            key={c.id}
+            className={[
+              "flex items-center gap-2 rounded-lg px-2 py-1.5",
+              c.id === activeId ? "bg-violet-50" : "hover:bg-neutral-50",
+            ].join(" ")}
+          >
+            {renaming?.id === c.id ? (
+              <input
+                autoFocus
+                value={renaming.title}
+                onChange={(e) => setRenaming({ id: c.id, title: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setRenaming(null);
+                }}
+                className="flex-1 rounded border px-2 py-0.5"
+              />
+            ) : (
+              <button onClick={() => onSelect(c.id)} className="flex-1 truncate text-left">
+                <span className="block truncate">{c.title}</span>
+                <span className="block text-[10px] text-neutral-400">{fmt.dateTime(c.updatedAt)}</span>
+              </button>
+            )}
+            <button
+              onClick={() => setRenaming({ id: c.id, title: c.title })}
+              className="rounded p-1 text-neutral-400 hover:bg-black/5"
+              aria-label={t("chatHistory.rename", { title: c.title })}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(t("chatHistory.confirmDelete", { title: c.title }))) onDelete(c.id);
+              }}
+              className="rounded p-1 text-neutral-400 hover:bg-rose-50 hover:text-rose-600"
+              aria-label={t("chatHistory.delete", { title: c.title })}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+        {shown.length === 0 && <li className="px-2 py-1.5 text-xs text-neutral-500">{t("chatHistory.empty")}</li>}
+      </ul>
+    </div>
+  );
+}
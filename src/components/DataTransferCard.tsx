@@ -0,0 +1,147 @@
+import { useRef, useState } from "react";
+import type { LocalizedMessage } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/context";
+import {
+  downloadText,
+  exportBackup,
+  exportCompletionsCsv,
+  mergeStates,
+  parseBackup,
+  summarizeData,
+  type DataSummary,
+} from "@/lib/transfer";
+import type { AppState } from "@/lib/types";
+
+type Pending = { state: AppState; repairs: LocalizedMessage[]; exportedAt?: string; fileName: string };
+
+/** 表示名は i18n の data.summary.* */
+const SUMMARY_ROWS: (keyof DataSummary)[] = ["cycle", "weeks", "done", "quests", "points", "categories"];
+
+/** -----------------------------
+ *  データのエクスポート / インポート（設定タブ）
+ *  state が null（プラン作成前）のときはインポートのみ。
+ *  ----------------------------*/
+export function DataTransferCard({
+  state,
+  onImport,
+}: {
+  state: AppState | null;
+  onImport: (state: AppState) => void;
+}) {
+  const { t, fmt } = useI18n();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  const pickFile = async (file: File) => {
+    setError(null);
+    const result = parseBackup(await file.text());
+    if (!result.ok) return setError(t("data.readFailed", { error: t(result.error.key, result.error.params) }));
+    setPending({ state: result.state, repairs: result.repairs, exportedAt: result.exportedAt, fileName: file.name });
+  };
+
+  const apply = (mode: "merge" | "replace") => {
+    if (!pending) return;
+    onImport(mode === "merge" && state ? mergeStates(state, pending.state) : pending.state);
+    setPending(null);
+  };
+
+  const current = state ? summarizeData(state) : null;
+  const incoming = pending ? summarizeData(pending.state) : null;
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="font-medium">{t("data.title")}</div>
+
+      {state && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => downloadText(`growth-planner-${stamp()}.json`, exportBackup(state), "application/json")}
+            className="rounded-xl border px-3 py-1.5 hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10"
+          >
+            {t("data.exportJson")}
+          </button>
+          <button
+            onClick={() => downloadText(`growth-planner-quests-${stamp()}.csv`, exportCompletionsCsv(state), "text/csv;charset=utf-8")}
+            className="rounded-xl border px-3 py-1.5 hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10"
+          >
+            {t("data.exportCsv")}
+          </button>
+        </div>
+      )}
+
+      <div>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="rounded-xl border px-3 py-1.5 hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10"
+        >
+          {t("data.import")}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) void pickFile(file);
+          }}
+        />
+      </div>
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      {pending && incoming && (
+        <div className="space-y-3 rounded-xl border p-3 dark:border-white/10">
+          <div className="text-xs text-neutral-500">
+            {pending.fileName}
+            {pending.exportedAt && t("data.exportedAt", { time: fmt.dateTime(pending.exportedAt) })}
+          </div>
+          <table className="w-full text-left text-xs">
+            <thead className="text-neutral-500">
+              <tr>
+                <th className="font-normal" />
+                {current && <th className="font-normal">{t("data.current")}</th>}
+                <th className="font-normal">{t("data.file")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SUMMARY_ROWS.map((key) => (
+                <tr key={key}>
+                  <td className="py-0.5 text-neutral-500">{t(`data.summary.${key}`)}</td>
+                  {current && <td>{fmt.number(current[key])}</td>}
+                  <td className={current && current[key] !== incoming[key] ? "font-semibold" : ""}>{fmt.number(incoming[key])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {pending.repairs.length > 0 && (
+            <details className="text-xs text-amber-700">
+              <summary>{t("data.repairs", { count: pending.repairs.length })}</summary>
+              <ul className="mt-1 list-disc ps-5">
+                {pending.repairs.map((r, i) => <li key={i}>{t(r.key, r.params)}</li>)}
+              </ul>
+            </details>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {state && (
+              <button onClick={() => apply("merge")} className="rounded-xl bg-accent px-3 py-1.5 text-white">
+                {t("data.merge")}
+              </button>
+            )}
+            <button
+              onClick={() => apply("replace")}
+              className={state ? "rounded-xl border px-3 py-1.5 hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10" : "rounded-xl bg-accent px-3 py-1.5 text-white"}
+            >
+              {t(state ? "data.replace" : "data.restore")}
+            </button>
+            <button onClick={() => setPending(null)} className="text-xs underline underline-offset-4">{t("common.cancel")}</button>
+          </div>
+          {state && <p className="text-xs text-neutral-500">{t("data.mergeNote")}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import { useI18n } from "@/lib/i18n/context";
+
+/** -----------------------------
+ *  週内に同じクエストが複数あるときの削除確認（この日のみ / すべて / キャンセル）
+ *  ----------------------------*/
+export function DeleteQuestDialog({
+  title,
+  count,
+  onDelete,
+  onCancel,
+}: {
+  title: string;
+  count: number;
+  onDelete: (applyToWeek: boolean) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onCancel();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/30 p-4" onClick={onCancel}>
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="delete-quest-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm rounded-2xl border bg-white p-4 shadow-lg dark:border-white/10 dark:bg-neutral-900"
+      >
+        <h2 id="delete-quest-title" className="text-sm font-medium">
+          {t("quests.deleteDialog.title", { title })}
+        </h2>
+        <p className="mt-1 text-xs text-neutral-500">{t("quests.deleteDialog.body", { count })}</p>
+        <div className="mt-4 flex flex-col gap-2 text-sm">
+          <button autoFocus onClick={() => onDelete(false)} className="rounded-xl border border-rose-200 px-3 py-1.5 text-rose-600 hover:bg-rose-50 dark:border-rose-400/30 dark:hover:bg-rose-400/10">
+            {t("quests.deleteDialog.thisDay")}
+          </button>
+          <button onClick={() => onDelete(true)} className="rounded-xl bg-rose-600 px-3 py-1.5 text-white hover:bg-rose-700">
+            {t("quests.deleteDialog.all", { count })}
+          </button>
+          <button onClick={onCancel} className="rounded-xl px-3 py-1.5 text-neutral-600 hover:bg-black/5 dark:text-neutral-300 dark:hover:bg-white/10">
+            {t("common.cancel")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from "react";
+import { Pause, Play, Square, Timer, X } from "lucide-react";
+import { formatDuration, MAX_FOCUS_MINUTES, timerElapsedMs, timerRemainingMs } from "@/lib/focus";
+import { useI18n } from "@/lib/i18n/context";
+import type { FocusTimer } from "@/lib/types";
+
+/** -----------------------------
+ *  集中タイマー（画面下に固定表示）
+ *  setup: 開始前に時間を決める / timer: 実行中・一時停止中
+ *  ----------------------------*/
+export function FocusTimerPanel({
+  timer,
+  setup,
+  onStart,
+  onCancelSetup,
+  onPause,
+  onResume,
+  onFinish,
+  onDiscard,
+}: {
+  timer: FocusTimer | null;
+  setup: { title: string; minutes: number } | null;
+  onStart: (minutes: number) => void;
+  onCancelSetup: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onFinish: () => void; // 時間切れ or 「終了して記録」
+  onDiscard: () => void;
+}) {
+  const { t } = useI18n();
+  const [now, setNow] = useState(() => new Date());
+  const [minutes, setMinutes] = useState(String(setup?.minutes ?? ""));
+  const finishRef = useRef(onFinish);
+  finishRef.current = onFinish;
+
+  useEffect(() => {
+    if (!timer?.runningSince) return;
+    const tick = () => {
+      const at = new Date();
+      setNow(at);
+      if (timerRemainingMs(timer, at) <= 0) finishRef.current();
+    };
+    tick();
+    const id = setInterval(tick, 1000);
+    return () => clearInterval(id);
+  }, [timer]);
+
+  if (!timer && !setup) return null;
+
+  const card = "fixed inset-x-0 bottom-20 z-40 mx-auto w-[min(28rem,calc(100%-2rem))] rounded-2xl border bg-white p-4 shadow-lg dark:border-white/10 dark:bg-neutral-900";
+
+  if (!timer && setup) {
+    const m = Number(minutes);
+    const valid = Number.isFinite(m) && m > 0 && m <= MAX_FOCUS_MINUTES;
+    return (
+      <form
+        className={card}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (valid) onStart(m);
+        }}
+      >
+        <div className="mb-2 flex items-center gap-2 text-sm font-medium">
+          <Timer className="h-4 w-4" /> {setup.title}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            autoFocus
+            type="number"
+            min={1}
+            max={MAX_FOCUS_MINUTES}
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+            className="w-20 rounded-lg border px-2 py-1 dark:border-white/10 dark:bg-white/10"
+            aria-label={t("timer.minutesLabel")}
+          />
+          {t("unit.minutes")}
+          <button type="submit" disabled={!valid} className="ms-auto rounded-xl bg-accent px-3 py-1.5 text-white disabled:opacity-40">
+            {t("timer.start")}
+          </button>
+          <button type="button" onClick={onCancelSetup} className="rounded-xl px-2 py-1.5 text-neutral-500 hover:bg-black/5 dark:hover:bg-white/10">
+            {t("common.cancel")}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  const active = timer!;
+  const total = active.durationSec * 1000;
+  const progress = Math.round((timerElapsedMs(active, now) / total) * 100);
+  const paused = !active.runningSince;
+
+  return (
+    <div className={card} role="timer" aria-live="off">
+      <div className="flex items-center gap-3">
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-xs text-neutral-500">{t(paused ? "timer.paused" : "timer.focusing", { title: active.title })}</div>
+          <div className="text-3xl font-semibold tabular-nums">{formatDuration(timerRemainingMs(active, now))}</div>
+        </div>
+        <button
+          onClick={paused ? onResume : onPause}
+          aria-label={t(paused ? "timer.resume" : "timer.pause")}
+          className="rounded-full bg-accent p-2.5 text-white"
+        >
+          {paused ? <Play className="h-5 w-5" /> : <Pause className="h-5 w-5" />}
+        </button>
+        <button onClick={onFinish} aria-label={t("timer.finish")} title={t("timer.finish")} className="rounded-full border p-2.5 hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10">
+          <Square className="h-5 w-5" />
+        </button>
+        <button onClick={onDiscard} aria-label={t("timer.discard")} title={t("timer.discard")} className="rounded-full p-2 text-neutral-400 hover:bg-black/5 dark:hover:bg-white/10">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="mt-3 h-1.5 overflow-hidden rounded-full bg-neutral-100 dark:bg-white/10">
+        <div className="h-full rounded-full bg-accent transition-all" style={{ width: `${progress}%` }} />
+      </div>
+    </div>
+  );
+}
+
+/** クエストカードに置く起動ボタン */
+export function FocusTimerButton({ onClick, disabled = false }: { onClick: () => void; disabled?: boolean }) {
+  const { t } = useI18n();
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={t("timer.title")}
+      className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs hover:bg-black/5 disabled:opacity-30 dark:border-white/10 dark:hover:bg-white/10"
+    >
+      <Timer className="h-3.5 w-3.5" />
+      {t("timer.button")}
+    </button>
+  );
+}
@@ -0,0 +1,77 @@
+import { categoryLabel, MAX_DAILY_BUDGET } from "@/lib/constants";
+import { useI18n } from "@/lib/i18n/context";
+import { planProfile } from "@/lib/plan";
+import type { ArchivedWeek, CategoryKey, CustomCategory, GeneratorSettings } from "@/lib/types";
+import { uid } from "@/lib/utils";
+
+/** -----------------------------
+ *  週プラン生成の設定（設定タブ）
+ *  変更は次の週のプランから反映される。
+ *  ----------------------------*/
+export function GeneratorSettingsCard({
+  generator,
+  selected,
+  history,
+  custom,
+  onChange,
+}: {
+  generator: GeneratorSettings;
+  selected: CategoryKey[];
+  history: ArchivedWeek[];
+  custom: CustomCategory[]; // 自分で作ったカテゴリ（表示名用）
+  onChange: (generator: GeneratorSettings) => void;
+}) {
+  const profile = planProfile(selected, generator.dailyBudget, generator.adaptive ? history : []);
+  const { t } = useI18n();
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="font-medium">{t("generator.title")}</div>
+
+      <label className="flex items-center justify-between gap-3">
+        <span>{t("generator.dailyBudget")}</span>
+        <select
+          value={generator.dailyBudget}
+          onChange={(e) => onChange({ ...generator, dailyBudget: Number(e.target.value) })}
+          className="rounded-lg border px-2 py-1 dark:bg-white/10"
+        >
+          {Array.from({ length: MAX_DAILY_BUDGET }, (_, i) => i + 1).map((n) => (
+            <option key={n} value={n}>{t("generator.count", { count: n })}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={generator.adaptive} onChange={(e) => onChange({ ...generator, adaptive: e.target.checked })} />
+        {t("generator.adaptive")}
+      </label>
+
+      {generator.adaptive && selected.length > 0 && (
+        <div className="rounded-xl bg-neutral-50 p-3 text-xs dark:bg-white/5">
+          <div className="mb-1 text-neutral-500">{t("generator.preview", { count: profile.dailyBudget })}</div>
+          <ul className="space-y-0.5">
+            {profile.categories.map((c) => (
+              <li key={c.category} className="flex justify-between">
+                <span>{categoryLabel(c.category, t, custom)}</span>
+                <span className="text-neutral-500">
+                  {c.rate === null ? t("generator.noRecord") : `${c.rate}%`} → {t(`level.${c.level}`)}
+                  {c.weight < 1 && t("generator.fewer")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-neutral-500">
+          {t("generator.seed")} <code className="rounded bg-neutral-100 px-1 dark:bg-white/10">{generator.seed}</code>
+        </span>
+        <button onClick={() => onChange({ ...generator, seed: uid() })} className="text-xs underline underline-offset-4">
+          {t("generator.reseed")}
+        </button>
+      </div>
+      <p className="text-xs text-neutral-500">{t("generator.note")}</p>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Download } from "lucide-react";
+import { useI18n } from "@/lib/i18n/context";
+import type { PwaController } from "@/lib/pwa/usePwa";
+
+/** -----------------------------
+ *  アプリとして使う（設定タブ）
+ *  インストールの案内が使えるブラウザではボタンから、そうでなければブラウザのメニューから追加してもらう。
+ *  ----------------------------*/
+export function InstallAppCard({ pwa }: { pwa: PwaController }) {
+  const { t } = useI18n();
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-2 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="font-medium">{t("pwa.install.title")}</div>
+      <p className="text-xs text-neutral-500">{t("pwa.install.hint")}</p>
+      {pwa.installed ? (
+        <p className="text-xs text-emerald-600">{t("pwa.install.installed")}</p>
+      ) : pwa.canInstall ? (
+        <button onClick={() => void pwa.install()} className="inline-flex items-center gap-1.5 rounded-xl bg-accent px-3 py-1.5 text-white">
+          <Download className="h-4 w-4" />
+          {t("pwa.install.button")}
+        </button>
+      ) : (
+        <p className="text-xs text-neutral-500">{t("pwa.install.manual")}</p>
+      )}
+      <p className="text-xs text-neutral-500">{t(pwa.offlineReady ? "pwa.offlineReady" : "pwa.offlinePending")}</p>
+    </div>
+  );
+}
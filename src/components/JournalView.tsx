@@ -0,0 +1,260 @@
+import { useMemo, useState } from "react";
+import { NotebookPen, Search, Sun } from "lucide-react";
+import { fromDateKey, weekdayOf } from "@/lib/calendar";
+import { useI18n } from "@/lib/i18n/context";
+import type { MessageKey } from "@/lib/i18n";
+import { deleteEntry, isJournalPrompt, MAX_JOURNAL_TEXT, MOOD_ICONS, RATINGS, saveEntry, searchJournal, type JournalDraft } from "@/lib/journal";
+import type { JournalEntry, Rating } from "@/lib/types";
+
+const card = "rounded-2xl border bg-white p-4 shadow-sm dark:border-white/10 dark:bg-white/5";
+
+type Reflection = Pick<JournalDraft, "text" | "mood" | "energy" | "prompt">;
+
+/** -----------------------------
+ *  1日のふりかえり（気分・元気の 5 段階と本文。問いかけを選ぶと書き出しの手がかりにする）
+ *  ----------------------------*/
+export function DayReflectionCard({
+  title,
+  entry,
+  prompts,
+  onSave,
+}: {
+  title: string;
+  entry?: JournalEntry;
+  prompts: MessageKey[];
+  onSave: (reflection: Reflection) => void;
+}) {
+  const { t } = useI18n();
+  const [text, setText] = useState(entry?.text ?? "");
+  const [mood, setMood] = useState<Rating | undefined>(entry?.mood);
+  const [energy, setEnergy] = useState<Rating | undefined>(entry?.energy);
+  const [prompt, setPrompt] = useState<MessageKey | undefined>(isJournalPrompt(entry?.prompt) ? entry.prompt : undefined);
+  const changed = text !== (entry?.text ?? "") || mood !== entry?.mood || energy !== entry?.energy;
+
+  return (
+    <form
+      className={card}
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({ text, mood, energy, prompt });
+      }}
+    >
+      <h2 className="mb-3 flex items-center gap-2 text-sm font-medium">
+        <Sun className="h-4 w-4" />
+        {title}
+      </h2>
+      <RatingPicker name={t("journal.mood")} value={mood} onChange={setMood} icon={(r) => MOOD_ICONS[r]} />
+      <RatingPicker name={t("journal.energy")} value={energy} onChange={setEnergy} icon={(r) => String(r)} />
+
+      <div className="mt-3 text-xs text-neutral-500">{t("journal.prompts")}</div>
+      <div className="mt-1 flex flex-wrap gap-1.5">
+        {prompts.map((p) => (
+          <button
+            key={p}
+            type="button"
+            onClick={() => setPrompt(prompt === p ? undefined : p)}
+            aria-pressed={prompt === p}
+            className={[
+              "rounded-full border px-2.5 py-1 text-xs",
+              prompt === p ? "border-transparent bg-accent text-white" : "hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10",
+            ].join(" ")}
+          >
+            {t(p)}
+          </button>
+        ))}
+      </div>
+      <textarea
+        rows={3}
+        maxLength={MAX_JOURNAL_TEXT}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={prompt ? t(prompt) : t("journal.placeholder")}
+        className="mt-2 w-full rounded-lg border px-2 py-1.5 text-sm dark:border-white/10 dark:bg-white/10"
+      />
+      <div className="mt-2 flex justify-end">
+        <button type="submit" disabled={!changed} className="rounded-xl bg-accent px-3 py-1.5 text-sm text-white disabled:opacity-40">
+          {t("common.save")}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function RatingPicker({
+  name,
+  value,
+  onChange,
+  icon,
+}: {
+  name: string;
+  value?: Rating;
+  onChange: (value: Rating | undefined) => void;
+  icon: (r: Rating) => string;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="mt-1 flex items-center gap-2 text-sm" role="group" aria-label={name}>
+      <span className="w-16 text-xs text-neutral-500">{name}</span>
+      {RATINGS.map((r) => (
+        <button
+          key={r}
+          type="button"
+          onClick={() => onChange(value === r ? undefined : r)}
+          aria-pressed={value === r}
+          aria-label={t("journal.ratingLabel", { name, value: r })}
+          className={[
+            "grid h-8 w-8 place-items-center rounded-full border text-sm",
+            value === r ? "border-transparent bg-accent text-white" : "hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10",
+          ].join(" ")}
+        >
+          {icon(r)}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** -----------------------------
+ *  日記タブ：今日のふりかえりと、検索できるタイムライン（新しい日付順）
+ *  ----------------------------*/
+export function JournalView({
+  journal,
+  today,
+  onChange,
+  onSaveToday,
+}: {
+  journal: JournalEntry[];
+  today: { entry?: JournalEntry; prompts: MessageKey[] };
+  onChange: (journal: JournalEntry[]) => void;
+  onSaveToday: (reflection: Reflection) => void;
+}) {
+  const { t, fmt } = useI18n();
+  const [query, setQuery] = useState("");
+  const [kind, setKind] = useState<JournalEntry["kind"] | "all">("all");
+  const results = useMemo(() => searchJournal(journal, query, t, kind === "all" ? undefined : kind), [journal, query, t, kind]);
+
+  // 日付ごとにまとめる（results は新しい日付順）
+  const groups: { date: string; entries: JournalEntry[] }[] = [];
+  results.forEach((e) => {
+    const last = groups[groups.length - 1];
+    if (last?.date === e.date) last.entries.push(e);
+    else groups.push({ date: e.date, entries: [e] });
+  });
+
+  return (
+    <section className="space-y-4">
+      <h1 className="text-xl font-semibold">{t("journal.title")}</h1>
+
+      <DayReflectionCard key={today.entry?.updatedAt ?? "new"} title={t("journal.reflection")} entry={today.entry} prompts={today.prompts} onSave={onSaveToday} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex min-w-48 flex-1 items-center gap-2 rounded-xl border bg-white px-3 py-1.5 text-sm dark:border-white/10 dark:bg-white/5">
+          <Search className="h-4 w-4 text-neutral-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("journal.search")}
+            aria-label={t("journal.search")}
+            className="w-full bg-transparent outline-none"
+          />
+        </label>
+        <div className="flex gap-1 text-xs">
+          {(["all", "day", "quest"] as const).map((k) => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              aria-pressed={kind === k}
+              className={["rounded-full px-2.5 py-1", kind === k ? "bg-accent text-white" : "border hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10"].join(" ")}
+            >
+              {t(`journal.filter.${k}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {groups.map((g) => (
+        <div key={g.date}>
+          <h2 className="mb-2 text-xs font-medium text-neutral-500">
+            {t("quests.date", { date: fmt.monthDay(fromDateKey(g.date)), weekday: fmt.weekday(weekdayOf(g.date), "short") })}
+          </h2>
+          <ul className="space-y-2">
+            {g.entries.map((e) => (
+              <JournalItem
+                key={`${e.id}:${e.updatedAt}`}
+                entry={e}
+                onSave={(text) => onChange(saveEntry(journal, { ...e, text }))}
+                onDelete={() => confirm(t("journal.confirmDelete")) && onChange(deleteEntry(journal, e.id))}
+              />
+            ))}
+          </ul>
+        </div>
+      ))}
+      {groups.length === 0 && (
+        <p className="rounded-2xl border bg-white/60 p-4 text-sm text-neutral-500 dark:border-white/10 dark:bg-white/5">
+          {journal.length ? t("journal.noResults") : t("journal.empty")}
+        </p>
+      )}
+    </section>
+  );
+}
+
+function JournalItem({ entry, onSave, onDelete }: { entry: JournalEntry; onSave: (text: string) => void; onDelete: () => void }) {
+  const { t, fmt } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState(entry.text);
+
+  return (
+    <li className={`${card} text-sm`}>
+      <div className="flex items-center gap-2 text-xs text-neutral-500">
+        {entry.kind === "quest" ? <NotebookPen className="h-3.5 w-3.5" /> : <Sun className="h-3.5 w-3.5" />}
+        <span className="flex-1 truncate font-medium text-neutral-700 dark:text-neutral-200">
+          {entry.kind === "quest" ? entry.questTitle : t("journal.filter.day")}
+        </span>
+        {entry.mood && <span title={t("journal.ratingLabel", { name: t("journal.mood"), value: entry.mood })}>{MOOD_ICONS[entry.mood]}</span>}
+        {entry.energy && <span>{t("journal.ratingLabel", { name: t("journal.energy"), value: entry.energy })}</span>}
+        <span>{fmt.time(entry.updatedAt)}</span>
+      </div>
+      {isJournalPrompt(entry.prompt) && <p className="mt-1 text-xs text-neutral-400">{t(entry.prompt)}</p>}
+      {editing ? (
+        <form
+          className="mt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSave(text);
+            setEditing(false);
+          }}
+        >
+          <textarea
+            autoFocus
+            rows={3}
+            maxLength={MAX_JOURNAL_TEXT}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="w-full rounded-lg border px-2 py-1.5 dark:border-white/10 dark:bg-white/10"
+          />
+          <div className="mt-1 flex justify-end gap-2 text-xs">
+            <button type="button" onClick={() => setEditing(false)} className="rounded-lg px-2 py-1 hover:bg-black/5 dark:hover:bg-white/10">
+              {t("common.cancel")}
+            </button>
+            <button type="submit" className="rounded-lg bg-accent px-2 py-1 text-white">
+              {t("common.save")}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          {entry.text && <p className="mt-1 whitespace-pre-wrap">{entry.text}</p>}
+          <div className="mt-2 flex justify-end gap-3 text-xs text-neutral-500">
+            <button onClick={() => setEditing(true)} className="underline underline-offset-4">
+              {t("common.edit")}
+            </button>
+            <button onClick={onDelete} className="text-red-600 underline underline-offset-4">
+              {t("common.delete")}
+            </button>
+          </div>
+        </>
+      )}
+    </li>
+  );
+}
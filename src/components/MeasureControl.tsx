@@ -0,0 +1,52 @@
+import { useI18n } from "@/lib/i18n/context";
+import { formatMeasure, questProgress, unitLabel, unitStep } from "@/lib/measure";
+import type { Quest, QuestUnit } from "@/lib/types";
+
+/** -----------------------------
+ *  数値目標の進捗バーと +/- 記録ボタン
+ *  ----------------------------*/
+export function MeasureControl({
+  quest,
+  onLog,
+  disabled = false,
+}: {
+  quest: Quest & { target: number; unit: QuestUnit };
+  onLog: (delta: number) => void;
+  disabled?: boolean;
+}) {
+  const { t, fmt } = useI18n();
+  const amount = quest.amount ?? 0;
+  const step = unitStep(quest);
+  const progress = questProgress(quest) ?? 0;
+  const unit = unitLabel(quest.unit, t);
+
+  return (
+    <div className="mt-2 flex items-center gap-2">
+      <button
+        onClick={() => onLog(-step)}
+        disabled={disabled || amount <= 0}
+        aria-label={t("measure.decrease", { step, unit })}
+        className="size-6 rounded-full border text-xs leading-none hover:bg-black/5 disabled:opacity-30 dark:border-white/10 dark:hover:bg-white/10"
+      >
+        −
+      </button>
+      <div className="h-2 flex-1 overflow-hidden rounded-full bg-neutral-100 dark:bg-white/10">
+        <div
+          className={["h-full rounded-full transition-all", progress >= 100 ? "bg-emerald-500" : "bg-orange-400"].join(" ")}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <span className="whitespace-nowrap text-xs tabular-nums text-neutral-500">
+        {formatMeasure(quest, t)}
+      </span>
+      <button
+        onClick={() => onLog(step)}
+        disabled={disabled}
+        aria-label={t("measure.increase", { step, unit })}
+        className="rounded-full border px-2 text-xs leading-6 hover:bg-black/5 disabled:opacity-30 dark:border-white/10 dark:hover:bg-white/10"
+      >
+        +{fmt.number(step)}
+      </button>
+    </div>
+  );
+}
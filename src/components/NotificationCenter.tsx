@@ -0,0 +1,62 @@
+import { Award, BellRing, Clock, Flame, LockOpen, Medal } from "lucide-react";
+import { useI18n } from "@/lib/i18n/context";
+import type { AppNotification, NotificationKind } from "@/lib/types";
+
+/** -----------------------------
+ *  通知センター（ヘッダーのベルから開く受信箱）
+ *  ----------------------------*/
+const ICONS: Record<NotificationKind, typeof BellRing> = {
+  reminder: Clock,
+  unfinished: BellRing,
+  rank_up: Award,
+  bonus: Flame,
+  unlock: LockOpen,
+  achievement: Medal,
+};
+
+export function NotificationCenter({
+  notifications,
+  onMarkRead,
+  onMarkAllRead,
+  onClear,
+}: {
+  notifications: AppNotification[];
+  onMarkRead: (id: string) => void;
+  onMarkAllRead: () => void;
+  onClear: () => void;
+}) {
+  const { t, fmt } = useI18n();
+  return (
+    <div className="absolute right-0 top-10 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-2xl border bg-white p-3 text-sm text-neutral-900 shadow-lg dark:border-white/10 dark:bg-neutral-900 dark:text-neutral-100">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="font-semibold">{t("notif.title")}</div>
+        <div className="flex gap-3 text-xs text-neutral-600">
+          <button onClick={onMarkAllRead} className="underline underline-offset-4">{t("notif.markAllRead")}</button>
+          <button onClick={onClear} className="underline underline-offset-4">{t("notif.clear")}</button>
+        </div>
+      </div>
+      <ul className="max-h-96 space-y-1 overflow-y-auto">
+        {notifications.map((n) => {
+          const Icon = ICONS[n.kind];
+          return (
+            <li key={n.id}>
+              <button
+                onClick={() => onMarkRead(n.id)}
+                className={["flex w-full items-start gap-2 rounded-xl px-2 py-2 text-left", n.read ? "text-neutral-500" : "bg-sky-50"].join(" ")}
+              >
+                <Icon className="mt-0.5 h-4 w-4 shrink-0" />
+                <span className="flex-1">
+                  <span className="block font-medium">{n.title}</span>
+                  {n.body && <span className="block text-xs">{n.body}</span>}
+                  <span className="block text-[10px] text-neutral-400">{fmt.dateTime(n.at)}</span>
+                </span>
+                {!n.read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-red-500" />}
+              </button>
+            </li>
+          );
+        })}
+        {notifications.length === 0 && <li className="px-2 py-4 text-center text-xs text-neutral-500">{t("notif.empty")}</li>}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useRef, useState } from "react";
+import { AvatarIcon } from "@/components/AvatarIcon";
+import { AVATAR_EMOJIS } from "@/lib/constants";
+import { useI18n } from "@/lib/i18n/context";
+import { DEFAULT_DAY_START_HOUR, MAX_DAY_START_HOUR } from "@/lib/calendar";
+import { AvatarImageError, dayStartHourOf, isDayStartHour, isWeekStart, MAX_DISPLAY_NAME, MAX_GOAL, resizeAvatar, WEEK_STARTS } from "@/lib/profile";
+import type { Profile } from "@/lib/types";
+
+/** -----------------------------
+ *  プロフィール設定（設定タブ）
+ *  アバター・週の始まり・1日の始まりはその場で保存し、名前と目標は入力欄を離れたときに保存する。
+ *  ----------------------------*/
+export function ProfileEditorCard({ profile, onChange }: { profile: Profile; onChange: (profile: Profile) => void }) {
+  const { t, fmt } = useI18n();
+  const [name, setName] = useState(profile.displayName);
+  const [goal, setGoal] = useState(profile.goal);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const commitName = () => {
+    const next = name.trim();
+    // 空にされたら元の名前に戻す
+    if (!next) return setName(profile.displayName);
+    if (next !== profile.displayName) onChange({ ...profile, displayName: next });
+    setName(next);
+  };
+
+  const commitGoal = () => {
+    const next = goal.trim();
+    if (next !== profile.goal) onChange({ ...profile, goal: next });
+    setGoal(next);
+  };
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const dataUrl = await resizeAvatar(file);
+      onChange({ ...profile, avatar: { kind: "image", dataUrl } });
+    } catch (e) {
+      setError(t(e instanceof AvatarImageError ? e.key : "profile.avatar.failed"));
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  const current = profile.avatar.kind === "emoji" ? profile.avatar.emoji : null;
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="font-medium">{t("profile.title")}</div>
+
+      <div className="flex items-center gap-3">
+        <AvatarIcon avatar={profile.avatar} className="h-14 w-14 text-2xl" />
+        <div className="flex-1 space-y-1">
+          <div className="flex flex-wrap gap-1" role="radiogroup" aria-label={t("profile.emojiAvatar")}>
+            {AVATAR_EMOJIS.map((emoji) => (
+              <button
+                key={emoji}
+                role="radio"
+                aria-checked={current === emoji}
+                onClick={() => onChange({ ...profile, avatar: { kind: "emoji", emoji } })}
+                className={[
+                  "grid size-8 place-items-center rounded-lg text-lg",
+                  current === emoji ? "bg-accent/20 ring-2 ring-accent" : "hover:bg-black/5 dark:hover:bg-white/10",
+                ].join(" ")}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={busy}
+              className="rounded-lg border px-2.5 py-1 text-xs hover:bg-black/5 disabled:opacity-50 dark:border-white/10 dark:hover:bg-white/10"
+            >
+              {t(busy ? "profile.resizing" : "profile.upload")}
+            </button>
+            <span className="text-xs text-neutral-500">{t("profile.uploadNote")}</span>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => upload(e.target.files?.[0])}
+            />
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-neutral-600 dark:text-neutral-300">{t("profile.displayName")}</span>
+        <input
+          value={name}
+          maxLength={MAX_DISPLAY_NAME}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          className="w-full rounded-xl border bg-white px-3 py-1.5 dark:border-white/10 dark:bg-white/10"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-neutral-600 dark:text-neutral-300">{t("profile.goal")}</span>
+        <input
+          value={goal}
+          maxLength={MAX_GOAL}
+          placeholder={t("profile.goalPlaceholder")}
+          onChange={(e) => setGoal(e.target.value)}
+          onBlur={commitGoal}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          className="w-full rounded-xl border bg-white px-3 py-1.5 dark:border-white/10 dark:bg-white/10"
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-3">
+        <span>{t("profile.weekStart")}</span>
+        <select
+          value={profile.weekStart ?? ""}
+          onChange={(e) => {
+            const v = e.target.value === "" ? undefined : Number(e.target.value);
+            onChange({ ...profile, weekStart: isWeekStart(v) ? v : undefined });
+          }}
+          className="rounded-lg border bg-white px-2 py-1 dark:border-white/10 dark:bg-white/10"
+        >
+          <option value="">{t("profile.weekStartDefault", { weekday: fmt.weekday(0, "long") })}</option>
+          {WEEK_STARTS.map((w) => (
+            <option key={w} value={w}>
+              {fmt.weekday(w, "long")}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-3">
+        <span>{t("profile.dayStartHour")}</span>
+        <select
+          value={dayStartHourOf(profile)}
+          onChange={(e) => {
+            const v = Number(e.target.value);
+            onChange({ ...profile, dayStartHour: isDayStartHour(v) && v !== DEFAULT_DAY_START_HOUR ? v : undefined });
+          }}
+          className="rounded-lg border bg-white px-2 py-1 dark:border-white/10 dark:bg-white/10"
+        >
+          {Array.from({ length: MAX_DAY_START_HOUR + 1 }, (_, h) => (
+            <option key={h} value={h}>
+              {fmt.time(new Date(2024, 0, 7, h))}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-neutral-500">{t("profile.dayStartHourHint")}</p>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { ALL_CATEGORIES, categoryLabel, POINTS_PER_QUEST } from "@/lib/constants";
+import { useI18n } from "@/lib/i18n/context";
+import { hasCategory, libraryCategories } from "@/lib/library";
+import { QUEST_UNITS, unitLabel } from "@/lib/measure";
+import type { QuestDraft } from "@/lib/questEdit";
+import { rankLabel, RANKS } from "@/lib/rank";
+import type { CategoryKey, QuestUnit, TemplateLibrary, UnlockCondition } from "@/lib/types";
+
+/** -----------------------------
+ *  クエスト作成・編集フォーム
+ *  add: チェックした日に追加 / edit: チェックした日にコピー
+ *  ----------------------------*/
+export type QuestFormResult = {
+  draft: QuestDraft;
+  days: number[]; // 追加先（add）またはコピー先（edit）の日インデックス
+  applyToWeek: boolean; // edit のみ：週内の同じクエストにも反映
+};
+
+export function QuestForm({
+  mode,
+  dayIdx,
+  dayCount,
+  initial,
+  prerequisites,
+  library,
+  onSubmit,
+  onCancel,
+}: {
+  mode: "add" | "edit";
+  dayIdx: number;
+  dayCount: number;
+  initial?: QuestDraft;
+  prerequisites: { id: string; label: string }[]; // 前提にできる週内のクエスト
+  library: TemplateLibrary; // カテゴリの選択肢
+  onSubmit: (result: QuestFormResult) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(initial?.title ?? "");
+  const [category, setCategory] = useState(initial?.category ?? "");
+  const [points, setPoints] = useState(String(initial?.points ?? POINTS_PER_QUEST));
+  const [note, setNote] = useState(initial?.note ?? "");
+  const [remindAt, setRemindAt] = useState(initial?.remindAt ?? "");
+  const [target, setTarget] = useState(initial?.target ? String(initial.target) : "");
+  const [unit, setUnit] = useState<QuestUnit>(initial?.unit ?? "count");
+  const [unlock, setUnlock] = useState<UnlockCondition | undefined>(initial?.unlock);
+  const [days, setDays] = useState<number[]>(mode === "add" ? [dayIdx] : []);
+  const [applyToWeek, setApplyToWeek] = useState(false);
+
+  const pointsNum = Number(points);
+  const targetNum = target.trim() ? Number(target) : undefined;
+  const targetValid = targetNum === undefined || (Number.isFinite(targetNum) && targetNum > 0);
+  const valid =
+    title.trim().length > 0 && Number.isInteger(pointsNum) && pointsNum >= 0 && targetValid && (mode === "edit" || days.length > 0);
+
+  const toggleDay = (i: number) => setDays((prev) => (prev.includes(i) ? prev.filter((d) => d !== i) : [...prev, i].sort()));
+
+  const submit = () => {
+    if (!valid) return;
+    onSubmit({
+      draft: {
+        title,
+        category: category || undefined,
+        points: pointsNum,
+        note,
+        remindAt: remindAt || undefined,
+        target: targetNum,
+        unit: targetNum ? unit : undefined,
+        unlock,
+      },
+      days,
+      applyToWeek,
+    });
+  };
+
+  return (
+    <form
+      className="space-y-3 rounded-xl border border-violet-200 bg-violet-50/40 p-3 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <div className="font-medium">{t(mode === "add" ? "questForm.addTitle" : "questForm.editTitle")}</div>
+
+      <label className="block">
+        <span className="text-xs text-neutral-500">{t("questForm.title")}</span>
+        <input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="mt-1 w-full rounded-lg border bg-white px-3 py-2 outline-none focus:ring-2 focus:ring-violet-400/40 dark:border-white/10 dark:bg-white/10"
+          placeholder={t("questForm.titlePlaceholder")}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-xs text-neutral-500">{t("questForm.category")}</span>
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className="mt-1 w-full rounded-lg border bg-white px-2 py-2 dark:border-white/10 dark:bg-white/10">
+            <option value="">{t("common.none")}</option>
+            {/* 削除したカテゴリのクエストは、そのカテゴリのまま編集できるようにする */}
+            {category && !hasCategory(library, category) && <option value={category}>{categoryLabel(category, t, library.categories)}</option>}
+            {libraryCategories(library).map((c) => (
+              <option key={c} value={c}>{categoryLabel(c, t, library.categories)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs text-neutral-500">{t("questForm.points")}</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            className="mt-1 w-full rounded-lg border bg-white px-3 py-2 dark:border-white/10 dark:bg-white/10"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] gap-3">
+        <label className="block">
+          <span className="text-xs text-neutral-500">{t("questForm.target")}</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder={t("questForm.targetPlaceholder")}
+            className="mt-1 w-full rounded-lg border bg-white px-3 py-2 dark:border-white/10 dark:bg-white/10"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-neutral-500">{t("questForm.unit")}</span>
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as QuestUnit)}
+            disabled={!target.trim()}
+            className="mt-1 w-full rounded-lg border bg-white px-2 py-2 disabled:opacity-40 dark:border-white/10 dark:bg-white/10"
+          >
+            {QUEST_UNITS.map((u) => (
+              <option key={u.unit} value={u.unit}>{unitLabel(u.unit, t)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] gap-3">
+        <label className="block">
+          <span className="text-xs text-neutral-500">{t("questForm.note")}</span>
+          <input value={note} onChange={(e) => setNote(e.target.value)} className="mt-1 w-full rounded-lg border bg-white px-3 py-2 dark:border-white/10 dark:bg-white/10" />
+        </label>
+        <label className="block">
+          <span className="text-xs text-neutral-500">{t("questForm.reminder")}</span>
+          <input
+            type="time"
+            value={remindAt}
+            onChange={(e) => setRemindAt(e.target.value)}
+            className="mt-1 w-full rounded-lg border bg-white px-3 py-2 dark:border-white/10 dark:bg-white/10"
+          />
+        </label>
+      </div>
+
+      <UnlockFields value={unlock} onChange={setUnlock} prerequisites={prerequisites} library={library} />
+
+      <fieldset>
+        <legend className="text-xs text-neutral-500">{t(mode === "add" ? "questForm.days" : "questForm.copyTo")}</legend>
+        <div className="mt-1 flex flex-wrap gap-2">
+          {Array.from({ length: dayCount }, (_, i) => i)
+            .filter((i) => mode === "add" || i !== dayIdx)
+            .map((i) => (
+              <label key={i} className="inline-flex items-center gap-1 rounded-full border bg-white px-2 py-0.5 text-xs dark:border-white/10 dark:bg-white/10">
+                <input type="checkbox" checked={days.includes(i)} onChange={() => toggleDay(i)} />
+                {t("common.day", { day: i + 1 })}
+              </label>
+            ))}
+        </div>
+      </fieldset>
+
+      {mode === "edit" && (
+        <label className="inline-flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={applyToWeek} onChange={(e) => setApplyToWeek(e.target.checked)} />
+          {t("questForm.applyToWeek")}
+        </label>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="rounded-lg px-3 py-1.5 text-neutral-600 hover:bg-black/5">{t("common.cancel")}</button>
+        <button type="submit" disabled={!valid} className="rounded-lg bg-violet-600 px-3 py-1.5 text-white disabled:opacity-40">
+          {t(mode === "add" ? "common.add" : "common.save")}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/* ロック解除の条件 */
+function UnlockFields({
+  value,
+  onChange,
+  prerequisites,
+  library,
+}: {
+  value: UnlockCondition | undefined;
+  onChange: (v: UnlockCondition | undefined) => void;
+  prerequisites: { id: string; label: string }[];
+  library: TemplateLibrary;
+}) {
+  const { t } = useI18n();
+  const field = "rounded-lg border bg-white px-2 py-1.5 dark:border-white/10 dark:bg-white/10";
+
+  const setKind = (kind: string) => {
+    if (kind === "quest" && prerequisites.length) onChange({ kind: "quest", questId: prerequisites[0].id });
+    else if (kind === "category_days") onChange({ kind: "category_days", category: ALL_CATEGORIES[0], days: 3 });
+    else if (kind === "rank") onChange({ kind: "rank", rank: RANKS[1].rank });
+    else onChange(undefined);
+  };
+
+  return (
+    <div className="space-y-1">
+      <span className="text-xs text-neutral-500">{t("questForm.lock")}</span>
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={value?.kind ?? ""} onChange={(e) => setKind(e.target.value)} className={field}>
+          <option value="">{t("common.none")}</option>
+          <option value="quest" disabled={!prerequisites.length}>{t("questForm.lock.quest")}</option>
+          <option value="category_days">{t("questForm.lock.categoryDays")}</option>
+          <option value="rank">{t("questForm.lock.rank")}</option>
+        </select>
+
+        {value?.kind === "quest" && (
+          <select value={value.questId} onChange={(e) => onChange({ kind: "quest", questId: e.target.value })} className={`${field} min-w-0 flex-1`}>
+            {!prerequisites.some((p) => p.id === value.questId) && <option value={value.questId}>{t("questForm.lock.deleted")}</option>}
+            {prerequisites.map((p) => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        )}
+
+        {value?.kind === "category_days" && (
+          <>
+            <select
+              value={value.category}
+              onChange={(e) => onChange({ ...value, category: e.target.value as CategoryKey })}
+              className={field}
+            >
+              {!hasCategory(library, value.category) && (
+                <option value={value.category}>{categoryLabel(value.category, t, library.categories)}</option>
+              )}
+              {libraryCategories(library).map((c) => (
+                <option key={c} value={c}>{categoryLabel(c, t, library.categories)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={value.days}
+              onChange={(e) => onChange({ ...value, days: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+              className={`${field} w-16`}
+            />
+            {t("questForm.lock.days")}
+          </>
+        )}
+
+        {value?.kind === "rank" && (
+          <select value={value.rank} onChange={(e) => onChange({ kind: "rank", rank: e.target.value })} className={field}>
+            {RANKS.slice(1).map((r) => (
+              <option key={r.rank} value={r.rank}>{t("questForm.lock.rankOption", { rank: rankLabel(r.rank, t), points: r.threshold })}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { NotebookPen, X } from "lucide-react";
+import { useI18n } from "@/lib/i18n/context";
+import type { MessageKey } from "@/lib/i18n";
+import { MAX_JOURNAL_TEXT } from "@/lib/journal";
+
+/** -----------------------------
+ *  クエストのメモ（完了したときと「メモを書く」から開く。トーストと重ならない高さに固定表示）
+ *  空にして保存するとメモを消す。
+ *  ----------------------------*/
+export function QuestNoteSheet({
+  title,
+  prompt,
+  text: initial = "",
+  onSave,
+  onClose,
+}: {
+  title: string;
+  prompt: MessageKey;
+  text?: string; // 書いてあるメモ
+  onSave: (text: string) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [text, setText] = useState(initial);
+
+  return (
+    <form
+      className="fixed inset-x-0 bottom-36 z-40 mx-auto w-[min(28rem,calc(100%-2rem))] rounded-2xl border bg-white p-4 shadow-lg dark:border-white/10 dark:bg-neutral-900"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(text);
+      }}
+    >
+      <div className="mb-2 flex items-center gap-2 text-sm font-medium">
+        <NotebookPen className="h-4 w-4" />
+        <span className="flex-1 truncate">{t("journal.noteFor", { title })}</span>
+        <button type="button" onClick={onClose} className="rounded-full p-1 hover:bg-black/5 dark:hover:bg-white/10" aria-label={t("common.close")}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <p className="mb-2 text-xs text-neutral-500">{t(prompt)}</p>
+      <textarea
+        autoFocus
+        rows={3}
+        maxLength={MAX_JOURNAL_TEXT}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={t("journal.placeholder")}
+        className="w-full rounded-lg border px-2 py-1.5 text-sm dark:border-white/10 dark:bg-white/10"
+      />
+      <div className="mt-2 flex items-center justify-end gap-2 text-sm">
+        <button type="button" onClick={onClose} className="rounded-xl px-3 py-1.5 text-neutral-600 hover:bg-black/5 dark:text-neutral-300 dark:hover:bg-white/10">
+          {t("journal.later")}
+        </button>
+        <button type="submit" disabled={!text.trim() && !initial} className="rounded-xl bg-accent px-3 py-1.5 text-white disabled:opacity-40">
+          {t("common.save")}
+        </button>
+      </div>
+    </form>
+  );
+}
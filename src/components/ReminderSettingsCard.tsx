@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useI18n } from "@/lib/i18n/context";
+import { browserNotificationsSupported, requestNotificationPermission } from "@/lib/notify";
+import { registerServiceWorker } from "@/lib/pwa/serviceWorker";
+import type { ReminderSettings } from "@/lib/types";
+
+/** -----------------------------
+ *  リマインダー設定（設定タブ）
+ *  ----------------------------*/
+export function ReminderSettingsCard({
+  reminders,
+  onChange,
+}: {
+  reminders: ReminderSettings;
+  onChange: (reminders: ReminderSettings) => void;
+}) {
+  const { t } = useI18n();
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const toggleBrowser = async (enabled: boolean) => {
+    setPermissionError(null);
+    if (!enabled) return onChange({ ...reminders, browser: false });
+    if (!browserNotificationsSupported()) return setPermissionError(t("reminder.unsupported"));
+    const permission = await requestNotificationPermission();
+    if (permission !== "granted") return setPermissionError(t("reminder.denied"));
+    await registerServiceWorker();
+    onChange({ ...reminders, browser: true });
+  };
+
+  const timeInput = (label: string, value: string | null, set: (v: string | null) => void) => (
+    <label className="flex items-center justify-between gap-3">
+      <span>{label}</span>
+      <span className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => set(e.target.checked ? "09:00" : null)}
+          aria-label={t("reminder.use", { label })}
+        />
+        <input
+          type="time"
+          value={value ?? ""}
+          disabled={value === null}
+          onChange={(e) => e.target.value && set(e.target.value)}
+          className="rounded-lg border px-2 py-1 disabled:opacity-40"
+        />
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="font-medium">{t("reminder.title")}</div>
+      {timeInput(t("reminder.daily"), reminders.dailyTime, (dailyTime) => onChange({ ...reminders, dailyTime }))}
+      {timeInput(t("reminder.unfinished"), reminders.unfinishedTime, (unfinishedTime) => onChange({ ...reminders, unfinishedTime }))}
+
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={reminders.quietHours !== null}
+            onChange={(e) => onChange({ ...reminders, quietHours: e.target.checked ? { start: "23:00", end: "07:00" } : null })}
+          />
+          {t("reminder.quietHours")}
+        </label>
+        {reminders.quietHours && (
+          <span className="flex items-center gap-1">
+            <input
+              type="time"
+              value={reminders.quietHours.start}
+              onChange={(e) => e.target.value && onChange({ ...reminders, quietHours: { ...reminders.quietHours!, start: e.target.value } })}
+              className="rounded-lg border px-2 py-1"
+            />
+            {t("common.rangeSeparator")}
+            <input
+              type="time"
+              value={reminders.quietHours.end}
+              onChange={(e) => e.target.value && onChange({ ...reminders, quietHours: { ...reminders.quietHours!, end: e.target.value } })}
+              className="rounded-lg border px-2 py-1"
+            />
+          </span>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={reminders.browser} onChange={(e) => void toggleBrowser(e.target.checked)} />
+        {t("reminder.browser")}
+      </label>
+      {permissionError && <p className="text-xs text-rose-600">{permissionError}</p>}
+      <p className="text-xs text-neutral-500">{t("reminder.note")}</p>
+    </div>
+  );
+}
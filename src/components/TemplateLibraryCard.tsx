@@ -0,0 +1,398 @@
+import { useRef, useState } from "react";
+import { ALL_CATEGORIES, categoryLabel, POINTS_PER_QUEST } from "@/lib/constants";
+import { useI18n } from "@/lib/i18n/context";
+import {
+  addCategory,
+  categoryColor,
+  categoryIcon,
+  CUSTOM_CATEGORY_COLORS,
+  CUSTOM_CATEGORY_ICONS,
+  deleteCategory,
+  hasCategory,
+  isCustomized,
+  libraryCategories,
+  MAX_CATEGORY_NAME,
+  MAX_CUSTOM_CATEGORIES,
+  MAX_TEMPLATE_POINTS,
+  MAX_TEMPLATE_TITLE,
+  MAX_TEMPLATES,
+  mergeLibrary,
+  resetTemplates,
+  sameText,
+  setTemplates,
+  templatesFor,
+  updateCategory,
+} from "@/lib/library";
+import { downloadText, exportTemplatePack, parseTemplatePack } from "@/lib/transfer";
+import type { CategoryKey, CustomCategory, QuestTemplate, TemplateLibrary } from "@/lib/types";
+
+const field = "rounded-lg border bg-white px-2 py-1 dark:border-white/10 dark:bg-white/10";
+const subtleButton = "rounded-xl border px-3 py-1.5 hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10";
+
+const validPoints = (n: number) => Number.isInteger(n) && n >= 0 && n <= MAX_TEMPLATE_POINTS;
+
+/** -----------------------------
+ *  テンプレートライブラリ（設定タブ・ウィザード）
+ *  自分のカテゴリの作成・名前の変更・削除と、カテゴリごとのテンプレートの編集。
+ *  テンプレートは軽い順に並べる（並びが週プラン生成の難易度になる）。
+ *  ----------------------------*/
+export function TemplateLibraryCard({ library, onChange }: { library: TemplateLibrary; onChange: (library: TemplateLibrary) => void }) {
+  const { locale, t } = useI18n();
+  const [selected, setSelected] = useState<CategoryKey>(ALL_CATEGORIES[0]);
+  const [creating, setCreating] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // 削除・読み込みで選択中のカテゴリがなくなったら先頭に戻す
+  const current = hasCategory(library, selected) ? selected : ALL_CATEGORIES[0];
+  const templates = templatesFor(library, current);
+  const custom = library.categories.find((c) => c.key === current);
+
+  const saveTemplates = (next: QuestTemplate[]) => onChange(setTemplates(library, current, next));
+
+  const move = (index: number, delta: number) => {
+    const to = index + delta;
+    if (to < 0 || to >= templates.length) return;
+    const next = [...templates];
+    [next[index], next[to]] = [next[to], next[index]];
+    saveTemplates(next);
+  };
+
+  const create = (fields: Omit<CustomCategory, "key">) => {
+    const result = addCategory(library, fields);
+    onChange(result.library);
+    setSelected(result.key);
+    setCreating(false);
+  };
+
+  const remove = () => {
+    if (!custom || !confirm(t("library.confirmDelete", { name: custom.name }))) return;
+    onChange(deleteCategory(library, custom.key));
+    setSelected(ALL_CATEGORIES[0]);
+  };
+
+  const importPack = async (file: File) => {
+    const result = parseTemplatePack(await file.text());
+    if (!result.ok) return setMessage({ text: t("library.pack.failed", { error: t(result.error) }), error: true });
+    onChange(mergeLibrary(library, result.library));
+    setMessage({ text: t("library.pack.imported", { count: result.library.categories.length }), error: false });
+  };
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <div>
+        <div className="font-medium">{t("library.title")}</div>
+        <p className="text-xs text-neutral-500">{t("library.hint")}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label={t("library.categories")}>
+        {libraryCategories(library).map((key) => (
+          <button
+            key={key}
+            role="radio"
+            aria-checked={key === current}
+            onClick={() => {
+              setSelected(key);
+              setCreating(false);
+            }}
+            className={[
+              "inline-flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs",
+              key === current ? "border-accent bg-accent/10" : "hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10",
+            ].join(" ")}
+            style={categoryColor(library, key) ? { borderLeftColor: categoryColor(library, key), borderLeftWidth: 4 } : undefined}
+          >
+            <span aria-hidden>{categoryIcon(library, key)}</span>
+            {categoryLabel(key, t, library.categories)}
+          </button>
+        ))}
+        {library.categories.length < MAX_CUSTOM_CATEGORIES && (
+          <button
+            onClick={() => setCreating((v) => !v)}
+            aria-expanded={creating}
+            className="rounded-full border border-dashed px-2.5 py-1 text-xs text-neutral-500 hover:bg-black/5 dark:border-white/20"
+          >
+            {t("library.newCategory")}
+          </button>
+        )}
+      </div>
+
+      {creating ? (
+        <CategoryFields
+          key="new"
+          initial={{ name: "", icon: CUSTOM_CATEGORY_ICONS[0], color: CUSTOM_CATEGORY_COLORS[0] }}
+          submitLabel={t("common.add")}
+          onSubmit={create}
+          onCancel={() => setCreating(false)}
+        />
+      ) : (
+        <div className="space-y-3 rounded-xl border p-3 dark:border-white/10">
+          {custom && (
+            <CategoryFields
+              key={`${custom.key}\n${custom.name}`}
+              initial={custom}
+              submitLabel={t("common.save")}
+              onSubmit={(fields) => onChange(updateCategory(library, custom.key, fields))}
+              onDelete={remove}
+            />
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-neutral-500">{t("library.templates", { count: templates.length })}</span>
+            {isCustomized(library, current) && (
+              <button onClick={() => onChange(resetTemplates(library, current))} className="text-xs underline underline-offset-4">
+                {t("library.resetTemplates")}
+              </button>
+            )}
+          </div>
+
+          {templates.length === 0 && <p className="text-xs text-neutral-500">{t("library.noTemplates")}</p>}
+          <ul className="space-y-1.5">
+            {templates.map((tpl, i) => (
+              <TemplateRow
+                // 並べ替え・読み込みなどで外から変わったときは入力欄を作り直す
+                key={`${current}\n${i}\n${tpl.title[locale]}\n${tpl.points}`}
+                template={tpl}
+                isFirst={i === 0}
+                isLast={i === templates.length - 1}
+                onChange={(next) => saveTemplates(templates.map((x, j) => (j === i ? next : x)))}
+                onMove={(delta) => move(i, delta)}
+                onDelete={() => saveTemplates(templates.filter((_, j) => j !== i))}
+              />
+            ))}
+          </ul>
+          {templates.length < MAX_TEMPLATES && (
+            <NewTemplateRow key={current} onAdd={(tpl) => saveTemplates([...templates, tpl])} />
+          )}
+          <p className="text-xs text-neutral-500">{t("library.orderHint")}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => downloadText(`growth-planner-templates-${new Date().toISOString().slice(0, 10)}.json`, exportTemplatePack(library), "application/json")}
+          className={subtleButton}
+        >
+          {t("library.pack.export")}
+        </button>
+        <button onClick={() => fileRef.current?.click()} className={subtleButton}>
+          {t("library.pack.import")}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            setMessage(null);
+            if (file) void importPack(file);
+          }}
+        />
+      </div>
+      {message && <p className={`text-xs ${message.error ? "text-rose-600" : "text-neutral-500"}`}>{message.text}</p>}
+      <p className="text-xs text-neutral-500">{t("library.pack.note")}</p>
+    </div>
+  );
+}
+
+/* 自分のカテゴリの名前・アイコン・色 */
+function CategoryFields({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  onDelete,
+}: {
+  initial: Omit<CustomCategory, "key">;
+  submitLabel: string;
+  onSubmit: (fields: Omit<CustomCategory, "key">) => void;
+  onCancel?: () => void;
+  onDelete?: () => void;
+}) {
+  const { t } = useI18n();
+  const [name, setName] = useState(initial.name);
+  const [icon, setIcon] = useState(initial.icon);
+  const [color, setColor] = useState(initial.color);
+  const changed = name.trim() !== initial.name || icon !== initial.icon || color !== initial.color;
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (name.trim() && changed) onSubmit({ name: name.trim(), icon, color });
+      }}
+    >
+      <label className="flex items-center gap-2">
+        <span className="shrink-0 text-xs text-neutral-500">{t("library.categoryName")}</span>
+        <input
+          autoFocus={!initial.name}
+          value={name}
+          maxLength={MAX_CATEGORY_NAME}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("library.categoryNamePlaceholder")}
+          className={`${field} min-w-0 flex-1`}
+        />
+      </label>
+      <div className="flex flex-wrap gap-1" role="radiogroup" aria-label={t("library.icon")}>
+        {/* 読み込んだパックのアイコンが候補になくても選べるようにする */}
+        {(CUSTOM_CATEGORY_ICONS.includes(icon) ? CUSTOM_CATEGORY_ICONS : [icon, ...CUSTOM_CATEGORY_ICONS]).map((emoji) => (
+          <button
+            key={emoji}
+            type="button"
+            role="radio"
+            aria-checked={icon === emoji}
+            onClick={() => setIcon(emoji)}
+            className={[
+              "grid size-7 place-items-center rounded-lg",
+              icon === emoji ? "bg-accent/20 ring-2 ring-accent" : "hover:bg-black/5 dark:hover:bg-white/10",
+            ].join(" ")}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2" role="radiogroup" aria-label={t("library.color")}>
+        {CUSTOM_CATEGORY_COLORS.map((c) => (
+          <button
+            key={c}
+            type="button"
+            role="radio"
+            aria-checked={color === c}
+            aria-label={c}
+            onClick={() => setColor(c)}
+            className={`size-6 rounded-full ${color === c ? "ring-2 ring-offset-2 ring-neutral-400" : ""}`}
+            style={{ backgroundColor: c }}
+          />
+        ))}
+        <input type="color" value={color} onChange={(e) => setColor(e.target.value)} aria-label={t("library.customColor")} className="h-6 w-8" />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="submit" disabled={!name.trim() || !changed} className="rounded-lg bg-accent px-3 py-1 text-white disabled:opacity-50">
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-xs underline underline-offset-4">
+            {t("common.cancel")}
+          </button>
+        )}
+        {onDelete && (
+          <button type="button" onClick={onDelete} className="ms-auto text-xs text-rose-600 underline underline-offset-4">
+            {t("library.deleteCategory")}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+/* テンプレート 1 件。タイトルとポイントは入力欄を離れたときに保存する */
+function TemplateRow({
+  template,
+  isFirst,
+  isLast,
+  onChange,
+  onMove,
+  onDelete,
+}: {
+  template: QuestTemplate;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (template: QuestTemplate) => void;
+  onMove: (delta: number) => void;
+  onDelete: () => void;
+}) {
+  const { locale, t } = useI18n();
+  const [title, setTitle] = useState(template.title[locale]);
+  const [points, setPoints] = useState(String(template.points));
+
+  const commitTitle = () => {
+    const next = title.trim();
+    // 空にされたら元に戻す。書き換えたタイトルは全言語で同じ文言になる
+    if (!next) return setTitle(template.title[locale]);
+    if (next !== template.title[locale]) onChange({ ...template, title: sameText(next) });
+  };
+
+  const commitPoints = () => {
+    const next = Number(points);
+    if (!validPoints(next)) return setPoints(String(template.points));
+    if (next !== template.points) onChange({ ...template, points: next });
+  };
+
+  return (
+    <li className="flex items-center gap-1.5">
+      <input
+        value={title}
+        maxLength={MAX_TEMPLATE_TITLE}
+        onChange={(e) => setTitle(e.target.value)}
+        onBlur={commitTitle}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        aria-label={t("library.templateTitle")}
+        className={`${field} min-w-0 flex-1`}
+      />
+      <input
+        type="number"
+        min={0}
+        max={MAX_TEMPLATE_POINTS}
+        step={1}
+        value={points}
+        onChange={(e) => setPoints(e.target.value)}
+        onBlur={commitPoints}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        aria-label={t("library.templatePoints")}
+        className={`${field} w-16`}
+      />
+      <button onClick={() => onMove(-1)} disabled={isFirst} aria-label={t("library.moveUp")} className="rounded px-1 text-neutral-500 hover:bg-black/5 disabled:opacity-30">
+        ↑
+      </button>
+      <button onClick={() => onMove(1)} disabled={isLast} aria-label={t("library.moveDown")} className="rounded px-1 text-neutral-500 hover:bg-black/5 disabled:opacity-30">
+        ↓
+      </button>
+      <button onClick={onDelete} className="text-xs text-rose-600 underline underline-offset-4">
+        {t("common.delete")}
+      </button>
+    </li>
+  );
+}
+
+function NewTemplateRow({ onAdd }: { onAdd: (template: QuestTemplate) => void }) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState("");
+  const [points, setPoints] = useState(String(POINTS_PER_QUEST));
+  const pointsNum = Number(points);
+  const valid = title.trim().length > 0 && validPoints(pointsNum);
+
+  return (
+    <form
+      className="flex items-center gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!valid) return;
+        onAdd({ title: sameText(title.trim()), points: pointsNum });
+        setTitle("");
+      }}
+    >
+      <input
+        value={title}
+        maxLength={MAX_TEMPLATE_TITLE}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder={t("library.newTemplatePlaceholder")}
+        className={`${field} min-w-0 flex-1`}
+      />
+      <input
+        type="number"
+        min={0}
+        max={MAX_TEMPLATE_POINTS}
+        step={1}
+        value={points}
+        onChange={(e) => setPoints(e.target.value)}
+        aria-label={t("library.templatePoints")}
+        className={`${field} w-16`}
+      />
+      <button type="submit" disabled={!valid} className="rounded-lg bg-accent px-3 py-1 text-white disabled:opacity-50">
+        {t("common.add")}
+      </button>
+    </form>
+  );
+}
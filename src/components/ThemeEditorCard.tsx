@@ -0,0 +1,94 @@
+import { ACCENT_PRESETS, DEFAULT_THEME } from "@/lib/constants";
+import { useI18n } from "@/lib/i18n/context";
+import type { Theme, ThemeMode } from "@/lib/types";
+
+const MODES: ThemeMode[] = ["light", "dark", "system"];
+
+/** -----------------------------
+ *  外観（テーマ）設定（設定タブ）
+ *  変更はその場で画面に反映され、保存される。
+ *  ----------------------------*/
+export function ThemeEditorCard({
+  theme,
+  onChange,
+}: {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+}) {
+  const { t } = useI18n();
+  const colorInput = (label: string, key: "backgroundColor" | "textColor" | "darkBackgroundColor" | "darkTextColor") => (
+    <label className="flex items-center justify-between gap-3">
+      <span>{label}</span>
+      <input
+        type="color"
+        value={theme[key]}
+        onChange={(e) => onChange({ ...theme, [key]: e.target.value })}
+        className="h-8 w-12 cursor-pointer rounded border bg-transparent"
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm space-y-3 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="font-medium">{t("theme.title")}</div>
+
+      <div className="flex gap-2" role="radiogroup" aria-label={t("theme.mode")}>
+        {MODES.map((mode) => (
+          <button
+            key={mode}
+            role="radio"
+            aria-checked={theme.mode === mode}
+            onClick={() => onChange({ ...theme, mode })}
+            className={[
+              "flex-1 rounded-xl border px-3 py-1.5",
+              theme.mode === mode ? "border-transparent bg-accent text-white" : "hover:bg-black/5 dark:border-white/10 dark:hover:bg-white/10",
+            ].join(" ")}
+          >
+            {t(`theme.mode.${mode}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-neutral-600 dark:text-neutral-300">{t("theme.accent")}</div>
+        <div className="flex flex-wrap items-center gap-2">
+          {ACCENT_PRESETS.map((p) => (
+            <button
+              key={p.color}
+              onClick={() => onChange({ ...theme, accent: p.color })}
+              title={t(`accent.${p.key}`)}
+              aria-label={t(`accent.${p.key}`)}
+              aria-pressed={theme.accent.toLowerCase() === p.color}
+              className={[
+                "h-7 w-7 rounded-full ring-offset-2 ring-offset-[var(--background)]",
+                theme.accent.toLowerCase() === p.color ? "ring-2 ring-[var(--foreground)]" : "",
+              ].join(" ")}
+              style={{ backgroundColor: p.color }}
+            />
+          ))}
+          <input
+            type="color"
+            value={theme.accent}
+            onChange={(e) => onChange({ ...theme, accent: e.target.value })}
+            aria-label={t("theme.pickAccent")}
+            className="h-7 w-10 cursor-pointer rounded border bg-transparent"
+          />
+        </div>
+      </div>
+
+      <details>
+        <summary className="cursor-pointer text-neutral-600 dark:text-neutral-300">{t("theme.colors")}</summary>
+        <div className="mt-2 grid gap-2 sm:grid-cols-2">
+          {colorInput(t("theme.backgroundLight"), "backgroundColor")}
+          {colorInput(t("theme.textLight"), "textColor")}
+          {colorInput(t("theme.backgroundDark"), "darkBackgroundColor")}
+          {colorInput(t("theme.textDark"), "darkTextColor")}
+        </div>
+      </details>
+
+      <button onClick={() => onChange(DEFAULT_THEME)} className="text-xs underline underline-offset-4">
+        {t("theme.reset")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useI18n } from "@/lib/i18n/context";
+
+/** -----------------------------
+ *  操作のあとに出すトースト（「元に戻す」付き）
+ *  表示時間（TOAST_MS）は出す側で管理する。
+ *  ----------------------------*/
+export const TOAST_MS = 6000;
+
+export type Toast = {
+  id: string;
+  message: string;
+  undo?: "action" | "reset"; // 元に戻せる操作の種類
+};
+
+export function UndoToast({ toast, onUndo, onDismiss }: { toast: Toast; onUndo: () => void; onDismiss: () => void }) {
+  const { t } = useI18n();
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 bottom-20 z-50 mx-auto flex w-fit max-w-[calc(100vw-2rem)] items-center gap-3 rounded-xl bg-neutral-900 px-4 py-2.5 text-sm text-white shadow-lg dark:bg-neutral-100 dark:text-neutral-900"
+    >
+      <span>{toast.message}</span>
+      {toast.undo && (
+        <button onClick={onUndo} className="font-semibold text-sky-300 underline underline-offset-4 dark:text-sky-700">
+          {t("undo.undo")}
+        </button>
+      )}
+      <button onClick={onDismiss} className="text-xs opacity-70" aria-label={t("common.close")}>
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { dayRecords } from "./analytics";
+import { ALL_CATEGORIES, categoryLabel, isBuiltinCategory } from "./constants";
+import type { Locale, Translate } from "./i18n";
+import { streakFilter, streakOf } from "./streak";
+import type { AchievementRule, AppState, CustomCategory, EarnedAchievement, LocalizedText } from "./types";
+
+/** -----------------------------
+ *  実績とバッジ
+ *  実績は ACHIEVEMENTS のデータ（条件・アイコン・名前）だけで決まり、画面はこの一覧をそのまま並べる。
+ *  新しい実績は ACHIEVEMENTS に足すだけでよい（id は保存されるので変えないこと）。
+ *  獲得した実績は後から条件を満たさなくなっても（元に戻すなど）取り消さない。
+ *  ----------------------------*/
+export type Achievement = {
+  id: string;
+  icon: string; // 絵文字
+  title: LocalizedText;
+  rule: AchievementRule;
+};
+
+/** 表示順 */
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: "first_quest", icon: "🌱", title: { ja: "はじめの一歩", en: "First Step" }, rule: { kind: "quests_done", count: 1 } },
+  { id: "first_perfect_day", icon: "🌟", title: { ja: "パーフェクトな1日", en: "Perfect Day" }, rule: { kind: "perfect_days", count: 1 } },
+  { id: "streak_3", icon: "🔥", title: { ja: "三日坊主卒業", en: "Three in a Row" }, rule: { kind: "daily_streak", days: 3 } },
+  { id: "exercise_7", icon: "🏃", title: { ja: "運動 7日連続", en: "7 Days of Exercise" }, rule: { kind: "category_streak", category: "exercise", days: 7 } },
+  { id: "study_7", icon: "📚", title: { ja: "勉強 7日連続", en: "7 Days of Study" }, rule: { kind: "category_streak", category: "study", days: 7 } },
+  { id: "streak_7", icon: "📅", title: { ja: "1週間皆勤", en: "Full Week" }, rule: { kind: "daily_streak", days: 7 } },
+  { id: "quests_10", icon: "✅", title: { ja: "クエスト 10 回", en: "10 Quests" }, rule: { kind: "quests_done", count: 10 } },
+  { id: "quests_100", icon: "💯", title: { ja: "クエスト 100 回", en: "100 Quests" }, rule: { kind: "quests_done", count: 100 } },
+  { id: "perfect_days_7", icon: "💎", title: { ja: "パーフェクト 7 日", en: "7 Perfect Days" }, rule: { kind: "perfect_days", count: 7 } },
+  { id: "all_categories", icon: "🌈", title: { ja: "なんでも挑戦", en: "Tried Them All" }, rule: { kind: "categories_tried", count: ALL_CATEGORIES.length } },
+  { id: "journal_10", icon: "📝", title: { ja: "日記 10 件", en: "10 Journal Entries" }, rule: { kind: "journal_entries", count: 10 } },
+  { id: "focus_300", icon: "⏱️", title: { ja: "集中 5 時間", en: "5 Hours of Focus" }, rule: { kind: "focus_minutes", minutes: 300 } },
+  { id: "weeks_4", icon: "🗓️", title: { ja: "4 週間つづけた", en: "Four Weeks In" }, rule: { kind: "weeks", count: 4 } },
+  { id: "streak_30", icon: "🏆", title: { ja: "30日連続", en: "30-Day Streak" }, rule: { kind: "daily_streak", days: 30 } },
+];
+
+const BY_ID = new Map(ACHIEVEMENTS.map((a) => [a.id, a]));
+
+export function findAchievement(id: string): Achievement | undefined {
+  return BY_ID.get(id);
+}
+
+export function achievementTitle(a: Achievement, locale: Locale): string {
+  return a.title[locale];
+}
+
+/** 条件の説明（バッジ一覧・通知用） */
+export function describeRule(rule: AchievementRule, t: Translate, custom: CustomCategory[] = []): string {
+  switch (rule.kind) {
+    case "quests_done":
+    case "perfect_days":
+    case "categories_tried":
+    case "journal_entries":
+    case "weeks":
+      return t(`achievement.rule.${rule.kind}`, { count: rule.count });
+    case "daily_streak":
+      return t("achievement.rule.daily_streak", { count: rule.days });
+    case "category_streak":
+      return t("achievement.rule.category_streak", { category: categoryLabel(rule.category, t, custom), count: rule.days });
+    case "focus_minutes":
+      return t("achievement.rule.focus_minutes", { count: rule.minutes });
+  }
+}
+
+/** 条件の判定に使う集計（全期間）。1 回の判定でまとめて求める */
+function factsOf(state: AppState, todayIndex: number) {
+  const days = [...state.history.flatMap((w) => w.plans), ...state.plans];
+  const done = days.flatMap((d) => d.quests.filter((q) => q.enabled && q.done));
+  // 連続日数は連続記録と同じ数え方（設定の「当日中のみ」も反映する）
+  const records = dayRecords(state, todayIndex, streakFilter(state));
+  return {
+    records,
+    questsDone: done.length,
+    perfectDays: days.filter((d) => d.quests.some((q) => q.enabled) && d.quests.every((q) => !q.enabled || q.done)).length,
+    categoriesTried: new Set(done.map((q) => q.category).filter(isBuiltinCategory)).size,
+    focusMinutes: Math.floor(state.focusLog.reduce((s, f) => s + f.seconds, 0) / 60),
+  };
+}
+
+type Facts = ReturnType<typeof factsOf>;
+
+function measure(rule: AchievementRule, facts: Facts, state: AppState): { value: number; target: number } {
+  switch (rule.kind) {
+    case "quests_done":
+      return { value: facts.questsDone, target: rule.count };
+    case "perfect_days":
+      return { value: facts.perfectDays, target: rule.count };
+    case "daily_streak":
+      return { value: streakOf(facts.records.map((r) => r.done > 0)).best, target: rule.days };
+    case "category_streak": {
+      const hits = facts.records.map((r) => (r.byCategory[rule.category] ? r.byCategory[rule.category]!.done > 0 : null));
+      return { value: streakOf(hits).best, target: rule.days };
+    }
+    case "categories_tried":
+      return { value: facts.categoriesTried, target: rule.count };
+    case "journal_entries":
+      return { value: state.journal.length, target: rule.count };
+    case "focus_minutes":
+      return { value: facts.focusMinutes, target: rule.minutes };
+    case "weeks":
+      return { value: state.history.length, target: rule.count };
+  }
+}
+
+export type AchievementProgress = {
+  achievement: Achievement;
+  value: number; // 目標を超えた分は target に丸める
+  target: number;
+  earned?: EarnedAchievement;
+};
+
+/** すべての実績の進み具合（ACHIEVEMENTS の順） */
+export function achievementProgress(state: AppState, todayIndex: number): AchievementProgress[] {
+  const facts = factsOf(state, todayIndex);
+  const earned = new Map(state.achievements.map((e) => [e.id, e]));
+  return ACHIEVEMENTS.map((achievement) => {
+    const { value, target } = measure(achievement.rule, facts, state);
+    return { achievement, value: Math.min(value, target), target, earned: earned.get(achievement.id) };
+  });
+}
+
+/** 条件を満たしたのに、まだ獲得していない実績 */
+export function newAchievements(state: AppState, todayIndex: number, now = new Date()): EarnedAchievement[] {
+  return achievementProgress(state, todayIndex)
+    .filter((p) => !p.earned && p.value >= p.target)
+    .map((p) => ({ id: p.achievement.id, at: now.toISOString() }));
+}
+
+/** 読み込み時・同期時など、お祝いせずに獲得済みへ加える。変化がなければ同じ state を返す */
+export function settleAchievements(state: AppState, todayIndex: number): AppState {
+  const earned = newAchievements(state, todayIndex);
+  return earned.length ? { ...state, achievements: [...state.achievements, ...earned] } : state;
+}
+
+/** 2 つの記録を合わせる。同じ実績は先に獲得した方の時刻を残す */
+export function mergeAchievements(a: EarnedAchievement[], b: EarnedAchievement[]): EarnedAchievement[] {
+  const first = new Map<string, EarnedAchievement>();
+  [...a, ...b].forEach((e) => {
+    const current = first.get(e.id);
+    if (!current || e.at < current.at) first.set(e.id, e);
+  });
+  return [...first.values()].sort((x, y) => x.at.localeCompare(y.at));
+}
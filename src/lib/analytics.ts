@@ -0,0 +1,118 @@
+import { fromDateKey, planDate } from "./calendar";
+import type { AppState, CategoryKey, DayPlan, Quest } from "./types";
+
+/** -----------------------------
+ *  分析（完了履歴からの集計）
+ *  過去の週（history）と今週の今日までを 1 日単位に並べて集計する。
+ *  ----------------------------*/
+export type DayRecord = {
+  date: Date; // その日のローカルの 0 時（週の1日目 + dayIndex 日）
+  cycle: number;
+  dayIndex: number;
+  done: number;
+  total: number; // 有効なクエスト数
+  points: number; // その日の台帳イベントの合計
+  byCategory: Partial<Record<CategoryKey, { done: number; total: number }>>;
+};
+
+export type CategoryTrend = {
+  cycle: number;
+  rates: Partial<Record<CategoryKey, number>>; // 0-100（そのカテゴリのクエストがない週は無し）
+};
+
+export type WeekdayStat = {
+  weekday: number; // 0 = 日曜
+  rate: number | null;
+  days: number;
+};
+
+/** 完了を数えるかどうか（連続記録の「当日中のみ」ルールなどで使う） */
+export type CountFilter = (q: Quest, cycle: number, dayIndex: number) => boolean;
+
+function dayRecord(plan: DayPlan, date: Date, cycle: number, dayIndex: number, state: AppState, counts?: CountFilter): DayRecord {
+  const enabled = plan.quests.filter((q) => q.enabled);
+  const isDone = (q: Quest) => q.done && (!counts || counts(q, cycle, dayIndex));
+  const byCategory: DayRecord["byCategory"] = {};
+  enabled.forEach((q) => {
+    if (!q.category) return;
+    const c = (byCategory[q.category as CategoryKey] ??= { done: 0, total: 0 });
+    c.total++;
+    if (isDone(q)) c.done++;
+  });
+  return {
+    date,
+    cycle,
+    dayIndex,
+    done: enabled.filter(isDone).length,
+    total: enabled.length,
+    points: state.ledger.filter((e) => e.cycle === cycle && e.dayIndex === dayIndex).reduce((s, e) => s + e.amount, 0),
+    byCategory,
+  };
+}
+
+/** 古い順。今週は todayIndex の日まで */
+export function dayRecords(state: AppState, todayIndex: number, counts?: CountFilter): DayRecord[] {
+  const weeks = [
+    ...state.history.map((w) => ({ cycle: w.cycle, startDate: w.startDate, plans: w.plans })),
+    ...(state.startDate ? [{ cycle: state.cycle, startDate: state.startDate, plans: state.plans.slice(0, todayIndex + 1) }] : []),
+  ];
+  return weeks.flatMap((w) =>
+    w.plans.map((p, i) => dayRecord(p, fromDateKey(planDate(w.startDate, i)), w.cycle, i, state, counts))
+  );
+}
+
+export const rateOf = (done: number, total: number) => (total ? Math.round((done / total) * 100) : 0);
+
+/** 週ごと・カテゴリごとの達成率 */
+export function categoryTrends(records: DayRecord[]): CategoryTrend[] {
+  const byCycle = new Map<number, DayRecord[]>();
+  records.forEach((r) => byCycle.set(r.cycle, [...(byCycle.get(r.cycle) ?? []), r]));
+  return [...byCycle.entries()].map(([cycle, days]) => {
+    const sums: Partial<Record<CategoryKey, { done: number; total: number }>> = {};
+    days.forEach((d) =>
+      (Object.entries(d.byCategory) as [CategoryKey, { done: number; total: number }][]).forEach(([cat, v]) => {
+        const s = (sums[cat] ??= { done: 0, total: 0 });
+        s.done += v.done;
+        s.total += v.total;
+      })
+    );
+    const rates: CategoryTrend["rates"] = {};
+    (Object.entries(sums) as [CategoryKey, { done: number; total: number }][]).forEach(([cat, s]) => {
+      rates[cat] = rateOf(s.done, s.total);
+    });
+    return { cycle, rates };
+  });
+}
+
+export function weekdayStats(records: DayRecord[]): WeekdayStat[] {
+  return Array.from({ length: 7 }, (_, weekday) => {
+    const days = records.filter((r) => r.date.getDay() === weekday && r.total > 0);
+    const done = days.reduce((s, r) => s + r.done, 0);
+    const total = days.reduce((s, r) => s + r.total, 0);
+    return { weekday, rate: days.length ? rateOf(done, total) : null, days: days.length };
+  });
+}
+
+/** 記録のある曜日のうち、達成率が最も高い / 低い曜日 */
+export function bestAndWorstWeekday(stats: WeekdayStat[]): { best: WeekdayStat; worst: WeekdayStat } | null {
+  const rated = stats.filter((s): s is WeekdayStat & { rate: number } => s.rate !== null);
+  if (!rated.length) return null;
+  const sorted = [...rated].sort((a, b) => b.rate - a.rate);
+  return { best: sorted[0], worst: sorted[sorted.length - 1] };
+}
+
+export function pointsPerWeek(state: AppState): { cycle: number; points: number }[] {
+  const cycles = [...state.history.map((w) => w.cycle), state.cycle];
+  return cycles.map((cycle) => ({
+    cycle,
+    points: state.ledger.filter((e) => e.cycle === cycle).reduce((s, e) => s + e.amount, 0),
+  }));
+}
+
+
+/** ヒートマップの濃さ 0-4（クエストのない日は -1） */
+export function heatLevel(r: DayRecord): number {
+  if (!r.total) return -1;
+  if (!r.done) return 0;
+  return Math.min(4, Math.ceil((r.done / r.total) * 4));
+}
@@ -0,0 +1,23 @@
+import { DEFAULT_THEME } from "./constants";
+import { DEFAULT_LOCALE, translator, type Locale } from "./i18n";
+
+/** -----------------------------
+ *  アプリの名前と色
+ *  layout の metadata・Web App Manifest・アプリアイコンで同じ値を使う。
+ *  ----------------------------*/
+export const APP_NAME = "River Agent";
+
+/** 説明文は i18n の app.description（metadata と manifest は静的に作るので既定の言語。画面では表示言語に差し替える） */
+export const appDescription = (locale: Locale = DEFAULT_LOCALE) => translator(locale)("app.description");
+
+/** ブラウザの UI とアイコンの色（既定のアクセント） */
+export const THEME_COLOR = DEFAULT_THEME.accent;
+/** 起動中のスプラッシュ画面の背景（既定の背景色） */
+export const BACKGROUND_COLOR = DEFAULT_THEME.backgroundColor;
+
+/** アプリアイコン（app/icon.tsx が /icon/{id} で PNG を返す）。maskable は OS が形を切り抜く用 */
+export const APP_ICONS = [
+  { id: "192", size: 192, purpose: "any" },
+  { id: "512", size: 512, purpose: "any" },
+  { id: "maskable", size: 512, purpose: "maskable" },
+] as const;
@@ -0,0 +1,71 @@
+/** -----------------------------
+ *  暦日の計算
+ *  日付は端末のローカル日付 "YYYY-MM-DD" で持ち、日数の計算は UTC の暦で行う。
+ *  経過時間を 24 時間で割らないので、夏時間やタイムゾーンの変更で日がずれない。
+ *  日の区切りは「1日の始まり」の時刻（既定 0 時。夜型なら 4 時など）。
+ *  ----------------------------*/
+export const DAY_MS = 1000 * 60 * 60 * 24;
+export const DEFAULT_DAY_START_HOUR = 0;
+export const MAX_DAY_START_HOUR = 6;
+
+const DATE_KEY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parts(key: string): [number, number, number] {
+  const m = DATE_KEY.exec(key);
+  if (!m) throw new Error(`invalid date key: ${key}`);
+  return [Number(m[1]), Number(m[2]) - 1, Number(m[3])];
+}
+
+export function isDateKey(v: unknown): v is string {
+  if (typeof v !== "string" || !DATE_KEY.test(v)) return false;
+  const [y, m, d] = parts(v);
+  const utc = new Date(Date.UTC(y, m, d));
+  return utc.getUTCFullYear() === y && utc.getUTCMonth() === m && utc.getUTCDate() === d;
+}
+
+/** ローカル日付の "YYYY-MM-DD" */
+export function toDateKey(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** その日のローカルの 0 時（表示・曜日用） */
+export function fromDateKey(key: string): Date {
+  const [y, m, d] = parts(key);
+  return new Date(y, m, d);
+}
+
+export function addDays(key: string, days: number): string {
+  const [y, m, d] = parts(key);
+  return new Date(Date.UTC(y, m, d + days)).toISOString().slice(0, 10);
+}
+
+/** 週の1日目と dayIndex から、そのプランの日付 */
+export function planDate(startDate: string, dayIndex: number): string {
+  return addDays(startDate, dayIndex);
+}
+
+/** from から to までの日数（同じ日なら 0） */
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = parts(from);
+  const [ty, tm, td] = parts(to);
+  return Math.round((Date.UTC(ty, tm, td) - Date.UTC(fy, fm, fd)) / DAY_MS);
+}
+
+/** 0 = 日曜 */
+export function weekdayOf(key: string): number {
+  const [y, m, d] = parts(key);
+  return new Date(Date.UTC(y, m, d)).getUTCDay();
+}
+
+/** その時刻が属する日。1日の始まりより前の時刻は前日に数える */
+export function dayKeyAt(at: Date, dayStartHour = DEFAULT_DAY_START_HOUR): string {
+  const key = toDateKey(at);
+  return at.getHours() < dayStartHour ? addDays(key, -1) : key;
+}
+
+/** その日が始まる時刻（ローカル） */
+export function dayStartsAt(key: string, dayStartHour = DEFAULT_DAY_START_HOUR): Date {
+  const [y, m, d] = parts(key);
+  return new Date(y, m, d, dayStartHour);
+}
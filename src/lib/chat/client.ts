@@ -0,0 +1,88 @@
+import { translator, type Locale } from "../i18n";
+import type { ChatChunk, ChatMsg, PlanContext, ToolCall } from "./types";
+
+/** -----------------------------
+ *  /api/chat のクライアント
+ *  ----------------------------*/
+export class ChatRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterSec?: number) {
+    super(message);
+    this.name = "ChatRequestError";
+  }
+}
+
+function parseChunk(line: string): ChatChunk | null {
+  try {
+    const c = JSON.parse(line);
+    return c && typeof c.type === "string" ? (c as ChatChunk) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 応答をトークンごとに onToken へ、ツール呼び出しを onToolCall へ渡し、最終的な全文を返す。
+ * 中断時は AbortError を、サーバー側の失敗は ChatRequestError を投げる。
+ */
+export async function streamChat(
+  messages: ChatMsg[],
+  {
+    signal,
+    context,
+    locale,
+    onToken,
+    onToolCall,
+  }: {
+    signal: AbortSignal;
+    context?: PlanContext;
+    locale: Locale;
+    onToken: (token: string) => void;
+    onToolCall?: (call: ToolCall) => void;
+  }
+): Promise<string> {
+  const res = await fetch("/api/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Accept-Language": locale },
+    body: JSON.stringify({ messages, context, locale }),
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    let message = translator(locale)("chat.error.network", { status: String(res.status) });
+    try {
+      const data = await res.json();
+      if (typeof data?.error === "string") message = data.error;
+    } catch {
+      // 本文なし
+    }
+    const retryAfter = Number(res.headers.get("Retry-After")) || undefined;
+    throw new ChatRequestError(message, res.status, retryAfter);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let text = "";
+  let buf = "";
+  const handle = (line: string) => {
+    const chunk = line.trim() ? parseChunk(line) : null;
+    if (!chunk) return;
+    if (chunk.type === "token") {
+      text += chunk.text;
+      onToken(chunk.text);
+    } else if (chunk.type === "tool_call") {
+      onToolCall?.(chunk.call);
+    } else {
+      throw new ChatRequestError(chunk.message, 502);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buf += value;
+    const lines = buf.split("\n");
+    buf = lines.pop() ?? "";
+    lines.forEach(handle);
+  }
+  handle(buf);
+  return text;
+}
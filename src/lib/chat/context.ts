@@ -0,0 +1,74 @@
+import { categoryLabel } from "../constants";
+import type { Translate } from "../i18n";
+import { formatMeasure, isMeasurable } from "../measure";
+import { questPoints } from "../scoring";
+import type { AppState } from "../types";
+import type { PlanContext } from "./types";
+
+/** -----------------------------
+ *  エージェント用のプラン要約
+ *  カテゴリ名・ランク名・数値目標はユーザーの表示言語で渡す。
+ *  ----------------------------*/
+export function buildPlanContext(
+  state: AppState,
+  todayIndex: number,
+  score: { totalPoints: number; rank: string; pointsToNextRank: number },
+  t: Translate
+): PlanContext {
+  const week = state.plans.map((p) => {
+    const enabled = p.quests.filter((q) => q.enabled);
+    return { day: p.day, done: enabled.filter((q) => q.done).length, total: enabled.length };
+  });
+  const done = week.reduce((s, d) => s + d.done, 0);
+  const total = week.reduce((s, d) => s + d.total, 0);
+  const today = state.plans[todayIndex];
+
+  return {
+    cycle: state.cycle,
+    todayIndex,
+    dayCount: state.plans.length,
+    selectedCategories: state.selectedCategories.map((c) => categoryLabel(c, t, state.library.categories)),
+    ...score,
+    weekProgress: total ? Math.round((done / total) * 100) : 0,
+    today: {
+      day: today?.day ?? todayIndex + 1,
+      quests: (today?.quests ?? []).map((q) => ({
+        id: q.id,
+        title: q.title,
+        category: q.category && categoryLabel(q.category, t, state.library.categories),
+        points: questPoints(q),
+        done: q.done,
+        enabled: q.enabled,
+        locked: !!q.locked,
+        measure: isMeasurable(q) ? formatMeasure(q, t) : undefined,
+      })),
+    },
+    week,
+  };
+}
+
+/** システムプロンプトに埋め込むテキスト形式 */
+export function formatPlanContext(ctx: PlanContext, t: Translate): string {
+  const quests = ctx.today.quests
+    .map((q) => {
+      const notes = [
+        `id=${q.id}`,
+        q.category ?? t("chatContext.noCategory"),
+        `${q.points}pt`,
+        q.measure,
+        q.enabled ? undefined : t("chatContext.disabled"),
+        q.locked ? t("chatContext.locked") : undefined,
+      ];
+      return `- [${q.done ? "x" : " "}] ${q.title} (${notes.filter(Boolean).join(", ")})`;
+    })
+    .join("\n");
+  const week = ctx.week.map((d) => `Day ${d.day}: ${d.done}/${d.total}`).join(", ");
+  return [
+    t("chatContext.today", { cycle: ctx.cycle, day: ctx.today.day, dayIndex: String(ctx.todayIndex) }),
+    t("chatContext.categories", { categories: ctx.selectedCategories.join(t("common.listSeparator")) || t("common.none") }),
+    t("chatContext.points", { points: ctx.totalPoints, rank: ctx.rank, toNext: ctx.pointsToNextRank }),
+    t("chatContext.progress", { rate: ctx.weekProgress, week }),
+    t("chatContext.quests"),
+    quests || `- ${t("common.none")}`,
+  ].join("\n");
+}
@@ -0,0 +1,99 @@
+import type { Translate } from "../i18n";
+import { writeBackup } from "../storage";
+import { isRecord, uid } from "../utils";
+import type { ChatItem, Conversation } from "./types";
+
+/** -----------------------------
+ *  チャット履歴の永続化（AppState とは別キー）
+ *  ----------------------------*/
+export const CHAT_STORAGE_KEY = "growth-planner-chats";
+const CHAT_SCHEMA_VERSION = 1;
+const MAX_CONVERSATIONS = 50;
+const TITLE_LENGTH = 24;
+
+export function newConversation(t: Translate, greeting = t("chat.welcome")): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: uid(),
+    title: t("chat.newChat"),
+    createdAt: now,
+    updatedAt: now,
+    items: [{ role: "assistant", content: greeting, at: now }],
+  };
+}
+
+/** 最初のユーザー発言からタイトルを作る */
+export function autoTitle(c: Conversation): string {
+  if (c.titleEdited) return c.title;
+  const first = c.items.find((m) => m.role === "user");
+  if (!first || first.role !== "user") return c.title;
+  const t = first.content.replace(/\s+/g, " ").trim();
+  return t.length > TITLE_LENGTH ? `${t.slice(0, TITLE_LENGTH)}…` : t;
+}
+
+function isChatItem(v: unknown): v is ChatItem {
+  if (!isRecord(v) || typeof v.at !== "string") return false;
+  if (v.role === "user" || v.role === "assistant") return typeof v.content === "string";
+  return v.role === "proposal" && typeof v.id === "string" && isRecord(v.call) && typeof v.status === "string";
+}
+
+function parseConversation(v: unknown, t: Translate): Conversation | null {
+  if (!isRecord(v) || typeof v.id !== "string" || !Array.isArray(v.items)) return null;
+  const now = new Date().toISOString();
+  return {
+    id: v.id,
+    title: typeof v.title === "string" ? v.title : t("chat.newChat"),
+    titleEdited: v.titleEdited === true,
+    createdAt: typeof v.createdAt === "string" ? v.createdAt : now,
+    updatedAt: typeof v.updatedAt === "string" ? v.updatedAt : now,
+    items: v.items.filter(isChatItem),
+  };
+}
+
+/** 新しい順で返す。読めないデータは退避して空から始める */
+export function loadConversations(t: Translate): Conversation[] {
+  if (typeof window === "undefined") return [];
+  const raw = localStorage.getItem(CHAT_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!isRecord(parsed) || parsed.schemaVersion !== CHAT_SCHEMA_VERSION || !Array.isArray(parsed.conversations)) {
+      throw new Error("unknown format");
+    }
+    return parsed.conversations
+      .map((c: unknown) => parseConversation(c, t))
+      .filter((c): c is Conversation => c !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    writeBackup(raw);
+    localStorage.removeItem(CHAT_STORAGE_KEY);
+    return [];
+  }
+}
+
+export function saveConversations(conversations: Conversation[]): boolean {
+  if (typeof window === "undefined") return false;
+  const kept = [...conversations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).slice(0, MAX_CONVERSATIONS);
+  try {
+    localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify({ schemaVersion: CHAT_SCHEMA_VERSION, conversations: kept }));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function clearConversations() {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(CHAT_STORAGE_KEY);
+}
+
+/** タイトルと本文の部分一致 */
+export function searchConversations(conversations: Conversation[], query: string): Conversation[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return conversations;
+  return conversations.filter(
+    (c) =>
+      c.title.toLowerCase().includes(q) ||
+      c.items.some((m) => m.role !== "proposal" && m.content.toLowerCase().includes(q))
+  );
+}
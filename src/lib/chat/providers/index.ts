@@ -0,0 +1,28 @@
+import type { Translate } from "../../i18n";
+import { ChatProviderError, type ChatProvider } from "../types";
+import { createLocalProvider } from "./local";
+import { createOpenAIProvider } from "./openai";
+
+/** -----------------------------
+ *  環境変数からプロバイダを選ぶ
+ *  CHAT_PROVIDER=local（既定）| openai
+ *  openai: OPENAI_API_KEY（必須）, OPENAI_MODEL, OPENAI_BASE_URL, CHAT_SYSTEM_PROMPT（未指定なら表示言語ごとの既定）
+ *  local: CHAT_LOCAL_DELAY_MS（トークン間の待ち時間）
+ *  設定の誤りは ChatProviderError（t はリクエストの言語）。
+ *  ----------------------------*/
+export function getChatProvider(t: Translate, env: Record<string, string | undefined> = process.env): ChatProvider {
+  switch (env.CHAT_PROVIDER ?? "local") {
+    case "openai":
+      if (!env.OPENAI_API_KEY) throw new ChatProviderError(t("api.chat.missingApiKey"), 500);
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL ?? "gpt-4o-mini",
+        baseUrl: env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+        systemPrompt: env.CHAT_SYSTEM_PROMPT,
+      });
+    case "local":
+      return createLocalProvider({ delayMs: Number(env.CHAT_LOCAL_DELAY_MS ?? 30) || 0 });
+    default:
+      throw new ChatProviderError(t("api.chat.unknownProvider", { provider: String(env.CHAT_PROVIDER) }), 500);
+  }
+}
@@ -0,0 +1,119 @@
+import { translator, type Translate } from "../../i18n";
+import type { ChatChunk, ChatMsg, ChatProvider, ChatStreamOptions, PlanContext, PlanContextQuest, ToolCall } from "../types";
+
+/** -----------------------------
+ *  ローカル（オフライン）プロバイダ
+ *  開発・テスト用。同じ入力とプランには必ず同じ応答を返す。
+ *  ----------------------------*/
+type Reply = { text: string; call?: ToolCall };
+
+/** 「」や引用符で囲まれた部分（なければ null） */
+function quoted(input: string): string | null {
+  const m = input.match(/「(.+?)」|“(.+?)”|"(.+?)"/);
+  return (m && (m[1] ?? m[2] ?? m[3]))?.trim() || null;
+}
+
+function findQuest(input: string, ctx: PlanContext, pred: (q: PlanContextQuest) => boolean): PlanContextQuest | undefined {
+  const key = quoted(input);
+  const candidates = ctx.today.quests.filter(pred);
+  return (
+    candidates.find((q) => (key ? q.title.includes(key) : input.includes(q.title))) ??
+    (key ? undefined : candidates[0])
+  );
+}
+
+function progressReply(ctx: PlanContext, t: Translate): string {
+  const enabled = ctx.today.quests.filter((q) => q.enabled);
+  const done = enabled.filter((q) => q.done).length;
+  const rest = enabled.filter((q) => !q.done).map((q) => `・${q.title}`);
+  return [
+    t("chat.local.progress", { cycle: ctx.cycle, day: ctx.today.day, done, total: enabled.length, rate: ctx.weekProgress }),
+    t("chat.local.points", { points: ctx.totalPoints, rank: ctx.rank, toNext: ctx.pointsToNextRank }),
+    rest.length ? `${t("chat.local.remaining")}\n${rest.join("\n")}` : t("chat.local.allDone"),
+  ].join("\n");
+}
+
+// 日本語と英語のどちらの言い方にも反応する
+const ADD = /追加|\badd\b/i;
+const REST = /休み|休息|無効|\b(rest|day off|skip today)\b/i;
+const EASIER = /簡単|軽め|楽に|きつい|\b(easier|too hard|lighter)\b/i;
+const DONE = /完了|終わった|やった|できた|\b(done|finished|completed?)\b/i;
+const STATUS = /進捗|status|ステータス|\bprogress\b/i;
+const DATA = /データ|分析|\b(data|analy[sz]e|analysis)\b/i;
+const IDEAS = /アイデア|提案|\b(ideas?|suggest(ion)?s?)\b/i;
+
+function reply(input: string, t: Translate, ctx?: PlanContext): Reply {
+  if (ctx) {
+    const dayIndex = ctx.todayIndex;
+
+    if (ADD.test(input)) {
+      const title = quoted(input);
+      if (!title) return { text: t("chat.local.addHowTo") };
+      return { text: t("chat.local.addConfirm", { title }), call: { name: "add_quest", args: { dayIndex, title } } };
+    }
+    if (REST.test(input)) {
+      return {
+        text: t("chat.local.rest"),
+        call: { name: "set_day_enabled", args: { dayIndex, enabled: false } },
+      };
+    }
+    if (EASIER.test(input)) {
+      const q = findQuest(input, ctx, (x) => x.enabled && !x.done && !!x.category);
+      if (!q) return { text: t("chat.local.noSwappable") };
+      return {
+        text: t("chat.local.swap", { title: q.title }),
+        call: { name: "swap_easier_quest", args: { dayIndex, questId: q.id } },
+      };
+    }
+    if (DONE.test(input)) {
+      const q = findQuest(input, ctx, (x) => x.enabled && !x.done && !x.locked);
+      if (!q) return { text: t("chat.local.noCompletable") };
+      return { text: t("chat.local.complete", { title: q.title }), call: { name: "complete_quest", args: { dayIndex, questId: q.id } } };
+    }
+    if (STATUS.test(input)) return { text: progressReply(ctx, t) };
+  }
+
+  if (STATUS.test(input)) return { text: t("chat.local.statusNoContext") };
+  if (DATA.test(input)) return { text: t("chat.local.data") };
+  if (IDEAS.test(input)) return { text: t("chat.local.ideas") };
+  return { text: t("chat.local.fallback") };
+}
+
+/** 2文字ずつ区切ってトークンとして流す */
+function tokenize(text: string): string[] {
+  const chars = Array.from(text);
+  const out: string[] = [];
+  for (let i = 0; i < chars.length; i += 2) out.push(chars.slice(i, i + 2).join(""));
+  return out;
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(t);
+      resolve();
+    };
+    const t = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+export function createLocalProvider({ delayMs = 0 }: { delayMs?: number } = {}): ChatProvider {
+  return {
+    name: "local",
+    async *stream(messages: ChatMsg[], { signal, context, locale }: ChatStreamOptions): AsyncIterable<ChatChunk> {
+      const last = [...messages].reverse().find((m) => m.role === "user");
+      const { text, call } = reply(last?.content ?? "", translator(locale), context);
+      for (const token of tokenize(text)) {
+        if (signal.aborted) return;
+        await sleep(delayMs, signal);
+        if (signal.aborted) return;
+        yield { type: "token", text: token };
+      }
+      if (call && !signal.aborted) yield { type: "tool_call", call };
+    },
+  };
+}
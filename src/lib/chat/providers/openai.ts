@@ -0,0 +1,98 @@
+import { translator } from "../../i18n";
+import { formatPlanContext } from "../context";
+import { parseToolCall, TOOL_DEFINITIONS } from "../tools";
+import { ChatProviderError, type ChatChunk, type ChatMsg, type ChatProvider, type ChatStreamOptions } from "../types";
+
+/** -----------------------------
+ *  OpenAI 互換 API（/chat/completions, stream: true）のアダプタ
+ *  ----------------------------*/
+export type OpenAIConfig = {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  systemPrompt?: string; // 未指定なら表示言語ごとの既定のプロンプト
+};
+
+export function createOpenAIProvider(config: OpenAIConfig): ChatProvider {
+  return {
+    name: "openai",
+    async *stream(messages: ChatMsg[], { signal, context, locale }: ChatStreamOptions): AsyncIterable<ChatChunk> {
+      const t = translator(locale);
+      const system = [
+        config.systemPrompt ?? t("chat.systemPrompt"),
+        context && t("chat.contextPrompt", { context: formatPlanContext(context, t) }),
+      ].filter(Boolean).join("\n\n");
+      const body = {
+        model: config.model,
+        stream: true,
+        messages: [...(system ? [{ role: "system", content: system }] : []), ...messages],
+        ...(context && {
+          tools: TOOL_DEFINITIONS.map((t) => ({ type: "function", function: t })),
+        }),
+      };
+
+      let res: Response;
+      try {
+        res = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${config.apiKey}` },
+          body: JSON.stringify(body),
+          signal,
+        });
+      } catch (e) {
+        if (signal.aborted) return;
+        throw new ChatProviderError(t("chat.error.connect", { message: (e as Error).message }));
+      }
+      if (!res.ok || !res.body) {
+        throw new ChatProviderError(t("chat.error.status", { status: String(res.status) }), res.status === 429 ? 429 : 502);
+      }
+
+      // Server-Sent Events を 1 行ずつ読む。ツール呼び出しは index ごとに引数の断片を連結する
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      const toolCalls = new Map<number, { name: string; args: string }>();
+      let buf = "";
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buf += value;
+          const lines = buf.split("\n");
+          buf = lines.pop() ?? "";
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, "").trim();
+            if (!line.startsWith("data:") || !data) continue;
+            if (data === "[DONE]") break;
+            try {
+              const delta = JSON.parse(data)?.choices?.[0]?.delta;
+              if (typeof delta?.content === "string" && delta.content) yield { type: "token", text: delta.content };
+              for (const tc of delta?.tool_calls ?? []) {
+                const cur = toolCalls.get(tc.index) ?? { name: "", args: "" };
+                cur.name += tc.function?.name ?? "";
+                cur.args += tc.function?.arguments ?? "";
+                toolCalls.set(tc.index, cur);
+              }
+            } catch {
+              // 壊れたチャンクは読み飛ばす
+            }
+          }
+        }
+
+        for (const { name, args } of toolCalls.values()) {
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(args || "{}");
+          } catch {
+            continue;
+          }
+          const call = parseToolCall(name, parsed);
+          if (call) yield { type: "tool_call", call };
+        }
+      } catch (e) {
+        if (signal.aborted) return;
+        throw new ChatProviderError(t("chat.error.receive", { message: (e as Error).message }));
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  };
+}
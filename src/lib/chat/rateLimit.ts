@@ -0,0 +1,37 @@
+/** -----------------------------
+ *  セッション単位のレート制限（スライディングウィンドウ・プロセス内メモリ）
+ *  ----------------------------*/
+export type RateLimitResult = { ok: true; remaining: number } | { ok: false; retryAfterSec: number };
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const hits = new Map<string, number[]>();
+
+  return function check(key: string, now = Date.now()): RateLimitResult {
+    const recent = (hits.get(key) ?? []).filter((t) => now - t < windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return { ok: false, retryAfterSec: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+    }
+    recent.push(now);
+    hits.set(key, recent);
+
+    // 古いセッションを掃除
+    if (hits.size > 1000) {
+      hits.forEach((ts, k) => {
+        if (!ts.some((t) => now - t < windowMs)) hits.delete(k);
+      });
+    }
+    return { ok: true, remaining: limit - recent.length };
+  };
+}
+
+/**
+ * レート制限に使う接続元のアドレス。x-forwarded-for はクライアントが自由に付けられるので、
+ * 信頼できるリバースプロキシの後ろ（TRUST_PROXY=1）でだけ、プロキシが付け足した末尾の値を使う。
+ * それ以外は null（呼び出し側で共通のキーにまとめる）。
+ */
+export function clientAddress(req: Request, env: Record<string, string | undefined> = process.env): string | null {
+  if (env.TRUST_PROXY !== "1" && env.TRUST_PROXY !== "true") return null;
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return forwarded || null;
+}
@@ -0,0 +1,40 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { sessionUser } from "../sync/session";
+import { clientAddress } from "./rateLimit";
+
+/** -----------------------------
+ *  チャットのレート制限のキー（サーバー専用）
+ *  ログイン中は同期のアカウント、そうでなければサーバーが発行する署名付きの httpOnly クッキーで識別する。
+ *  クッキーのないリクエストは、接続元アドレスがわかる（信頼できるプロキシの後ろ）ならアドレスごとにまとめて数える。
+ *  わからなければ発行したクッキーで数え始める（全員を 1 つにまとめると、1 人の連投で新しい訪問者がみな弾かれる）。
+ *  ----------------------------*/
+export const CHAT_SESSION_COOKIE = "growth-planner-chat-session";
+
+// 署名の鍵。レート制限の記録と同じくプロセス内だけで使うので、再起動で変わってよい
+const SECRET = randomBytes(32);
+
+const sign = (id: string) => createHmac("sha256", SECRET).update(id).digest("base64url");
+
+function verify(token: string | undefined): string | null {
+  const [id, mac] = token?.split(".") ?? [];
+  if (!id || !mac) return null;
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(mac);
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? id : null;
+}
+
+/** このリクエストを数えるキー。クッキーがなければ発行する（次のリクエストからはそちらで数える） */
+export async function chatRateLimitKey(req: Request): Promise<string> {
+  const user = await sessionUser();
+  if (user) return `user:${user.id}`;
+
+  const jar = await cookies();
+  const id = verify(jar.get(CHAT_SESSION_COOKIE)?.value);
+  if (id) return `chat:${id}`;
+
+  const fresh = randomUUID();
+  jar.set(CHAT_SESSION_COOKIE, `${fresh}.${sign(fresh)}`, { httpOnly: true, sameSite: "lax", path: "/" });
+  const address = clientAddress(req);
+  return address ? `addr:${address}` : `chat:${fresh}`;
+}
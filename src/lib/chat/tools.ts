@@ -0,0 +1,170 @@
+import { isCategoryKey, POINTS_PER_QUEST } from "../constants";
+import type { I18n, Locale } from "../i18n";
+import { hasCategory, templatesFor } from "../library";
+import { addQuest, updateQuest } from "../questEdit";
+import type { DayPlan, QuestTemplate, TemplateLibrary } from "../types";
+import { isRecord } from "../utils";
+import type { ToolCall, ToolName } from "./types";
+
+/** -----------------------------
+ *  エージェントのツール
+ *  定義（LLM に渡す JSON Schema）・引数の検証・プランへの適用
+ *  ----------------------------*/
+export const TOOL_DEFINITIONS: { name: ToolName; description: string; parameters: Record<string, unknown> }[] = [
+  {
+    name: "add_quest",
+    description: "指定した日にクエストを追加する",
+    parameters: {
+      type: "object",
+      properties: {
+        dayIndex: { type: "integer", minimum: 0, maximum: 6, description: "0 始まりの日インデックス" },
+        title: { type: "string" },
+        category: { type: "string", description: "カテゴリのキー（exercise, study, habit, faith, social, money, sleep, diet, mental）" },
+        points: { type: "integer", minimum: 0 },
+      },
+      required: ["dayIndex", "title"],
+    },
+  },
+  {
+    name: "complete_quest",
+    description: "クエストを完了にする",
+    parameters: {
+      type: "object",
+      properties: { dayIndex: { type: "integer", minimum: 0, maximum: 6 }, questId: { type: "string" } },
+      required: ["dayIndex", "questId"],
+    },
+  },
+  {
+    name: "set_day_enabled",
+    description: "その日のクエストをまとめて有効／無効にする（休息日など）",
+    parameters: {
+      type: "object",
+      properties: { dayIndex: { type: "integer", minimum: 0, maximum: 6 }, enabled: { type: "boolean" } },
+      required: ["dayIndex", "enabled"],
+    },
+  },
+  {
+    name: "swap_easier_quest",
+    description: "クエストを同じカテゴリの軽めのテンプレートクエストに差し替える",
+    parameters: {
+      type: "object",
+      properties: { dayIndex: { type: "integer", minimum: 0, maximum: 6 }, questId: { type: "string" } },
+      required: ["dayIndex", "questId"],
+    },
+  },
+];
+
+const isDayIndex = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v) && v >= 0;
+
+/** LLM から届いた名前と引数を検証して ToolCall にする。不正なら null */
+export function parseToolCall(name: string, args: unknown): ToolCall | null {
+  if (!isRecord(args) || !isDayIndex(args.dayIndex)) return null;
+  const dayIndex = args.dayIndex;
+  switch (name) {
+    case "add_quest": {
+      if (typeof args.title !== "string" || !args.title.trim()) return null;
+      const call: ToolCall = { name, args: { dayIndex, title: args.title.trim() } };
+      if (isCategoryKey(args.category)) call.args.category = args.category;
+      if (typeof args.points === "number" && Number.isInteger(args.points) && args.points >= 0) call.args.points = args.points;
+      return call;
+    }
+    case "complete_quest":
+    case "swap_easier_quest":
+      return typeof args.questId === "string" ? { name, args: { dayIndex, questId: args.questId } } : null;
+    case "set_day_enabled":
+      return typeof args.enabled === "boolean" ? { name, args: { dayIndex, enabled: args.enabled } } : null;
+    default:
+      return null;
+  }
+}
+
+/** 差し替え先：同じカテゴリで、その日にまだないテンプレート（テンプレートは軽い順なので前から探す） */
+function easierTemplate(
+  day: DayPlan,
+  category: string | undefined,
+  currentTitle: string,
+  locale: Locale,
+  library: TemplateLibrary
+): QuestTemplate | null {
+  if (!hasCategory(library, category)) return null;
+  const used = new Set(day.quests.map((q) => q.title));
+  return templatesFor(library, category).find((t) => t.title[locale] !== currentTitle && !used.has(t.title[locale])) ?? null;
+}
+
+export type ToolResult = { ok: true; plans: DayPlan[] } | { ok: false; error: string };
+
+export function applyToolCall(plans: DayPlan[], call: ToolCall, { locale, t }: I18n, library: TemplateLibrary): ToolResult {
+  const day = plans[call.args.dayIndex];
+  if (!day) return { ok: false, error: t("tools.error.noDay", { day: call.args.dayIndex + 1 }) };
+
+  switch (call.name) {
+    case "add_quest":
+      return {
+        ok: true,
+        plans: addQuest(plans, [call.args.dayIndex], {
+          title: call.args.title,
+          category: call.args.category,
+          points: call.args.points ?? POINTS_PER_QUEST,
+        }),
+      };
+    case "complete_quest": {
+      const q = day.quests.find((x) => x.id === call.args.questId);
+      if (!q) return { ok: false, error: t("tools.error.questNotFound") };
+      if (!q.enabled || q.locked) return { ok: false, error: t("tools.error.notCompletable") };
+      return {
+        ok: true,
+        plans: plans.map((p, i) =>
+          i === call.args.dayIndex ? { ...p, quests: p.quests.map((x) => (x.id === q.id ? { ...x, done: true } : x)) } : p
+        ),
+      };
+    }
+    case "set_day_enabled": {
+      const { enabled } = call.args;
+      return {
+        ok: true,
+        plans: plans.map((p, i) =>
+          i === call.args.dayIndex ? { ...p, quests: p.quests.map((q) => ({ ...q, enabled, done: enabled ? q.done : false })) } : p
+        ),
+      };
+    }
+    case "swap_easier_quest": {
+      const q = day.quests.find((x) => x.id === call.args.questId);
+      if (!q) return { ok: false, error: t("tools.error.questNotFound") };
+      const template = easierTemplate(day, q.category, q.title, locale, library);
+      if (!template) return { ok: false, error: t("tools.error.noTemplate") };
+      return {
+        ok: true,
+        plans: updateQuest(plans, call.args.dayIndex, q.id, {
+          title: template.title[locale],
+          category: q.category,
+          points: Math.min(q.points ?? POINTS_PER_QUEST, template.points),
+          note: q.note,
+          target: template.target,
+          unit: template.unit,
+        }),
+      };
+    }
+  }
+}
+
+/** 確認カードに表示する説明 */
+export function describeToolCall(plans: DayPlan[], call: ToolCall, { locale, t }: I18n, library: TemplateLibrary): string {
+  const day = call.args.dayIndex + 1;
+  const questTitle = (id: string) => plans[call.args.dayIndex]?.quests.find((q) => q.id === id)?.title ?? t("tools.unknownQuest");
+  switch (call.name) {
+    case "add_quest":
+      return t("tools.describe.add", { day, title: call.args.title, points: call.args.points ?? POINTS_PER_QUEST });
+    case "complete_quest":
+      return t("tools.describe.complete", { day, title: questTitle(call.args.questId) });
+    case "set_day_enabled":
+      return t(call.args.enabled ? "tools.describe.enableDay" : "tools.describe.disableDay", { day });
+    case "swap_easier_quest": {
+      const plan = plans[call.args.dayIndex];
+      const q = plan?.quests.find((x) => x.id === call.args.questId);
+      const next = plan && q ? easierTemplate(plan, q.category, q.title, locale, library) : null;
+      return next
+        ? t("tools.describe.swap", { day, title: questTitle(call.args.questId), next: next.title[locale] })
+        : t("tools.describe.swapEasier", { day, title: questTitle(call.args.questId) });
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { Locale } from "../i18n";
+
+/** -----------------------------
+ *  チャットの型定義（クライアント・サーバー共通）
+ *  ----------------------------*/
+export type ChatRole = "user" | "assistant";
+export type ChatMsg = { role: ChatRole; content: string };
+
+/** 保存用：タイムラインに並ぶ発言と提案カード */
+export type StoredChatMsg = ChatMsg & { at: string }; // ISO
+export type ProposalItem = {
+  role: "proposal";
+  id: string;
+  call: ToolCall;
+  status: "pending" | "applied" | "rejected";
+  error?: string;
+  at: string; // ISO
+};
+export type ChatItem = StoredChatMsg | ProposalItem;
+
+export type Conversation = {
+  id: string;
+  title: string;
+  titleEdited?: boolean; // ユーザーが名前を付けたら自動タイトルで上書きしない
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  items: ChatItem[];
+};
+
+/** エージェントに渡すプランの要約（クライアントで AppState から組み立てる） */
+export type PlanContextQuest = {
+  id: string;
+  title: string;
+  category?: string;
+  points: number;
+  done: boolean;
+  enabled: boolean;
+  locked: boolean;
+  measure?: string; // 数値目標の進み具合（例: "500/1500ml"）
+};
+
+export type PlanContext = {
+  cycle: number;
+  todayIndex: number;
+  dayCount: number;
+  selectedCategories: string[];
+  totalPoints: number;
+  rank: string;
+  pointsToNextRank: number;
+  weekProgress: number; // 0-100
+  today: { day: number; quests: PlanContextQuest[] };
+  week: { day: number; done: number; total: number }[];
+};
+
+/** エージェントが提案できる操作。ユーザーが確認してから state に適用する */
+export type ToolCall =
+  | { name: "add_quest"; args: { dayIndex: number; title: string; category?: string; points?: number } }
+  | { name: "complete_quest"; args: { dayIndex: number; questId: string } }
+  | { name: "set_day_enabled"; args: { dayIndex: number; enabled: boolean } }
+  | { name: "swap_easier_quest"; args: { dayIndex: number; questId: string } };
+
+export type ToolName = ToolCall["name"];
+
+/** ストリームで流れる断片。/api/chat は 1 行 1 JSON（NDJSON）で送る */
+export type ChatChunk =
+  | { type: "token"; text: string }
+  | { type: "tool_call"; call: ToolCall }
+  | { type: "error"; message: string };
+
+export type ChatStreamOptions = {
+  signal: AbortSignal;
+  context?: PlanContext;
+  locale: Locale; // 応答とエラーメッセージの言語
+};
+
+/**
+ * 応答を生成するプロバイダ。
+ * stream はトークンとツール呼び出しを順に返し、signal が中断されたら速やかに終了する。
+ */
+export interface ChatProvider {
+  readonly name: string;
+  stream(messages: ChatMsg[], opts: ChatStreamOptions): AsyncIterable<ChatChunk>;
+}
+
+export class ChatProviderError extends Error {
+  constructor(message: string, readonly status = 502) {
+    super(message);
+    this.name = "ChatProviderError";
+  }
+}
@@ -0,0 +1,42 @@
+import { dayKeyAt, planDate } from "./calendar";
+import { dayStartHourOf } from "./profile";
+import type { AppState, CompletionEvent } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  完了ログ
+ *  プランの変更前後で done が変わったクエストを、操作した時刻つきで記録する。
+ *  プランの日以外に付けた完了は sameDay: false（後から記録）になる。
+ *  ----------------------------*/
+export function completionEvents(prev: AppState, next: AppState, now = new Date()): CompletionEvent[] {
+  const { startDate } = next;
+  if (prev.cycle !== next.cycle || !startDate) return [];
+  const today = dayKeyAt(now, dayStartHourOf(next.profile));
+  const before = new Map(prev.plans.flatMap((d) => d.quests).map((q) => [q.id, q.done]));
+  const at = now.toISOString();
+  const out: CompletionEvent[] = [];
+  next.plans.forEach((day, dayIndex) =>
+    day.quests.forEach((q) => {
+      if ((before.get(q.id) ?? false) === q.done) return;
+      out.push({
+        id: uid(),
+        questId: q.id,
+        cycle: next.cycle,
+        dayIndex,
+        category: q.category,
+        done: q.done,
+        at,
+        sameDay: planDate(startDate, dayIndex) === today,
+      });
+    })
+  );
+  return out;
+}
+
+/** クエストの最新の記録（完了済みなら最後に完了した記録） */
+export function lastCompletion(log: CompletionEvent[], questId: string): CompletionEvent | undefined {
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (log[i].questId === questId) return log[i];
+  }
+  return undefined;
+}
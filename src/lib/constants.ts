@@ -0,0 +1,179 @@
+import type { Translate } from "./i18n";
+import type { BuiltinCategoryKey, CategoryKey, CustomCategory, CustomCategoryKey, Profile, ProfileAvatar, QuestChain, QuestTemplate, ReminderSettings, Theme } from "./types";
+
+/** -----------------------------
+ *  定数
+ *  ----------------------------*/
+/** 組み込みのカテゴリ。自分で作ったカテゴリはテンプレートライブラリ（library.ts）にある */
+export const ALL_CATEGORIES: BuiltinCategoryKey[] = ["exercise", "study", "habit", "faith", "social", "money", "sleep", "diet", "mental"];
+
+const CATEGORY_SET = new Set<string>(ALL_CATEGORIES);
+const CUSTOM_CATEGORY_KEY = /^custom:[\w-]+$/;
+
+/** 組み込みのカテゴリのアイコン。自分で作ったカテゴリは CustomCategory.icon */
+export const CATEGORY_ICONS: Record<BuiltinCategoryKey, string> = {
+  exercise: "🏃",
+  study: "📚",
+  habit: "🧹",
+  faith: "🙏",
+  social: "🤝",
+  money: "💰",
+  sleep: "😴",
+  diet: "🥗",
+  mental: "🧘",
+};
+
+export function isBuiltinCategory(v: unknown): v is BuiltinCategoryKey {
+  return typeof v === "string" && CATEGORY_SET.has(v);
+}
+
+export function isCustomCategoryKey(v: unknown): v is CustomCategoryKey {
+  return typeof v === "string" && CUSTOM_CATEGORY_KEY.test(v);
+}
+
+/** キーの形だけを見る。自分で作ったカテゴリが今もあるかはライブラリで確かめる */
+export function isCategoryKey(v: unknown): v is CategoryKey {
+  return isBuiltinCategory(v) || isCustomCategoryKey(v);
+}
+
+/**
+ * カテゴリの表示名。自分で作ったカテゴリは custom から名前を引き、削除済みなら「削除したカテゴリ」。
+ * 未知のキー（古いデータ・LLM の提案など）はそのまま出す
+ */
+export function categoryLabel(key: string, t: Translate, custom: CustomCategory[] = []): string {
+  if (isBuiltinCategory(key)) return t(`category.${key}`);
+  if (isCustomCategoryKey(key)) return custom.find((c) => c.key === key)?.name ?? t("category.deleted");
+  return key;
+}
+
+/** カテゴリごとのテンプレート。軽い順に並べる（インデックスが難易度になる） */
+export const TEMPLATE_QUESTS: Record<BuiltinCategoryKey, QuestTemplate[]> = {
+  exercise: [
+    { title: { ja: "10分ストレッチ（首・肩・腰）", en: "10-min stretch (neck, shoulders, back)" }, points: 10, target: 10, unit: "minutes" },
+    { title: { ja: "腕立て・腹筋・背筋 各10回", en: "10 push-ups, sit-ups and back raises" }, points: 15, target: 30, unit: "count" },
+    { title: { ja: "軽いジョグ10分", en: "10-min easy jog" }, points: 20, target: 10, unit: "minutes" },
+  ],
+  study: [
+    { title: { ja: "講義ノートの復習10分", en: "Review lecture notes for 10 min" }, points: 10, target: 10, unit: "minutes" },
+    { title: { ja: "英単語15分", en: "Vocabulary practice for 15 min" }, points: 15, target: 15, unit: "minutes" },
+    { title: { ja: "読書20分", en: "Read for 20 min" }, points: 20, target: 20, unit: "minutes" },
+  ],
+  habit: [
+    { title: { ja: "デスク片付け5分", en: "Tidy your desk for 5 min" }, points: 10, target: 5, unit: "minutes" },
+    { title: { ja: "洗濯物たたむ", en: "Fold the laundry" }, points: 15 },
+    { title: { ja: "翌日のToDoを3つ書く", en: "Write 3 to-dos for tomorrow" }, points: 20, target: 3, unit: "count" },
+  ],
+  faith: [
+    { title: { ja: "静かな祈り・瞑想5分", en: "Quiet prayer or meditation for 5 min" }, points: 10, target: 5, unit: "minutes" },
+    { title: { ja: "日記3行（感謝）", en: "3-line gratitude journal" }, points: 15, target: 3, unit: "count" },
+    { title: { ja: "善い行いを1つ", en: "Do one good deed" }, points: 20 },
+  ],
+  social: [
+    { title: { ja: "誰かに挨拶＋一言", en: "Greet someone and add a few words" }, points: 10 },
+    { title: { ja: "家族/友人にLINEで近況", en: "Message family or a friend to catch up" }, points: 15 },
+    { title: { ja: "ありがとうを3回伝える", en: "Say thank you 3 times" }, points: 20, target: 3, unit: "count" },
+  ],
+  money: [
+    { title: { ja: "家計簿入力3分", en: "Log your expenses for 3 min" }, points: 10, target: 3, unit: "minutes" },
+    { title: { ja: "不要支出チェック", en: "Check for unnecessary spending" }, points: 15 },
+    { title: { ja: "投資/貯蓄を500円検討", en: "Consider saving or investing ¥500" }, points: 20, target: 500, unit: "yen" },
+  ],
+  sleep: [
+    { title: { ja: "水分を一杯飲む", en: "Drink a glass of water" }, points: 10 },
+    { title: { ja: "就寝/起床時刻を記録", en: "Log your bedtime and wake-up time" }, points: 15 },
+    { title: { ja: "就寝前のブルーライト10分カット", en: "No screens for 10 min before bed" }, points: 20, target: 10, unit: "minutes" },
+  ],
+  diet: [
+    { title: { ja: "水を1日1.5L目標", en: "Drink 1.5 L of water today" }, points: 10, target: 1500, unit: "ml" },
+    { title: { ja: "サラダ/タンパク質を一品", en: "Add a salad or a protein dish" }, points: 15 },
+    { title: { ja: "間食を一度スキップ", en: "Skip one snack" }, points: 20 },
+  ],
+  mental: [
+    { title: { ja: "深呼吸3回", en: "Take 3 deep breaths" }, points: 10, target: 3, unit: "count" },
+    { title: { ja: "3分瞑想", en: "3-min meditation" }, points: 15, target: 3, unit: "minutes" },
+    { title: { ja: "散歩5分", en: "5-min walk" }, points: 20, target: 5, unit: "minutes" },
+  ],
+};
+
+export const QUEST_CHAINS: QuestChain[] = [
+  {
+    id: "running",
+    name: { ja: "ランニング", en: "Running" },
+    category: "exercise",
+    steps: [
+      { title: { ja: "軽いジョグ10分", en: "10-min easy jog" }, points: 10, target: 10, unit: "minutes" },
+      { title: { ja: "ジョグ20分", en: "20-min jog" }, points: 20, target: 20, unit: "minutes" },
+      { title: { ja: "5kmラン", en: "5 km run" }, points: 40 },
+    ],
+  },
+  {
+    id: "reading",
+    name: { ja: "読書習慣", en: "Reading habit" },
+    category: "study",
+    steps: [
+      { title: { ja: "読書10分", en: "Read for 10 min" }, points: 10, target: 10, unit: "minutes" },
+      { title: { ja: "読書20分", en: "Read for 20 min" }, points: 15, target: 20, unit: "minutes" },
+      { title: { ja: "読書30分", en: "Read for 30 min" }, points: 25, target: 30, unit: "minutes" },
+    ],
+  },
+  {
+    id: "meditation",
+    name: { ja: "瞑想", en: "Meditation" },
+    category: "mental",
+    steps: [
+      { title: { ja: "3分瞑想", en: "3-min meditation" }, points: 10, target: 3, unit: "minutes" },
+      { title: { ja: "5分瞑想", en: "5-min meditation" }, points: 15, target: 5, unit: "minutes" },
+      { title: { ja: "10分瞑想", en: "10-min meditation" }, points: 25, target: 10, unit: "minutes" },
+    ],
+  },
+  {
+    id: "saving",
+    name: { ja: "貯金", en: "Saving" },
+    category: "money",
+    steps: [
+      { title: { ja: "不要支出チェック", en: "Check for unnecessary spending" }, points: 10 },
+      { title: { ja: "投資/貯蓄を500円検討", en: "Consider saving or investing ¥500" }, points: 15, target: 500, unit: "yen" },
+      { title: { ja: "1000円を貯金に回す", en: "Put ¥1,000 into savings" }, points: 25, target: 1000, unit: "yen" },
+    ],
+  },
+];
+
+export const DEFAULT_THEME: Theme = {
+  mode: "system",
+  accent: "#0284c7",
+  backgroundColor: "#f7f7f7",
+  textColor: "#111111",
+  darkBackgroundColor: "#0a0a0a",
+  darkTextColor: "#e5e5e5",
+};
+
+export const DEFAULT_AVATAR: ProfileAvatar = { kind: "emoji", emoji: "🙂" };
+
+/** 既定のプロフィール。表示名は表示言語の i18n の profile.defaultName */
+export function defaultProfile(t: Translate): Profile {
+  return { displayName: t("profile.defaultName"), avatar: DEFAULT_AVATAR, goal: "" };
+}
+
+export const AVATAR_EMOJIS = ["🙂", "😎", "🦸", "🧙", "🐱", "🐶", "🦊", "🐼", "🌱", "🔥", "⭐", "🚀"];
+
+/** 表示名は i18n の accent.* */
+export const ACCENT_PRESETS: { key: "sky" | "mono" | "violet" | "rose" | "emerald" | "amber"; color: string }[] = [
+  { key: "sky", color: "#0284c7" },
+  { key: "mono", color: "#404040" },
+  { key: "violet", color: "#7c3aed" },
+  { key: "rose", color: "#e11d48" },
+  { key: "emerald", color: "#059669" },
+  { key: "amber", color: "#d97706" },
+];
+
+export const POINTS_PER_QUEST = 10;
+
+export const DEFAULT_DAILY_BUDGET = 5;
+export const MAX_DAILY_BUDGET = 10;
+
+export const DEFAULT_REMINDERS: ReminderSettings = {
+  dailyTime: "08:00",
+  unfinishedTime: "21:00",
+  quietHours: { start: "23:00", end: "07:00" },
+  browser: false,
+};
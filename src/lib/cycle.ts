@@ -0,0 +1,79 @@
+import { addDays, daysBetween, dayKeyAt, dayStartsAt, DEFAULT_DAY_START_HOUR } from "./calendar";
+import { plannableCategories } from "./library";
+import { buildWeekPlan, planOptionsFor } from "./plan";
+import { dayStartHourOf } from "./profile";
+import { isDayCleared } from "./scoring";
+import type { AppState, ArchivedWeek, DayPlan, PointEvent, WeekStats } from "./types";
+
+/** -----------------------------
+ *  サイクル（週）管理
+ *  7日間が終わったら現在の週をアーカイブし、選択カテゴリから次の週を作る。
+ *  日の区切りは暦日（プロフィールの「1日の始まり」の時刻）で数える。
+ *  ポイント台帳は週をまたいで引き継ぐ。
+ *  ----------------------------*/
+export const DAYS_PER_CYCLE = 7;
+
+/** 週の1日目から今日までの日数（1日目なら 0） */
+export function elapsedDays(startDate: string, now = new Date(), dayStartHour = DEFAULT_DAY_START_HOUR): number {
+  return daysBetween(startDate, dayKeyAt(now, dayStartHour));
+}
+
+/** 今日がその週の何日目か（0..6）。通常は advanceCycle で範囲内に収まる */
+export function todayIndexOf(state: Pick<AppState, "startDate" | "profile">, now = new Date()): number {
+  if (!state.startDate) return 0;
+  return Math.max(0, Math.min(DAYS_PER_CYCLE - 1, elapsedDays(state.startDate, now, dayStartHourOf(state.profile))));
+}
+
+export function summarizeWeek(plans: DayPlan[], ledger: PointEvent[], cycle: number): WeekStats {
+  const enabled = plans.flatMap((p) => p.quests).filter((q) => q.enabled);
+  const done = enabled.filter((q) => q.done).length;
+  return {
+    done,
+    total: enabled.length,
+    rate: enabled.length ? Math.round((done / enabled.length) * 100) : 0,
+    points: ledger.filter((e) => e.cycle === cycle).reduce((s, e) => s + e.amount, 0),
+    clearedDays: plans.filter((p) => isDayCleared(p.quests)).length,
+  };
+}
+
+function archiveWeek(state: AppState & { startDate: string }, endedAt: string): ArchivedWeek {
+  return {
+    cycle: state.cycle,
+    startedAt: state.createdAt ?? endedAt,
+    endedAt,
+    startDate: state.startDate,
+    selectedCategories: state.selectedCategories,
+    plans: state.plans,
+    stats: summarizeWeek(state.plans, state.ledger, state.cycle),
+  };
+}
+
+/**
+ * 現在の週が終わっていればアーカイブして次の週を始めた state を返す。
+ * 何週も開いていなかった場合は、今日を含む週から再開する（空白の週はアーカイブしない）。
+ * 切り替えが不要なら null。
+ */
+export function advanceCycle(state: AppState, now = new Date()): AppState | null {
+  const { startDate } = state;
+  if (!startDate || !state.plans.length) return null;
+  const hour = dayStartHourOf(state.profile);
+  const day = elapsedDays(startDate, now, hour);
+  if (day < DAYS_PER_CYCLE) return null;
+
+  const weeks = Math.floor(day / DAYS_PER_CYCLE);
+  const endedAt = dayStartsAt(addDays(startDate, DAYS_PER_CYCLE), hour).toISOString();
+  const nextStart = addDays(startDate, weeks * DAYS_PER_CYCLE);
+
+  // 終わった週も含めた履歴の達成率で次の週を調整する
+  const history = [...state.history, archiveWeek({ ...state, startDate }, endedAt)];
+  const selectedCategories = plannableCategories(state.library, state.selectedCategories);
+  return {
+    ...state,
+    history,
+    cycle: state.cycle + 1,
+    selectedCategories,
+    plans: buildWeekPlan(selectedCategories, planOptionsFor({ ...state, history }, state.cycle + 1)),
+    createdAt: dayStartsAt(nextStart, hour).toISOString(),
+    startDate: nextStart,
+  };
+}
@@ -0,0 +1,105 @@
+import { isMeasurable, logQuestAmount } from "./measure";
+import type { AppState, FocusSession, FocusTimer, Quest } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  集中タイマー
+ *  開始時刻と経過時間だけを保存し、残り時間は毎回計算する。
+ *  タブを切り替えても再読み込みしても、保存済みの時刻から続きを数えられる。
+ *  ----------------------------*/
+export const DEFAULT_FOCUS_MINUTES = 10;
+export const MAX_FOCUS_MINUTES = 180;
+
+/** クエストから時間（分）を読み取る。分単位の目標なら残り分、なければタイトルの「N分」 */
+export function questMinutes(q: Quest): number | null {
+  if (isMeasurable(q) && q.unit === "minutes") {
+    const left = q.target - (q.amount ?? 0);
+    return left > 0 ? Math.ceil(left) : q.target;
+  }
+  const m = q.title.match(/(\d+)\s*(?:分|-?\s*min)/);
+  return m ? Number(m[1]) : null;
+}
+
+export function startTimer(quest: Quest, cycle: number, dayIndex: number, minutes: number, now = new Date()): FocusTimer {
+  return {
+    questId: quest.id,
+    title: quest.title,
+    cycle,
+    dayIndex,
+    durationSec: Math.round(minutes * 60),
+    startedAt: now.toISOString(),
+    runningSince: now.toISOString(),
+    elapsedMs: 0,
+  };
+}
+
+export function timerElapsedMs(timer: FocusTimer, now = new Date()): number {
+  const running = timer.runningSince ? Math.max(0, now.getTime() - new Date(timer.runningSince).getTime()) : 0;
+  return Math.min(timer.elapsedMs + running, timer.durationSec * 1000);
+}
+
+export function timerRemainingMs(timer: FocusTimer, now = new Date()): number {
+  return timer.durationSec * 1000 - timerElapsedMs(timer, now);
+}
+
+export function pauseTimer(timer: FocusTimer, now = new Date()): FocusTimer {
+  if (!timer.runningSince) return timer;
+  return { ...timer, runningSince: null, elapsedMs: timerElapsedMs(timer, now) };
+}
+
+export function resumeTimer(timer: FocusTimer, now = new Date()): FocusTimer {
+  if (timer.runningSince) return timer;
+  return { ...timer, runningSince: now.toISOString() };
+}
+
+/**
+ * タイマーを終了して記録を残した state を返す。
+ * 時間いっぱい続けたらクエストを完了にする。分単位の目標があるクエストは、
+ * 途中でやめた場合も実際に続けた分を記録に足す（目標に届けば自動で完了）。
+ * 週が切り替わった後のタイマーは記録だけ残す。
+ */
+export function finishTimer(state: AppState, now = new Date()): AppState {
+  const timer = state.timer;
+  if (!timer) return state;
+  const elapsedMs = timerElapsedMs(timer, now);
+  const completed = elapsedMs >= timer.durationSec * 1000;
+
+  const session: FocusSession = {
+    id: uid(),
+    questId: timer.questId,
+    title: timer.title,
+    cycle: timer.cycle,
+    dayIndex: timer.dayIndex,
+    startedAt: timer.startedAt,
+    endedAt: now.toISOString(),
+    seconds: Math.round(elapsedMs / 1000),
+    completed,
+  };
+  const next: AppState = { ...state, timer: null, focusLog: [...state.focusLog, session] };
+
+  const quest = timer.cycle === state.cycle ? state.plans[timer.dayIndex]?.quests.find((q) => q.id === timer.questId) : undefined;
+  if (!quest?.enabled || quest.locked) return next;
+
+  if (isMeasurable(quest) && quest.unit === "minutes") {
+    const minutes = Math.floor(elapsedMs / 60000);
+    next.plans = minutes > 0 ? logQuestAmount(state.plans, timer.dayIndex, quest.id, minutes) : state.plans;
+  }
+  if (completed) {
+    next.plans = next.plans.map((p, i) =>
+      i === timer.dayIndex ? { ...p, quests: p.quests.map((q) => (q.id === quest.id ? { ...q, done: true } : q)) } : p
+    );
+  }
+  return next;
+}
+
+/** 記録からクエストごとの集中時間（秒）を合計する */
+export function focusedSeconds(log: FocusSession[], questId: string): number {
+  return log.filter((f) => f.questId === questId).reduce((s, f) => s + f.seconds, 0);
+}
+
+export function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+}
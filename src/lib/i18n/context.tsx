@@ -0,0 +1,17 @@
+import { createContext, useContext, useMemo } from "react";
+import { createI18n, DEFAULT_LOCALE, type I18n, type Locale } from "./index";
+
+/** -----------------------------
+ *  画面側の言語コンテキスト
+ *  Page が AppState の言語で I18nProvider を置き、各コンポーネントは useI18n() で t と fmt を受け取る。
+ *  ----------------------------*/
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const value = useMemo(() => createI18n(locale), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,601 @@
+import type { Message, MessageKey } from "./index";
+
+/** -----------------------------
+ *  英語の文言
+ *  数で変わる語は { one, other } で書く。
+ *  ----------------------------*/
+export const en: Record<MessageKey, Message> = {
+  // アプリ
+  "app.description": "A 7-day self-growth planner that helps you grow with AI",
+  // 共通
+  "common.listSeparator": ", ",
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.delete": "Delete",
+  "common.edit": "Edit",
+  "common.add": "Add",
+  "common.none": "None",
+  // カテゴリ
+  "category.exercise": "Exercise",
+  "category.study": "Study",
+  "category.habit": "Habits",
+  "category.faith": "Faith",
+  "category.social": "Social & kindness",
+  "category.money": "Money & savings",
+  "category.sleep": "Sleep",
+  "category.diet": "Diet",
+  "category.mental": "Mental health",
+  "category.deleted": "Deleted category",
+  // ランク
+  "rank.novice": "Novice",
+  "rank.squire": "Squire",
+  "rank.knight": "Knight",
+  "rank.marquis": "Marquis",
+  "rank.duke": "Duke",
+  "rank.sovereign": "Sovereign",
+  // 単位
+  "unit.count": "times",
+  "unit.minutes": "min",
+  "unit.ml": "ml",
+  "unit.yen": "yen",
+  "measure.progress": "{amount}/{target} {unit}",
+  // アクセントカラー
+  "accent.sky": "Sky",
+  "accent.mono": "Monochrome",
+  "accent.violet": "Violet",
+  "accent.rose": "Rose",
+  "accent.emerald": "Emerald",
+  "accent.amber": "Amber",
+  // 解除条件
+  "unlock.describe.quest": "Complete “{title}” on Day {day}",
+  "unlock.describe.questDeleted": "The required quest was deleted",
+  "unlock.describe.categoryDays": { one: "Do {category} on {count} days", other: "Do {category} on {count} days" },
+  "unlock.describe.daysLeft": { one: " ({count} day left)", other: " ({count} days left)" },
+  "unlock.describe.rank": "Reach the {rank} rank",
+  // 通知
+  "notif.dailyTitle": "Day {day} quests",
+  "notif.dailyBody": { one: "You have {count} quest today.", other: "You have {count} quests today." },
+  "notif.reminderTitle": "Reminder",
+  "notif.unfinishedTitle": "You have unfinished quests",
+  "notif.unfinishedMore": { one: " and {count} more", other: " and {count} more" },
+  "notif.rankUpTitle": "Rank up!",
+  "notif.rankUpBody": "You are now {rank}",
+  "notif.bonusTitle": "🔥 Bonus earned",
+  "notif.bonusBody": "+{points} pts for finishing every quest on Day {day}",
+  "notif.unlockTitle": "🔓 Quest unlocked",
+  "notif.unlockBody": "“{title}” on Day {day} is now available",
+  "notif.achievementTitle": "🏅 Achievement unlocked",
+  // プロフィール画像
+  "profile.avatar.notImage": "Please choose an image file",
+  "profile.avatar.unreadable": "Couldn’t read the image",
+  "profile.avatar.resizeFailed": "Couldn’t resize the image",
+  "profile.avatar.tooLarge": "The image is too large",
+  // CSV
+  "csv.week": "Week",
+  "csv.day": "Day",
+  "csv.date": "Date",
+  "csv.category": "Category",
+  "csv.quest": "Quest",
+  "csv.points": "Points",
+  "csv.status": "Status",
+  "csv.earned": "Earned points",
+  "csv.status.disabled": "Disabled",
+  "csv.status.done": "Done",
+  "csv.status.open": "Not done",
+  // チャットの提案（ツール）
+  "tools.error.noDay": "There is no Day {day}",
+  "tools.error.questNotFound": "Quest not found",
+  "tools.error.notCompletable": "This quest can’t be completed right now",
+  "tools.error.noTemplate": "No template available to swap in",
+  "tools.unknownQuest": "(unknown quest)",
+  "tools.describe.add": "Add “{title}” to Day {day} (+{points} pts)",
+  "tools.describe.complete": "Mark “{title}” on Day {day} as done",
+  "tools.describe.enableDay": "Enable every quest on Day {day}",
+  "tools.describe.disableDay": "Disable every quest on Day {day}",
+  "tools.describe.swap": "Swap “{title}” on Day {day} for “{next}”",
+  "tools.describe.swapEasier": "Swap “{title}” on Day {day} for an easier quest",
+  // チャット
+  "chat.welcome": "I’m River Agent! Ask me anything 🤖",
+  "chat.newChat": "New chat",
+  "chat.systemPrompt": "You are River Agent, a positive and concise coach supporting the user’s 7-day self-growth plan. Answer in English.",
+  "chat.contextPrompt": "The user’s current plan:\n{context}\n\nCall a tool when you want to change the plan. Changes are applied after the user confirms them.",
+  "chat.error.connect": "Can’t connect to the provider: {message}",
+  "chat.error.status": "The provider returned an error ({status})",
+  "chat.error.receive": "Failed to receive the reply: {message}",
+  "chat.error.network": "Network error ({status})",
+  "chat.local.progress": "Today is Day {day} of week {cycle}. {done}/{total} quests done, and this week is {rate}% complete.",
+  "chat.local.points": "You have {points} pts ({rank}), {toNext} pts to the next rank.",
+  "chat.local.remaining": "Quests left:",
+  "chat.local.allDone": "Every quest for today is done. Well done!",
+  "chat.local.addHowTo": "Put the quest you want to add in quotes. Example: add \"20 squats\"",
+  "chat.local.addConfirm": "Shall I add “{title}” to today’s plan?",
+  "chat.local.rest": "Don’t overdo it. Do you want to take today off?",
+  "chat.local.noSwappable": "I couldn’t find an unfinished quest to swap.",
+  "chat.local.swap": "Let’s swap “{title}” for something lighter.",
+  "chat.local.noCompletable": "I couldn’t find a quest to complete. Tell me the quest name in quotes.",
+  "chat.local.complete": "Nice work! I’ll mark “{title}” as done.",
+  "chat.local.statusNoContext": "I’ll summarize your progress. Please share your task list first.",
+  "chat.local.data": "Upload a CSV or spreadsheet and I’ll give you summary stats, charts and findings.",
+  "chat.local.ideas": "Try a small change to this week’s quests, like moving your usual workout to the morning or reading somewhere new.",
+  "chat.local.fallback": "Got it. Could you tell me a bit more about your situation?",
+  // チャットに渡すプランの要約
+  "chatContext.today": "Week {cycle}, today is Day {day} (dayIndex={dayIndex})",
+  "chatContext.categories": "Categories: {categories}",
+  "chatContext.points": "Points: {points} / Rank: {rank} ({toNext} pts to the next rank)",
+  "chatContext.progress": "This week: {rate}% complete ({week})",
+  "chatContext.quests": "Today’s quests:",
+  "chatContext.noCategory": "no category",
+  "chatContext.disabled": "disabled",
+  "chatContext.locked": "locked",
+  // API
+  "api.badJson": "Couldn’t parse the JSON body",
+  "api.chat.rateLimited": "Too many requests. Please wait a moment and try again.",
+  "api.chat.badMessages": "Invalid messages",
+  "api.chat.failed": "Failed to generate a reply",
+  "api.chat.missingApiKey": "CHAT_PROVIDER=openai requires OPENAI_API_KEY",
+  "api.chat.unknownProvider": "Unknown CHAT_PROVIDER: {provider}",
+  "api.notSignedIn": "You are not signed in",
+  "api.auth.rateLimited": "Too many attempts. Please wait a moment and try again.",
+  "api.auth.missingCredentials": "Enter a username and password",
+  "api.sync.tooLarge": "The data is too large",
+  "api.sync.badBody": "baseRevision and schemaVersion are required",
+  "api.sync.conflict": "Updated on another device",
+  "api.sync.invalid": "The data was rejected: {detail}",
+  // アカウント
+  "account.error.username": "Usernames must be 3–20 characters of letters, digits, _ or -",
+  "account.error.password": "Passwords must be at least {count} characters",
+  "account.error.taken": "That username is already taken",
+  "account.error.invalid": "Wrong username or password",
+  // 同期
+  "sync.error.unreachable": "Can’t reach the server",
+  "sync.error.network": "Network error ({status})",
+  "sync.error.busy": "Sync stopped because another device keeps updating",
+  "sync.error.sessionExpired": "Your session expired. Please sign in again",
+  "sync.error.failed": "Sync failed",
+  "sync.week": "Week {cycle} plan",
+  "sync.setting.selectedCategories": "Categories",
+  "sync.setting.theme": "Appearance",
+  "sync.setting.reminders": "Reminders",
+  "sync.setting.generator": "Plan generation",
+  "sync.setting.streakRule": "Streak rule",
+  "sync.setting.profile": "Profile",
+  "sync.setting.timer": "Focus timer",
+  "sync.setting.locale": "Language",
+  "sync.setting.library": "Template library",
+  "account.title": "Account & sync",
+  "account.intro": "Sign in to use the same quests on your phone, computer and other devices.",
+  "account.username": "Username",
+  "account.password": "Password (at least 8 characters)",
+  "account.logIn": "Log in",
+  "account.signUp": "Sign up",
+  "account.logOut": "Log out",
+  "account.signInFailed": "Couldn’t sign in",
+  "account.signedInAs": "Signed in as {username}",
+  "account.syncNow": "Sync now",
+  "account.status.syncing": "Syncing…",
+  "account.status.offline": "Offline (changes will be sent once you reconnect)",
+  "account.status.pending": { one: "{count} change not yet sent", other: "{count} changes not yet sent" },
+  "account.status.synced": "Synced ({time})",
+  "account.conflicts": "Changed on another device at the same time",
+  "account.conflict.keptLocal": "{title}: kept the change from this device ({time})",
+  "account.conflict.keptRemote": "{title}: kept the change from the other device ({time})",
+  "account.note": "The newer change wins for each quest. Logging out doesn’t delete the data on this device.",
+  "measure.decrease": "Subtract {step} {unit}",
+  "measure.increase": "Log {step} {unit}",
+  // チャット履歴
+  "chatHistory.search": "Search chats",
+  "chatHistory.new": "New",
+  "chatHistory.rename": "Rename {title}",
+  "chatHistory.confirmDelete": "Delete “{title}”?",
+  "chatHistory.delete": "Delete {title}",
+  "chatHistory.empty": "No matching chats",
+  // 通知センター
+  "notif.title": "Notifications",
+  "notif.markAllRead": "Mark all read",
+  "notif.clear": "Clear",
+  "notif.empty": "No notifications",
+  // クエストフォーム
+  "common.day": "Day {day}",
+  "questForm.addTitle": "Add a quest",
+  "questForm.editTitle": "Edit quest",
+  "questForm.title": "Title",
+  "questForm.titlePlaceholder": "e.g. 20 squats",
+  "questForm.category": "Category",
+  "questForm.points": "Points",
+  "questForm.target": "Target (optional, completes automatically when reached)",
+  "questForm.targetPlaceholder": "e.g. 1500",
+  "questForm.unit": "Unit",
+  "questForm.note": "Note",
+  "questForm.reminder": "Reminder",
+  "questForm.days": "Add to",
+  "questForm.copyTo": "Copy to other days",
+  "questForm.applyToWeek": "Apply this change to the same quest across the week",
+  "questForm.lock": "Lock (unavailable until the condition is met)",
+  "questForm.lock.quest": "Complete a required quest",
+  "questForm.lock.categoryDays": "Days in a category",
+  "questForm.lock.rank": "Reach a rank",
+  "questForm.lock.deleted": "(deleted quest)",
+  "questForm.lock.days": "days",
+  "questForm.lock.rankOption": "{rank} ({points} pts)",
+  // データの書き出し・読み込み
+  "data.title": "Export & import data",
+  "data.exportJson": "Backup (JSON)",
+  "data.exportCsv": "Completion log (CSV)",
+  "data.import": "Import a backup…",
+  "data.readFailed": "Couldn’t read the file: {error}",
+  "data.exportedAt": " (exported {time})",
+  "data.current": "Current",
+  "data.file": "File",
+  "data.summary.cycle": "Current week",
+  "data.summary.weeks": "Finished weeks",
+  "data.summary.done": "Completed quests",
+  "data.summary.quests": "Quests",
+  "data.summary.points": "Points",
+  "data.summary.categories": "Categories",
+  "data.repairs": { one: "{count} issue will be repaired on import", other: "{count} issues will be repaired on import" },
+  "data.merge": "Merge",
+  "data.replace": "Replace",
+  "data.restore": "Restore",
+  "data.mergeNote": "Merging keeps whichever copy has more completions for each week. Your current data is saved to the backups list before replacing.",
+  // 外観
+  "theme.title": "Appearance",
+  "theme.mode": "Display mode",
+  "theme.mode.light": "Light",
+  "theme.mode.dark": "Dark",
+  "theme.mode.system": "Match device",
+  "theme.accent": "Accent color",
+  "theme.pickAccent": "Pick an accent color",
+  "theme.colors": "Background & text colors",
+  "theme.backgroundLight": "Background (light)",
+  "theme.textLight": "Text (light)",
+  "theme.backgroundDark": "Background (dark)",
+  "theme.textDark": "Text (dark)",
+  "theme.reset": "Reset to the default theme",
+  // 週プランの作り方
+  "generator.title": "Weekly plan generation",
+  "generator.dailyBudget": "Quests per day",
+  "generator.count": { one: "{count} quest", other: "{count} quests" },
+  "generator.adaptive": "Adjust the amount and difficulty to your completion rate",
+  "generator.preview": "Next week’s outlook (from the last 2 weeks, {count} per day)",
+  "generator.noRecord": "No data",
+  "generator.fewer": ", fewer",
+  "generator.seed": "Seed",
+  "generator.reseed": "Shuffle the mix",
+  "generator.note": "Changes apply from next week’s plan.",
+  "level.0": "Light",
+  "level.1": "Normal",
+  "level.2": "Intense",
+  // 集中タイマー
+  "timer.title": "Focus timer",
+  "timer.button": "Timer",
+  "timer.minutesLabel": "Duration (minutes)",
+  "timer.start": "Start",
+  "timer.paused": "Paused · {title}",
+  "timer.focusing": "Focus time · {title}",
+  "timer.resume": "Resume",
+  "timer.pause": "Pause",
+  "timer.finish": "Finish and log",
+  "timer.discard": "Discard without logging",
+  // リマインダー
+  "reminder.title": "Reminders",
+  "reminder.daily": "Today’s quests reminder",
+  "reminder.unfinished": "Unfinished quests nudge",
+  "reminder.use": "Use {label}",
+  "reminder.quietHours": "Quiet hours",
+  "reminder.browser": "Also send browser notifications",
+  "reminder.unsupported": "This browser doesn’t support notifications",
+  "reminder.denied": "Notifications are blocked (check your browser settings)",
+  "reminder.note": "Set per-quest times from the quest editor. Reminders arrive while the app is open.",
+  // プロフィール
+  "profile.title": "Profile",
+  "profile.defaultName": "Hero Takuro",
+  "profile.emojiAvatar": "Emoji avatar",
+  "profile.upload": "Upload an image",
+  "profile.resizing": "Resizing…",
+  "profile.uploadNote": "Cropped to a square and resized on this device",
+  "profile.avatar.failed": "Couldn’t set the image",
+  "profile.displayName": "Display name",
+  "profile.goal": "Goal",
+  "profile.goalPlaceholder": "e.g. Be able to run 30 minutes every morning",
+  "profile.weekStart": "Week starts on (analytics calendar and weekday chart)",
+  "profile.weekStartDefault": "Not set ({weekday})",
+  "profile.dayStartHour": "Day starts at",
+  "profile.dayStartHourHint": "Anything before this time counts as the previous day (night owls might pick 4:00).",
+  // 分析
+  "analytics.title": "Analytics",
+  "analytics.daysRecorded": "Days recorded",
+  "analytics.days": { one: "{count} day", other: "{count} days" },
+  "analytics.overallRate": "Overall completion",
+  "analytics.totalPoints": "Total points",
+  "analytics.longestStreak": "Longest streak",
+  "analytics.categoryTrends": "Completion by category (weekly)",
+  "analytics.categoryTrendsLabel": "Completion trend by category",
+  "analytics.calendar": "Calendar",
+  "analytics.byWeekday": "Completion by weekday",
+  "analytics.bestWorst": "Your best day is {best} ({bestRate}%) and your weakest is {worst} ({worstRate}%).",
+  "analytics.pointsPerWeek": "Points per week",
+  "analytics.weekAxis": "The horizontal axis is the week number",
+  "analytics.streakHistory": "Streak history",
+  "analytics.moodVsRate": "Mood and completion",
+  "analytics.moodAxis": "Average completion rate on days with each mood from your reflections",
+  "analytics.moodEmpty": "Rate your mood in a journal reflection to see this",
+  "analytics.streakMax": { one: "Max {count} day", other: "Max {count} days" },
+  "analytics.empty": "No records yet",
+  "analytics.heatmapDay": "{date}: {done}/{total} done",
+  "common.rangeSeparator": "–",
+  // タブ
+  "tab.home": "Home",
+  "tab.quests": "Quests",
+  "tab.analytics": "Analytics",
+  "tab.journal": "Journal",
+  "tab.chat": "Chat",
+  "tab.settings": "Settings",
+  // 最初のプラン作成
+  "wizard.title": "What would you like to grow?",
+  "wizard.hint": "Pick about three (you can change them later)",
+  "wizard.generate": "Create a 7-day plan",
+  "wizard.clear": "Clear selection",
+  // ホーム
+  "home.points": "{points} points",
+  "home.toNextRank": "{points} pts to the next rank",
+  "home.add": "+ Add",
+  "home.todayQuests": "Today’s quests",
+  "home.questPoints": "+{points} pts",
+  "home.noQuests": "No active quests today",
+  "home.summary.done": "Quests done",
+  "home.summary.earned": "Points earned",
+  "home.summary.rate": "Completion",
+  "quest.status.done": "Done",
+  "quest.status.locked": "Locked",
+  "quest.status.inProgress": "In progress",
+  "quest.status.notStarted": "Not started",
+  "quest.focused": " · {minutes} min focused",
+  "notif.unreadLabel": "Notifications ({count} unread)",
+  "chat.noPlan": "There is no plan",
+  // クエストタブ
+  "quests.finishEditing": "Done editing",
+  "quests.weekSelect": "Week to show",
+  "quests.thisWeek": "Week {cycle} (this week)",
+  "quests.pastWeek": "Week {cycle} (from {date})",
+  "quests.date": "{weekday}, {date}",
+  "quests.today": "TODAY",
+  "quests.moveDayUp": "Move day {day} earlier",
+  "quests.moveDayDown": "Move day {day} later",
+  "quests.enabled": "On",
+  "quests.disabled": "Off",
+  "quests.reorder": "Reorder {title} (↑/↓ keys)",
+  "quests.points": "+{points} pts",
+  "quests.pointsEarned": "+{points} pts earned",
+  "quests.late": "Logged late",
+  "quests.lateHint": "Logged on a different day than planned",
+  "quests.lockedReason": "Locked: {reason}",
+  "quests.addQuest": "+ Add quest",
+  "quests.bonusToday": "Today’s bonus",
+  "quests.bonus": "Bonus",
+  "quests.bonusEarned": "Earned",
+  "quests.bonusHint": "Finish every quest to earn bonus points!",
+  "quests.deleteDialog.title": "Delete “{title}”?",
+  "quests.deleteDialog.body": "The same quest appears {count} times this week.",
+  "quests.deleteDialog.thisDay": "Delete only this day",
+  "quests.deleteDialog.all": "Delete all {count}",
+  "quests.confirmDelete": "Delete “{title}”?",
+  // チャット画面
+  "chat.newGreeting": "Let’s start a new chat. What’s your goal?",
+  "chat.online": "Online",
+  "chat.menu": "Menu",
+  "chat.retry": "Retry",
+  "chat.stop": "Stop generating",
+  "chat.interrupted": "{text}… (stopped)",
+  "chat.error.rateLimited": "Too many messages. Please wait about {seconds} seconds and try again.",
+  "chat.error.failed": "Couldn’t get a reply",
+  "chat.suggest.ideas": "Ideas",
+  "chat.suggest.ideasPrompt": "Give me some ideas",
+  "chat.suggest.data": "Data analysis",
+  "chat.suggest.dataPrompt": "Please analyze my data",
+  "chat.proposal.title": "Suggested plan change",
+  "chat.proposal.accept": "Apply",
+  "chat.proposal.reject": "Skip",
+  "chat.proposal.appliedNote": "✓ Applied",
+  "chat.proposal.rejectedNote": "Skipped",
+  "chat.proposal.pending": "pending",
+  "chat.proposal.applied": "applied",
+  "chat.proposal.rejected": "rejected",
+  "chat.proposal.history": "(Suggestion: {description} → {status})",
+  "chat.input.placeholder": "Type a message…",
+  "chat.input.emoji": "Emoji",
+  "chat.input.send": "Send",
+  "chat.input.voice": "Voice",
+  "chat.input.photo": "Photo",
+  "chat.input.file": "File",
+  // 連続記録・週のまとめ・復旧
+  "streak.best": { one: "Best: {count} day", other: "Best: {count} days" },
+  "streak.daily": { one: "{count}-day streak", other: "{count}-day streak" },
+  "streak.perfect": { one: "Perfect {count}-day streak", other: "Perfect {count}-day streak" },
+  "streak.sameDayOnly": "Same-day completions only",
+  "streak.category": { one: "{category} {count} day", other: "{category} {count} days" },
+  "week.clearedDays": "Perfect days",
+  "week.days": { one: "{count} day", other: "{count} days" },
+  "week.started": "Week {cycle} has started",
+  "week.lastWeekSummary": "Last week: {rate}% complete · {points} pts earned (review it from Quests → week selector)",
+  "recovery.backedUp": "The original data was backed up (see Settings → Backups)",
+  "recovery.repairs": { one: "Repairs ({count})", other: "Repairs ({count})" },
+  // 保存データの読み込み（検証・移行）
+  "storage.unavailable": "Can’t access storage",
+  "storage.repaired": "Some of the saved data was repaired",
+  "storage.notJson": "The saved data isn’t valid JSON",
+  "storage.notObject": "The saved data isn’t an object",
+  "storage.plansNotArray": "plans is not an array",
+  "storage.migrationFailed": "Schema migration failed",
+  "storage.badVersion": "Invalid schema version: {version}",
+  "storage.newerVersion": "This data was saved by a newer version of the app (v{version} > v{current})",
+  "storage.missingMigration": "No migration from v{version}",
+  "repair.notQuest": "{where}: removed a value that isn’t a quest",
+  "repair.untitledQuest": "{where}: removed a quest without a title",
+  "repair.newId": "{where}: issued a new id",
+  "repair.badUnlock": "{where}: removed an unreadable unlock condition",
+  "repair.disabledDone": "{where}: cleared the done flag of a disabled quest",
+  "repair.badDay": "{where}: removed an unreadable day",
+  "repair.dayNumber": "{where}: corrected the day number",
+  "repair.duplicateId": "{where}: issued a new id for a duplicate",
+  "repair.theme": "{where}: discarded invalid theme settings",
+  "repair.color": "{where}: reset an invalid color to the default",
+  "repair.startDate": "{where}: filled in from the start time",
+  "repair.timer": "{where}: discarded an unreadable focus timer",
+  "repair.defaultSettings": "{where}: reset to the default settings",
+  "repair.defaultValue": "{where}: reset to the default value",
+  "repair.avatar": "{where}: unreadable, reset to the default avatar",
+  "repair.profile": "{where}: reset to the default profile",
+  "repair.displayName": "{where}: empty, reset to the default name",
+  "repair.library": "{where}: unreadable, reset to the default templates",
+  "repair.badCategories": "{where}: removed unreadable categories",
+  "repair.orphanTemplates": "{where}: removed templates for an unknown category",
+  "repair.badTemplates": "{where}: removed unreadable templates",
+  "repair.notArray": "{where}: not an array, emptied",
+  "repair.unknownCategories": "{where}: removed unknown categories",
+  "repair.badEvents": { one: "{where}: removed {count} unreadable event", other: "{where}: removed {count} unreadable events" },
+  "repair.badWeeks": { one: "{where}: removed {count} unreadable week", other: "{where}: removed {count} unreadable weeks" },
+  "repair.cycle": "{where}: corrected the week number",
+  "repair.cycleBeforeHistory": "{where}: corrected a week number earlier than the history",
+  "repair.badNotifications": "{where}: removed unreadable notifications",
+  "repair.badRecords": "{where}: removed unreadable records",
+  "repair.badJournal": "{where}: removed unreadable journal entries",
+  "repair.badAchievements": "{where}: removed unreadable or duplicate achievements",
+  "repair.locale": "{where}: unknown language, reset to the default",
+  "repair.createdAt": "{where}: unreadable, set today as the start date",
+  // 設定タブ
+  "settings.language": "Language",
+  "settings.languageHint": "Language for the app and chat",
+  "settings.streak": "Streaks",
+  "settings.streakSameDay": "Only count quests completed on their own day",
+  "settings.streakHint": "You can still complete past quests, but they are marked as “logged late”.",
+  "settings.resetHint": "Reset your quests and start over. You can undo this within 7 days.",
+  "settings.reset": "Reset everything",
+  "undo.undo": "Undo",
+  "undo.redo": "Redo",
+  "undo.undoTo": "Undo to here",
+  "undo.history": "Action history",
+  "undo.empty": "No actions yet",
+  "undo.note": "Records this week's actions while this page is open. Points from undone actions are recorded as reversals.",
+  "undo.shortcut.undo": "Undo (Ctrl/⌘+Z)",
+  "undo.shortcut.redo": "Redo (Ctrl/⌘+Shift+Z)",
+  "undo.withTitle": "{action}: {title}",
+  "undo.undone": "Undone ({action})",
+  "undo.redone": "Redone ({action})",
+  "undo.kind.toggle_done": "Toggled done",
+  "undo.kind.toggle_enabled": "Toggled on/off",
+  "undo.kind.toggle_day": "Toggled the whole day",
+  "undo.kind.add_quest": "Added a quest",
+  "undo.kind.edit_quest": "Edited a quest",
+  "undo.kind.delete_quest": "Deleted a quest",
+  "undo.kind.move_quest": "Reordered quests",
+  "undo.kind.move_day": "Reordered days",
+  "undo.kind.add_chain": "Added a chain",
+  "undo.kind.log_amount": "Logged an amount",
+  "undo.kind.chat": "Applied a chat suggestion",
+  "reset.done": "Everything was reset",
+  "reset.restored": "Restored your data from before the reset",
+  "reset.expired": "The restore period has passed",
+  "reset.trashNotice": "You can restore the data you reset until {date}.",
+  "reset.noUndoConfirm": "Your data can't be set aside, so this reset can't be undone. Reset anyway?",
+  "chain.add": "Add a chain",
+  "chain.option": "{name} ({steps})",
+  "chain.fromDay": "From day {day}",
+  "chain.hint": "Steps are placed every other day; finishing one unlocks the next.",
+  "backups.title": "Backups",
+  "backups.hint": "Saved data that couldn’t be loaded, or data replaced by an import. Download it if you want to keep it.",
+  "backups.size": { one: "{count} character", other: "{count} characters" },
+  "backups.download": "Download",
+  // テンプレートライブラリ
+  "library.title": "Template library",
+  "library.hint": "Weekly plans are built from these templates. You can add your own categories too.",
+  "library.categories": "Categories",
+  "library.newCategory": "+ New category",
+  "library.categoryName": "Name",
+  "library.categoryNamePlaceholder": "e.g. Creative work",
+  "library.icon": "Icon",
+  "library.color": "Color",
+  "library.customColor": "Custom color",
+  "library.deleteCategory": "Delete category",
+  "library.confirmDelete": "Delete the category “{name}” and its templates? Quests you already have are kept.",
+  "library.templates": { one: "{count} template", other: "{count} templates" },
+  "library.noTemplates": "No templates yet. Weekly plans won’t include quests from this category.",
+  "library.resetTemplates": "Restore default templates",
+  "library.templateTitle": "Title",
+  "library.templatePoints": "Points",
+  "library.newTemplatePlaceholder": "New template",
+  "library.moveUp": "Move up",
+  "library.moveDown": "Move down",
+  "library.orderHint": "Templates higher up count as lighter quests. Changes apply from the next weekly plan.",
+  "library.pack.export": "Export templates",
+  "library.pack.import": "Import templates",
+  "library.pack.note": "Imported templates are added to your library (titles you already have are skipped).",
+  "library.pack.imported": { one: "Templates imported ({count} category)", other: "Templates imported ({count} categories)" },
+  "library.pack.failed": "Couldn’t import: {error}",
+  "library.fallbackCategories": "The selected categories have no templates, so plans will use the default categories from next week",
+  "library.pack.notJson": "The file isn’t valid JSON",
+  "library.pack.wrongFormat": "This isn’t a template file",
+  "library.pack.newerVersion": "The file was exported by a newer version of the app",
+  "journal.title": "Journal",
+  "journal.search": "Search the journal",
+  "journal.filter.all": "All",
+  "journal.filter.day": "Reflections",
+  "journal.filter.quest": "Quest notes",
+  "journal.empty": "No entries yet. Try writing when you finish a quest or at the end of the day.",
+  "journal.noResults": "Nothing found",
+  "journal.reflection": "Today's reflection",
+  "journal.mood": "Mood",
+  "journal.energy": "Energy",
+  "journal.ratingLabel": "{name} {value}/5",
+  "journal.prompts": "Prompts",
+  "journal.placeholder": "Write freely",
+  "journal.saved": "Journal entry saved",
+  "journal.removed": "Journal entry deleted",
+  "journal.confirmDelete": "Delete this journal entry?",
+  "journal.writeNote": "Write a note",
+  "journal.editNote": "Edit note",
+  "journal.noteFor": "Note on \"{title}\"",
+  "journal.later": "Later",
+  "journal.prompt.day.good": "What went well today?",
+  "journal.prompt.day.grateful": "Three things you're grateful for today",
+  "journal.prompt.day.tomorrow": "If you changed one thing tomorrow, what would it be?",
+  "journal.prompt.quest": "How did it go?",
+  "journal.prompt.exercise": "How did your body feel?",
+  "journal.prompt.study": "What did you learn?",
+  "journal.prompt.habit": "Did you find a trick for keeping it up?",
+  "journal.prompt.faith": "What words or insights stayed with you today?",
+  "journal.prompt.social": "Who did you spend time with, and how?",
+  "journal.prompt.money": "What did you notice about your spending?",
+  "journal.prompt.sleep": "What did you do before bed? Did you sleep well?",
+  "journal.prompt.diet": "What did you pay attention to in your meals?",
+  "journal.prompt.mental": "How would you put your feelings into words right now?",
+  "achievement.title": "Achievements",
+  "achievement.summary": "{earned} / {total}",
+  "achievement.showAll": "All achievements",
+  "achievement.none": "No badges yet. Complete quests to collect them.",
+  "achievement.earnedAt": "Earned {date}",
+  "achievement.progress": "{value} / {target}",
+  "achievement.locked": "Locked",
+  "achievement.unlocked": "Achievement unlocked!",
+  "achievement.rule.quests_done": { one: "Complete your first quest", other: "Complete {count} quests in total" },
+  "achievement.rule.perfect_days": { one: "Complete every quest in a day", other: "Complete every quest on {count} days" },
+  "achievement.rule.daily_streak": "Complete a quest {count} days in a row",
+  "achievement.rule.category_streak": "Complete a {category} quest {count} days in a row",
+  "achievement.rule.categories_tried": "Complete quests in {count} different categories",
+  "achievement.rule.journal_entries": { one: "Write a journal entry", other: "Write {count} journal entries" },
+  "achievement.rule.focus_minutes": "Focus for {count} minutes in total with the timer",
+  "achievement.rule.weeks": { one: "Finish a week", other: "Finish {count} weeks" },
+  "pwa.updateReady": "A new version is available",
+  "pwa.updateHint": "Updating reloads the page. Your data stays as it is.",
+  "pwa.update": "Update",
+  "pwa.later": "Later",
+  "pwa.offline": "Offline",
+  "pwa.offlineHint": "You can still check off quests while offline. Sync runs when you're back online.",
+  "pwa.offlineReady": "This device can open the app offline.",
+  "pwa.offlinePending": "Getting ready for offline use (finishes after one reload).",
+  "pwa.install.title": "Use as an app",
+  "pwa.install.hint": "Add it to your home screen to launch it like an app.",
+  "pwa.install.button": "Install",
+  "pwa.install.installed": "Installed as an app.",
+  "pwa.install.manual": "Choose \"Add to Home Screen\" from your browser menu (the Share button on iPhone).",
+};
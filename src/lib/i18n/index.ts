@@ -0,0 +1,133 @@
+import { en } from "./en";
+import { ja, type MessageKey } from "./ja";
+
+/** -----------------------------
+ *  多言語対応（日本語・英語）
+ *  文言は ja.ts / en.ts にキーごとに置き、t(key, params) で取り出す。
+ *  {name} は params の値で置き換え、数値は言語に合わせて桁区切りする。
+ *  英語は { one, other } で単数・複数を書き分けられる（params.count で選ぶ）。
+ *  ----------------------------*/
+export type Locale = "ja" | "en";
+
+export const DEFAULT_LOCALE: Locale = "ja";
+
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: "ja", label: "日本語" },
+  { locale: "en", label: "English" },
+];
+
+export type { MessageKey };
+export type Message = string | { one: string; other: string };
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+/** あとで表示言語に翻訳する文言（保存データの検証・移行など、言語を知らない処理が返すエラーや修復内容） */
+export type LocalizedMessage = { key: MessageKey; params?: MessageParams };
+
+const MESSAGES: Record<Locale, Record<MessageKey, Message>> = { ja, en };
+
+export function isLocale(v: unknown): v is Locale {
+  return v === "ja" || v === "en";
+}
+
+/** 言語タグ（"en-US" など）を対応言語に丸める。対応していなければ null */
+function matchLocale(tag: string): Locale | null {
+  const base = tag.trim().toLowerCase().split("-")[0];
+  return isLocale(base) ? base : null;
+}
+
+/** ブラウザの設定から初期の言語を決める（日本語以外は英語） */
+export function detectLocale(): Locale {
+  if (typeof navigator === "undefined") return DEFAULT_LOCALE;
+  const tags = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of tags) {
+    const locale = tag && matchLocale(tag);
+    if (locale) return locale;
+  }
+  return "en";
+}
+
+/** Accept-Language ヘッダから言語を選ぶ（API のエラーメッセージ用）。q 値の高い順に見る */
+export function requestLocale(req: Request): Locale {
+  const header = req.headers.get("accept-language") ?? "";
+  const tags = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...attrs] = part.split(";");
+      const q = attrs.map((a) => a.trim()).find((a) => a.startsWith("q="));
+      return { tag, q: q ? Number(q.slice(2)) || 0 : 1 };
+    })
+    .sort((a, b) => b.q - a.q);
+  for (const { tag } of tags) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export type Formatters = {
+  number: (n: number) => string;
+  date: (d: Date | string) => string; // 年月日
+  dateTime: (d: Date | string) => string; // 年月日と時刻
+  shortDateTime: (d: Date | string) => string; // 月日と時刻
+  monthDay: (d: Date | string) => string; // 月日
+  time: (d: Date | string) => string; // 時:分
+  weekday: (weekday: number, width?: "narrow" | "short" | "long") => string; // 0 = 日曜
+};
+
+const toDate = (d: Date | string) => (typeof d === "string" ? new Date(d) : d);
+
+function createFormatters(locale: Locale): Formatters {
+  const number = new Intl.NumberFormat(locale);
+  const date = new Intl.DateTimeFormat(locale, { dateStyle: "medium" });
+  const dateTime = new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" });
+  const shortDateTime = new Intl.DateTimeFormat(locale, { month: "numeric", day: "numeric", hour: "2-digit", minute: "2-digit" });
+  const monthDay = new Intl.DateTimeFormat(locale, { month: "numeric", day: "numeric" });
+  const time = new Intl.DateTimeFormat(locale, { hour: "2-digit", minute: "2-digit" });
+  const weekdays = {
+    narrow: new Intl.DateTimeFormat(locale, { weekday: "narrow" }),
+    short: new Intl.DateTimeFormat(locale, { weekday: "short" }),
+    long: new Intl.DateTimeFormat(locale, { weekday: "long" }),
+  };
+  return {
+    number: (n) => number.format(n),
+    date: (d) => date.format(toDate(d)),
+    dateTime: (d) => dateTime.format(toDate(d)),
+    shortDateTime: (d) => shortDateTime.format(toDate(d)),
+    monthDay: (d) => monthDay.format(toDate(d)),
+    time: (d) => time.format(toDate(d)),
+    // 2024-01-07 は日曜
+    weekday: (weekday, width = "narrow") => weekdays[width].format(new Date(2024, 0, 7 + weekday)),
+  };
+}
+
+function createTranslate(locale: Locale, fmt: Formatters): Translate {
+  const messages = MESSAGES[locale];
+  const plural = new Intl.PluralRules(locale);
+  return (key, params) => {
+    const message = messages[key] ?? ja[key] ?? key;
+    const text = typeof message === "string" ? message : message[plural.select(Number(params?.count ?? 0)) === "one" ? "one" : "other"];
+    if (!params) return text;
+    return text.replace(/\{(\w+)\}/g, (whole, name: string) => {
+      const v = params[name];
+      if (v === undefined) return whole;
+      return typeof v === "number" ? fmt.number(v) : v;
+    });
+  };
+}
+
+export type I18n = { locale: Locale; t: Translate; fmt: Formatters };
+
+const cache = new Map<Locale, I18n>();
+
+/** 言語ごとの翻訳関数とフォーマッタ（Intl のオブジェクトは使い回す） */
+export function createI18n(locale: Locale): I18n {
+  let i18n = cache.get(locale);
+  if (!i18n) {
+    const fmt = createFormatters(locale);
+    i18n = { locale, t: createTranslate(locale, fmt), fmt };
+    cache.set(locale, i18n);
+  }
+  return i18n;
+}
+
+export const translator = (locale: Locale): Translate => createI18n(locale).t;
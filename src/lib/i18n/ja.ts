@@ -0,0 +1,600 @@
+/** -----------------------------
+ *  日本語の文言（基準の言語。キーはここで決まる）
+ *  ----------------------------*/
+export const ja = {
+  // アプリ
+  "app.description": "AIとともに成長する、7日間の自己成長プランナー",
+  // 共通
+  "common.listSeparator": "、",
+  "common.save": "保存",
+  "common.cancel": "キャンセル",
+  "common.close": "閉じる",
+  "common.delete": "削除",
+  "common.edit": "編集",
+  "common.add": "追加",
+  "common.none": "なし",
+  // カテゴリ
+  "category.exercise": "運動",
+  "category.study": "学習",
+  "category.habit": "習慣",
+  "category.faith": "信仰",
+  "category.social": "社会性・人助け",
+  "category.money": "金銭・資産形成",
+  "category.sleep": "睡眠",
+  "category.diet": "食事",
+  "category.mental": "メンタル",
+  "category.deleted": "削除したカテゴリ",
+  // ランク
+  "rank.novice": "入門者 (Novice)",
+  "rank.squire": "従者 (Squire)",
+  "rank.knight": "騎士 (Knight)",
+  "rank.marquis": "侯爵 (Marquis)",
+  "rank.duke": "公爵 (Duke)",
+  "rank.sovereign": "王者 (Sovereign)",
+  // 単位
+  "unit.count": "回",
+  "unit.minutes": "分",
+  "unit.ml": "ml",
+  "unit.yen": "円",
+  "measure.progress": "{amount}/{target}{unit}",
+  // アクセントカラー
+  "accent.sky": "スカイ",
+  "accent.mono": "モノクロ",
+  "accent.violet": "バイオレット",
+  "accent.rose": "ローズ",
+  "accent.emerald": "エメラルド",
+  "accent.amber": "アンバー",
+  // 解除条件
+  "unlock.describe.quest": "Day {day} の「{title}」を完了する",
+  "unlock.describe.questDeleted": "前提クエストが削除されました",
+  "unlock.describe.categoryDays": "{category}を {count} 日こなす",
+  "unlock.describe.daysLeft": "（あと {count} 日）",
+  "unlock.describe.rank": "ランク「{rank}」に到達する",
+  // 通知
+  "notif.dailyTitle": "Day {day} のクエスト",
+  "notif.dailyBody": "今日は {count} 件のクエストがあります。",
+  "notif.reminderTitle": "リマインダー",
+  "notif.unfinishedTitle": "未完了のクエストがあります",
+  "notif.unfinishedMore": " ほか{count}件",
+  "notif.rankUpTitle": "ランクアップ！",
+  "notif.rankUpBody": "{rank} になりました",
+  "notif.bonusTitle": "🔥 ボーナス獲得",
+  "notif.bonusBody": "Day {day} の全クエスト完了で +{points}pt",
+  "notif.unlockTitle": "🔓 クエスト解除",
+  "notif.unlockBody": "Day {day} の「{title}」に挑戦できます",
+  "notif.achievementTitle": "🏅 実績を獲得",
+  // プロフィール画像
+  "profile.avatar.notImage": "画像ファイルを選んでください",
+  "profile.avatar.unreadable": "画像を読み込めませんでした",
+  "profile.avatar.resizeFailed": "画像を縮小できませんでした",
+  "profile.avatar.tooLarge": "画像が大きすぎます",
+  // CSV
+  "csv.week": "週",
+  "csv.day": "日",
+  "csv.date": "日付",
+  "csv.category": "カテゴリ",
+  "csv.quest": "クエスト",
+  "csv.points": "ポイント",
+  "csv.status": "状態",
+  "csv.earned": "獲得ポイント",
+  "csv.status.disabled": "無効",
+  "csv.status.done": "完了",
+  "csv.status.open": "未完了",
+  // チャットの提案（ツール）
+  "tools.error.noDay": "Day {day} はありません",
+  "tools.error.questNotFound": "クエストが見つかりません",
+  "tools.error.notCompletable": "このクエストは現在完了にできません",
+  "tools.error.noTemplate": "差し替えられるテンプレートがありません",
+  "tools.unknownQuest": "（不明なクエスト）",
+  "tools.describe.add": "Day {day} に「{title}」を追加（+{points}pt）",
+  "tools.describe.complete": "Day {day} の「{title}」を完了にする",
+  "tools.describe.enableDay": "Day {day} のクエストをすべて有効にする",
+  "tools.describe.disableDay": "Day {day} のクエストをすべて無効にする",
+  "tools.describe.swap": "Day {day} の「{title}」を「{next}」に差し替える",
+  "tools.describe.swapEasier": "Day {day} の「{title}」を軽めのクエストに差し替える",
+  // チャット
+  "chat.welcome": "River Agentです！ 何でもお聞きください 🤖",
+  "chat.newChat": "新しいチャット",
+  "chat.systemPrompt": "あなたは River Agent です。ユーザーの7日間の自己成長プランを支える、前向きで簡潔なコーチとして日本語で答えてください。",
+  "chat.contextPrompt": "ユーザーの現在のプラン:\n{context}\n\nプランを変更するときはツールを呼び出してください。変更はユーザーの確認後に適用されます。",
+  "chat.error.connect": "プロバイダに接続できません: {message}",
+  "chat.error.status": "プロバイダがエラーを返しました ({status})",
+  "chat.error.receive": "応答の受信に失敗しました: {message}",
+  "chat.error.network": "通信エラー ({status})",
+  "chat.local.progress": "今日は第{cycle}週の Day {day}。クエストは {done}/{total} 完了、今週の達成率は {rate}% です。",
+  "chat.local.points": "現在 {points}pt（{rank}）、次のランクまであと {toNext}pt。",
+  "chat.local.remaining": "残りのクエスト:",
+  "chat.local.allDone": "今日のクエストはすべて完了しています。お見事！",
+  "chat.local.addHowTo": "追加したいクエストを「」で囲んで教えてください。例：「スクワット20回」を追加して",
+  "chat.local.addConfirm": "今日のプランに「{title}」を追加しましょうか？",
+  "chat.local.rest": "無理は禁物です。今日のクエストをお休みにしますか？",
+  "chat.local.noSwappable": "差し替えられる未完了のクエストが見つかりませんでした。",
+  "chat.local.swap": "「{title}」を軽めのクエストに差し替えてみましょう。",
+  "chat.local.noCompletable": "完了にできるクエストが見つかりませんでした。クエスト名を「」で囲んで教えてください。",
+  "chat.local.complete": "おつかれさまです！「{title}」を完了にしますね。",
+  "chat.local.statusNoContext": "現在の進捗を要約します。まずはタスク一覧を共有してください。",
+  "chat.local.data": "CSVかスプレッドシートをアップロードいただければ、概要統計→可視化→所見まで出します。",
+  "chat.local.ideas": "今週のクエストに小さな変化を加えてみましょう。たとえば、いつもの運動を朝に移す、読書の場所を変える、などです。",
+  "chat.local.fallback": "承知しました。もう少し具体的に状況を教えてください。",
+  // チャットに渡すプランの要約
+  "chatContext.today": "第{cycle}週・今日は Day {day}（dayIndex={dayIndex}）",
+  "chatContext.categories": "カテゴリ: {categories}",
+  "chatContext.points": "ポイント: {points}pt / ランク: {rank}（次のランクまで {toNext}pt）",
+  "chatContext.progress": "今週の達成率: {rate}%（{week}）",
+  "chatContext.quests": "今日のクエスト:",
+  "chatContext.noCategory": "カテゴリなし",
+  "chatContext.disabled": "無効",
+  "chatContext.locked": "ロック中",
+  // API
+  "api.badJson": "JSON を解釈できません",
+  "api.chat.rateLimited": "リクエストが多すぎます。少し待ってから再送してください。",
+  "api.chat.badMessages": "messages が不正です",
+  "api.chat.failed": "応答の生成に失敗しました",
+  "api.chat.missingApiKey": "CHAT_PROVIDER=openai には OPENAI_API_KEY が必要です",
+  "api.chat.unknownProvider": "未知の CHAT_PROVIDER です: {provider}",
+  "api.notSignedIn": "ログインしていません",
+  "api.auth.rateLimited": "試行回数が多すぎます。少し待ってからやり直してください。",
+  "api.auth.missingCredentials": "ユーザー名とパスワードを入力してください",
+  "api.sync.tooLarge": "データが大きすぎます",
+  "api.sync.badBody": "baseRevision と schemaVersion が必要です",
+  "api.sync.conflict": "別の端末で更新されています",
+  "api.sync.invalid": "データを受け付けられません: {detail}",
+  // アカウント
+  "account.error.username": "ユーザー名は半角英数字・_・- の 3〜20 文字にしてください",
+  "account.error.password": "パスワードは {count} 文字以上にしてください",
+  "account.error.taken": "このユーザー名は使われています",
+  "account.error.invalid": "ユーザー名かパスワードが違います",
+  // 同期
+  "sync.error.unreachable": "サーバーに接続できません",
+  "sync.error.network": "通信エラー ({status})",
+  "sync.error.busy": "ほかの端末の更新が続いているため、同期を中断しました",
+  "sync.error.sessionExpired": "セッションが切れました。もう一度ログインしてください",
+  "sync.error.failed": "同期に失敗しました",
+  "sync.week": "{cycle}週目のプラン",
+  "sync.setting.selectedCategories": "カテゴリ",
+  "sync.setting.theme": "外観",
+  "sync.setting.reminders": "リマインダー",
+  "sync.setting.generator": "プラン生成",
+  "sync.setting.streakRule": "連続記録の数え方",
+  "sync.setting.profile": "プロフィール",
+  "sync.setting.timer": "集中タイマー",
+  "sync.setting.locale": "言語",
+  "sync.setting.library": "テンプレートライブラリ",
+  "account.title": "アカウントと同期",
+  "account.intro": "ログインすると、スマホとパソコンなど複数の端末で同じクエストを使えます。",
+  "account.username": "ユーザー名",
+  "account.password": "パスワード（8 文字以上）",
+  "account.logIn": "ログイン",
+  "account.signUp": "新規登録",
+  "account.logOut": "ログアウト",
+  "account.signInFailed": "ログインできませんでした",
+  "account.signedInAs": "{username} でログイン中",
+  "account.syncNow": "今すぐ同期",
+  "account.status.syncing": "同期中…",
+  "account.status.offline": "オフライン（接続が戻ったら送信します）",
+  "account.status.pending": "未送信の変更が {count} 件あります",
+  "account.status.synced": "同期済み（{time}）",
+  "account.conflicts": "ほかの端末と同時に変更された項目",
+  "account.conflict.keptLocal": "{title}：この端末の変更を残しました（{time}）",
+  "account.conflict.keptRemote": "{title}：ほかの端末の変更を残しました（{time}）",
+  "account.note": "クエストごとに新しい方の変更を残します。ログアウトしてもこの端末のデータは消えません。",
+  "measure.decrease": "{step}{unit}減らす",
+  "measure.increase": "{step}{unit}記録する",
+  // チャット履歴
+  "chatHistory.search": "チャットを検索",
+  "chatHistory.new": "新規",
+  "chatHistory.rename": "{title} の名前を変更",
+  "chatHistory.confirmDelete": "「{title}」を削除しますか？",
+  "chatHistory.delete": "{title} を削除",
+  "chatHistory.empty": "該当するチャットはありません",
+  // 通知センター
+  "notif.title": "通知",
+  "notif.markAllRead": "すべて既読",
+  "notif.clear": "クリア",
+  "notif.empty": "通知はありません",
+  // クエストフォーム
+  "common.day": "Day {day}",
+  "questForm.addTitle": "クエストを追加",
+  "questForm.editTitle": "クエストを編集",
+  "questForm.title": "タイトル",
+  "questForm.titlePlaceholder": "例：スクワット20回",
+  "questForm.category": "カテゴリ",
+  "questForm.points": "ポイント",
+  "questForm.target": "目標量（任意・届いたら自動で完了）",
+  "questForm.targetPlaceholder": "例：1500",
+  "questForm.unit": "単位",
+  "questForm.note": "メモ",
+  "questForm.reminder": "リマインダー",
+  "questForm.days": "追加する日",
+  "questForm.copyTo": "他の日にもコピー",
+  "questForm.applyToWeek": "週内の同じクエストにもこの変更を反映",
+  "questForm.lock": "ロック（条件を満たすまで挑戦できない）",
+  "questForm.lock.quest": "前提クエストの完了",
+  "questForm.lock.categoryDays": "カテゴリの日数",
+  "questForm.lock.rank": "ランク到達",
+  "questForm.lock.deleted": "（削除されたクエスト）",
+  "questForm.lock.days": "日",
+  "questForm.lock.rankOption": "{rank}（{points}pt）",
+  // データの書き出し・読み込み
+  "data.title": "データの書き出し・読み込み",
+  "data.exportJson": "バックアップ（JSON）",
+  "data.exportCsv": "完了記録（CSV）",
+  "data.import": "バックアップから読み込む…",
+  "data.readFailed": "読み込めませんでした：{error}",
+  "data.exportedAt": "（{time} に書き出し）",
+  "data.current": "現在",
+  "data.file": "ファイル",
+  "data.summary.cycle": "進行中の週",
+  "data.summary.weeks": "終了した週",
+  "data.summary.done": "完了クエスト",
+  "data.summary.quests": "クエスト数",
+  "data.summary.points": "ポイント",
+  "data.summary.categories": "カテゴリ",
+  "data.repairs": "読み込み時に {count} 件を修復します",
+  "data.merge": "統合する",
+  "data.replace": "置き換える",
+  "data.restore": "復元する",
+  "data.mergeNote": "統合は週ごとに完了数の多い方を残します。置き換える前の現在のデータは退避一覧に保存されます。",
+  // 外観
+  "theme.title": "外観",
+  "theme.mode": "表示モード",
+  "theme.mode.light": "ライト",
+  "theme.mode.dark": "ダーク",
+  "theme.mode.system": "端末に合わせる",
+  "theme.accent": "アクセントカラー",
+  "theme.pickAccent": "アクセントカラーを選ぶ",
+  "theme.colors": "背景色・文字色",
+  "theme.backgroundLight": "背景色（ライト）",
+  "theme.textLight": "文字色（ライト）",
+  "theme.backgroundDark": "背景色（ダーク）",
+  "theme.textDark": "文字色（ダーク）",
+  "theme.reset": "既定のテーマに戻す",
+  // 週プランの作り方
+  "generator.title": "週プランの作り方",
+  "generator.dailyBudget": "1日のクエスト数",
+  "generator.count": "{count} 件",
+  "generator.adaptive": "達成率に合わせて量と難易度を調整する",
+  "generator.preview": "来週の見込み（直近 2 週の達成率から・1日 {count} 件）",
+  "generator.noRecord": "記録なし",
+  "generator.fewer": "・少なめ",
+  "generator.seed": "シード",
+  "generator.reseed": "組み合わせを変える",
+  "generator.note": "変更は次の週のプランから反映されます。",
+  "level.0": "軽め",
+  "level.1": "ふつう",
+  "level.2": "しっかり",
+  // 集中タイマー
+  "timer.title": "集中タイマー",
+  "timer.button": "タイマー",
+  "timer.minutesLabel": "時間（分）",
+  "timer.start": "開始",
+  "timer.paused": "一時停止中・{title}",
+  "timer.focusing": "集中タイム・{title}",
+  "timer.resume": "再開",
+  "timer.pause": "一時停止",
+  "timer.finish": "終了して記録",
+  "timer.discard": "記録せずに破棄",
+  // リマインダー
+  "reminder.title": "リマインダー",
+  "reminder.daily": "今日のクエストのお知らせ",
+  "reminder.unfinished": "未完了クエストの催促",
+  "reminder.use": "{label}を使う",
+  "reminder.quietHours": "おやすみ時間",
+  "reminder.browser": "ブラウザ通知も送る",
+  "reminder.unsupported": "このブラウザは通知に対応していません",
+  "reminder.denied": "通知が許可されていません（ブラウザの設定を確認してください）",
+  "reminder.note": "クエストごとの時刻はクエストの編集画面で設定できます。リマインダーはアプリを開いている間に届きます。",
+  // プロフィール
+  "profile.title": "プロフィール",
+  "profile.defaultName": "勇者タクロウ",
+  "profile.emojiAvatar": "絵文字のアバター",
+  "profile.upload": "画像をアップロード",
+  "profile.resizing": "縮小中…",
+  "profile.uploadNote": "正方形に切り抜いて端末内で縮小します",
+  "profile.avatar.failed": "画像を設定できませんでした",
+  "profile.displayName": "表示名",
+  "profile.goal": "目標",
+  "profile.goalPlaceholder": "例: 毎朝 30 分走れる体になる",
+  "profile.weekStart": "週の始まり（分析のカレンダー・曜日グラフ）",
+  "profile.weekStartDefault": "指定しない（{weekday}）",
+  "profile.dayStartHour": "1日の始まり",
+  "profile.dayStartHourHint": "この時刻より前は前日として数えます（夜型の方は 4:00 など）。",
+  // 分析
+  "analytics.title": "分析",
+  "analytics.daysRecorded": "記録した日数",
+  "analytics.days": "{count}日",
+  "analytics.overallRate": "通算の達成率",
+  "analytics.totalPoints": "通算ポイント",
+  "analytics.longestStreak": "最長連続日数",
+  "analytics.categoryTrends": "カテゴリ別の達成率（週ごと）",
+  "analytics.categoryTrendsLabel": "カテゴリ別の達成率の推移",
+  "analytics.calendar": "カレンダー",
+  "analytics.byWeekday": "曜日別の達成率",
+  "analytics.bestWorst": "いちばん得意なのは{best}（{bestRate}%）、苦手なのは{worst}（{worstRate}%）です。",
+  "analytics.pointsPerWeek": "週ごとのポイント",
+  "analytics.weekAxis": "横軸は週番号",
+  "analytics.streakHistory": "連続日数の推移",
+  "analytics.moodVsRate": "気分と達成率",
+  "analytics.moodAxis": "ふりかえりで付けた気分ごとの、その日の平均達成率",
+  "analytics.moodEmpty": "日記のふりかえりで気分を付けると表示されます",
+  "analytics.streakMax": "最大 {count}日",
+  "analytics.empty": "まだ記録がありません",
+  "analytics.heatmapDay": "{date}：{done}/{total} 完了",
+  "common.rangeSeparator": "〜",
+  // タブ
+  "tab.home": "ホーム",
+  "tab.quests": "クエスト",
+  "tab.analytics": "分析",
+  "tab.journal": "日記",
+  "tab.chat": "チャット",
+  "tab.settings": "設定",
+  // 最初のプラン作成
+  "wizard.title": "どんな分野を伸ばしたい？",
+  "wizard.hint": "3つ前後選ぶのがおすすめ（後で変更できます）",
+  "wizard.generate": "7日間プランを作成",
+  "wizard.clear": "選択をクリア",
+  // ホーム
+  "home.points": "{points} ポイント",
+  "home.toNextRank": "次ランクまで {points} pt",
+  "home.add": "+ 追加",
+  "home.todayQuests": "今日のクエスト",
+  "home.questPoints": "+{points}ポイント",
+  "home.noQuests": "今日は有効なクエストがありません",
+  "home.summary.done": "完了クエスト",
+  "home.summary.earned": "獲得ポイント",
+  "home.summary.rate": "達成率",
+  "quest.status.done": "完了済み",
+  "quest.status.locked": "ロック中",
+  "quest.status.inProgress": "進行中",
+  "quest.status.notStarted": "未開始",
+  "quest.focused": " ・ 集中 {minutes}分",
+  "notif.unreadLabel": "通知（未読 {count} 件）",
+  "chat.noPlan": "プランがありません",
+  // クエストタブ
+  "quests.finishEditing": "編集を終了",
+  "quests.weekSelect": "表示する週",
+  "quests.thisWeek": "第{cycle}週（今週）",
+  "quests.pastWeek": "第{cycle}週（{date}〜）",
+  "quests.date": "{date}（{weekday}）",
+  "quests.today": "今日",
+  "quests.moveDayUp": "Day {day} を前へ",
+  "quests.moveDayDown": "Day {day} を後ろへ",
+  "quests.enabled": "有効",
+  "quests.disabled": "無効",
+  "quests.reorder": "{title} を並べ替え（↑↓キー）",
+  "quests.points": "+{points}pt",
+  "quests.pointsEarned": "+{points}pt 獲得",
+  "quests.late": "後から記録",
+  "quests.lateHint": "プランの日とは別の日に記録しました",
+  "quests.lockedReason": "ロック中：{reason}",
+  "quests.addQuest": "+ クエストを追加",
+  "quests.bonusToday": "今日のボーナス",
+  "quests.bonus": "ボーナス",
+  "quests.bonusEarned": "獲得済み",
+  "quests.bonusHint": "すべてのクエストを完了すると追加ポイントを獲得！",
+  "quests.deleteDialog.title": "「{title}」を削除しますか？",
+  "quests.deleteDialog.body": "同じクエストが週内に{count}件あります。",
+  "quests.deleteDialog.thisDay": "この日のみ削除",
+  "quests.deleteDialog.all": "{count}件すべて削除",
+  "quests.confirmDelete": "「{title}」を削除しますか？",
+  // チャット画面
+  "chat.newGreeting": "新しいチャットを始めよう。目標は？",
+  "chat.online": "オンライン",
+  "chat.menu": "メニュー",
+  "chat.retry": "再試行",
+  "chat.stop": "生成を停止",
+  "chat.interrupted": "{text}…（中断）",
+  "chat.error.rateLimited": "送信が多すぎます。{seconds}秒ほど待ってから再試行してください。",
+  "chat.error.failed": "応答の取得に失敗しました",
+  "chat.suggest.ideas": "アイデア提案",
+  "chat.suggest.ideasPrompt": "アイデア提案が欲しい",
+  "chat.suggest.data": "データ分析",
+  "chat.suggest.dataPrompt": "データ分析をお願い",
+  "chat.proposal.title": "プランの変更提案",
+  "chat.proposal.accept": "適用する",
+  "chat.proposal.reject": "やめておく",
+  "chat.proposal.appliedNote": "✓ 適用しました",
+  "chat.proposal.rejectedNote": "見送りました",
+  "chat.proposal.pending": "未確認",
+  "chat.proposal.applied": "適用済み",
+  "chat.proposal.rejected": "却下",
+  "chat.proposal.history": "（提案: {description} → {status}）",
+  "chat.input.placeholder": "メッセージを入力…",
+  "chat.input.emoji": "絵文字",
+  "chat.input.send": "送信",
+  "chat.input.voice": "音声入力",
+  "chat.input.photo": "写真",
+  "chat.input.file": "ファイル",
+  // 連続記録・週のまとめ・復旧
+  "streak.best": "最長 {count}日",
+  "streak.daily": "{count}日連続",
+  "streak.perfect": "パーフェクト {count}日連続",
+  "streak.sameDayOnly": "当日中の完了のみ",
+  "streak.category": "{category} {count}日",
+  "week.clearedDays": "全クリアした日",
+  "week.days": "{count}日",
+  "week.started": "第{cycle}週がスタートしました",
+  "week.lastWeekSummary": "先週の達成率 {rate}% ・ {points}pt 獲得（クエスト → 週の選択から振り返れます）",
+  "recovery.backedUp": "元のデータは退避しました（設定 → 退避データ から確認できます）",
+  "recovery.repairs": "修復内容（{count}件）",
+  // 保存データの読み込み（検証・移行）
+  "storage.unavailable": "ストレージにアクセスできません",
+  "storage.repaired": "保存データの一部を修復しました",
+  "storage.notJson": "保存データが JSON として読めません",
+  "storage.notObject": "保存データがオブジェクトではありません",
+  "storage.plansNotArray": "plans が配列ではありません",
+  "storage.migrationFailed": "スキーマ移行に失敗しました",
+  "storage.badVersion": "不正なスキーマバージョンです: {version}",
+  "storage.newerVersion": "新しいバージョンのアプリで保存されたデータです (v{version} > v{current})",
+  "storage.missingMigration": "v{version} からの移行関数がありません",
+  "repair.notQuest": "{where}: クエストではない値を削除",
+  "repair.untitledQuest": "{where}: タイトルのないクエストを削除",
+  "repair.newId": "{where}: id を再発行",
+  "repair.badUnlock": "{where}: 読み込めない解除条件を削除",
+  "repair.disabledDone": "{where}: 無効なクエストの完了フラグを解除",
+  "repair.badDay": "{where}: 読み込めない日を削除",
+  "repair.dayNumber": "{where}: 日番号を補正",
+  "repair.duplicateId": "{where}: 重複した id を再発行",
+  "repair.theme": "{where}: 不正なテーマ設定を破棄",
+  "repair.color": "{where}: 不正な色を既定値に戻しました",
+  "repair.startDate": "{where}: 開始日時から補完",
+  "repair.timer": "{where}: 読み込めない集中タイマーを破棄",
+  "repair.defaultSettings": "{where}: 既定の設定に戻しました",
+  "repair.defaultValue": "{where}: 既定値に戻しました",
+  "repair.avatar": "{where}: 読み込めないため既定のアバターに戻しました",
+  "repair.profile": "{where}: 既定のプロフィールに戻しました",
+  "repair.displayName": "{where}: 空のため既定の名前に戻しました",
+  "repair.library": "{where}: 読み込めないため既定のテンプレートに戻しました",
+  "repair.badCategories": "{where}: 読み込めないカテゴリを削除",
+  "repair.orphanTemplates": "{where}: 未知のカテゴリのテンプレートを削除",
+  "repair.badTemplates": "{where}: 読み込めないテンプレートを削除",
+  "repair.notArray": "{where}: 配列ではないため空にしました",
+  "repair.unknownCategories": "{where}: 未知のカテゴリを削除",
+  "repair.badEvents": "{where}: 読み込めないイベントを{count}件削除",
+  "repair.badWeeks": "{where}: 読み込めない週を{count}件削除",
+  "repair.cycle": "{where}: 週番号を補正",
+  "repair.cycleBeforeHistory": "{where}: 履歴より前の週番号を補正",
+  "repair.badNotifications": "{where}: 読み込めない通知を削除",
+  "repair.badRecords": "{where}: 読み込めない記録を削除",
+  "repair.badJournal": "{where}: 読み込めない日記を削除",
+  "repair.badAchievements": "{where}: 読み込めない実績・重複を削除",
+  "repair.locale": "{where}: 未知の言語のため既定の言語に戻しました",
+  "repair.createdAt": "{where}: 読み込めないため今日を開始日に設定",
+  // 設定タブ
+  "settings.language": "言語",
+  "settings.languageHint": "画面とチャットの言語",
+  "settings.streak": "連続記録",
+  "settings.streakSameDay": "当日中に完了したクエストだけを数える",
+  "settings.streakHint": "過ぎた日のクエストも完了にできますが、「後から記録」として残ります。",
+  "settings.resetHint": "進行中のクエストをリセットして最初から始めます。7日以内なら元に戻せます。",
+  "settings.reset": "すべてをリセット",
+  "undo.undo": "元に戻す",
+  "undo.redo": "やり直す",
+  "undo.undoTo": "ここまで戻す",
+  "undo.history": "操作履歴",
+  "undo.empty": "まだ操作はありません",
+  "undo.note": "この画面を開いている間の今週の操作を記録します。戻した分のポイントは取り消しとして記録されます。",
+  "undo.shortcut.undo": "元に戻す（Ctrl/⌘+Z）",
+  "undo.shortcut.redo": "やり直す（Ctrl/⌘+Shift+Z）",
+  "undo.withTitle": "{action}：{title}",
+  "undo.undone": "元に戻しました（{action}）",
+  "undo.redone": "やり直しました（{action}）",
+  "undo.kind.toggle_done": "完了を切り替え",
+  "undo.kind.toggle_enabled": "有効・無効を切り替え",
+  "undo.kind.toggle_day": "日のクエストをまとめて切り替え",
+  "undo.kind.add_quest": "クエストを追加",
+  "undo.kind.edit_quest": "クエストを編集",
+  "undo.kind.delete_quest": "クエストを削除",
+  "undo.kind.move_quest": "クエストを並べ替え",
+  "undo.kind.move_day": "日を並べ替え",
+  "undo.kind.add_chain": "チェーンを追加",
+  "undo.kind.log_amount": "量を記録",
+  "undo.kind.chat": "チャットの提案を適用",
+  "reset.done": "すべてをリセットしました",
+  "reset.restored": "リセット前のデータに戻しました",
+  "reset.expired": "元に戻せる期間が過ぎています",
+  "reset.trashNotice": "リセットしたデータは {date} まで元に戻せます。",
+  "reset.noUndoConfirm": "データを退避できないため、リセットすると元に戻せません。リセットしますか？",
+  "chain.add": "チェーンを追加",
+  "chain.option": "{name}（{steps}）",
+  "chain.fromDay": "Day {day} から",
+  "chain.hint": "1 日おきに置き、前のステップを完了すると次が解除されます。",
+  "backups.title": "退避データ",
+  "backups.hint": "読み込めなかった保存データや、インポートで置き換える前のデータです。必要ならダウンロードして保管してください。",
+  "backups.size": "{count} 文字",
+  "backups.download": "ダウンロード",
+  // テンプレートライブラリ
+  "library.title": "テンプレートライブラリ",
+  "library.hint": "週プランはここのテンプレートから作られます。自分のカテゴリも追加できます。",
+  "library.categories": "カテゴリ",
+  "library.newCategory": "＋ 新しいカテゴリ",
+  "library.categoryName": "名前",
+  "library.categoryNamePlaceholder": "例：創作",
+  "library.icon": "アイコン",
+  "library.color": "色",
+  "library.customColor": "任意の色",
+  "library.deleteCategory": "カテゴリを削除",
+  "library.confirmDelete": "カテゴリ「{name}」とそのテンプレートを削除しますか？ 作成済みのクエストは残ります。",
+  "library.templates": "テンプレート {count} 件",
+  "library.noTemplates": "テンプレートがありません。このカテゴリのクエストは週プランに出ません。",
+  "library.resetTemplates": "既定のテンプレートに戻す",
+  "library.templateTitle": "タイトル",
+  "library.templatePoints": "ポイント",
+  "library.newTemplatePlaceholder": "新しいテンプレート",
+  "library.moveUp": "上へ",
+  "library.moveDown": "下へ",
+  "library.orderHint": "上ほど軽いクエストとして扱います。変更は次に作る週のプランから反映されます。",
+  "library.pack.export": "テンプレートを書き出す",
+  "library.pack.import": "テンプレートを読み込む",
+  "library.pack.note": "読み込んだテンプレートは今のライブラリに追加されます（同じタイトルのものは追加しません）。",
+  "library.pack.imported": "テンプレートを読み込みました（カテゴリ {count} 件）",
+  "library.pack.failed": "読み込めませんでした：{error}",
+  "library.fallbackCategories": "選んだカテゴリにテンプレートがないため、来週からは既定のカテゴリでプランを作ります",
+  "library.pack.notJson": "JSON として読めません",
+  "library.pack.wrongFormat": "テンプレートのファイルではありません",
+  "library.pack.newerVersion": "新しいバージョンのアプリで書き出されたファイルです",
+  "journal.title": "日記",
+  "journal.search": "日記を検索",
+  "journal.filter.all": "すべて",
+  "journal.filter.day": "ふりかえり",
+  "journal.filter.quest": "クエストのメモ",
+  "journal.empty": "まだ日記はありません。クエストを完了したときや 1日の終わりに書いてみましょう。",
+  "journal.noResults": "見つかりませんでした",
+  "journal.reflection": "今日のふりかえり",
+  "journal.mood": "気分",
+  "journal.energy": "元気",
+  "journal.ratingLabel": "{name} {value}/5",
+  "journal.prompts": "問いかけ",
+  "journal.placeholder": "自由に書いてください",
+  "journal.saved": "日記を保存しました",
+  "journal.removed": "日記を削除しました",
+  "journal.confirmDelete": "この日記を削除しますか？",
+  "journal.writeNote": "メモを書く",
+  "journal.editNote": "メモを編集",
+  "journal.noteFor": "「{title}」のメモ",
+  "journal.later": "あとで",
+  "journal.prompt.day.good": "今日うまくいったことは？",
+  "journal.prompt.day.grateful": "今日ありがたかったことを 3 つ",
+  "journal.prompt.day.tomorrow": "明日ひとつ変えるとしたら？",
+  "journal.prompt.quest": "やってみてどうだった？",
+  "journal.prompt.exercise": "体はどう感じた？",
+  "journal.prompt.study": "新しく分かったことは？",
+  "journal.prompt.habit": "続けるコツは見つかった？",
+  "journal.prompt.faith": "今日心に残った言葉や気づきは？",
+  "journal.prompt.social": "誰とどんな時間を過ごした？",
+  "journal.prompt.money": "お金の使い方で気づいたことは？",
+  "journal.prompt.sleep": "寝る前に何をした？ よく眠れた？",
+  "journal.prompt.diet": "食事で意識したことは？",
+  "journal.prompt.mental": "今の気持ちを言葉にすると？",
+  "achievement.title": "実績",
+  "achievement.summary": "{earned} / {total}",
+  "achievement.showAll": "すべての実績",
+  "achievement.none": "まだバッジはありません。クエストを完了して集めましょう。",
+  "achievement.earnedAt": "{date} に獲得",
+  "achievement.progress": "{value} / {target}",
+  "achievement.locked": "未獲得",
+  "achievement.unlocked": "実績を獲得！",
+  "achievement.rule.quests_done": "クエストを合計 {count} 回完了する",
+  "achievement.rule.perfect_days": "すべてのクエストを完了した日を {count} 日つくる",
+  "achievement.rule.daily_streak": "{count} 日連続でクエストを完了する",
+  "achievement.rule.category_streak": "{category}のクエストを {count} 日連続で完了する",
+  "achievement.rule.categories_tried": "{count} 種類のカテゴリのクエストを完了する",
+  "achievement.rule.journal_entries": "日記を {count} 件書く",
+  "achievement.rule.focus_minutes": "集中タイマーで合計 {count} 分集中する",
+  "achievement.rule.weeks": "{count} 週間を終える",
+  "pwa.updateReady": "新しいバージョンがあります",
+  "pwa.updateHint": "更新すると画面を読み込み直します。記録したデータはそのまま残ります。",
+  "pwa.update": "更新",
+  "pwa.later": "あとで",
+  "pwa.offline": "オフライン",
+  "pwa.offlineHint": "オフラインでもクエストの記録はできます。同期は接続が戻ったときに行います。",
+  "pwa.offlineReady": "この端末ではオフラインでも開けます。",
+  "pwa.offlinePending": "オフラインで使う準備をしています（一度読み込み直すと完了します）。",
+  "pwa.install.title": "アプリとして使う",
+  "pwa.install.hint": "ホーム画面に追加すると、アプリのように起動できます。",
+  "pwa.install.button": "インストール",
+  "pwa.install.installed": "アプリとしてインストール済みです。",
+  "pwa.install.manual": "ブラウザのメニュー（iPhone は共有ボタン）から「ホーム画面に追加」を選んでください。",
+};
+
+export type MessageKey = keyof typeof ja;
@@ -0,0 +1,116 @@
+import { ALL_CATEGORIES, isBuiltinCategory } from "./constants";
+import type { MessageKey, Translate } from "./i18n";
+import type { DayRecord } from "./analytics";
+import type { JournalEntry, Rating } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  日記（クエストのメモと 1日のふりかえり）
+ *  クエストのメモはクエストごとに 1 件、ふりかえりは日ごとに 1 件で、書き直すと上書きする。
+ *  ----------------------------*/
+export const MAX_JOURNAL_TEXT = 1000;
+export const RATINGS: Rating[] = [1, 2, 3, 4, 5];
+
+/** 気分の表示（1 = 低い / 5 = 高い） */
+export const MOOD_ICONS: Record<Rating, string> = { 1: "😞", 2: "🙁", 3: "😐", 4: "🙂", 5: "😄" };
+
+/** ふりかえりの問いかけ */
+export const DAY_PROMPTS = ["journal.prompt.day.good", "journal.prompt.day.grateful", "journal.prompt.day.tomorrow"] as const satisfies readonly MessageKey[];
+
+const QUEST_PROMPT = "journal.prompt.quest" satisfies MessageKey;
+
+/** クエストのメモの問いかけ。組み込みのカテゴリはカテゴリごとの問いかけ */
+export function questPrompt(category?: string): MessageKey {
+  return isBuiltinCategory(category) ? `journal.prompt.${category}` : QUEST_PROMPT;
+}
+
+/** ふりかえりの問いかけ。共通のものに、その日のクエストのカテゴリの問いかけを足す */
+export function dayPrompts(categories: (string | undefined)[]): MessageKey[] {
+  const byCategory = categories.filter(isBuiltinCategory).map((c) => questPrompt(c));
+  return [...new Set<MessageKey>([...DAY_PROMPTS, ...byCategory])];
+}
+
+const PROMPTS = new Set<string>([...DAY_PROMPTS, QUEST_PROMPT, ...ALL_CATEGORIES.map((c) => `journal.prompt.${c}`)]);
+
+export function isJournalPrompt(v: unknown): v is MessageKey {
+  return typeof v === "string" && PROMPTS.has(v);
+}
+
+export function isRating(v: unknown): v is Rating {
+  return typeof v === "number" && (RATINGS as number[]).includes(v);
+}
+
+export function questEntry(journal: JournalEntry[], cycle: number, questId: string): JournalEntry | undefined {
+  return journal.find((e) => e.kind === "quest" && e.cycle === cycle && e.questId === questId);
+}
+
+export function dayEntry(journal: JournalEntry[], cycle: number, dayIndex: number): JournalEntry | undefined {
+  return journal.find((e) => e.kind === "day" && e.cycle === cycle && e.dayIndex === dayIndex);
+}
+
+export type JournalDraft = Omit<JournalEntry, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * 同じクエスト・同じ日の記録があれば書き換え、なければ追加する。
+ * 本文も評価も空なら記録を消す。
+ */
+export function saveEntry(journal: JournalEntry[], draft: JournalDraft, now = new Date()): JournalEntry[] {
+  const existing =
+    draft.kind === "quest" && draft.questId ? questEntry(journal, draft.cycle, draft.questId) : dayEntry(journal, draft.cycle, draft.dayIndex);
+  const text = draft.text.trim().slice(0, MAX_JOURNAL_TEXT);
+  if (!text && !draft.mood && !draft.energy) return existing ? journal.filter((e) => e.id !== existing.id) : journal;
+
+  const at = now.toISOString();
+  const entry: JournalEntry = { ...draft, text, id: existing?.id ?? uid(), createdAt: existing?.createdAt ?? at, updatedAt: at };
+  return existing ? journal.map((e) => (e.id === existing.id ? entry : e)) : [...journal, entry];
+}
+
+export function deleteEntry(journal: JournalEntry[], id: string): JournalEntry[] {
+  return journal.filter((e) => e.id !== id);
+}
+
+/**
+ * 同じクエスト・同じ日の記録が複数あれば（別々の端末で書いた場合など）更新時刻の新しい方だけ残す。
+ * 作成順に並べて返す。
+ */
+export function dedupeJournal(journal: JournalEntry[]): JournalEntry[] {
+  const slot = (e: JournalEntry) => (e.kind === "quest" ? `quest:${e.cycle}:${e.questId}` : `day:${e.cycle}:${e.dayIndex}`);
+  const newest = new Map<string, JournalEntry>();
+  journal.forEach((e) => {
+    const current = newest.get(slot(e));
+    if (!current || e.updatedAt > current.updatedAt) newest.set(slot(e), e);
+  });
+  return [...newest.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** 新しい日付順。本文・クエスト名・問いかけの文言から探す（大文字小文字は区別しない） */
+export function searchJournal(journal: JournalEntry[], query: string, t: Translate, kind?: JournalEntry["kind"]): JournalEntry[] {
+  const q = query.trim().toLowerCase();
+  return journal
+    .filter((e) => !kind || e.kind === kind)
+    .filter((e) => {
+      if (!q) return true;
+      const prompt = isJournalPrompt(e.prompt) ? t(e.prompt) : "";
+      return [e.text, e.questTitle ?? "", prompt].some((s) => s.toLowerCase().includes(q));
+    })
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+}
+
+export type MoodStat = {
+  mood: Rating;
+  rate: number | null; // その気分の日の平均達成率 0-100（記録なしは null）
+  days: number;
+};
+
+/** 気分ごとの、その日の達成率の平均（ふりかえりで気分を付けた日のみ） */
+export function moodStats(journal: JournalEntry[], records: DayRecord[]): MoodStat[] {
+  const byDay = new Map(records.map((r) => [`${r.cycle}:${r.dayIndex}`, r]));
+  return RATINGS.map((mood) => {
+    const days = journal
+      .filter((e) => e.kind === "day" && e.mood === mood)
+      .map((e) => byDay.get(`${e.cycle}:${e.dayIndex}`))
+      .filter((r): r is DayRecord => !!r && r.total > 0);
+    const rates = days.map((r) => (r.done / r.total) * 100);
+    return { mood, rate: rates.length ? Math.round(rates.reduce((s, v) => s + v, 0) / rates.length) : null, days: days.length };
+  });
+}
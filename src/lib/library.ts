@@ -0,0 +1,125 @@
+import { ALL_CATEGORIES, CATEGORY_ICONS, isBuiltinCategory, TEMPLATE_QUESTS } from "./constants";
+import { LOCALES, type Locale } from "./i18n";
+import type { CategoryKey, CustomCategory, LocalizedText, QuestTemplate, TemplateLibrary } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  テンプレートライブラリ（自分で作ったカテゴリとテンプレートの編集）
+ *  組み込みのカテゴリのテンプレートは、編集するまで TEMPLATE_QUESTS をそのまま使う。
+ *  ----------------------------*/
+export const MAX_CATEGORY_NAME = 20;
+export const MAX_TEMPLATE_TITLE = 60;
+export const MAX_TEMPLATES = 20; // 1カテゴリあたり
+export const MAX_CUSTOM_CATEGORIES = 20;
+export const MAX_TEMPLATE_POINTS = 1000;
+
+export const CUSTOM_CATEGORY_ICONS = ["🎨", "🎸", "✍️", "📷", "🧑‍🍳", "🌿", "🧩", "💻", "🎯", "🏠", "🐾", "✨"];
+export const CUSTOM_CATEGORY_COLORS = ["#e11d48", "#d97706", "#059669", "#0284c7", "#7c3aed", "#404040"];
+
+export const DEFAULT_LIBRARY: TemplateLibrary = { categories: [], templates: {} };
+
+/** 組み込み → 自分で作った順 */
+export function libraryCategories(library: TemplateLibrary): CategoryKey[] {
+  return [...ALL_CATEGORIES, ...library.categories.map((c) => c.key)];
+}
+
+/** 選んだカテゴリで週プランを作れないときに使うカテゴリ */
+export const DEFAULT_CATEGORIES: CategoryKey[] = ["exercise", "study"];
+
+/**
+ * 週プランに使うカテゴリ。ライブラリから消えたカテゴリは除く。
+ * テンプレートのあるカテゴリが 1 つも残らなければ（空の週になってしまうので）既定のカテゴリにし、
+ * それもテンプレートがなければテンプレートのあるすべてのカテゴリにする。
+ */
+export function plannableCategories(library: TemplateLibrary, selected: CategoryKey[]): CategoryKey[] {
+  const kept = selected.filter((k) => hasCategory(library, k));
+  const usable = (k: CategoryKey) => templatesFor(library, k).length > 0;
+  if (kept.some(usable)) return kept;
+  const defaults = DEFAULT_CATEGORIES.filter(usable);
+  return defaults.length ? defaults : libraryCategories(library).filter(usable);
+}
+
+/** 組み込みのカテゴリか、ライブラリに残っている自分のカテゴリか */
+export function hasCategory(library: TemplateLibrary, key: unknown): key is CategoryKey {
+  return isBuiltinCategory(key) || library.categories.some((c) => c.key === key);
+}
+
+export function categoryIcon(library: TemplateLibrary, key: string): string {
+  if (isBuiltinCategory(key)) return CATEGORY_ICONS[key];
+  return library.categories.find((c) => c.key === key)?.icon ?? "❔";
+}
+
+/** 表示色。組み込みのカテゴリは色を持たない */
+export function categoryColor(library: TemplateLibrary, key: string): string | undefined {
+  return library.categories.find((c) => c.key === key)?.color;
+}
+
+export function templatesFor(library: TemplateLibrary, key: CategoryKey): QuestTemplate[] {
+  return library.templates[key] ?? (isBuiltinCategory(key) ? TEMPLATE_QUESTS[key] : []);
+}
+
+/** 組み込みのテンプレートを編集済みか */
+export function isCustomized(library: TemplateLibrary, key: CategoryKey): boolean {
+  return isBuiltinCategory(key) && library.templates[key] !== undefined;
+}
+
+/** 自分で書いた文言は全言語で同じにする */
+export function sameText(text: string): LocalizedText {
+  return Object.fromEntries(LOCALES.map((l) => [l.locale, text])) as LocalizedText;
+}
+
+export function addCategory(library: TemplateLibrary, fields: Omit<CustomCategory, "key">): { library: TemplateLibrary; key: CategoryKey } {
+  const key = `custom:${uid()}` as const;
+  const category: CustomCategory = { ...fields, key, name: fields.name.trim().slice(0, MAX_CATEGORY_NAME) };
+  return { library: { categories: [...library.categories, category], templates: { ...library.templates, [key]: [] } }, key };
+}
+
+export function updateCategory(library: TemplateLibrary, key: CategoryKey, patch: Partial<Omit<CustomCategory, "key">>): TemplateLibrary {
+  return {
+    ...library,
+    categories: library.categories.map((c) => (c.key === key ? { ...c, ...patch, key: c.key } : c)),
+  };
+}
+
+/** カテゴリとそのテンプレートを消す。作成済みのクエストのカテゴリはそのまま残る */
+export function deleteCategory(library: TemplateLibrary, key: CategoryKey): TemplateLibrary {
+  const templates = { ...library.templates };
+  delete templates[key];
+  return { categories: library.categories.filter((c) => c.key !== key), templates };
+}
+
+export function setTemplates(library: TemplateLibrary, key: CategoryKey, templates: QuestTemplate[]): TemplateLibrary {
+  return { ...library, templates: { ...library.templates, [key]: templates.slice(0, MAX_TEMPLATES) } };
+}
+
+/** 組み込みのカテゴリを既定のテンプレートに戻す */
+export function resetTemplates(library: TemplateLibrary, key: CategoryKey): TemplateLibrary {
+  const templates = { ...library.templates };
+  delete templates[key];
+  return { ...library, templates };
+}
+
+/** どの言語のタイトルも一致しなければ別のテンプレート */
+function sameTemplate(a: QuestTemplate, b: QuestTemplate): boolean {
+  return (Object.keys(a.title) as Locale[]).some((l) => a.title[l] === b.title[l]);
+}
+
+/**
+ * テンプレートパックを取り込む。ないカテゴリは追加し、あるカテゴリは名前・アイコン・色を残す。
+ * テンプレートは、同じタイトルのものがなければ末尾に足す（上限まで）。
+ */
+export function mergeLibrary(library: TemplateLibrary, pack: TemplateLibrary): TemplateLibrary {
+  const known = new Set(library.categories.map((c) => c.key));
+  const added = pack.categories.filter((c) => !known.has(c.key));
+  let next: TemplateLibrary = {
+    ...library,
+    categories: [...library.categories, ...added].slice(0, MAX_CUSTOM_CATEGORIES),
+  };
+  (Object.keys(pack.templates) as CategoryKey[]).forEach((key) => {
+    if (!hasCategory(next, key)) return;
+    const current = templatesFor(next, key);
+    const incoming = (pack.templates[key] ?? []).filter((t) => !current.some((c) => sameTemplate(c, t)));
+    if (incoming.length) next = setTemplates(next, key, [...current, ...incoming]);
+  });
+  return next;
+}
@@ -0,0 +1,67 @@
+import type { Translate } from "./i18n";
+import type { DayPlan, Quest, QuestUnit } from "./types";
+
+/** -----------------------------
+ *  数値目標のあるクエスト（回数・分・ml・円）
+ *  記録した量の合計 amount が target に届いたら完了にする。
+ *  ----------------------------*/
+export const QUEST_UNITS: { unit: QuestUnit; step: number }[] = [
+  { unit: "count", step: 1 },
+  { unit: "minutes", step: 5 },
+  { unit: "ml", step: 250 },
+  { unit: "yen", step: 100 },
+];
+
+const UNIT_SET = new Set<string>(QUEST_UNITS.map((u) => u.unit));
+
+export function isQuestUnit(v: unknown): v is QuestUnit {
+  return typeof v === "string" && UNIT_SET.has(v);
+}
+
+export function unitLabel(unit: QuestUnit, t: Translate): string {
+  return t(`unit.${unit}`);
+}
+
+/** "500/1500ml" のような進み具合の表記 */
+export function formatMeasure(q: Quest & { target: number; unit: QuestUnit }, t: Translate): string {
+  return t("measure.progress", { amount: q.amount ?? 0, target: q.target, unit: unitLabel(q.unit, t) });
+}
+
+/** +/- ボタン 1 回分の量。目標が小さいときは目標を超えない */
+export function unitStep(q: Quest): number {
+  const step = QUEST_UNITS.find((u) => u.unit === q.unit)?.step ?? 1;
+  return q.target ? Math.min(step, q.target) : step;
+}
+
+export function isMeasurable(q: Quest): q is Quest & { target: number; unit: QuestUnit } {
+  return typeof q.target === "number" && q.target > 0 && !!q.unit;
+}
+
+/** 0-100。数値目標がなければ undefined */
+export function questProgress(q: Quest): number | undefined {
+  if (!isMeasurable(q)) return undefined;
+  return Math.min(100, Math.round(((q.amount ?? 0) / q.target) * 100));
+}
+
+/**
+ * 量を記録した新しい DayPlan[] を返す（0 未満にはしない）。
+ * 目標に届いた時点で完了、目標を割り込んだら完了を外す。それ以外は手動の完了状態を保つ。
+ */
+export function logQuestAmount(plans: DayPlan[], dayIdx: number, qid: string, delta: number): DayPlan[] {
+  return plans.map((p, i) =>
+    i !== dayIdx
+      ? p
+      : {
+          ...p,
+          quests: p.quests.map((q) => {
+            if (q.id !== qid || !q.enabled || q.locked || !isMeasurable(q)) return q;
+            const before = q.amount ?? 0;
+            const amount = Math.max(0, before + delta);
+            let done = q.done;
+            if (before < q.target && amount >= q.target) done = true;
+            if (before >= q.target && amount < q.target) done = false;
+            return { ...q, amount, done };
+          }),
+        }
+  );
+}
@@ -0,0 +1,218 @@
+import { defaultProfile, DEFAULT_REMINDERS, DEFAULT_THEME, TEMPLATE_QUESTS } from "./constants";
+import { DAY_MS, toDateKey } from "./calendar";
+import { DEFAULT_LIBRARY } from "./library";
+import { translator, type MessageKey, type MessageParams } from "./i18n";
+import { defaultGeneratorSettings } from "./plan";
+import { isRecord } from "./utils";
+
+/** -----------------------------
+ *  保存データのスキーマ移行
+ *  MIGRATIONS[n] は version n のデータを version n+1 に変換する。
+ *  フィールドを追加・変更したら CURRENT_SCHEMA_VERSION を上げて移行関数を足すこと。
+ *  ----------------------------*/
+export const CURRENT_SCHEMA_VERSION = 16;
+
+/** 文言は表示する側で翻訳する（key は i18n のキー） */
+export class MigrationError extends Error {
+  constructor(readonly key: MessageKey, readonly fromVersion: number, readonly params?: MessageParams) {
+    super(key);
+    this.name = "MigrationError";
+  }
+}
+
+type Migration = (data: unknown) => unknown;
+
+/** v8 当時のテンプレートは日本語のタイトルだけだった（タイトル → 目標量と単位） */
+const LEGACY_MEASURES = new Map(
+  Object.values(TEMPLATE_QUESTS)
+    .flat()
+    .flatMap((t) => (t.target && t.unit ? [[t.title.ja, { target: t.target, unit: t.unit }] as const] : []))
+);
+
+/** v8: 生成時の乱数だった progress を捨て、テンプレート由来のクエストに目標量を付ける */
+function toMeasuredQuest(q: unknown): unknown {
+  if (!isRecord(q)) return q;
+  const rest = { ...q };
+  delete rest.progress;
+  const measure = typeof rest.title === "string" ? LEGACY_MEASURES.get(rest.title) : undefined;
+  if (!measure || rest.target !== undefined) return rest;
+  // 完了済みのものは目標量まで記録済みとして扱う
+  return { ...rest, ...measure, amount: rest.done === true ? measure.target : 0 };
+}
+
+/** v10: 台帳のクエストイベントを完了ログに写す。プランの日付は週の開始日時から 24 時間刻みで求める（当時の計算） */
+function completionsFromLedger(data: Record<string, unknown>): unknown[] {
+  const starts = new Map<unknown, unknown>();
+  if (Array.isArray(data.history)) data.history.forEach((w) => isRecord(w) && starts.set(w.cycle, w.startedAt));
+  starts.set(data.cycle, data.createdAt);
+  const category = new Map<unknown, unknown>();
+  const collect = (plans: unknown) =>
+    Array.isArray(plans) &&
+    plans.forEach((p) => isRecord(p) && Array.isArray(p.quests) && p.quests.forEach((q) => isRecord(q) && category.set(q.id, q.category)));
+  collect(data.plans);
+  if (Array.isArray(data.history)) data.history.forEach((w) => isRecord(w) && collect(w.plans));
+
+  if (!Array.isArray(data.ledger)) return [];
+  return data.ledger
+    .filter((e) => isRecord(e) && typeof e.questId === "string" && (e.kind === "quest_complete" || e.kind === "quest_reversal"))
+    .map((e) => {
+      const ev = e as Record<string, unknown>;
+      const start = starts.get(ev.cycle);
+      const sameDay =
+        typeof start === "string" && typeof ev.at === "string" && typeof ev.dayIndex === "number"
+          ? toDateKey(new Date(Date.parse(start) + ev.dayIndex * DAY_MS)) === toDateKey(new Date(ev.at))
+          : true;
+      return {
+        id: ev.id,
+        questId: ev.questId,
+        cycle: ev.cycle,
+        dayIndex: ev.dayIndex,
+        category: category.get(ev.questId),
+        done: ev.kind === "quest_complete",
+        at: ev.at,
+        sameDay,
+      };
+    });
+}
+
+/** v12: 日本語だったカテゴリとランクの識別子を、言語に依存しないキーに置き換える */
+const CATEGORY_KEYS_V12: Record<string, string> = {
+  運動: "exercise",
+  学習: "study",
+  習慣: "habit",
+  信仰: "faith",
+  人間力: "social",
+  金銭: "money",
+  睡眠: "sleep",
+  食事: "diet",
+  メンタル: "mental",
+};
+
+const RANK_KEYS_V12: Record<string, string> = {
+  "入門者 (Novice)": "novice",
+  "従者 (Squire)": "squire",
+  "騎士 (Knight)": "knight",
+  "侯爵 (Marquis)": "marquis",
+  "公爵 (Duke)": "duke",
+  "王者 (Sovereign)": "sovereign",
+};
+
+const renameCategory = (v: unknown) => (typeof v === "string" && CATEGORY_KEYS_V12[v]) || v;
+const renameCategories = (v: unknown) => (Array.isArray(v) ? v.map(renameCategory) : v);
+
+function renameQuestKeys(q: unknown): unknown {
+  if (!isRecord(q)) return q;
+  const out: Record<string, unknown> = { ...q, category: renameCategory(q.category) };
+  if (q.category === undefined) delete out.category;
+  const unlock = q.unlock;
+  if (isRecord(unlock) && unlock.kind === "category_days") out.unlock = { ...unlock, category: renameCategory(unlock.category) };
+  if (isRecord(unlock) && unlock.kind === "rank") out.unlock = { ...unlock, rank: (typeof unlock.rank === "string" && RANK_KEYS_V12[unlock.rank]) || unlock.rank };
+  return out;
+}
+
+function renameKeysV12(data: Record<string, unknown>): Record<string, unknown> {
+  const history = Array.isArray(data.history)
+    ? data.history.map((w) =>
+        isRecord(w)
+          ? { ...w, selectedCategories: renameCategories(w.selectedCategories), plans: mapPlanQuests(w.plans, renameQuestKeys) }
+          : w
+      )
+    : data.history;
+  const completions = Array.isArray(data.completions)
+    ? data.completions.map((c) => (isRecord(c) && c.category !== undefined ? { ...c, category: renameCategory(c.category) } : c))
+    : data.completions;
+  // ランクアップ通知の重複防止キー（rank:<ランク>）も合わせる
+  const notifications = Array.isArray(data.notifications)
+    ? data.notifications.map((n) => {
+        if (!isRecord(n) || typeof n.key !== "string" || !n.key.startsWith("rank:")) return n;
+        const rank = RANK_KEYS_V12[n.key.slice("rank:".length)];
+        return rank ? { ...n, key: `rank:${rank}` } : n;
+      })
+    : data.notifications;
+  return {
+    ...data,
+    selectedCategories: renameCategories(data.selectedCategories),
+    plans: mapPlanQuests(data.plans, renameQuestKeys),
+    history,
+    completions,
+    notifications,
+  };
+}
+
+/** v14: 開始日時（ISO）のローカル日付を startDate にする */
+function withStartDates(data: Record<string, unknown>): Record<string, unknown> {
+  const startDate = (iso: unknown) => (typeof iso === "string" && !Number.isNaN(Date.parse(iso)) ? toDateKey(new Date(iso)) : undefined);
+  return {
+    ...data,
+    startDate: startDate(data.createdAt),
+    history: Array.isArray(data.history) ? data.history.map((w) => (isRecord(w) ? { ...w, startDate: startDate(w.startedAt) } : w)) : data.history,
+  };
+}
+
+function mapPlanQuests(plans: unknown, fn: (q: unknown) => unknown): unknown {
+  if (!Array.isArray(plans)) return plans;
+  return plans.map((p) => (isRecord(p) && Array.isArray(p.quests) ? { ...p, quests: p.quests.map(fn) } : p));
+}
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: "growth-planner-v1" に AppState をそのまま保存していた形式。
+  // v2 で保存形式をエンベロープ化しただけなので、中身はそのまま引き継ぐ。
+  1: (data) => data,
+  // v3: ポイント台帳を追加。既存の完了分は読み込み時の reconcileLedger で計上される。
+  2: (data) => (isRecord(data) && !Array.isArray(data.ledger) ? { ...data, ledger: [] } : data),
+  // v4: 週サイクルと履歴を追加。既存のプランと台帳は 1週目として扱う。
+  3: (data) => {
+    if (!isRecord(data)) return data;
+    const ledger = Array.isArray(data.ledger)
+      ? data.ledger.map((e) => (isRecord(e) && e.cycle === undefined ? { ...e, cycle: 1 } : e))
+      : data.ledger;
+    return { ...data, ledger, cycle: 1, history: [] };
+  },
+  // v5: 通知の受信箱とリマインダー設定を追加
+  4: (data) => (isRecord(data) ? { ...data, notifications: [], reminders: DEFAULT_REMINDERS } : data),
+  // v6: テーマに表示モード・アクセント・ダーク時の色を追加。旧テーマの色はライト時の色として残す。
+  5: (data) => (isRecord(data) && isRecord(data.theme) ? { ...data, theme: { ...DEFAULT_THEME, ...data.theme } } : data),
+  // v7: 週プラン生成の設定を追加。以前は 1日 5 件で打ち切っていたので既定値も 5。
+  6: (data) => (isRecord(data) ? { ...data, generator: defaultGeneratorSettings() } : data),
+  // v8: 数値目標（target / unit / amount）を追加
+  7: (data) => {
+    if (!isRecord(data)) return data;
+    const history = Array.isArray(data.history)
+      ? data.history.map((w) => (isRecord(w) ? { ...w, plans: mapPlanQuests(w.plans, toMeasuredQuest) } : w))
+      : data.history;
+    return { ...data, plans: mapPlanQuests(data.plans, toMeasuredQuest), history };
+  },
+  // v9: 集中タイマーと記録を追加
+  8: (data) => (isRecord(data) ? { ...data, timer: null, focusLog: [] } : data),
+  // v10: 完了ログと連続記録の数え方を追加。ログは台帳の完了・取り消しイベントから起こす。
+  9: (data) => (isRecord(data) ? { ...data, completions: completionsFromLedger(data), streakRule: "any" } : data),
+  // v11: プロフィールを追加。以前は固定の名前とアバターを表示していたので、それを既定値にする（この時点は日本語のみ）。
+  10: (data) => (isRecord(data) ? { ...data, profile: defaultProfile(translator("ja")) } : data),
+  // v12: カテゴリ・ランクを言語に依存しないキーにし、表示言語を追加。以前は日本語だけだったので既定は ja。
+  11: (data) => (isRecord(data) ? { ...renameKeysV12(data), locale: "ja" } : data),
+  // v13: テンプレートライブラリ（自分のカテゴリとテンプレート）を追加。空なら組み込みのテンプレートを使う。
+  12: (data) => (isRecord(data) ? { ...data, library: DEFAULT_LIBRARY } : data),
+  // v14: 日の計算を暦日にするため、週の1日目のローカル日付を持たせる。以前は開始日時から 24 時間刻みだった。
+  13: (data) => (isRecord(data) ? withStartDates(data) : data),
+  // v15: 日記（クエストのメモと 1日のふりかえり）を追加
+  14: (data) => (isRecord(data) ? { ...data, journal: [] } : data),
+  // v16: 実績を追加。これまでの記録で満たしている実績は、読み込んだときにお祝いせずに獲得済みにする。
+  15: (data) => (isRecord(data) ? { ...data, achievements: [] } : data),
+};
+
+export function migrate(data: unknown, fromVersion: number): unknown {
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new MigrationError("storage.badVersion", fromVersion, { version: String(fromVersion) });
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError("storage.newerVersion", fromVersion, { version: fromVersion, current: CURRENT_SCHEMA_VERSION });
+  }
+
+  let out = data;
+  for (let v = fromVersion; v < CURRENT_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new MigrationError("storage.missingMigration", fromVersion, { version: v });
+    out = step(out);
+  }
+  return out;
+}
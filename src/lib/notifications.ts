@@ -0,0 +1,113 @@
+import { achievementTitle, findAchievement } from "./achievements";
+import { translator } from "./i18n";
+import { calculateRank, rankLabel } from "./rank";
+import { ledgerTotal } from "./scoring";
+import type { AppNotification, AppState, NotificationKind } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  通知（受信箱とリマインダー）
+ *  リマインダーはアプリを開いている間（バックグラウンドのタブを含む）に判定する。
+ *  文言は作成時の表示言語で保存する（あとで言語を切り替えても既存の通知は変えない）。
+ *  ----------------------------*/
+const MAX_NOTIFICATIONS = 100;
+
+function make(kind: NotificationKind, key: string, title: string, body: string, at: Date): AppNotification {
+  return { id: uid(), kind, key, title, body, at: at.toISOString(), read: false };
+}
+
+/** "HH:MM" → 0時からの分 */
+function minutesOf(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+export function isQuietTime(quiet: { start: string; end: string } | null, now: Date): boolean {
+  if (!quiet) return false;
+  const cur = now.getHours() * 60 + now.getMinutes();
+  const start = minutesOf(quiet.start);
+  const end = minutesOf(quiet.end);
+  // 22:00〜07:00 のように日をまたぐ場合も扱う
+  return start <= end ? cur >= start && cur < end : cur >= start || cur < end;
+}
+
+const reached = (time: string | null | undefined, now: Date) =>
+  !!time && now.getHours() * 60 + now.getMinutes() >= minutesOf(time);
+
+/**
+ * 今の時点で出すべきリマインダーのうち、まだ受信箱にないものを返す。
+ * おやすみ時間中は何も返さず、明けた後にまとめて出す。
+ */
+export function dueReminders(state: AppState, todayIndex: number, now = new Date()): AppNotification[] {
+  const { reminders } = state;
+  if (isQuietTime(reminders.quietHours, now)) return [];
+  const today = state.plans[todayIndex];
+  if (!today) return [];
+
+  const seen = new Set(state.notifications.map((n) => n.key));
+  const open = today.quests.filter((q) => q.enabled && !q.done);
+  const out: AppNotification[] = [];
+  const push = (n: AppNotification) => {
+    if (!seen.has(n.key)) out.push(n);
+  };
+  const dayKey = `${state.cycle}:${todayIndex}`;
+  const t = translator(state.locale);
+
+  if (reached(reminders.dailyTime, now) && open.length) {
+    push(make("reminder", `daily:${dayKey}`, t("notif.dailyTitle", { day: today.day }), t("notif.dailyBody", { count: open.length }), now));
+  }
+  open.forEach((q) => {
+    if (reached(q.remindAt, now)) push(make("reminder", `quest:${q.id}`, t("notif.reminderTitle"), q.title, now));
+  });
+  if (reached(reminders.unfinishedTime, now) && open.length) {
+    const titles = open.map((q) => q.title).slice(0, 3).join(t("common.listSeparator"));
+    const more = open.length > 3 ? t("notif.unfinishedMore", { count: open.length - 3 }) : "";
+    push(make("unfinished", `unfinished:${dayKey}`, t("notif.unfinishedTitle"), `${titles}${more}`, now));
+  }
+  return out;
+}
+
+/** 状態の変更前後を比べて、ランクアップ・ボーナス獲得・クエスト解除・実績獲得の通知を作る */
+export function progressNotifications(prev: AppState, next: AppState, now = new Date()): AppNotification[] {
+  const out: AppNotification[] = [];
+  const t = translator(next.locale);
+  const before = calculateRank(ledgerTotal(prev.ledger));
+  const after = calculateRank(ledgerTotal(next.ledger));
+  if (before !== after && ledgerTotal(next.ledger) > ledgerTotal(prev.ledger)) {
+    out.push(make("rank_up", `rank:${after}`, t("notif.rankUpTitle"), t("notif.rankUpBody", { rank: rankLabel(after, t) }), now));
+  }
+
+  const known = new Set(prev.ledger.map((e) => e.id));
+  next.ledger
+    .filter((e) => !known.has(e.id) && e.kind === "day_bonus")
+    .forEach((e) => {
+      out.push(make("bonus", `bonus:${e.id}`, t("notif.bonusTitle"), t("notif.bonusBody", { day: e.dayIndex + 1, points: e.amount }), now));
+    });
+
+  const wasLocked = new Set(prev.plans.flatMap((d) => d.quests).filter((q) => q.locked).map((q) => q.id));
+  next.plans.forEach((day, i) =>
+    day.quests
+      .filter((q) => wasLocked.has(q.id) && !q.locked)
+      .forEach((q) => out.push(make("unlock", `unlock:${q.id}`, t("notif.unlockTitle"), t("notif.unlockBody", { day: i + 1, title: q.title }), now)))
+  );
+
+  const earned = new Set(prev.achievements.map((e) => e.id));
+  next.achievements
+    .filter((e) => !earned.has(e.id))
+    .forEach((e) => {
+      const a = findAchievement(e.id);
+      if (a) out.push(make("achievement", `achievement:${a.id}`, t("notif.achievementTitle"), `${a.icon} ${achievementTitle(a, next.locale)}`, now));
+    });
+
+  const seen = new Set(prev.notifications.map((n) => n.key));
+  return out.filter((n) => !seen.has(n.key));
+}
+
+export function addNotifications(list: AppNotification[], added: AppNotification[]): AppNotification[] {
+  if (!added.length) return list;
+  return [...added, ...list].slice(0, MAX_NOTIFICATIONS);
+}
+
+export function unreadCount(list: AppNotification[]): number {
+  return list.filter((n) => !n.read).length;
+}
@@ -0,0 +1,21 @@
+import { registerServiceWorker, serviceWorkerSupported, SW_URL } from "./pwa/serviceWorker";
+import type { AppNotification } from "./types";
+
+/** -----------------------------
+ *  ブラウザ通知（Service Worker 経由）
+ *  ----------------------------*/
+export function browserNotificationsSupported(): boolean {
+  return serviceWorkerSupported() && "Notification" in window;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!browserNotificationsSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export async function showBrowserNotification(n: AppNotification): Promise<void> {
+  if (!browserNotificationsSupported() || Notification.permission !== "granted") return;
+  const reg = (await navigator.serviceWorker.getRegistration(SW_URL)) ?? (await registerServiceWorker());
+  await reg?.showNotification(n.title, { body: n.body, tag: n.key, icon: "/icon/192" });
+}
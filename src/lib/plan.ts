@@ -0,0 +1,179 @@
+import { DEFAULT_DAILY_BUDGET, QUEST_CHAINS, TEMPLATE_QUESTS } from "./constants";
+import { DEFAULT_LOCALE, type Locale } from "./i18n";
+import { DEFAULT_LIBRARY, templatesFor } from "./library";
+import type { AppState, ArchivedWeek, CategoryKey, DayPlan, GeneratorSettings, LocalizedText, Quest, QuestTemplate, TemplateLibrary } from "./types";
+import { seededRandom, uid } from "./utils";
+
+/** -----------------------------
+ *  週プラン生成
+ *  同じシード・同じ入力なら同じ内容（タイトル・カテゴリ・ポイント・並び）になる。
+ *  クエストの id だけは週をまたいで一意にするため毎回発行する。
+ *  ----------------------------*/
+export type PlanOptions = {
+  seed?: string;
+  dailyBudget?: number; // 1日あたりのクエスト数
+  history?: ArchivedWeek[]; // 渡すと直近の達成率から量と難易度を調整する
+  locale?: Locale; // クエストのタイトルの言語
+  library?: TemplateLibrary; // 使うテンプレート（省略時は組み込みのテンプレート）
+};
+
+export type Level = 0 | 1 | 2; // 軽め / ふつう / しっかり
+
+export type CategoryProfile = {
+  category: CategoryKey;
+  rate: number | null; // 直近の達成率 0-100（記録なしは null）
+  level: Level;
+  weight: number; // クエスト数の配分の重み
+};
+
+export type PlanProfile = {
+  dailyBudget: number;
+  categories: CategoryProfile[];
+};
+
+/** 直近何週の達成率を見るか */
+const RECENT_WEEKS = 2;
+const LEVEL_UP_RATE = 80;
+const STRUGGLE_RATE = 50;
+/** 取りこぼしの多いカテゴリは出題数を半分の重みにする */
+const STRUGGLE_WEIGHT = 0.5;
+
+export function defaultGeneratorSettings(): GeneratorSettings {
+  return { seed: uid(), dailyBudget: DEFAULT_DAILY_BUDGET, adaptive: true };
+}
+
+/** その週のプラン生成オプション。シードは設定のシードと週番号から決まる */
+export function planOptionsFor(state: Pick<AppState, "generator" | "history" | "locale" | "library">, cycle: number): PlanOptions {
+  return {
+    seed: `${state.generator.seed}:${cycle}`,
+    dailyBudget: state.generator.dailyBudget,
+    history: state.generator.adaptive ? state.history : [],
+    locale: state.locale,
+    library: state.library,
+  };
+}
+
+function rateOf(quests: Quest[]): number | null {
+  const enabled = quests.filter((q) => q.enabled);
+  if (!enabled.length) return null;
+  return Math.round((enabled.filter((q) => q.done).length / enabled.length) * 100);
+}
+
+/** 直近の週の達成率からカテゴリごとの難易度・重みと 1日のクエスト数を決める */
+export function planProfile(selected: CategoryKey[], dailyBudget: number, history: ArchivedWeek[] = []): PlanProfile {
+  const recent = history.slice(-RECENT_WEEKS).flatMap((w) => w.plans).flatMap((d) => d.quests);
+  const overall = rateOf(recent);
+
+  const categories = selected.map((category): CategoryProfile => {
+    const rate = rateOf(recent.filter((q) => q.category === category));
+    if (rate === null) return { category, rate, level: 1, weight: 1 };
+    if (rate >= LEVEL_UP_RATE) return { category, rate, level: 2, weight: 1 };
+    if (rate < STRUGGLE_RATE) return { category, rate, level: 0, weight: STRUGGLE_WEIGHT };
+    return { category, rate, level: 1, weight: 1 };
+  });
+
+  // 全体的に取りこぼしが多い週のあとは 1日 1 件減らす
+  const budget = overall !== null && overall < STRUGGLE_RATE ? dailyBudget - 1 : dailyBudget;
+  return { dailyBudget: Math.max(1, budget), categories };
+}
+
+function measureFor(template: QuestTemplate): Pick<Quest, "target" | "unit" | "amount"> {
+  return template.target && template.unit ? { target: template.target, unit: template.unit, amount: 0 } : {};
+}
+
+function shuffle<T>(items: T[], rand: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** テンプレートの難易度。軽い順の並びを 3 段階に分ける（3 件なら並び順そのまま） */
+function levelOf(index: number, count: number): number {
+  return Math.floor((index * 3) / count);
+}
+
+/** その日まだ使っていないテンプレートから、難易度に近いものを選ぶ */
+function pickTemplate(templates: QuestTemplate[], level: Level, used: Set<number>, rand: () => number): number | null {
+  const unused = templates.map((_, i) => i).filter((i) => !used.has(i));
+  if (!unused.length) return null;
+  const near = unused.filter((i) => levelOf(i, templates.length) <= level && levelOf(i, templates.length) >= level - 1);
+  const pool = near.length ? near : unused;
+  return pool[Math.floor(rand() * pool.length)];
+}
+
+/**
+ * 1日 dailyBudget 件を、選択カテゴリに重み付きラウンドロビンで割り振る。
+ * 配分の端数は日をまたいで持ち越すので、週全体で重みどおりの件数になる。
+ */
+export function buildWeekPlan(selected: CategoryKey[], options: PlanOptions = {}): DayPlan[] {
+  const rand = seededRandom(options.seed ?? uid());
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const library = options.library ?? DEFAULT_LIBRARY;
+  const profile = planProfile(selected, options.dailyBudget ?? DEFAULT_DAILY_BUDGET, options.history);
+  // 同じ重みのカテゴリの順番は週ごとに変える
+  const order = shuffle(profile.categories, rand);
+  const credit = new Map<CategoryKey, number>(order.map((c) => [c.category, 0]));
+
+  const days: DayPlan[] = [];
+  for (let i = 1; i <= 7; i++) {
+    const used = new Map<CategoryKey, Set<number>>(order.map((c) => [c.category, new Set()]));
+    const quests: Quest[] = [];
+
+    for (let slot = 0; slot < profile.dailyBudget; slot++) {
+      // テンプレートを使い切ったカテゴリはその日は除外
+      const open = order.filter((c) => used.get(c.category)!.size < templatesFor(library, c.category).length);
+      if (!open.length) break;
+
+      const total = open.reduce((s, c) => s + c.weight, 0);
+      open.forEach((c) => credit.set(c.category, credit.get(c.category)! + c.weight));
+      const pick = open.reduce((best, c) => (credit.get(c.category)! > credit.get(best.category)! ? c : best));
+      credit.set(pick.category, credit.get(pick.category)! - total);
+
+      const templates = templatesFor(library, pick.category);
+      const index = pickTemplate(templates, pick.level, used.get(pick.category)!, rand)!;
+      used.get(pick.category)!.add(index);
+      quests.push({
+        id: uid(),
+        title: templates[index].title[locale],
+        done: false,
+        enabled: true,
+        category: pick.category,
+        points: templates[index].points,
+        locked: false,
+        ...measureFor(templates[index]),
+      });
+    }
+    days.push({ day: i, quests });
+  }
+  return days;
+}
+
+/** テンプレートとチェーンのタイトル（全言語） */
+const BUILTIN_TITLES: LocalizedText[] = [
+  ...Object.values(TEMPLATE_QUESTS).flatMap((ts) => ts.map((t) => t.title)),
+  ...QUEST_CHAINS.flatMap((c) => c.steps.map((s) => s.title)),
+];
+
+/**
+ * 言語を切り替えたとき、テンプレート・チェーン由来のクエストのタイトルをその言語に合わせる。
+ * どの言語のタイトルとも一致しないもの（自分で付けたタイトル）はそのまま。変化がなければ同じ配列を返す。
+ */
+export function localizePlanTitles(plans: DayPlan[], locale: Locale): DayPlan[] {
+  let changed = false;
+  const next = plans.map((day) => {
+    let dayChanged = false;
+    const quests = day.quests.map((q) => {
+      const text = BUILTIN_TITLES.find((t) => Object.values(t).includes(q.title));
+      if (!text || text[locale] === q.title) return q;
+      dayChanged = true;
+      return { ...q, title: text[locale] };
+    });
+    if (!dayChanged) return day;
+    changed = true;
+    return { ...day, quests };
+  });
+  return changed ? next : plans;
+}
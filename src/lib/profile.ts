@@ -0,0 +1,84 @@
+import { DEFAULT_DAY_START_HOUR, MAX_DAY_START_HOUR } from "./calendar";
+import type { MessageKey } from "./i18n";
+import type { Profile, WeekStart } from "./types";
+
+/** -----------------------------
+ *  プロフィール（表示名・アバター・目標・週の始まり・1日の始まり）
+ *  アップロード画像は端末内で縮小し、data URL として AppState に保存する。
+ *  ----------------------------*/
+export const MAX_DISPLAY_NAME = 20;
+export const MAX_GOAL = 80;
+export const AVATAR_SIZE = 128; // px（正方形）
+/** 保存データが膨らみすぎないよう、縮小後の data URL の長さに上限を設ける */
+export const MAX_AVATAR_DATA_URL = 200_000;
+
+/** 表示名は曜日のフォーマット（fmt.weekday）で出す */
+export const WEEK_STARTS: WeekStart[] = [0, 1];
+
+export function isWeekStart(v: unknown): v is WeekStart {
+  return v === 0 || v === 1;
+}
+
+export function isDayStartHour(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= MAX_DAY_START_HOUR;
+}
+
+export function dayStartHourOf(profile: Profile): number {
+  return profile.dayStartHour ?? DEFAULT_DAY_START_HOUR;
+}
+
+export function isAvatarDataUrl(v: unknown): v is string {
+  return typeof v === "string" && /^data:image\/(png|jpeg|webp);base64,/.test(v) && v.length <= MAX_AVATAR_DATA_URL;
+}
+
+/** 日曜始まりの曜日番号（0..6）を、週の始まりに合わせた並びで返す */
+export function weekdayOrder(weekStart: WeekStart = 0): number[] {
+  return Array.from({ length: 7 }, (_, i) => (i + weekStart) % 7);
+}
+
+/** key は表示用の文言（i18n）のキー */
+export class AvatarImageError extends Error {
+  constructor(readonly key: MessageKey) {
+    super(key);
+  }
+}
+
+/** 画像ファイルを中央で正方形に切り抜き、AVATAR_SIZE に縮小した JPEG の data URL を返す */
+export async function resizeAvatar(file: File): Promise<string> {
+  if (!file.type.startsWith("image/")) throw new AvatarImageError("profile.avatar.notImage");
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new AvatarImageError("profile.avatar.unreadable");
+  }
+
+  try {
+    const side = Math.min(bitmap.width, bitmap.height);
+    const canvas = document.createElement("canvas");
+    canvas.width = AVATAR_SIZE;
+    canvas.height = AVATAR_SIZE;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new AvatarImageError("profile.avatar.resizeFailed");
+    // JPEG は透過できないので白で塗ってから描く
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, AVATAR_SIZE, AVATAR_SIZE);
+    ctx.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      AVATAR_SIZE,
+      AVATAR_SIZE
+    );
+    const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
+    if (!isAvatarDataUrl(dataUrl)) throw new AvatarImageError("profile.avatar.tooLarge");
+    return dataUrl;
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,45 @@
+/** -----------------------------
+ *  Service Worker の登録と更新
+ *  /sw.js はビルドごとに内容が変わる。新しいビルドの Service Worker はインストール後に待機するので、
+ *  画面から applyUpdate で切り替え、切り替わったら再読み込みする。
+ *  ----------------------------*/
+export const SW_URL = "/sw.js";
+
+export function serviceWorkerSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator;
+}
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!serviceWorkerSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register(SW_URL);
+  } catch {
+    return null;
+  }
+}
+
+/** 待機中の新しい Service Worker があれば切り替える（切り替わると controllerchange が起きる） */
+export function applyUpdate(reg: ServiceWorkerRegistration): boolean {
+  if (!reg.waiting) return false;
+  reg.waiting.postMessage({ type: "SKIP_WAITING" });
+  return true;
+}
+
+/**
+ * 新しいビルドの Service Worker が待機状態になったら onReady を呼ぶ。
+ * 初めてのインストール（まだ画面を制御している Service Worker がない）は更新として扱わない。
+ * 戻り値は監視の解除。
+ */
+export function watchForUpdate(reg: ServiceWorkerRegistration, onReady: () => void): () => void {
+  const isUpdate = () => !!navigator.serviceWorker.controller;
+  if (reg.waiting && isUpdate()) onReady();
+
+  const onFound = () => {
+    const worker = reg.installing;
+    worker?.addEventListener("statechange", () => {
+      if (worker.state === "installed" && isUpdate()) onReady();
+    });
+  };
+  reg.addEventListener("updatefound", onFound);
+  return () => reg.removeEventListener("updatefound", onFound);
+}
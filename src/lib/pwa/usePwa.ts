@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { applyUpdate, registerServiceWorker, serviceWorkerSupported, watchForUpdate } from "./serviceWorker";
+
+/** -----------------------------
+ *  画面側の PWA フック
+ *  Service Worker を登録し、新しいビルドの有無・接続状態・インストールできるかを返す。
+ *  開いたままでも 1 時間ごとと画面に戻ったときに更新を確認する。
+ *  ----------------------------*/
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/** Chromium 系のインストール案内（標準の型定義にはない） */
+type BeforeInstallPromptEvent = Event & {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+};
+
+const isStandalone = () => window.matchMedia("(display-mode: standalone)").matches || (navigator as { standalone?: boolean }).standalone === true;
+
+export function usePwa() {
+  const [reg, setReg] = useState<ServiceWorkerRegistration | null>(null);
+  const [updateReady, setUpdateReady] = useState(false);
+  const [offlineReady, setOfflineReady] = useState(false); // Service Worker が画面を制御している
+  const [online, setOnline] = useState(true);
+  const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
+  const [installed, setInstalled] = useState(false);
+  const reloading = useRef(false);
+
+  // 登録と更新の監視
+  useEffect(() => {
+    if (!serviceWorkerSupported()) return;
+    let stop = () => {};
+    let cancelled = false;
+    void registerServiceWorker().then((r) => {
+      if (!r || cancelled) return;
+      setReg(r);
+      stop = watchForUpdate(r, () => setUpdateReady(true));
+    });
+
+    const onControllerChange = () => {
+      setOfflineReady(true);
+      // 「更新」で切り替えたときだけ読み込み直す（初めてのインストールでは読み込み直さない）
+      if (!reloading.current) return;
+      reloading.current = false;
+      window.location.reload();
+    };
+    setOfflineReady(!!navigator.serviceWorker.controller);
+    navigator.serviceWorker.addEventListener("controllerchange", onControllerChange);
+    return () => {
+      cancelled = true;
+      stop();
+      navigator.serviceWorker.removeEventListener("controllerchange", onControllerChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!reg) return;
+    const check = () => {
+      if (document.visibilityState === "visible" && navigator.onLine) void reg.update().catch(() => undefined);
+    };
+    const timer = setInterval(check, UPDATE_CHECK_MS);
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", check);
+    };
+  }, [reg]);
+
+  // 接続状態
+  useEffect(() => {
+    const sync = () => setOnline(navigator.onLine);
+    sync();
+    window.addEventListener("online", sync);
+    window.addEventListener("offline", sync);
+    return () => {
+      window.removeEventListener("online", sync);
+      window.removeEventListener("offline", sync);
+    };
+  }, []);
+
+  // インストール
+  useEffect(() => {
+    setInstalled(isStandalone());
+    const onPrompt = (e: Event) => {
+      e.preventDefault(); // ブラウザの案内は出さず、設定の「インストール」から出す
+      setInstallPrompt(e as BeforeInstallPromptEvent);
+    };
+    const onInstalled = () => {
+      setInstalled(true);
+      setInstallPrompt(null);
+    };
+    window.addEventListener("beforeinstallprompt", onPrompt);
+    window.addEventListener("appinstalled", onInstalled);
+    return () => {
+      window.removeEventListener("beforeinstallprompt", onPrompt);
+      window.removeEventListener("appinstalled", onInstalled);
+    };
+  }, []);
+
+  const update = useCallback(() => {
+    if (!reg) return;
+    reloading.current = applyUpdate(reg);
+    setUpdateReady(false);
+  }, [reg]);
+
+  const install = useCallback(async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    const { outcome } = await installPrompt.userChoice;
+    setInstallPrompt(null);
+    if (outcome === "accepted") setInstalled(true);
+  }, [installPrompt]);
+
+  return {
+    updateReady,
+    update,
+    dismissUpdate: () => setUpdateReady(false),
+    offlineReady,
+    online,
+    installed,
+    canInstall: !!installPrompt && !installed,
+    install,
+  };
+}
+
+export type PwaController = ReturnType<typeof usePwa>;
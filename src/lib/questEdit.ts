@@ -0,0 +1,145 @@
+import type { Locale } from "./i18n";
+import type { DayPlan, Quest, QuestChain, QuestUnit, UnlockCondition } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  クエスト編集（プランに対する純粋関数）
+ *  いずれも新しい DayPlan[] を返し、引数は変更しない。
+ *  ----------------------------*/
+export type QuestDraft = {
+  title: string;
+  category?: string;
+  points?: number;
+  note?: string;
+  remindAt?: string; // "HH:MM"
+  target?: number; // 数値目標（なしなら undefined）
+  unit?: QuestUnit;
+  unlock?: UnlockCondition; // ロック解除の条件（なしなら undefined）
+};
+
+function applyDraft(q: Quest, draft: QuestDraft): Quest {
+  return {
+    ...q,
+    title: draft.title.trim(),
+    category: draft.category || undefined,
+    points: draft.points,
+    note: draft.note?.trim() || undefined,
+    remindAt: draft.remindAt || undefined,
+    target: draft.target,
+    unit: draft.target ? draft.unit ?? "count" : undefined,
+    // 目標をなくしたら記録も消す。単位が変わったら 0 から記録し直す
+    amount: draft.target ? (q.unit === (draft.unit ?? "count") ? q.amount ?? 0 : 0) : undefined,
+    unlock: draft.unlock,
+  };
+}
+
+function newQuest(draft: QuestDraft): Quest {
+  return applyDraft({ id: uid(), title: "", done: false, enabled: true, locked: false }, draft);
+}
+
+function mapDays(plans: DayPlan[], fn: (quests: Quest[], dayIdx: number) => Quest[]): DayPlan[] {
+  return plans.map((p, i) => ({ ...p, quests: fn(p.quests, i) }));
+}
+
+/** 同じクエストとみなす条件（タイトルとカテゴリが一致） */
+function isSameQuest(a: Quest, b: Quest) {
+  return a.title === b.title && (a.category ?? "") === (b.category ?? "");
+}
+
+export function addQuest(plans: DayPlan[], dayIdxs: number[], draft: QuestDraft): DayPlan[] {
+  return mapDays(plans, (quests, i) => (dayIdxs.includes(i) ? [...quests, newQuest(draft)] : quests));
+}
+
+/** applyToWeek なら、週内の同じクエスト（編集前のタイトル・カテゴリが一致）もまとめて更新する */
+export function updateQuest(plans: DayPlan[], dayIdx: number, qid: string, draft: QuestDraft, applyToWeek = false): DayPlan[] {
+  const target = plans[dayIdx]?.quests.find((q) => q.id === qid);
+  if (!target) return plans;
+  return mapDays(plans, (quests) =>
+    quests.map((q) => (q.id === qid || (applyToWeek && isSameQuest(q, target)) ? applyDraft(q, draft) : q))
+  );
+}
+
+/** applyToWeek で削除・更新される週内のクエストの数（対象自身を含む） */
+export function sameQuestCount(plans: DayPlan[], dayIdx: number, qid: string): number {
+  const target = plans[dayIdx]?.quests.find((q) => q.id === qid);
+  return target ? plans.reduce((s, p) => s + p.quests.filter((q) => isSameQuest(q, target)).length, 0) : 0;
+}
+
+export function deleteQuest(plans: DayPlan[], dayIdx: number, qid: string, applyToWeek = false): DayPlan[] {
+  const target = plans[dayIdx]?.quests.find((q) => q.id === qid);
+  if (!target) return plans;
+  return mapDays(plans, (quests) => quests.filter((q) => !(q.id === qid || (applyToWeek && isSameQuest(q, target)))));
+}
+
+/** 他の日へ未完了の状態で複製する（同じ日には複製しない） */
+export function copyQuest(plans: DayPlan[], dayIdx: number, qid: string, toDayIdxs: number[]): DayPlan[] {
+  const src = plans[dayIdx]?.quests.find((q) => q.id === qid);
+  if (!src) return plans;
+  return mapDays(plans, (quests, i) =>
+    i !== dayIdx && toDayIdxs.includes(i) ? [...quests, { ...src, id: uid(), done: false, enabled: true, amount: src.target ? 0 : undefined }] : quests
+  );
+}
+
+/**
+ * チェーンを startDayIdx から spacing 日おきに追加する。2 つ目以降は前のステップの完了で解除される。
+ * 週の最終日を超えるステップは最終日に置く。
+ */
+export function addChain(plans: DayPlan[], chain: QuestChain, startDayIdx: number, locale: Locale, spacing = 2): DayPlan[] {
+  const last = plans.length - 1;
+  let prev: Quest | null = null;
+  const placed = chain.steps.map((step, k) => {
+    const quest = newQuest({
+      title: step.title[locale],
+      category: chain.category,
+      points: step.points,
+      target: step.target,
+      unit: step.unit,
+      unlock: prev ? { kind: "quest", questId: prev.id } : undefined,
+    });
+    prev = quest;
+    return { quest, dayIdx: Math.min(startDayIdx + k * spacing, last) };
+  });
+  return mapDays(plans, (quests, i) => [...quests, ...placed.filter((p) => p.dayIdx === i).map((p) => p.quest)]);
+}
+
+function move<T>(list: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= list.length || to < 0 || to >= list.length) return list;
+  const out = [...list];
+  const [item] = out.splice(from, 1);
+  out.splice(to, 0, item);
+  return out;
+}
+
+/** 動かせない位置なら同じ配列を返す */
+export function moveQuest(plans: DayPlan[], dayIdx: number, from: number, to: number): DayPlan[] {
+  const quests = plans[dayIdx]?.quests;
+  if (!quests || move(quests, from, to) === quests) return plans;
+  return mapDays(plans, (qs, i) => (i === dayIdx ? move(qs, from, to) : qs));
+}
+
+/** 日の並べ替え。中身だけを入れ替え、day 番号は位置に合わせて振り直す */
+export function moveDay(plans: DayPlan[], from: number, to: number): DayPlan[] {
+  const moved = move(plans, from, to);
+  return moved === plans ? plans : moved.map((p, i) => ({ ...p, day: i + 1 }));
+}
+
+/** 完了の切り替え。無効・ロック中のクエストはそのまま */
+export function toggleDone(plans: DayPlan[], dayIdx: number, qid: string): DayPlan[] {
+  const target = plans[dayIdx]?.quests.find((q) => q.id === qid);
+  if (!target || !target.enabled || target.locked) return plans;
+  return mapDays(plans, (quests, i) => (i === dayIdx ? quests.map((q) => (q.id === qid ? { ...q, done: !q.done } : q)) : quests));
+}
+
+/** 有効・無効の切り替え。無効にしたら完了も外す */
+export function toggleEnabled(plans: DayPlan[], dayIdx: number, qid: string): DayPlan[] {
+  if (!plans[dayIdx]?.quests.some((q) => q.id === qid)) return plans;
+  return mapDays(plans, (quests, i) =>
+    i === dayIdx ? quests.map((q) => (q.id === qid ? { ...q, enabled: !q.enabled, done: q.enabled ? false : q.done } : q)) : quests
+  );
+}
+
+/** その日のクエストをまとめて有効・無効にする */
+export function setDayEnabled(plans: DayPlan[], dayIdx: number, enabled: boolean): DayPlan[] {
+  if (!plans[dayIdx]) return plans;
+  return mapDays(plans, (quests, i) => (i === dayIdx ? quests.map((q) => ({ ...q, enabled, done: enabled ? q.done : false })) : quests));
+}
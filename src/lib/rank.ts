@@ -0,0 +1,39 @@
+import type { Translate } from "./i18n";
+
+/** -----------------------------
+ *  ランク判定
+ *  ----------------------------*/
+/** 言語に依存しない識別子。表示名は i18n の rank.* */
+export type Rank = "novice" | "squire" | "knight" | "marquis" | "duke" | "sovereign";
+
+/** 低い順。threshold はそのランクに必要な累計ポイント */
+export const RANKS: { rank: Rank; threshold: number }[] = [
+  { rank: "novice", threshold: 0 },
+  { rank: "squire", threshold: 50 },
+  { rank: "knight", threshold: 100 },
+  { rank: "marquis", threshold: 200 },
+  { rank: "duke", threshold: 500 },
+  { rank: "sovereign", threshold: 1000 },
+];
+
+export function rankLabel(rank: Rank, t: Translate): string {
+  return t(`rank.${rank}`);
+}
+
+export function calculateRank(score: number): Rank {
+  return [...RANKS].reverse().find((r) => score >= r.threshold)!.rank;
+}
+
+export function isRank(v: unknown): v is Rank {
+  return RANKS.some((r) => r.rank === v);
+}
+
+export function rankIndex(rank: Rank): number {
+  return RANKS.findIndex((r) => r.rank === rank);
+}
+
+/** 次のランク（最高ランクならそのまま）と、そこまでに必要なポイント */
+export function nextRankOf(score: number): { rank: Rank; pointsToNext: number } {
+  const next = RANKS[Math.min(rankIndex(calculateRank(score)) + 1, RANKS.length - 1)];
+  return { rank: next.rank, pointsToNext: Math.max(next.threshold - score, 0) };
+}
@@ -0,0 +1,94 @@
+import { POINTS_PER_QUEST } from "./constants";
+import type { AppState, DayPlan, PointEvent, Quest } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  スコアリング（ポイント台帳）
+ *  台帳は追記のみ。取り消しは負の金額のイベントとして記録する。
+ *  ----------------------------*/
+export const DAY_CLEAR_BONUS = 50;
+
+export function questPoints(q: Quest): number {
+  return q.points ?? POINTS_PER_QUEST;
+}
+
+export function ledgerTotal(ledger: PointEvent[]): number {
+  return ledger.reduce((s, e) => s + e.amount, 0);
+}
+
+/** クエスト単位の現在の獲得ポイント（取り消し分を差し引いた値） */
+export function questEarned(ledger: PointEvent[], questId: string): number {
+  return ledger.filter((e) => e.questId === questId).reduce((s, e) => s + e.amount, 0);
+}
+
+export function dayBonusEarned(ledger: PointEvent[], cycle: number, dayIndex: number): number {
+  return ledger
+    .filter((e) => e.cycle === cycle && e.dayIndex === dayIndex && (e.kind === "day_bonus" || e.kind === "day_bonus_reversal"))
+    .reduce((s, e) => s + e.amount, 0);
+}
+
+/** その日に並んでいるクエストの獲得分 + ボーナス（クエストを並べ替えても日ごとの値がずれない） */
+export function pointsForDay(ledger: PointEvent[], cycle: number, dayIndex: number, day: DayPlan): number {
+  const quests = day.quests.reduce((s, q) => s + questEarned(ledger, q.id), 0);
+  return quests + dayBonusEarned(ledger, cycle, dayIndex);
+}
+
+export function isDayCleared(quests: Quest[]): boolean {
+  const enabled = quests.filter((q) => q.enabled);
+  return enabled.length > 0 && enabled.every((q) => q.done);
+}
+
+/**
+ * 現在の週のプランと台帳を突き合わせ、差分を埋めるイベントを追記した台帳を返す。
+ * 完了・取り消し・無効化などの変更はすべてここを通すことで台帳と表示が一致する。
+ */
+export function reconcileLedger(state: AppState): PointEvent[] {
+  const ledger = state.ledger ?? [];
+  const at = new Date().toISOString();
+  const added: PointEvent[] = [];
+
+  const present = new Set(state.plans.flatMap((d) => d.quests.map((q) => q.id)));
+
+  // 削除されたクエストの獲得分を取り消す
+  const orphaned = new Map<string, PointEvent>();
+  ledger.forEach((e) => {
+    if (e.cycle === state.cycle && e.questId && !present.has(e.questId)) orphaned.set(e.questId, e);
+  });
+  orphaned.forEach((e, questId) => {
+    const earned = questEarned(ledger, questId);
+    if (earned === 0) return;
+    added.push({ id: uid(), kind: "quest_reversal", amount: -earned, at, cycle: state.cycle, dayIndex: e.dayIndex, questId });
+  });
+
+  state.plans.forEach((day, dayIndex) => {
+    day.quests.forEach((q) => {
+      const earned = questEarned(ledger, q.id);
+      const expected = q.enabled && q.done ? questPoints(q) : 0;
+      if (earned === expected) return;
+      added.push({
+        id: uid(),
+        kind: expected > earned ? "quest_complete" : "quest_reversal",
+        amount: expected - earned,
+        at,
+        cycle: state.cycle,
+        dayIndex,
+        questId: q.id,
+      });
+    });
+
+    const bonus = dayBonusEarned(ledger, state.cycle, dayIndex);
+    const expectedBonus = isDayCleared(day.quests) ? DAY_CLEAR_BONUS : 0;
+    if (bonus !== expectedBonus) {
+      added.push({
+        id: uid(),
+        kind: expectedBonus > bonus ? "day_bonus" : "day_bonus_reversal",
+        amount: expectedBonus - bonus,
+        at,
+        cycle: state.cycle,
+        dayIndex,
+      });
+    }
+  });
+
+  return added.length ? [...ledger, ...added] : ledger;
+}
@@ -0,0 +1,255 @@
+import type { LocalizedMessage } from "./i18n";
+import { CURRENT_SCHEMA_VERSION, migrate, MigrationError } from "./migrations";
+import { reconcileLedger } from "./scoring";
+import { refreshLocks } from "./unlock";
+import type { AppState } from "./types";
+import { isRecord } from "./utils";
+import { validateAppState } from "./validation";
+
+/** -----------------------------
+ *  永続化（localStorage）
+ *  ----------------------------*/
+export const STORAGE_KEY = "growth-planner";
+/** v1 時代のキー。読み込み時に移行して削除する */
+export const LEGACY_STORAGE_KEY = "growth-planner-v1";
+const BACKUP_KEY_PREFIX = "growth-planner-backup:";
+const MAX_BACKUPS = 5;
+
+type PersistedEnvelope = {
+  schemaVersion: number;
+  savedAt: string; // ISO
+  state: AppState;
+};
+
+/** 文言は表示するときに翻訳する */
+export type Recovery = {
+  reason: LocalizedMessage;
+  repairs: LocalizedMessage[];
+  backupKey?: string; // 読み込めなかった元データの退避先
+};
+
+export type LoadResult = {
+  state: AppState | null;
+  recovery?: Recovery;
+};
+
+export type BackupEntry = {
+  key: string;
+  createdAt: string; // ISO
+  size: number; // 文字数
+};
+
+function isEnvelope(v: unknown): v is { schemaVersion: number; state: unknown } {
+  return isRecord(v) && typeof v.schemaVersion === "number" && "state" in v;
+}
+
+export function writeBackup(raw: string): string | undefined {
+  const key = `${BACKUP_KEY_PREFIX}${new Date().toISOString()}`;
+  try {
+    localStorage.setItem(key, raw);
+  } catch {
+    return undefined;
+  }
+  // 古いものから削除して件数を抑える
+  listBackups()
+    .slice(MAX_BACKUPS)
+    .forEach((b) => localStorage.removeItem(b.key));
+  return key;
+}
+
+export type DecodeResult =
+  | { ok: true; state: AppState; repairs: LocalizedMessage[]; version: number; reconciled: boolean } // reconciled: 台帳やロック状態を補正した
+  | { ok: false; error: LocalizedMessage };
+
+/**
+ * 保存形式（エンベロープ or v1 の生データ）の文字列を最新の AppState に変換する。
+ * 台帳の突き合わせも済ませる。読み込み・インポートの共通処理。
+ */
+export function decodeState(raw: string): DecodeResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: { key: "storage.notJson" } };
+  }
+
+  const version = isEnvelope(parsed) ? parsed.schemaVersion : 1;
+  const payload = isEnvelope(parsed) ? parsed.state : parsed;
+
+  let migrated: unknown;
+  try {
+    migrated = migrate(payload, version);
+  } catch (e) {
+    const error = e instanceof MigrationError ? { key: e.key, params: e.params } : { key: "storage.migrationFailed" as const };
+    return { ok: false, error };
+  }
+
+  const result = validateAppState(migrated);
+  if (!result.ok) return result;
+
+  // 台帳に載っていない完了分（旧データなど）をここで計上する
+  const ledger = reconcileLedger(result.state);
+  const reconciled = ledger !== result.state.ledger;
+  result.state.ledger = ledger;
+  // ランク条件などは保存後に満たされていることがあるので、ロック状態も合わせ直す
+  const plans = refreshLocks(result.state);
+  const relocked = plans !== result.state.plans;
+  result.state.plans = plans;
+  return { ...result, version, reconciled: reconciled || relocked };
+}
+
+export function loadState(): LoadResult {
+  if (typeof window === "undefined") return { state: null };
+
+  let raw: string | null;
+  let fromLegacy = false;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+    if (raw === null) {
+      raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+      fromLegacy = raw !== null;
+    }
+  } catch {
+    return { state: null, recovery: { reason: { key: "storage.unavailable" }, repairs: [] } };
+  }
+  if (raw === null) return { state: null };
+
+  const fail = (reason: LocalizedMessage): LoadResult => ({
+    state: null,
+    recovery: { reason, repairs: [], backupKey: writeBackup(raw) },
+  });
+
+  const result = decodeState(raw);
+  if (!result.ok) return fail(result.error);
+  const { version, reconciled } = result;
+
+  let recovery: Recovery | undefined;
+  if (result.repairs.length) {
+    recovery = {
+      reason: { key: "storage.repaired" },
+      repairs: result.repairs,
+      backupKey: writeBackup(raw),
+    };
+  }
+
+  // 移行・修復した結果は最新形式で書き戻す
+  if (fromLegacy || version !== CURRENT_SCHEMA_VERSION || recovery || reconciled) {
+    if (saveState(result.state) && fromLegacy) localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  return { state: result.state, recovery };
+}
+
+export function saveState(state: AppState): boolean {
+  if (typeof window === "undefined") return false;
+  const envelope: PersistedEnvelope = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** インポートで置き換える前などに、現在の state を退避一覧へ保存する */
+export function backupState(state: AppState): string | undefined {
+  const envelope: PersistedEnvelope = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+  };
+  return writeBackup(JSON.stringify(envelope));
+}
+
+export function clearState() {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/** 新しい順 */
+export function listBackups(): BackupEntry[] {
+  if (typeof window === "undefined") return [];
+  const out: BackupEntry[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(BACKUP_KEY_PREFIX)) continue;
+    out.push({
+      key,
+      createdAt: key.slice(BACKUP_KEY_PREFIX.length),
+      size: localStorage.getItem(key)?.length ?? 0,
+    });
+  }
+  return out.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function readBackup(key: string): string | null {
+  if (typeof window === "undefined" || !key.startsWith(BACKUP_KEY_PREFIX)) return null;
+  return localStorage.getItem(key);
+}
+
+export function removeBackup(key: string) {
+  if (typeof window === "undefined" || !key.startsWith(BACKUP_KEY_PREFIX)) return;
+  localStorage.removeItem(key);
+}
+
+/** -----------------------------
+ *  リセットの取り消し
+ *  「すべてをリセット」はデータをゴミ箱に移すだけにして、猶予期間のうちは元に戻せるようにする。
+ *  ----------------------------*/
+const TRASH_KEY = "growth-planner-trash";
+export const RESET_GRACE_MS = 1000 * 60 * 60 * 24 * 7; // 7日
+
+export type TrashEntry = {
+  state: AppState;
+  deletedAt: string; // ISO
+  expiresAt: string; // ISO
+};
+
+/** 現在の state をゴミ箱に移してから消す。移せなかったら false（消さない） */
+export function trashState(state: AppState, now = new Date()): boolean {
+  if (typeof window === "undefined") return false;
+  const envelope: PersistedEnvelope & { deletedAt: string } = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: now.toISOString(),
+    deletedAt: now.toISOString(),
+    state,
+  };
+  try {
+    localStorage.setItem(TRASH_KEY, JSON.stringify(envelope));
+  } catch {
+    return false;
+  }
+  clearState();
+  return true;
+}
+
+/** 猶予期間内のゴミ箱の中身。期限切れ・読めないものは捨てる */
+export function readTrash(now = new Date()): TrashEntry | null {
+  if (typeof window === "undefined") return null;
+  const raw = localStorage.getItem(TRASH_KEY);
+  if (raw === null) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    parsed = null;
+  }
+  const deletedAt = isRecord(parsed) && typeof parsed.deletedAt === "string" ? parsed.deletedAt : "";
+  const deleted = Date.parse(deletedAt);
+  const result = decodeState(raw);
+  if (Number.isNaN(deleted) || now.getTime() - deleted > RESET_GRACE_MS || !result.ok) {
+    clearTrash();
+    return null;
+  }
+  return { state: result.state, deletedAt, expiresAt: new Date(deleted + RESET_GRACE_MS).toISOString() };
+}
+
+export function clearTrash() {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(TRASH_KEY);
+}
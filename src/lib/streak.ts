@@ -0,0 +1,65 @@
+import { dayRecords, type CountFilter, type DayRecord } from "./analytics";
+import { lastCompletion } from "./completions";
+import type { AppState, CategoryKey } from "./types";
+
+/** -----------------------------
+ *  連続記録（ストリーク）
+ *  - 毎日：クエストを 1 つ以上完了した日
+ *  - パーフェクト：有効なクエストをすべて完了した日
+ *  - カテゴリ：そのカテゴリのクエストを 1 つ以上完了した日（そのカテゴリのクエストがない日は数えず、途切れもしない）
+ *  今日がまだ条件を満たしていなくても、昨日までの連続は途切れていない扱いにする。
+ *  ----------------------------*/
+export type Streak = { current: number; best: number };
+
+export type StreakSummary = {
+  daily: Streak;
+  perfect: Streak;
+  categories: Partial<Record<CategoryKey, Streak>>;
+};
+
+/** same_day のときは、後から記録した完了を数えない */
+export function streakFilter(state: AppState): CountFilter | undefined {
+  if (state.streakRule !== "same_day") return undefined;
+  return (q) => lastCompletion(state.completions, q.id)?.sameDay ?? true;
+}
+
+/** null の日は数えず、連続も切らない */
+export function streakOf(hits: (boolean | null)[]): Streak {
+  let run = 0;
+  let best = 0;
+  hits.forEach((hit) => {
+    if (hit === null) return;
+    run = hit ? run + 1 : 0;
+    best = Math.max(best, run);
+  });
+  // 最後の日（今日）が未達なら、その前までの連続を現在値にする
+  const last = hits.length - 1;
+  let current = run;
+  if (hits[last] === false) {
+    current = 0;
+    for (let i = last - 1; i >= 0 && hits[i] !== false; i--) if (hits[i]) current++;
+  }
+  return { current, best };
+}
+
+/** 日ごとの連続日数（グラフ用） */
+export function streakSeries(records: DayRecord[]): { date: Date; streak: number }[] {
+  let streak = 0;
+  return records.map((r) => {
+    streak = r.done > 0 ? streak + 1 : 0;
+    return { date: r.date, streak };
+  });
+}
+
+export function summarizeStreaks(state: AppState, todayIndex: number): StreakSummary {
+  const records = dayRecords(state, todayIndex, streakFilter(state));
+  const categories: StreakSummary["categories"] = {};
+  state.selectedCategories.forEach((cat) => {
+    categories[cat] = streakOf(records.map((r) => (r.byCategory[cat] ? r.byCategory[cat]!.done > 0 : null)));
+  });
+  return {
+    daily: streakOf(records.map((r) => r.done > 0)),
+    perfect: streakOf(records.map((r) => r.total > 0 && r.done === r.total)),
+    categories,
+  };
+}
@@ -0,0 +1,153 @@
+import { translator, type Locale } from "../i18n";
+import { CURRENT_SCHEMA_VERSION } from "../migrations";
+import { decodeState } from "../storage";
+import { mergeStates } from "../transfer";
+import type { AppState } from "../types";
+import { mergeStamps, mergeSync } from "./merge";
+import { MAX_CONFLICTS, type SyncMeta } from "./meta";
+import type { SyncConflict, SyncPush, SyncSnapshot } from "./types";
+
+/** -----------------------------
+ *  /api/auth・/api/sync のクライアント
+ *  ----------------------------*/
+export class SyncRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "SyncRequestError";
+  }
+}
+
+/** fetch 自体の失敗（オフライン・サーバー停止）は status 0。エラーの文言は locale の言語で受け取る */
+async function request(url: string, locale: Locale, init?: RequestInit): Promise<Response> {
+  const t = translator(locale);
+  let res: Response;
+  try {
+    res = await fetch(url, { cache: "no-store", ...init, headers: { ...init?.headers, "Accept-Language": locale } });
+  } catch {
+    throw new SyncRequestError(t("sync.error.unreachable"), 0);
+  }
+  if (res.ok || res.status === 409) return res;
+
+  let message = t("sync.error.network", { status: String(res.status) });
+  try {
+    const data = await res.json();
+    if (typeof data?.error === "string") message = data.error;
+  } catch {
+    // 本文なし
+  }
+  throw new SyncRequestError(message, res.status);
+}
+
+const postJson = (url: string, locale: Locale, body: unknown) =>
+  request(url, locale, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+export async function fetchAccount(locale: Locale): Promise<string | null> {
+  try {
+    const data = await (await request("/api/auth/session", locale)).json();
+    return typeof data.username === "string" ? data.username : null;
+  } catch (e) {
+    if (e instanceof SyncRequestError && e.status === 401) return null;
+    throw e;
+  }
+}
+
+export async function signUp(username: string, password: string, locale: Locale): Promise<string> {
+  return (await (await postJson("/api/auth/signup", locale, { username, password })).json()).username;
+}
+
+export async function logIn(username: string, password: string, locale: Locale): Promise<string> {
+  return (await (await postJson("/api/auth/login", locale, { username, password })).json()).username;
+}
+
+export async function logOut(locale: Locale): Promise<void> {
+  await request("/api/auth/logout", locale, { method: "POST" });
+}
+
+async function pull(locale: Locale): Promise<SyncSnapshot> {
+  return (await request("/api/sync", locale)).json();
+}
+
+async function push(body: SyncPush, locale: Locale): Promise<{ ok: true; revision: number; updatedAt: string } | { ok: false }> {
+  const res = await request("/api/sync", locale, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return res.status === 409 ? { ok: false } : { ok: true, ...(await res.json()) };
+}
+
+/** サーバーのデータは古い形式のこともあるので、ロードと同じ移行・検証を通す */
+function decodeSnapshot(snapshot: SyncSnapshot): AppState | null {
+  if (!snapshot.state) return null;
+  const result = decodeState(JSON.stringify({ schemaVersion: snapshot.schemaVersion, state: snapshot.state }));
+  return result.ok ? result.state : null;
+}
+
+/** 取得 → マージ → 送信の途中で別の端末が保存したら、取り直してやり直す回数 */
+const MAX_ATTEMPTS = 3;
+
+export type SyncOutcome = {
+  state: AppState | null; // 同期後の内容（どちらにもデータがなければ null）
+  meta: SyncMeta;
+};
+
+/**
+ * サーバーと双方向に同期する。
+ * - 片方だけが変わっていればそちらを採用し、両方が変わっていれば base との 3-way マージ（mergeSync）。
+ * - この端末で初めての同期（base なし）は、インポートと同じ mergeStates で両方を統合する。
+ * - ローカルが空（リセット直後・新しい端末）のときはサーバーの内容を受け取るだけ。
+ */
+export async function syncWithServer(
+  local: AppState | null,
+  meta: SyncMeta,
+  base: AppState | null,
+  locale: Locale
+): Promise<SyncOutcome> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const snapshot = await pull(locale);
+    const remote = decodeSnapshot(snapshot);
+    const remoteChanged = snapshot.revision !== meta.revision;
+    const now = new Date().toISOString();
+    const done = (state: AppState | null, revision: number, conflicts: SyncConflict[] = []): SyncOutcome => ({
+      state,
+      meta: {
+        ...meta,
+        revision,
+        syncedAt: now,
+        pending: 0,
+        stamps: state ? mergeStamps(state, meta.stamps, snapshot.stamps) : {},
+        conflicts: [...conflicts, ...meta.conflicts].slice(0, MAX_CONFLICTS),
+      },
+    });
+
+    if (!local) return done(remote, snapshot.revision);
+    if (remote && !meta.pending) return done(remoteChanged ? remote : local, snapshot.revision);
+
+    let merged = local;
+    let conflicts: SyncConflict[] = [];
+    if (remote && remoteChanged) {
+      if (base) {
+        ({ state: merged, conflicts } = mergeSync({
+          base,
+          local,
+          remote,
+          localStamps: meta.stamps,
+          remoteStamps: snapshot.stamps,
+          localAt: meta.changedAt ?? "",
+          remoteAt: snapshot.updatedAt ?? "",
+        }));
+      } else {
+        merged = mergeStates(remote, local);
+      }
+    }
+
+    const result = await push({
+      baseRevision: snapshot.revision,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      state: merged,
+      stamps: mergeStamps(merged, meta.stamps, snapshot.stamps),
+    }, locale);
+    if (result.ok) return done(merged, result.revision, conflicts);
+  }
+  throw new SyncRequestError(translator(locale)("sync.error.busy"), 409);
+}
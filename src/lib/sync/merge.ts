@@ -0,0 +1,236 @@
+import { mergeAchievements } from "../achievements";
+import type { Translate } from "../i18n";
+import { dedupeJournal } from "../journal";
+import { addNotifications } from "../notifications";
+import { reconcileLedger } from "../scoring";
+import type { AppState, ArchivedWeek, DayPlan, JournalEntry, PointEvent, Quest } from "../types";
+import { refreshLocks } from "../unlock";
+import type { QuestStamps, SyncConflict, SyncSide } from "./types";
+
+/** -----------------------------
+ *  端末間同期の 3-way マージ
+ *  base（前回同期した内容）と比べて、片方だけが変えた項目はその変更を採用する。
+ *  両方が別々に変えた項目は競合として記録し、クエストは変更時刻の新しい方、設定は保存時刻の新しい方を採用する。
+ *  ----------------------------*/
+
+/** 端末ごとに最後の変更で上書きする設定項目。表示名は i18n の sync.setting.* */
+const SETTING_KEYS = [
+  "selectedCategories",
+  "theme",
+  "reminders",
+  "generator",
+  "streakRule",
+  "profile",
+  "timer",
+  "locale",
+  "library",
+] as const satisfies readonly (keyof AppState)[];
+
+type SettingKey = (typeof SETTING_KEYS)[number];
+
+const isSettingKey = (key: string): key is SettingKey => (SETTING_KEYS as readonly string[]).includes(key);
+
+/** 競合の表示名。設定と週は key から表示言語で作り、クエストは記録したタイトルを出す */
+export function conflictTitle(c: SyncConflict, t: Translate): string {
+  if (isSettingKey(c.key)) return t(`sync.setting.${c.key}`);
+  const week = c.key.match(/^week:(\d+)$/);
+  return week ? t("sync.week", { cycle: Number(week[1]) }) : c.title;
+}
+
+type Located = { quest: Quest; day: number };
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function locate(plans: DayPlan[]): Map<string, Located> {
+  const out = new Map<string, Located>();
+  plans.forEach((d, day) => d.quests.forEach((quest) => out.set(quest.id, { quest, day })));
+  return out;
+}
+
+/** prev → next で変わったクエスト（追加・削除・移動を含む）に変更時刻を付ける */
+export function stampChanges(prev: AppState, next: AppState, stamps: QuestStamps, at: string): QuestStamps {
+  if (prev.plans === next.plans) return stamps;
+  const before = locate(prev.plans);
+  const after = locate(next.plans);
+  const out = { ...stamps };
+  new Set([...before.keys(), ...after.keys()]).forEach((id) => {
+    if (!same(before.get(id), after.get(id))) out[id] = at;
+  });
+  return out;
+}
+
+/** 両方の変更時刻を合わせ、現在の週にないクエストの分は捨てる */
+export function mergeStamps(state: AppState, ...all: QuestStamps[]): QuestStamps {
+  const present = locate(state.plans);
+  const out: QuestStamps = {};
+  all.forEach((stamps) =>
+    Object.entries(stamps).forEach(([id, at]) => {
+      if (present.has(id) && (!out[id] || at > out[id])) out[id] = at;
+    })
+  );
+  return out;
+}
+
+function unionById<T extends { id: string }>(a: T[], b: T[], order: (x: T) => string): T[] {
+  const known = new Set(a.map((x) => x.id));
+  return [...a, ...b.filter((x) => !known.has(x.id))].sort((x, y) => order(x).localeCompare(order(y)));
+}
+
+/**
+ * 日記は記録ごとに 3-way マージする。片方だけが消した記録は消し、
+ * 両方にある記録は更新時刻の新しい方を採用する（書き直しは上書きなので競合にはしない）。
+ */
+function mergeJournal(base: JournalEntry[], local: JournalEntry[], remote: JournalEntry[]): JournalEntry[] {
+  const before = new Map(base.map((e) => [e.id, e]));
+  const mine = new Map(local.map((e) => [e.id, e]));
+  const theirs = new Map(remote.map((e) => [e.id, e]));
+  const out: JournalEntry[] = [];
+  new Set([...mine.keys(), ...theirs.keys()]).forEach((id) => {
+    const l = mine.get(id);
+    const r = theirs.get(id);
+    if (l && r) return out.push(r.updatedAt > l.updatedAt ? r : l);
+    const kept = (l ?? r)!;
+    // 相手が消した記録は、こちらで書き直していなければ消す
+    const b = before.get(id);
+    if (!b || kept.updatedAt !== b.updatedAt) out.push(kept);
+  });
+  return dedupeJournal(out);
+}
+
+/** 週ごとに完了数の多い方（同数なら手元）を採用し、どちらを採用したかも返す */
+function mergeHistory(local: ArchivedWeek[], remote: ArchivedWeek[]): { history: ArchivedWeek[]; source: Map<number, SyncSide> } {
+  const weeks = new Map(local.map((w) => [w.cycle, w]));
+  const source = new Map<number, SyncSide>(local.map((w) => [w.cycle, "local"]));
+  remote.forEach((w) => {
+    const mine = weeks.get(w.cycle);
+    if (mine && w.stats.done <= mine.stats.done) return;
+    weeks.set(w.cycle, w);
+    source.set(w.cycle, "remote");
+  });
+  return { history: [...weeks.values()].sort((x, y) => x.cycle - y.cycle), source };
+}
+
+/**
+ * 台帳は週ごとにどちらか一方の記録に揃える。両方の端末で同じクエストを完了していても二重にならない。
+ * 履歴にある週は採用した方、それ以外の週は記録のある方（両方なら手元）。進行中の週は後で reconcileLedger がプランに合わせる。
+ */
+function mergeLedger(local: PointEvent[], remote: PointEvent[], source: Map<number, SyncSide>): PointEvent[] {
+  const pick = (cycle: number): SyncSide => source.get(cycle) ?? (local.some((e) => e.cycle === cycle) ? "local" : "remote");
+  return [...local.filter((e) => pick(e.cycle) === "local"), ...remote.filter((e) => pick(e.cycle) === "remote")].sort((x, y) =>
+    x.at.localeCompare(y.at)
+  );
+}
+
+/** 同じ週のプランをクエスト単位でマージする */
+function mergeWeek(
+  base: DayPlan[],
+  local: DayPlan[],
+  remote: DayPlan[],
+  stamps: { local: QuestStamps; remote: QuestStamps },
+  conflicts: SyncConflict[],
+  at: string
+): DayPlan[] {
+  const b = locate(base);
+  const l = locate(local);
+  const r = locate(remote);
+  const chosen = new Map<string, Located | undefined>();
+
+  new Set([...b.keys(), ...l.keys(), ...r.keys()]).forEach((id) => {
+    const mine = l.get(id);
+    const theirs = r.get(id);
+    const original = b.get(id);
+    if (same(theirs, original)) return chosen.set(id, mine);
+    if (same(mine, original) || same(mine, theirs)) return chosen.set(id, theirs);
+    const kept: SyncSide = (stamps.remote[id] ?? "") > (stamps.local[id] ?? "") ? "remote" : "local";
+    conflicts.push({ key: id, title: (mine ?? theirs ?? original)!.quest.title, kept, at });
+    chosen.set(id, kept === "local" ? mine : theirs);
+  });
+
+  // 並び順は手元の順を基本に、相手にしかないものを後ろに足す
+  const placed = new Set<string>();
+  return local.map((day, i) => {
+    const quests: Quest[] = [];
+    [...day.quests, ...(remote[i]?.quests ?? [])].forEach((q) => {
+      const c = chosen.get(q.id);
+      if (!c || c.day !== i || placed.has(q.id)) return;
+      placed.add(q.id);
+      quests.push(c.quest);
+    });
+    return { ...day, quests };
+  });
+}
+
+export type MergeInput = {
+  base: AppState;
+  local: AppState;
+  remote: AppState;
+  localStamps: QuestStamps;
+  remoteStamps: QuestStamps;
+  localAt: string; // 手元で最後に変更した時刻
+  remoteAt: string; // サーバーに最後に保存された時刻
+};
+
+export function mergeSync({ base, local, remote, localStamps, remoteStamps, localAt, remoteAt }: MergeInput): {
+  state: AppState;
+  conflicts: SyncConflict[];
+} {
+  const at = new Date().toISOString();
+  const conflicts: SyncConflict[] = [];
+  const newer: SyncSide = remoteAt > localAt ? "remote" : "local";
+
+  const settings = Object.fromEntries(
+    SETTING_KEYS.map((key) => {
+      const mine = local[key];
+      const theirs = remote[key];
+      if (same(theirs, base[key])) return [key, mine];
+      if (same(mine, base[key]) || same(mine, theirs)) return [key, theirs];
+      conflicts.push({ key, title: key, kept: newer, at });
+      return [key, newer === "local" ? mine : theirs];
+    })
+  ) as Pick<AppState, SettingKey>;
+
+  // 週の進み具合が違うときは、先に進んでいる方の週を採用する
+  let week: Pick<AppState, "cycle" | "createdAt" | "startDate" | "plans">;
+  if (local.cycle === remote.cycle && local.cycle === base.cycle) {
+    week = {
+      cycle: local.cycle,
+      createdAt: local.createdAt,
+      startDate: local.startDate,
+      plans: mergeWeek(base.plans, local.plans, remote.plans, { local: localStamps, remote: remoteStamps }, conflicts, at),
+    };
+  } else {
+    const ahead: SyncSide = local.cycle > remote.cycle ? "local" : "remote";
+    const winner = ahead === "local" ? local : remote;
+    const loser = ahead === "local" ? remote : local;
+    const lost = loser.cycle === base.cycle ? !same(loser.plans, base.plans) : !same(loser.plans, winner.plans);
+    if (lost) conflicts.push({ key: `week:${loser.cycle}`, title: String(loser.cycle), kept: ahead, at });
+    week = { cycle: winner.cycle, createdAt: winner.createdAt, startDate: winner.startDate, plans: winner.plans };
+  }
+
+  const knownNotifications = new Set(local.notifications.map((n) => n.id));
+  const readIds = new Set([...local.notifications, ...remote.notifications].filter((n) => n.read).map((n) => n.id));
+  const notifications = addNotifications(
+    local.notifications,
+    remote.notifications.filter((n) => !knownNotifications.has(n.id))
+  )
+    .map((n) => (readIds.has(n.id) && !n.read ? { ...n, read: true } : n))
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+  const history = mergeHistory(local.history, remote.history);
+  const state: AppState = {
+    ...local,
+    ...settings,
+    ...week,
+    history: history.history,
+    ledger: mergeLedger(local.ledger, remote.ledger, history.source),
+    notifications,
+    focusLog: unionById(local.focusLog, remote.focusLog, (f) => f.endedAt),
+    completions: unionById(local.completions, remote.completions, (c) => c.at),
+    journal: mergeJournal(base.journal, local.journal, remote.journal),
+    achievements: mergeAchievements(local.achievements, remote.achievements),
+  };
+  // 進行中の週の台帳はプランに合わせて補正する
+  state.ledger = reconcileLedger(state);
+  state.plans = refreshLocks(state);
+  return { state, conflicts };
+}
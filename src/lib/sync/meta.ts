@@ -0,0 +1,86 @@
+import { CURRENT_SCHEMA_VERSION } from "../migrations";
+import { decodeState } from "../storage";
+import type { AppState } from "../types";
+import { isRecord } from "../utils";
+import type { QuestStamps, SyncConflict } from "./types";
+
+/** -----------------------------
+ *  同期の状態（この端末の localStorage、AppState とは別キー）
+ *  オフライン中の変更は AppState 自体に残り、ここでは「未送信の変更がある」ことと変更時刻を覚えておく。
+ *  base は前回同期した時点の AppState で、次の同期の 3-way マージに使う。
+ *  ----------------------------*/
+export const SYNC_META_KEY = "growth-planner-sync";
+export const SYNC_BASE_KEY = "growth-planner-sync-base";
+export const MAX_CONFLICTS = 20;
+
+export type SyncMeta = {
+  username: string;
+  revision: number; // 最後に同期したサーバーの revision
+  syncedAt: string | null; // ISO
+  pending: number; // 未送信の変更の数
+  changedAt: string | null; // 手元で最後に変更した時刻
+  stamps: QuestStamps;
+  conflicts: SyncConflict[]; // 新しい順
+};
+
+export function newSyncMeta(username: string, hasLocalData: boolean): SyncMeta {
+  // ログイン前のデータも、最初の同期でサーバーのデータと統合する
+  return {
+    username,
+    revision: 0,
+    syncedAt: null,
+    pending: hasLocalData ? 1 : 0,
+    changedAt: hasLocalData ? new Date().toISOString() : null,
+    stamps: {},
+    conflicts: [],
+  };
+}
+
+export function loadSyncMeta(): SyncMeta | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(SYNC_META_KEY) ?? "null");
+    if (!isRecord(raw) || typeof raw.username !== "string" || typeof raw.revision !== "number") return null;
+    return {
+      username: raw.username,
+      revision: raw.revision,
+      syncedAt: typeof raw.syncedAt === "string" ? raw.syncedAt : null,
+      pending: typeof raw.pending === "number" ? raw.pending : 0,
+      changedAt: typeof raw.changedAt === "string" ? raw.changedAt : null,
+      stamps: isRecord(raw.stamps) ? (raw.stamps as QuestStamps) : {},
+      conflicts: Array.isArray(raw.conflicts) ? (raw.conflicts as SyncConflict[]) : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveSyncMeta(meta: SyncMeta) {
+  try {
+    localStorage.setItem(SYNC_META_KEY, JSON.stringify(meta));
+  } catch {
+    // 容量不足など。次の変更で再度書き込む
+  }
+}
+
+export function loadSyncBase(): AppState | null {
+  if (typeof window === "undefined") return null;
+  const raw = localStorage.getItem(SYNC_BASE_KEY);
+  if (!raw) return null;
+  const result = decodeState(raw);
+  return result.ok ? result.state : null;
+}
+
+export function saveSyncBase(state: AppState | null) {
+  try {
+    if (!state) return localStorage.removeItem(SYNC_BASE_KEY);
+    localStorage.setItem(SYNC_BASE_KEY, JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, savedAt: new Date().toISOString(), state }));
+  } catch {
+    // base がなくても次の同期は両方を統合する形で続けられる
+  }
+}
+
+export function clearSync() {
+  localStorage.removeItem(SYNC_META_KEY);
+  localStorage.removeItem(SYNC_BASE_KEY);
+}
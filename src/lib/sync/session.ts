@@ -0,0 +1,84 @@
+import { cookies } from "next/headers";
+import { clientAddress, createRateLimiter, type RateLimitResult } from "../chat/rateLimit";
+import { isRecord } from "../utils";
+import { getFileStore, SESSION_TTL_MS } from "./store";
+
+/** -----------------------------
+ *  ログインセッション（サーバー専用）
+ *  トークンは httpOnly クッキーに入れ、サーバーにはハッシュだけを保存する。
+ *  同じ LAN のスマホから http で開けるよう Secure 属性は付けない。
+ *  ----------------------------*/
+export const SESSION_COOKIE = "growth-planner-session";
+
+/** -----------------------------
+ *  ログイン・登録の総当たり対策
+ *  - 接続元アドレスがわかる（信頼できるプロキシの後ろ）ときは、アドレスごとに回数を制限する。
+ *    わからないときに全員を 1 つにまとめると、1 人の連投でほかの全員がログインできなくなるので制限しない。
+ *  - ユーザー名ごとには、ログインの失敗が続くと次の試行まで待たせる（倍々で最大 1 分）。
+ *    アドレスを偽っても 1 つのアカウントへの総当たりは遅くなり、他人が締め出し続けることもできない。
+ *  ----------------------------*/
+const addressRateLimit = createRateLimiter({ limit: 10, windowMs: 60_000 });
+
+export function authRateLimit(req: Request): RateLimitResult {
+  const address = clientAddress(req);
+  return address ? addressRateLimit(address) : { ok: true, remaining: Infinity };
+}
+
+const FREE_FAILURES = 5;
+const MAX_BACKOFF_MS = 60_000;
+const FAILURE_TTL_MS = 15 * 60_000;
+
+// キーは小文字にしたユーザー名（アカウントのキーと同じ）
+const failures = new Map<string, { count: number; last: number; until: number }>();
+
+/** 前の失敗からの待ち時間が終わっていなければ弾く */
+export function loginBackoff(username: string, now = Date.now()): RateLimitResult {
+  const f = failures.get(username.toLowerCase());
+  if (!f || now >= f.until) return { ok: true, remaining: Math.max(0, FREE_FAILURES - (f?.count ?? 0)) };
+  return { ok: false, retryAfterSec: Math.max(1, Math.ceil((f.until - now) / 1000)) };
+}
+
+export function recordLoginFailure(username: string, now = Date.now()) {
+  const key = username.toLowerCase();
+  const prev = failures.get(key);
+  const count = prev && now - prev.last < FAILURE_TTL_MS ? prev.count + 1 : 1;
+  const wait = count > FREE_FAILURES ? Math.min(MAX_BACKOFF_MS, 1000 * 2 ** (count - FREE_FAILURES - 1)) : 0;
+  failures.set(key, { count, last: now, until: now + wait });
+
+  // 古い記録を掃除
+  if (failures.size > 1000) {
+    failures.forEach((v, k) => {
+      if (now - v.last >= FAILURE_TTL_MS) failures.delete(k);
+    });
+  }
+}
+
+export const clearLoginFailures = (username: string) => failures.delete(username.toLowerCase());
+
+export function parseCredentials(body: unknown): { username: string; password: string } | null {
+  if (!isRecord(body) || typeof body.username !== "string" || typeof body.password !== "string") return null;
+  const username = body.username.trim();
+  return username && body.password ? { username, password: body.password } : null;
+}
+
+export async function startSession(token: string) {
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+/** ログアウト。サーバー側のセッションも消す */
+export async function endSession() {
+  const jar = await cookies();
+  const token = jar.get(SESSION_COOKIE)?.value;
+  if (token) await getFileStore().logOut(token);
+  jar.delete(SESSION_COOKIE);
+}
+
+export async function sessionUser(): Promise<{ id: string; username: string } | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? getFileStore().userForToken(token) : null;
+}
@@ -0,0 +1,178 @@
+import { createHash, randomBytes, scrypt as scryptCb, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { MessageKey, MessageParams } from "../i18n";
+import { CURRENT_SCHEMA_VERSION } from "../migrations";
+import { isRecord, uid } from "../utils";
+import type { SyncSnapshot } from "./types";
+
+/** -----------------------------
+ *  アカウントと同期データのファイルストア（サーバー専用）
+ *  SYNC_DATA_DIR（既定 .data）に accounts.json とユーザーごとの states/<id>.json を置く。
+ *  書き込みはプロセス内で直列化し、一時ファイルから rename して途中で壊れないようにする。
+ *  ----------------------------*/
+const scrypt = promisify(scryptCb) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type UserRecord = {
+  id: string;
+  username: string;
+  salt: string; // hex
+  hash: string; // hex（scrypt）
+  createdAt: string;
+};
+
+type SessionRecord = {
+  userId: string;
+  expiresAt: string;
+};
+
+type AccountsFile = {
+  users: Record<string, UserRecord>; // キーは小文字にしたユーザー名
+  sessions: Record<string, SessionRecord>; // キーはトークンの SHA-256
+};
+
+/** 文言はリクエストの言語に合わせてルート側で翻訳する（key は i18n のキー） */
+export class AccountError extends Error {
+  constructor(readonly key: MessageKey, readonly status: number, readonly params?: MessageParams) {
+    super(key);
+    this.name = "AccountError";
+  }
+}
+
+const USERNAME = /^[A-Za-z0-9_-]{3,20}$/;
+const MIN_PASSWORD = 8;
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const emptySnapshot = (): SyncSnapshot => ({
+  revision: 0,
+  updatedAt: null,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  state: null,
+  stamps: {},
+});
+
+export function createFileStore(dir: string) {
+  const accountsPath = path.join(dir, "accounts.json");
+  const statePath = (userId: string) => path.join(dir, "states", `${userId}.json`);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // 読み書きを 1 本の列に並べ、同時リクエストで上書きし合わないようにする
+  const serial = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = queue.then(fn, fn);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  async function readJson(file: string): Promise<unknown> {
+    try {
+      return JSON.parse(await readFile(file, "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async function writeJson(file: string, data: unknown) {
+    await mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(data), "utf8");
+    await rename(tmp, file);
+  }
+
+  async function readAccounts(): Promise<AccountsFile> {
+    const raw = await readJson(accountsPath);
+    return isRecord(raw) && isRecord(raw.users) && isRecord(raw.sessions)
+      ? (raw as AccountsFile)
+      : { users: {}, sessions: {} };
+  }
+
+  async function loadSnapshot(userId: string): Promise<SyncSnapshot> {
+    const raw = await readJson(statePath(userId));
+    return isRecord(raw) && typeof raw.revision === "number" ? (raw as SyncSnapshot) : emptySnapshot();
+  }
+
+  async function openSession(accounts: AccountsFile, userId: string): Promise<string> {
+    const now = Date.now();
+    // 期限切れのセッションはここで掃除する
+    Object.entries(accounts.sessions).forEach(([k, s]) => {
+      if (Date.parse(s.expiresAt) <= now) delete accounts.sessions[k];
+    });
+    const token = randomBytes(32).toString("base64url");
+    accounts.sessions[hashToken(token)] = { userId, expiresAt: new Date(now + SESSION_TTL_MS).toISOString() };
+    await writeJson(accountsPath, accounts);
+    return token;
+  }
+
+  return {
+    /** 登録してそのままログインする。返り値はセッショントークン */
+    signUp: (username: string, password: string) =>
+      serial(async () => {
+        if (!USERNAME.test(username)) throw new AccountError("account.error.username", 400);
+        if (password.length < MIN_PASSWORD) throw new AccountError("account.error.password", 400, { count: MIN_PASSWORD });
+        const accounts = await readAccounts();
+        const key = username.toLowerCase();
+        if (accounts.users[key]) throw new AccountError("account.error.taken", 409);
+        const salt = randomBytes(16);
+        const hash = await scrypt(password, salt, 64);
+        const user: UserRecord = { id: uid(), username, salt: salt.toString("hex"), hash: hash.toString("hex"), createdAt: new Date().toISOString() };
+        accounts.users[key] = user;
+        return { token: await openSession(accounts, user.id), username };
+      }),
+
+    logIn: (username: string, password: string) =>
+      serial(async () => {
+        const accounts = await readAccounts();
+        const user = accounts.users[username.toLowerCase()];
+        // ユーザーがいない場合も同じだけ計算して、応答時間で存在がわからないようにする
+        const salt = user ? Buffer.from(user.salt, "hex") : randomBytes(16);
+        const hash = await scrypt(password, salt, 64);
+        if (!user || !timingSafeEqual(hash, Buffer.from(user.hash, "hex"))) {
+          throw new AccountError("account.error.invalid", 401);
+        }
+        return { token: await openSession(accounts, user.id), username: user.username };
+      }),
+
+    logOut: (token: string) =>
+      serial(async () => {
+        const accounts = await readAccounts();
+        const key = hashToken(token);
+        if (!accounts.sessions[key]) return;
+        delete accounts.sessions[key];
+        await writeJson(accountsPath, accounts);
+      }),
+
+    /** トークンからユーザーを引く。無効・期限切れなら null */
+    userForToken: async (token: string): Promise<{ id: string; username: string } | null> => {
+      const accounts = await readAccounts();
+      const session = accounts.sessions[hashToken(token)];
+      if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+      const user = Object.values(accounts.users).find((u) => u.id === session.userId);
+      return user ? { id: user.id, username: user.username } : null;
+    },
+
+    readSnapshot: loadSnapshot,
+
+    /** baseRevision が最新のときだけ保存する。古ければ保存せずに最新のスナップショットを返す */
+    writeSnapshot: (userId: string, baseRevision: number, next: Omit<SyncSnapshot, "revision" | "updatedAt">) =>
+      serial(async (): Promise<{ ok: true; snapshot: SyncSnapshot } | { ok: false; snapshot: SyncSnapshot }> => {
+        const current = await loadSnapshot(userId);
+        if (current.revision !== baseRevision) return { ok: false, snapshot: current };
+        const snapshot: SyncSnapshot = { ...next, revision: current.revision + 1, updatedAt: new Date().toISOString() };
+        await writeJson(statePath(userId), snapshot);
+        return { ok: true, snapshot };
+      }),
+  };
+}
+
+export type FileStore = ReturnType<typeof createFileStore>;
+
+let store: FileStore | null = null;
+
+export function getFileStore(env: Record<string, string | undefined> = process.env): FileStore {
+  store ??= createFileStore(path.resolve(env.SYNC_DATA_DIR ?? ".data"));
+  return store;
+}
@@ -0,0 +1,39 @@
+import type { AppState } from "../types";
+
+/** -----------------------------
+ *  アカウントと端末間同期の型（クライアント / サーバー共通）
+ *  ----------------------------*/
+
+/** クエスト ID → その端末で最後に変更した時刻（ISO）。同じクエストの競合時に新しい方を採用する */
+export type QuestStamps = Record<string, string>;
+
+/** サーバーに保存されているユーザーごとのデータ */
+export type SyncSnapshot = {
+  revision: number; // 保存のたびに 1 増える（0 = まだ何も保存されていない）
+  updatedAt: string | null; // ISO
+  schemaVersion: number;
+  state: AppState | null;
+  stamps: QuestStamps;
+};
+
+/** PUT /api/sync の本文。baseRevision が最新でなければ 409 で最新のスナップショットを返す */
+export type SyncPush = {
+  baseRevision: number;
+  schemaVersion: number;
+  state: AppState;
+  stamps: QuestStamps;
+};
+
+export type SyncSide = "local" | "remote";
+
+/** 両方の端末で同じ項目が別々に変更されていたもの（新しい方を採用済み） */
+export type SyncConflict = {
+  key: string; // クエスト ID・設定項目名・"week:<週番号>"
+  title: string; // クエストのタイトル（設定と週の表示名は conflictTitle で作る）
+  kept: SyncSide;
+  at: string; // ISO（検出した時刻）
+};
+
+export type Account = {
+  username: string;
+};
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { translator, type Locale } from "../i18n";
+import type { AppState } from "../types";
+import { fetchAccount, logIn, logOut, signUp, syncWithServer, SyncRequestError } from "./client";
+import { mergeStamps, mergeSync, stampChanges } from "./merge";
+import { clearSync, loadSyncBase, loadSyncMeta, newSyncMeta, saveSyncBase, saveSyncMeta, type SyncMeta } from "./meta";
+
+/** -----------------------------
+ *  画面側の同期フック
+ *  AppState の変化を見て未送信の変更として数え、少し待ってからまとめて同期する。
+ *  オフライン中は送らずに溜めておき、接続が戻ったとき・画面に戻ったときに送る。
+ *  ----------------------------*/
+export type SyncStatus = "idle" | "syncing" | "offline" | "error";
+
+const PUSH_DELAY_MS = 2000;
+const PULL_INTERVAL_MS = 60_000;
+
+export function useSync(state: AppState | null, locale: Locale, apply: (next: AppState) => void) {
+  const [meta, setMetaState] = useState<SyncMeta | null>(null);
+  const [status, setStatus] = useState<SyncStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const metaRef = useRef<SyncMeta | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+  const seen = useRef<AppState | null>(null); // 最後に見た（または同期で反映した）state
+  const running = useRef(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncRef = useRef<() => Promise<void>>(async () => undefined);
+
+  const setMeta = useCallback((next: SyncMeta | null) => {
+    metaRef.current = next;
+    setMetaState(next);
+    if (next) saveSyncMeta(next);
+    else clearSync();
+  }, []);
+
+  const schedule = useCallback(() => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(() => void syncRef.current(), PUSH_DELAY_MS);
+  }, []);
+
+  const sync = useCallback(async () => {
+    const current = metaRef.current;
+    if (!current || running.current) return;
+    if (typeof navigator !== "undefined" && !navigator.onLine) return setStatus("offline");
+
+    running.current = true;
+    setStatus("syncing");
+    const local = stateRef.current;
+    const pendingAtStart = current.pending;
+    try {
+      const outcome = await syncWithServer(local, current, loadSyncBase(), localeRef.current);
+      if (!metaRef.current) return; // 同期中にログアウトした
+      saveSyncBase(outcome.state);
+
+      // 同期中に手元で変更があれば、送った内容を base にもう一度マージして次回送る
+      const latest = stateRef.current;
+      const changedMeanwhile = latest !== local && latest !== null && outcome.state !== null && local !== null;
+      const next = changedMeanwhile
+        ? mergeSync({
+            base: local,
+            local: latest,
+            remote: outcome.state!,
+            localStamps: metaRef.current.stamps,
+            remoteStamps: outcome.meta.stamps,
+            localAt: metaRef.current.changedAt ?? "",
+            remoteAt: "",
+          }).state
+        : outcome.state;
+      const pending = Math.max(0, metaRef.current.pending - pendingAtStart);
+      setMeta({
+        ...outcome.meta,
+        pending,
+        changedAt: metaRef.current.changedAt,
+        stamps: next ? mergeStamps(next, outcome.meta.stamps, metaRef.current.stamps) : {},
+      });
+      if (next && next !== latest) {
+        seen.current = next;
+        applyRef.current(next);
+      }
+      setError(null);
+      setStatus("idle");
+      if (pending) schedule();
+    } catch (e) {
+      if (e instanceof SyncRequestError && e.status === 0) return setStatus("offline");
+      const t = translator(localeRef.current);
+      if (e instanceof SyncRequestError && e.status === 401) {
+        // 手元のデータと未送信の変更は残すので、ログインし直せば統合される
+        setMeta(null);
+        setError(t("sync.error.sessionExpired"));
+      } else {
+        setError(e instanceof Error ? e.message : t("sync.error.failed"));
+      }
+      setStatus("error");
+    } finally {
+      running.current = false;
+    }
+  }, [setMeta, schedule]);
+  syncRef.current = sync;
+
+  // 起動時：保存済みのログイン状態を読み、サーバー側のセッションが生きていれば同期する。
+  // リセット直後などで手元が空のときは、サーバーの内容で勝手に戻さない（「今すぐ同期」で取得できる）
+  useEffect(() => {
+    const saved = loadSyncMeta();
+    if (!saved) return;
+    setMeta(saved);
+    fetchAccount(localeRef.current)
+      .then((username) => {
+        if (username === saved.username) return void (stateRef.current && sync());
+        setMeta(null);
+        setError(translator(localeRef.current)("sync.error.sessionExpired"));
+      })
+      .catch(() => setStatus("offline"));
+  }, [setMeta, sync]);
+
+  // 手元の変更を数える（同期で反映したものは除く）
+  useEffect(() => {
+    const prev = seen.current;
+    seen.current = state;
+    const current = metaRef.current;
+    if (!current || !state || !prev || prev === state) return;
+    const at = new Date().toISOString();
+    setMeta({ ...current, pending: current.pending + 1, changedAt: at, stamps: stampChanges(prev, state, current.stamps, at) });
+    schedule();
+  }, [state, setMeta, schedule]);
+
+  // 接続の回復・画面への復帰・一定間隔で、ほかの端末の変更を取りに行く
+  const signedIn = meta !== null;
+  useEffect(() => {
+    if (!signedIn) return;
+    const kick = () => {
+      if (document.visibilityState === "visible" && stateRef.current) void sync();
+    };
+    const offline = () => setStatus("offline");
+    window.addEventListener("online", kick);
+    window.addEventListener("offline", offline);
+    document.addEventListener("visibilitychange", kick);
+    const interval = setInterval(kick, PULL_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", kick);
+      window.removeEventListener("offline", offline);
+      document.removeEventListener("visibilitychange", kick);
+      clearInterval(interval);
+    };
+  }, [signedIn, sync]);
+
+  useEffect(() => () => {
+    if (timer.current) clearTimeout(timer.current);
+  }, []);
+
+  const signIn = async (mode: "signup" | "login", username: string, password: string) => {
+    const name = await (mode === "signup" ? signUp : logIn)(username, password, localeRef.current);
+    saveSyncBase(null);
+    setMeta(newSyncMeta(name, stateRef.current !== null));
+    setError(null);
+    await sync();
+  };
+
+  const signOut = async () => {
+    try {
+      await logOut(localeRef.current);
+    } finally {
+      setMeta(null);
+      setStatus("idle");
+    }
+  };
+
+  const dismissConflicts = () => {
+    if (metaRef.current) setMeta({ ...metaRef.current, conflicts: [] });
+  };
+
+  return { account: meta, status, error, signIn, signOut, syncNow: sync, dismissConflicts };
+}
+
+export type SyncController = ReturnType<typeof useSync>;
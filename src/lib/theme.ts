@@ -0,0 +1,20 @@
+import type { Theme } from "./types";
+
+/** -----------------------------
+ *  テーマの適用
+ *  <html> に .dark を付け外しし、--background / --foreground / --accent を上書きする。
+ *  ----------------------------*/
+export const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+export function isDarkTheme(theme: Theme, prefersDark: boolean): boolean {
+  return theme.mode === "dark" || (theme.mode === "system" && prefersDark);
+}
+
+export function applyTheme(theme: Theme, prefersDark: boolean, root: HTMLElement = document.documentElement) {
+  const dark = isDarkTheme(theme, prefersDark);
+  root.classList.toggle("dark", dark);
+  root.style.colorScheme = dark ? "dark" : "light";
+  root.style.setProperty("--background", dark ? theme.darkBackgroundColor : theme.backgroundColor);
+  root.style.setProperty("--foreground", dark ? theme.darkTextColor : theme.textColor);
+  root.style.setProperty("--accent", theme.accent);
+}
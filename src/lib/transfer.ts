@@ -0,0 +1,289 @@
+import { planDate } from "./calendar";
+import { categoryLabel } from "./constants";
+import { translator, type LocalizedMessage, type MessageKey, type Translate } from "./i18n";
+import { mergeAchievements } from "./achievements";
+import { dedupeJournal } from "./journal";
+import { libraryCategories, mergeLibrary, templatesFor } from "./library";
+import { isMeasurable } from "./measure";
+import { addNotifications } from "./notifications";
+import { questEarned, reconcileLedger } from "./scoring";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+import { decodeState } from "./storage";
+import type { AppState, ArchivedWeek, DayPlan, PointEvent, Quest, TemplateLibrary } from "./types";
+import { refreshLocks } from "./unlock";
+import { isRecord } from "./utils";
+import { validateLibrary } from "./validation";
+
+/** -----------------------------
+ *  データのエクスポート / インポート
+ *  JSON は保存データと同じエンベロープ形式（schemaVersion 付き）なので、
+ *  読み込み時は通常のロードと同じ移行・検証を通る。
+ *  ----------------------------*/
+export const BACKUP_FORMAT = "growth-planner-backup";
+
+type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO
+  state: AppState;
+};
+
+export type ImportResult =
+  | { ok: true; state: AppState; repairs: LocalizedMessage[]; exportedAt?: string }
+  | { ok: false; error: LocalizedMessage };
+
+export type DataSummary = {
+  cycle: number;
+  weeks: number; // アーカイブ済みの週
+  quests: number; // 有効なクエスト（全週）
+  done: number; // 完了（全週）
+  points: number;
+  categories: number;
+};
+
+export function exportBackup(state: AppState, now = new Date()): string {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    state,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseBackup(text: string): ImportResult {
+  const result = decodeState(text);
+  if (!result.ok) return result;
+  let exportedAt: string | undefined;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (isRecord(parsed) && typeof parsed.exportedAt === "string") exportedAt = parsed.exportedAt;
+  } catch {
+    // decodeState で検証済み
+  }
+  return { ok: true, state: result.state, repairs: result.repairs, exportedAt };
+}
+
+/** -----------------------------
+ *  CSV（クエストの完了記録・表計算ソフト向け）
+ *  ----------------------------*/
+/** 見出しと状態・カテゴリはデータの表示言語で書く */
+const CSV_COLUMNS = ["week", "day", "date", "category", "quest", "points", "status", "earned"] as const;
+
+function csvField(v: string | number): string {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function weekRows(
+  cycle: number,
+  startDate: string | undefined,
+  plans: DayPlan[],
+  { ledger, library }: Pick<AppState, "ledger" | "library">,
+  t: Translate
+): string[][] {
+  return plans.flatMap((day, dayIndex) =>
+    day.quests.map((q) => [
+      String(cycle),
+      String(dayIndex + 1),
+      startDate ? planDate(startDate, dayIndex) : "",
+      q.category ? categoryLabel(q.category, t, library.categories) : "",
+      q.title,
+      String(q.points ?? ""),
+      t(!q.enabled ? "csv.status.disabled" : q.done ? "csv.status.done" : "csv.status.open"),
+      String(questEarned(ledger, q.id)),
+    ]),
+  );
+}
+
+export function exportCompletionsCsv(state: AppState): string {
+  const t = translator(state.locale);
+  const rows = [
+    ...state.history.flatMap((w) => weekRows(w.cycle, w.startDate, w.plans, state, t)),
+    ...weekRows(state.cycle, state.startDate, state.plans, state, t),
+  ];
+  const header = CSV_COLUMNS.map((c) => t(`csv.${c}`));
+  return [header, ...rows].map((r) => r.map(csvField).join(",")).join("\r\n");
+}
+
+/** ファイルとして保存させる（ブラウザのみ） */
+export function downloadText(filename: string, text: string, type: string) {
+  // Excel で文字化けしないよう CSV には BOM を付ける
+  const body = type.startsWith("text/csv") ? `\uFEFF${text}` : text;
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** -----------------------------
+ *  テンプレートパック（カテゴリとテンプレートだけの JSON）
+ *  組み込みのカテゴリも、いま使っているテンプレートを書き出す。
+ *  ----------------------------*/
+export const TEMPLATE_PACK_FORMAT = "growth-planner-templates";
+const TEMPLATE_PACK_VERSION = 1;
+
+export type TemplatePackResult =
+  | { ok: true; library: TemplateLibrary; repairs: LocalizedMessage[] }
+  | { ok: false; error: MessageKey };
+
+export function exportTemplatePack(library: TemplateLibrary, now = new Date()): string {
+  const templates = Object.fromEntries(libraryCategories(library).map((key) => [key, templatesFor(library, key)]));
+  return JSON.stringify(
+    {
+      format: TEMPLATE_PACK_FORMAT,
+      version: TEMPLATE_PACK_VERSION,
+      exportedAt: now.toISOString(),
+      library: { categories: library.categories, templates },
+    },
+    null,
+    2
+  );
+}
+
+export function parseTemplatePack(text: string): TemplatePackResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "library.pack.notJson" };
+  }
+  if (!isRecord(parsed) || parsed.format !== TEMPLATE_PACK_FORMAT) return { ok: false, error: "library.pack.wrongFormat" };
+  if (typeof parsed.version !== "number" || parsed.version > TEMPLATE_PACK_VERSION) return { ok: false, error: "library.pack.newerVersion" };
+  if (!isRecord(parsed.library)) return { ok: false, error: "library.pack.wrongFormat" };
+  const repairs: LocalizedMessage[] = [];
+  return { ok: true, library: validateLibrary(parsed.library, repairs), repairs };
+}
+
+/** -----------------------------
+ *  インポート前の確認用サマリと統合
+ *  ----------------------------*/
+export function summarizeData(state: AppState): DataSummary {
+  const quests = [...state.history.flatMap((w) => w.plans), ...state.plans].flatMap((d) => d.quests).filter((q) => q.enabled);
+  return {
+    cycle: state.cycle,
+    weeks: state.history.length,
+    quests: quests.length,
+    done: quests.filter((q) => q.done).length,
+    points: state.ledger.reduce((s, e) => s + e.amount, 0),
+    categories: state.selectedCategories.length,
+  };
+}
+
+type Source = "current" | "incoming";
+
+const doneIn = (plans: DayPlan[]) => plans.reduce((s, d) => s + d.quests.filter((q) => q.enabled && q.done).length, 0);
+
+/** 同じクエストが 1 つでもあれば、同じプランから分かれたもの */
+function sharesQuests(a: DayPlan[], b: DayPlan[]): boolean {
+  const ids = new Set(a.flatMap((d) => d.quests.map((q) => q.id)));
+  return b.some((d) => d.quests.some((q) => ids.has(q.id)));
+}
+
+/** 同じクエストの記録を合わせる。量は多い方を残し、目標に届いていれば完了にする */
+function mergeQuest(q: Quest, theirs: Quest | undefined): Quest {
+  if (!theirs || !q.enabled) return q;
+  if (!isMeasurable(q)) return theirs.done && !q.done ? { ...q, done: true } : q;
+  const amount = Math.max(q.amount ?? 0, theirs.amount ?? 0);
+  const done = q.done || theirs.done || amount >= q.target;
+  return done === q.done && amount === q.amount ? q : { ...q, amount, done };
+}
+
+/** 同じ週のプランを統合する。どちらかで完了していれば完了（記録した量も合わせる）、片方にしかないクエストは追加する */
+function mergePlans(base: DayPlan[], other: DayPlan[]): DayPlan[] {
+  return base.map((day, i) => {
+    const theirs = other[i]?.quests ?? [];
+    const byId = new Map(theirs.map((q) => [q.id, q]));
+    const mine = new Set(day.quests.map((q) => q.id));
+    return {
+      ...day,
+      quests: [
+        ...day.quests.map((q) => mergeQuest(q, byId.get(q.id))),
+        ...theirs.filter((q) => !mine.has(q.id)),
+      ],
+    };
+  });
+}
+
+/**
+ * 現在のデータとインポートしたデータを統合する。
+ * - 週ごとにどちらか一方を採用し（完了数が多い方、同数なら現在）、台帳もその週の分はそちらに揃える。
+ *   別々のブラウザで同じクエストを完了していてもポイントが二重にならない。
+ * - 進行中の週は週番号が新しい方。同じ週ならプランを統合して台帳を突き合わせ直す。
+ *   ただしクエストが 1 つも共通しなければ別々の端末で作ったプランなので、統合せず完了数の多い方（同数なら現在）を使う。
+ * - 通知・集中タイマー・完了ログは両方を残す。テーマ・リマインダーなどの設定は現在のものを残す。
+ * - テンプレートライブラリは、インポートした側にしかないカテゴリとテンプレートを足す。
+ * - 日記は両方を残す。同じクエスト・同じ日の記録は更新時刻の新しい方。
+ * - 実績は両方を残す。同じ実績は先に獲得した方の時刻。
+ */
+export function mergeStates(current: AppState, incoming: AppState): AppState {
+  const winner = new Map<number, Source>();
+
+  const weeks = new Map<number, ArchivedWeek>();
+  current.history.forEach((w) => {
+    weeks.set(w.cycle, w);
+    winner.set(w.cycle, "current");
+  });
+  incoming.history.forEach((w) => {
+    const mine = weeks.get(w.cycle);
+    if (mine && mine.stats.done >= w.stats.done) return;
+    weeks.set(w.cycle, w);
+    winner.set(w.cycle, "incoming");
+  });
+
+  const samePlan = current.cycle === incoming.cycle && sharesQuests(current.plans, incoming.plans);
+  const active: Source =
+    incoming.cycle > current.cycle || (incoming.cycle === current.cycle && !samePlan && doneIn(incoming.plans) > doneIn(current.plans))
+      ? "incoming"
+      : "current";
+  const base = active === "incoming" ? incoming : current;
+  const plans = samePlan ? mergePlans(current.plans, incoming.plans) : base.plans;
+  winner.set(base.cycle, active);
+  // 進行中の週より古い週は、アーカイブされていなくても履歴に残っていればそれを使う
+  weeks.delete(base.cycle);
+
+  const has = (ledger: PointEvent[], cycle: number) => ledger.some((e) => e.cycle === cycle);
+  const pick = (cycle: number): Source => winner.get(cycle) ?? (has(current.ledger, cycle) ? "current" : "incoming");
+  const ledger = [
+    ...current.ledger.filter((e) => pick(e.cycle) === "current"),
+    ...incoming.ledger.filter((e) => pick(e.cycle) === "incoming"),
+  ];
+
+  const knownIds = new Set(current.notifications.map((n) => n.id));
+  const notifications = addNotifications(
+    current.notifications,
+    incoming.notifications.filter((n) => !knownIds.has(n.id)),
+  ).sort((a, b) => b.at.localeCompare(a.at));
+
+  const knownSessions = new Set(current.focusLog.map((f) => f.id));
+  const focusLog = [...current.focusLog, ...incoming.focusLog.filter((f) => !knownSessions.has(f.id))].sort((a, b) =>
+    a.endedAt.localeCompare(b.endedAt)
+  );
+
+  const knownCompletions = new Set(current.completions.map((c) => c.id));
+  const completions = [...current.completions, ...incoming.completions.filter((c) => !knownCompletions.has(c.id))].sort((a, b) =>
+    a.at.localeCompare(b.at)
+  );
+
+  const next: AppState = {
+    ...current,
+    focusLog,
+    completions,
+    journal: dedupeJournal([...current.journal, ...incoming.journal]),
+    achievements: mergeAchievements(current.achievements, incoming.achievements),
+    selectedCategories: base.selectedCategories,
+    plans,
+    createdAt: base.createdAt,
+    startDate: base.startDate,
+    cycle: base.cycle,
+    history: [...weeks.values()].sort((a, b) => a.cycle - b.cycle),
+    ledger,
+    notifications,
+    library: mergeLibrary(current.library, incoming.library),
+  };
+  next.ledger = reconcileLedger(next);
+  next.plans = refreshLocks(next);
+  return next;
+}
@@ -0,0 +1,264 @@
+import type { Locale } from "./i18n";
+
+/** -----------------------------
+ *  型定義（既存 + 拡張）
+ *  ----------------------------*/
+/** 組み込みのカテゴリ。表示名は i18n の category.* */
+export type BuiltinCategoryKey =
+  | "exercise"
+  | "study"
+  | "habit"
+  | "faith"
+  | "social"
+  | "money"
+  | "sleep"
+  | "diet"
+  | "mental";
+
+/** 自分で作ったカテゴリは "custom:<id>" */
+export type CustomCategoryKey = `custom:${string}`;
+
+/** 言語に依存しない識別子 */
+export type CategoryKey = BuiltinCategoryKey | CustomCategoryKey;
+
+/** 言語ごとの文言（テンプレートやチェーンの名前など） */
+export type LocalizedText = Record<Locale, string>;
+
+export type QuestUnit = "count" | "minutes" | "ml" | "yen";
+
+/** ロック解除の条件 */
+export type UnlockCondition =
+  | { kind: "quest"; questId: string } // 同じ週の前提クエストを完了
+  | { kind: "category_days"; category: CategoryKey; days: number } // そのカテゴリのクエストを完了した日数（全期間）
+  | { kind: "rank"; rank: string }; // ランク到達（Rank のキー）
+
+/** 実績の条件（全期間の記録から判定する） */
+export type AchievementRule =
+  | { kind: "quests_done"; count: number } // 完了したクエストの合計
+  | { kind: "perfect_days"; count: number } // 有効なクエストをすべて完了した日数
+  | { kind: "daily_streak"; days: number } // 1 つ以上完了した日の連続（最長）
+  | { kind: "category_streak"; category: CategoryKey; days: number } // そのカテゴリを完了した日の連続（最長）
+  | { kind: "categories_tried"; count: number } // 完了したことのある組み込みカテゴリの数
+  | { kind: "journal_entries"; count: number } // 日記の数
+  | { kind: "focus_minutes"; minutes: number } // 集中タイマーの合計
+  | { kind: "weeks"; count: number }; // 終えた週の数
+
+/** 獲得した実績（一度得たら消えない） */
+export type EarnedAchievement = {
+  id: string; // Achievement の id
+  at: string; // ISO
+};
+
+export type Quest = {
+  id: string;
+  title: string;
+  done: boolean;
+  enabled: boolean; // ON/OFF
+  // --- 追加（表示強化用・任意） ---
+  category?: string; // サブラベル表示
+  points?: number;   // 行ごとのポイント表示
+  target?: number;   // 目標量（数値目標のあるクエスト）
+  unit?: QuestUnit;  // 目標量の単位
+  amount?: number;   // 記録した量の合計。進捗はここから求める
+  locked?: boolean;  // unlock の条件を満たすまで true（refreshLocks が更新する）
+  unlock?: UnlockCondition;
+  note?: string;     // 小メモ
+  remindAt?: string; // "HH:MM" クエストごとのリマインダー
+};
+
+/** 週プラン生成に使うテンプレート。クエストには生成時の言語のタイトルを入れる */
+export type QuestTemplate = {
+  title: LocalizedText; // 自分で書いたものは全言語で同じ文言
+  points: number; // 既定のポイント
+  target?: number;
+  unit?: QuestUnit;
+};
+
+export type CustomCategory = {
+  key: CustomCategoryKey;
+  name: string;
+  icon: string; // 絵文字
+  color: string; // "#rrggbb"
+};
+
+/** テンプレートライブラリ。templates にないカテゴリは組み込みのテンプレートを使う */
+export type TemplateLibrary = {
+  categories: CustomCategory[];
+  templates: Partial<Record<CategoryKey, QuestTemplate[]>>; // 軽い順
+};
+
+/** 前のステップを完了すると次が解除される連続クエスト */
+export type QuestChain = {
+  id: string;
+  name: LocalizedText;
+  category: CategoryKey;
+  steps: { title: LocalizedText; points: number; target?: number; unit?: QuestUnit }[];
+};
+
+export type DayPlan = {
+  day: number; // 1..7
+  quests: Quest[];
+};
+
+export type ThemeMode = "light" | "dark" | "system";
+
+export type Theme = {
+  mode: ThemeMode;
+  accent: string; // アクセントカラー（プリセット or 任意の色）
+  backgroundColor: string; // ライト時
+  textColor: string;
+  darkBackgroundColor: string; // ダーク時
+  darkTextColor: string;
+};
+
+export type PointEventKind = "quest_complete" | "quest_reversal" | "day_bonus" | "day_bonus_reversal";
+
+export type PointEvent = {
+  id: string;
+  kind: PointEventKind;
+  amount: number; // 取り消しは負の値
+  at: string; // ISO
+  cycle: number; // 何週目のイベントか
+  dayIndex: number; // その週の plans のインデックス
+  questId?: string; // クエスト由来のイベントのみ
+};
+
+export type WeekStats = {
+  done: number;
+  total: number; // 有効なクエスト数
+  rate: number; // 0-100
+  points: number;
+  clearedDays: number; // 全クエスト完了した日数
+};
+
+export type ArchivedWeek = {
+  cycle: number;
+  startedAt: string; // ISO
+  endedAt: string; // ISO
+  startDate: string; // "YYYY-MM-DD"（1日目のローカル日付）
+  selectedCategories: CategoryKey[];
+  plans: DayPlan[];
+  stats: WeekStats;
+};
+
+export type NotificationKind = "reminder" | "unfinished" | "rank_up" | "bonus" | "unlock" | "achievement";
+
+export type AppNotification = {
+  id: string;
+  kind: NotificationKind;
+  key: string; // 同じ通知を二重に出さないための識別子
+  title: string;
+  body: string;
+  at: string; // ISO
+  read: boolean;
+};
+
+export type ReminderSettings = {
+  dailyTime: string | null; // "HH:MM" 今日のクエストのお知らせ
+  unfinishedTime: string | null; // "HH:MM" 未完了クエストの催促
+  quietHours: { start: string; end: string } | null; // "HH:MM"（日をまたいでもよい）
+  browser: boolean; // ブラウザ通知も出す
+};
+
+export type GeneratorSettings = {
+  seed: string; // 週プラン生成のシード（週番号と組み合わせて使う）
+  dailyBudget: number; // 1日あたりのクエスト数
+  adaptive: boolean; // 過去の達成率から量と難易度を調整する
+};
+
+export type FocusTimer = {
+  questId: string;
+  title: string;
+  cycle: number;
+  dayIndex: number;
+  durationSec: number;
+  startedAt: string; // ISO（最初に開始した時刻）
+  runningSince: string | null; // ISO（一時停止中は null）
+  elapsedMs: number; // runningSince より前までの経過時間
+};
+
+export type FocusSession = {
+  id: string;
+  questId: string;
+  title: string;
+  cycle: number;
+  dayIndex: number;
+  startedAt: string; // ISO
+  endedAt: string; // ISO
+  seconds: number; // 実際に計測した時間（一時停止中は含まない）
+  completed: boolean; // 時間いっぱいまで続けたか
+};
+
+/** 完了・完了取り消しの記録（追記のみ） */
+export type CompletionEvent = {
+  id: string;
+  questId: string;
+  cycle: number;
+  dayIndex: number;
+  category?: string;
+  done: boolean; // true = 完了 / false = 取り消し
+  at: string; // ISO（操作した時刻）
+  sameDay: boolean; // プランの日と同じ日に操作したか（false は後から記録）
+};
+
+/** 連続記録の数え方。same_day は当日中の完了だけを数える */
+export type StreakRule = "any" | "same_day";
+
+export type ProfileAvatar =
+  | { kind: "emoji"; emoji: string }
+  | { kind: "image"; dataUrl: string }; // 端末内で縮小した画像（data URL）
+
+/** 週の始まり（Date.getDay() の値。0 = 日曜 / 1 = 月曜） */
+export type WeekStart = 0 | 1;
+
+export type Profile = {
+  displayName: string;
+  avatar: ProfileAvatar;
+  goal: string; // 自分への目標（空文字なら表示しない）
+  weekStart?: WeekStart; // 未設定なら日曜始まり
+  dayStartHour?: number; // 1日の始まりの時刻 0..6（未設定なら 0 時）
+};
+
+/** 気分・元気の 5 段階（1 = 低い / 5 = 高い） */
+export type Rating = 1 | 2 | 3 | 4 | 5;
+
+/** 日記。クエストを完了したときのメモ（quest）と、1日のふりかえり（day。1日 1 件） */
+export type JournalEntry = {
+  id: string;
+  kind: "quest" | "day";
+  cycle: number;
+  dayIndex: number;
+  date: string; // "YYYY-MM-DD"（プランの日）
+  questId?: string; // kind: "quest"
+  questTitle?: string; // 書いたときのクエスト名（クエストを消しても検索できるように）
+  category?: string;
+  prompt?: string; // 使った問いかけ（i18n の journal.prompt.*）
+  text: string;
+  mood?: Rating; // kind: "day"
+  energy?: Rating; // kind: "day"
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+};
+
+export type AppState = {
+  selectedCategories: CategoryKey[];
+  plans: DayPlan[]; // 現在の週（7日）
+  createdAt?: string; // ISO（現在の週の開始）
+  startDate?: string; // "YYYY-MM-DD"（現在の週の1日目のローカル日付。日の計算はこちらを使う）
+  theme?: Theme; // テーマ設定
+  ledger: PointEvent[]; // ポイント台帳（追記のみ）
+  cycle: number; // 現在の週番号（1始まり）
+  history: ArchivedWeek[]; // 終了した週（古い順）
+  notifications: AppNotification[]; // 通知の受信箱（新しい順）
+  reminders: ReminderSettings;
+  generator: GeneratorSettings;
+  timer: FocusTimer | null; // 実行中・一時停止中の集中タイマー
+  focusLog: FocusSession[]; // 集中タイマーの記録（古い順）
+  completions: CompletionEvent[]; // 完了ログ（古い順）
+  streakRule: StreakRule;
+  profile: Profile;
+  locale: Locale; // 表示言語
+  library: TemplateLibrary;
+  journal: JournalEntry[]; // 日記（古い順）
+  achievements: EarnedAchievement[]; // 獲得した実績（古い順）
+};
@@ -0,0 +1,88 @@
+import type { DayPlan } from "./types";
+import { uid } from "./utils";
+
+/** -----------------------------
+ *  元に戻す / やり直す（操作履歴）
+ *  プランを変える操作はコマンドとして実行し、前後のプランを操作履歴に積む。
+ *  戻す・やり直すときもプランを差し替えて通常どおり commit するので、
+ *  ポイント台帳と完了ログには取り消しとして追記される（履歴は消さない）。
+ *  操作履歴はこの画面を開いている間だけ持つ。
+ *  ----------------------------*/
+export const MAX_ACTIONS = 50;
+
+export type ActionKind =
+  | "toggle_done"
+  | "toggle_enabled"
+  | "toggle_day"
+  | "add_quest"
+  | "edit_quest"
+  | "delete_quest"
+  | "move_quest"
+  | "move_day"
+  | "add_chain"
+  | "log_amount"
+  | "chat";
+
+/** 操作の内容（トーストと履歴の表示用） */
+export type ActionLabel = {
+  kind: ActionKind;
+  title?: string; // 対象のクエスト名など
+};
+
+/** プランを変えるコマンド。変化がなければ同じ配列を返す */
+export type PlanCommand = ActionLabel & {
+  run: (plans: DayPlan[]) => DayPlan[];
+};
+
+export type PlanAction = ActionLabel & {
+  id: string;
+  at: string; // ISO
+  cycle: number; // 週が変わったら戻せない
+  before: DayPlan[];
+  after: DayPlan[];
+};
+
+export type ActionHistory = {
+  past: PlanAction[]; // 古い順（末尾が次に戻す操作）
+  future: PlanAction[]; // 末尾が次にやり直す操作
+};
+
+export const EMPTY_ACTIONS: ActionHistory = { past: [], future: [] };
+
+/** 新しい操作を積む。やり直しの候補は捨てる */
+export function recordAction(history: ActionHistory, label: ActionLabel, cycle: number, before: DayPlan[], after: DayPlan[], now = new Date()): ActionHistory {
+  const action: PlanAction = { ...label, id: uid(), at: now.toISOString(), cycle, before, after };
+  return { past: [...history.past, action].slice(-MAX_ACTIONS), future: [] };
+}
+
+/** 週が変わった操作は戻せないので捨てる */
+export function forCycle(history: ActionHistory, cycle: number): ActionHistory {
+  const keep = (a: PlanAction) => a.cycle === cycle;
+  if (history.past.every(keep) && history.future.every(keep)) return history;
+  return { past: history.past.filter(keep), future: history.future.filter(keep) };
+}
+
+/** 戻す操作と戻したあとの履歴 */
+export function undoAction(history: ActionHistory): { action: PlanAction; history: ActionHistory } | null {
+  const action = history.past[history.past.length - 1];
+  if (!action) return null;
+  return { action, history: { past: history.past.slice(0, -1), future: [...history.future, action] } };
+}
+
+/** やり直す操作とやり直したあとの履歴 */
+export function redoAction(history: ActionHistory): { action: PlanAction; history: ActionHistory } | null {
+  const action = history.future[history.future.length - 1];
+  if (!action) return null;
+  return { action, history: { past: [...history.past, action], future: history.future.slice(0, -1) } };
+}
+
+/** 履歴の中の操作まで戻す（その操作も戻す）。戻すべきプランは最も古い操作の変更前 */
+export function undoTo(history: ActionHistory, id: string): { plans: DayPlan[]; history: ActionHistory } | null {
+  const index = history.past.findIndex((a) => a.id === id);
+  if (index < 0) return null;
+  const undone = history.past.slice(index);
+  return {
+    plans: undone[0].before,
+    history: { past: history.past.slice(0, index), future: [...history.future, ...undone.reverse()] },
+  };
+}
@@ -0,0 +1,75 @@
+import { categoryLabel } from "./constants";
+import type { Translate } from "./i18n";
+import { calculateRank, isRank, rankIndex, rankLabel } from "./rank";
+import { ledgerTotal } from "./scoring";
+import type { AppState, CategoryKey, DayPlan, Quest, UnlockCondition } from "./types";
+
+/** -----------------------------
+ *  ロック中のクエストと解除条件
+ *  locked は unlock の条件から求める。プランを変更したら refreshLocks を通すこと。
+ *  完了済みのクエストは、あとで条件を満たさなくなってもロックし直さない。
+ *  ----------------------------*/
+type UnlockContext = Pick<AppState, "plans" | "history" | "ledger">;
+
+function findQuest(plans: DayPlan[], id: string): { quest: Quest; dayIdx: number } | null {
+  for (let i = 0; i < plans.length; i++) {
+    const quest = plans[i].quests.find((q) => q.id === id);
+    if (quest) return { quest, dayIdx: i };
+  }
+  return null;
+}
+
+/** カテゴリのクエストを 1 つ以上完了した日数（過去の週も含む） */
+export function categoryDays(ctx: Pick<AppState, "plans" | "history">, category: CategoryKey): number {
+  const days = [...ctx.history.flatMap((w) => w.plans), ...ctx.plans];
+  return days.filter((d) => d.quests.some((q) => q.enabled && q.done && q.category === category)).length;
+}
+
+export function isUnlockMet(cond: UnlockCondition, ctx: UnlockContext): boolean {
+  switch (cond.kind) {
+    case "quest": {
+      // 前提クエストが消えていたら条件なしとして扱う
+      const found = findQuest(ctx.plans, cond.questId);
+      return !found || found.quest.done;
+    }
+    case "category_days":
+      return categoryDays(ctx, cond.category) >= cond.days;
+    case "rank":
+      return !isRank(cond.rank) || rankIndex(calculateRank(ledgerTotal(ctx.ledger))) >= rankIndex(cond.rank);
+  }
+}
+
+/** ロック状態を条件に合わせた plans を返す。変化がなければ同じ配列を返す */
+export function refreshLocks(ctx: UnlockContext): DayPlan[] {
+  let changed = false;
+  const plans = ctx.plans.map((day) => {
+    let dayChanged = false;
+    const quests = day.quests.map((q) => {
+      const locked = !!q.unlock && !q.done && !isUnlockMet(q.unlock, ctx);
+      if (locked === !!q.locked) return q;
+      dayChanged = true;
+      return { ...q, locked };
+    });
+    if (!dayChanged) return day;
+    changed = true;
+    return { ...day, quests };
+  });
+  return changed ? plans : ctx.plans;
+}
+
+/** 解除に必要なことの説明（ロック中の表示・チャットの文脈用） */
+export function describeUnlock(cond: UnlockCondition, ctx: UnlockContext & Pick<AppState, "library">, t: Translate): string {
+  switch (cond.kind) {
+    case "quest": {
+      const found = findQuest(ctx.plans, cond.questId);
+      return found ? t("unlock.describe.quest", { day: found.dayIdx + 1, title: found.quest.title }) : t("unlock.describe.questDeleted");
+    }
+    case "category_days": {
+      const left = cond.days - categoryDays(ctx, cond.category);
+      const text = t("unlock.describe.categoryDays", { category: categoryLabel(cond.category, t, ctx.library.categories), count: cond.days });
+      return left > 0 ? `${text}${t("unlock.describe.daysLeft", { count: left })}` : text;
+    }
+    case "rank":
+      return t("unlock.describe.rank", { rank: isRank(cond.rank) ? rankLabel(cond.rank, t) : cond.rank });
+  }
+}
@@ -0,0 +1,29 @@
+/** -----------------------------
+ *  ユーティリティ
+ *  ----------------------------*/
+export const uid = () => Math.random().toString(36).slice(2, 10);
+
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** 文字列から 32bit のハッシュ値（シード用） */
+export function hashString(s: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+/** シード付き乱数（mulberry32）。同じシードなら同じ列を返す */
+export function seededRandom(seed: string): () => number {
+  let a = hashString(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
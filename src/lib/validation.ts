@@ -0,0 +1,602 @@
+import { mergeAchievements } from "./achievements";
+import { dayKeyAt, isDateKey, toDateKey } from "./calendar";
+import {
+  DEFAULT_AVATAR,
+  DEFAULT_DAILY_BUDGET,
+  DEFAULT_REMINDERS,
+  DEFAULT_THEME,
+  defaultProfile,
+  isCategoryKey,
+  isCustomCategoryKey,
+  MAX_DAILY_BUDGET,
+  POINTS_PER_QUEST,
+} from "./constants";
+import { DEFAULT_LOCALE, isLocale, translator, type Locale, type LocalizedMessage, type MessageKey, type MessageParams } from "./i18n";
+import {
+  CUSTOM_CATEGORY_COLORS,
+  CUSTOM_CATEGORY_ICONS,
+  DEFAULT_LIBRARY,
+  hasCategory,
+  MAX_CATEGORY_NAME,
+  MAX_CUSTOM_CATEGORIES,
+  MAX_TEMPLATE_POINTS,
+  MAX_TEMPLATE_TITLE,
+  MAX_TEMPLATES,
+  sameText,
+} from "./library";
+import { isJournalPrompt, isRating, MAX_JOURNAL_TEXT } from "./journal";
+import { isQuestUnit } from "./measure";
+import { defaultGeneratorSettings } from "./plan";
+import { dayStartHourOf, isAvatarDataUrl, isDayStartHour, isWeekStart, MAX_DISPLAY_NAME, MAX_GOAL } from "./profile";
+import { isRank } from "./rank";
+import type {
+  AppNotification,
+  AppState,
+  ArchivedWeek,
+  CategoryKey,
+  CompletionEvent,
+  CustomCategory,
+  DayPlan,
+  EarnedAchievement,
+  FocusSession,
+  FocusTimer,
+  GeneratorSettings,
+  JournalEntry,
+  LocalizedText,
+  NotificationKind,
+  UnlockCondition,
+  PointEvent,
+  PointEventKind,
+  Profile,
+  ProfileAvatar,
+  Quest,
+  QuestTemplate,
+  ReminderSettings,
+  TemplateLibrary,
+  Theme,
+  ThemeMode,
+  WeekStats,
+} from "./types";
+import { isRecord, uid } from "./utils";
+
+/** -----------------------------
+ *  AppState の実行時バリデーション
+ *  壊れた部分は可能な限り修復し、修復内容を repairs に記録する。
+ *  構造そのものが読めない場合は ok: false を返す。
+ *  修復内容とエラーは i18n のキーで返し、表示する側で翻訳する（where はデータ上の位置で、言語によらない）。
+ *  ----------------------------*/
+export type ValidationResult =
+  | { ok: true; state: AppState; repairs: LocalizedMessage[] }
+  | { ok: false; error: LocalizedMessage };
+
+const repair = (where: string, key: MessageKey, params?: MessageParams): LocalizedMessage => ({ key, params: { ...params, where } });
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const THEME_MODES = new Set<ThemeMode>(["light", "dark", "system"]);
+const TIME_OF_DAY = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
+const NOTIFICATION_KINDS = new Set<NotificationKind>(["reminder", "unfinished", "rank_up", "bonus", "unlock", "achievement"]);
+const POINT_EVENT_KINDS = new Set<PointEventKind>(["quest_complete", "quest_reversal", "day_bonus", "day_bonus_reversal"]);
+
+export function isTimeOfDay(v: unknown): v is string {
+  return typeof v === "string" && TIME_OF_DAY.test(v);
+}
+
+function validateUnlock(raw: unknown): UnlockCondition | null {
+  if (!isRecord(raw)) return null;
+  switch (raw.kind) {
+    case "quest":
+      return typeof raw.questId === "string" ? { kind: "quest", questId: raw.questId } : null;
+    case "category_days":
+      return isCategoryKey(raw.category) && typeof raw.days === "number" && Number.isInteger(raw.days) && raw.days > 0
+        ? { kind: "category_days", category: raw.category, days: raw.days }
+        : null;
+    case "rank":
+      return isRank(raw.rank) ? { kind: "rank", rank: raw.rank } : null;
+    default:
+      return null;
+  }
+}
+
+function validateQuest(raw: unknown, where: string, repairs: LocalizedMessage[]): Quest | null {
+  if (!isRecord(raw)) {
+    repairs.push(repair(where, "repair.notQuest"));
+    return null;
+  }
+  if (typeof raw.title !== "string" || !raw.title.trim()) {
+    repairs.push(repair(where, "repair.untitledQuest"));
+    return null;
+  }
+
+  const q: Quest = {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    title: raw.title,
+    done: raw.done === true,
+    enabled: raw.enabled !== false,
+  };
+  if (q.id !== raw.id) repairs.push(repair(where, "repair.newId"));
+
+  if (typeof raw.category === "string") q.category = raw.category;
+  if (typeof raw.points === "number" && Number.isFinite(raw.points) && raw.points >= 0) q.points = raw.points;
+  if (typeof raw.target === "number" && Number.isFinite(raw.target) && raw.target > 0) {
+    q.target = raw.target;
+    q.unit = isQuestUnit(raw.unit) ? raw.unit : "count";
+    if (typeof raw.amount === "number" && Number.isFinite(raw.amount)) q.amount = Math.max(0, raw.amount);
+  }
+  if (typeof raw.locked === "boolean") q.locked = raw.locked;
+  if (typeof raw.note === "string") q.note = raw.note;
+  if (isTimeOfDay(raw.remindAt)) q.remindAt = raw.remindAt;
+  if (raw.unlock !== undefined) {
+    const unlock = validateUnlock(raw.unlock);
+    if (unlock) q.unlock = unlock;
+    else repairs.push(repair(where, "repair.badUnlock"));
+  }
+
+  // 無効なクエストは完了扱いにしない
+  if (!q.enabled && q.done) {
+    q.done = false;
+    repairs.push(repair(where, "repair.disabledDone"));
+  }
+  return q;
+}
+
+function validateDayPlan(raw: unknown, index: number, repairs: LocalizedMessage[]): DayPlan | null {
+  if (!isRecord(raw) || !Array.isArray(raw.quests)) {
+    repairs.push(repair(`Day ${index + 1}`, "repair.badDay"));
+    return null;
+  }
+  const day = typeof raw.day === "number" && Number.isInteger(raw.day) && raw.day > 0 ? raw.day : index + 1;
+  if (day !== raw.day) repairs.push(repair(`Day ${index + 1}`, "repair.dayNumber"));
+
+  const seen = new Set<string>();
+  const quests: Quest[] = [];
+  raw.quests.forEach((rq, qi) => {
+    const q = validateQuest(rq, `Day ${day} #${qi + 1}`, repairs);
+    if (!q) return;
+    if (seen.has(q.id)) {
+      q.id = uid();
+      repairs.push(repair(`Day ${day} #${qi + 1}`, "repair.duplicateId"));
+    }
+    seen.add(q.id);
+    quests.push(q);
+  });
+  return { day, quests };
+}
+
+export function isHexColor(v: unknown): v is string {
+  return typeof v === "string" && HEX_COLOR.test(v);
+}
+
+function validateTheme(raw: unknown, repairs: LocalizedMessage[]): Theme | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) {
+    repairs.push(repair("theme", "repair.theme"));
+    return undefined;
+  }
+  const color = (key: "accent" | "backgroundColor" | "textColor" | "darkBackgroundColor" | "darkTextColor") => {
+    const v = raw[key];
+    // <input type="color"> は 6 桁のみ受け付けるので 3 桁は展開しておく
+    if (isHexColor(v)) return v.length === 4 ? `#${[...v.slice(1)].map((c) => c + c).join("")}` : v;
+    repairs.push(repair(`theme.${key}`, "repair.color"));
+    return DEFAULT_THEME[key];
+  };
+  return {
+    mode: typeof raw.mode === "string" && THEME_MODES.has(raw.mode as ThemeMode) ? (raw.mode as ThemeMode) : DEFAULT_THEME.mode,
+    accent: color("accent"),
+    backgroundColor: color("backgroundColor"),
+    textColor: color("textColor"),
+    darkBackgroundColor: color("darkBackgroundColor"),
+    darkTextColor: color("darkTextColor"),
+  };
+}
+
+function validatePointEvent(raw: unknown): PointEvent | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.kind !== "string" || !POINT_EVENT_KINDS.has(raw.kind as PointEventKind)) return null;
+  if (typeof raw.amount !== "number" || !Number.isFinite(raw.amount)) return null;
+  if (typeof raw.dayIndex !== "number" || !Number.isInteger(raw.dayIndex) || raw.dayIndex < 0) return null;
+  if (typeof raw.cycle !== "number" || !Number.isInteger(raw.cycle) || raw.cycle < 1) return null;
+  const e: PointEvent = {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    kind: raw.kind as PointEventKind,
+    amount: raw.amount,
+    at: typeof raw.at === "string" ? raw.at : new Date(0).toISOString(),
+    cycle: raw.cycle,
+    dayIndex: raw.dayIndex,
+  };
+  if (typeof raw.questId === "string") e.questId = raw.questId;
+  return e;
+}
+
+function validateWeekStats(raw: unknown): WeekStats | null {
+  if (!isRecord(raw)) return null;
+  const keys = ["done", "total", "rate", "points", "clearedDays"] as const;
+  if (!keys.every((k) => typeof raw[k] === "number" && Number.isFinite(raw[k]))) return null;
+  return {
+    done: raw.done as number,
+    total: raw.total as number,
+    rate: raw.rate as number,
+    points: raw.points as number,
+    clearedDays: raw.clearedDays as number,
+  };
+}
+
+function validateArchivedWeek(raw: unknown, index: number, repairs: LocalizedMessage[]): ArchivedWeek | null {
+  if (!isRecord(raw) || !Array.isArray(raw.plans)) return null;
+  const stats = validateWeekStats(raw.stats);
+  if (!stats || typeof raw.startedAt !== "string" || typeof raw.endedAt !== "string") return null;
+  let startDate: string;
+  if (isDateKey(raw.startDate)) {
+    startDate = raw.startDate;
+  } else if (!Number.isNaN(Date.parse(raw.startedAt))) {
+    startDate = toDateKey(new Date(raw.startedAt));
+    repairs.push(repair(`history #${index + 1} startDate`, "repair.startDate"));
+  } else {
+    return null;
+  }
+  const dayRepairs: LocalizedMessage[] = [];
+  const plans = raw.plans
+    .map((p, i) => validateDayPlan(p, i, dayRepairs))
+    .filter((p): p is DayPlan => p !== null);
+  dayRepairs.forEach((r) => repairs.push({ ...r, params: { ...r.params, where: `history #${index + 1} ${r.params?.where}` } }));
+  return {
+    cycle: typeof raw.cycle === "number" && Number.isInteger(raw.cycle) ? raw.cycle : index + 1,
+    startedAt: raw.startedAt,
+    endedAt: raw.endedAt,
+    startDate,
+    selectedCategories: Array.isArray(raw.selectedCategories) ? raw.selectedCategories.filter(isCategoryKey) : [],
+    plans,
+    stats,
+  };
+}
+
+function validateNotification(raw: unknown): AppNotification | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.kind !== "string" || !NOTIFICATION_KINDS.has(raw.kind as NotificationKind)) return null;
+  if (typeof raw.title !== "string" || typeof raw.at !== "string") return null;
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    kind: raw.kind as NotificationKind,
+    key: typeof raw.key === "string" ? raw.key : uid(),
+    title: raw.title,
+    body: typeof raw.body === "string" ? raw.body : "",
+    at: raw.at,
+    read: raw.read === true,
+  };
+}
+
+const isIsoDate = (v: unknown): v is string => typeof v === "string" && !Number.isNaN(Date.parse(v));
+const isNonNegative = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+function validateFocusTimer(raw: unknown, repairs: LocalizedMessage[]): FocusTimer | null {
+  if (raw === null || raw === undefined) return null;
+  if (
+    isRecord(raw) &&
+    typeof raw.questId === "string" &&
+    typeof raw.title === "string" &&
+    typeof raw.cycle === "number" &&
+    typeof raw.dayIndex === "number" &&
+    isNonNegative(raw.durationSec) && raw.durationSec > 0 &&
+    isIsoDate(raw.startedAt) &&
+    (raw.runningSince === null || isIsoDate(raw.runningSince)) &&
+    isNonNegative(raw.elapsedMs)
+  ) {
+    return {
+      questId: raw.questId,
+      title: raw.title,
+      cycle: raw.cycle,
+      dayIndex: raw.dayIndex,
+      durationSec: raw.durationSec,
+      startedAt: raw.startedAt,
+      runningSince: raw.runningSince,
+      elapsedMs: raw.elapsedMs,
+    };
+  }
+  repairs.push(repair("timer", "repair.timer"));
+  return null;
+}
+
+function validateFocusSession(raw: unknown): FocusSession | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.questId !== "string" || typeof raw.cycle !== "number" || typeof raw.dayIndex !== "number") return null;
+  if (!isIsoDate(raw.startedAt) || !isIsoDate(raw.endedAt) || !isNonNegative(raw.seconds)) return null;
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    questId: raw.questId,
+    title: typeof raw.title === "string" ? raw.title : "",
+    cycle: raw.cycle,
+    dayIndex: raw.dayIndex,
+    startedAt: raw.startedAt,
+    endedAt: raw.endedAt,
+    seconds: raw.seconds,
+    completed: raw.completed === true,
+  };
+}
+
+function validateCompletion(raw: unknown): CompletionEvent | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.questId !== "string" || typeof raw.cycle !== "number" || typeof raw.dayIndex !== "number") return null;
+  if (typeof raw.done !== "boolean" || !isIsoDate(raw.at)) return null;
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    questId: raw.questId,
+    cycle: raw.cycle,
+    dayIndex: raw.dayIndex,
+    category: typeof raw.category === "string" ? raw.category : undefined,
+    done: raw.done,
+    at: raw.at,
+    sameDay: raw.sameDay !== false,
+  };
+}
+
+function validateJournalEntry(raw: unknown): JournalEntry | null {
+  if (!isRecord(raw) || (raw.kind !== "quest" && raw.kind !== "day")) return null;
+  if (typeof raw.cycle !== "number" || typeof raw.dayIndex !== "number" || !isDateKey(raw.date)) return null;
+  if (typeof raw.text !== "string" || !isIsoDate(raw.createdAt)) return null;
+  if (raw.kind === "quest" && typeof raw.questId !== "string") return null;
+  const entry: JournalEntry = {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    kind: raw.kind,
+    cycle: raw.cycle,
+    dayIndex: raw.dayIndex,
+    date: raw.date,
+    text: raw.text.slice(0, MAX_JOURNAL_TEXT),
+    createdAt: raw.createdAt,
+    updatedAt: isIsoDate(raw.updatedAt) ? raw.updatedAt : raw.createdAt,
+  };
+  if (raw.kind === "quest") {
+    entry.questId = raw.questId as string;
+    if (typeof raw.questTitle === "string") entry.questTitle = raw.questTitle;
+  }
+  if (typeof raw.category === "string") entry.category = raw.category;
+  if (isJournalPrompt(raw.prompt)) entry.prompt = raw.prompt;
+  if (raw.kind === "day" && isRating(raw.mood)) entry.mood = raw.mood;
+  if (raw.kind === "day" && isRating(raw.energy)) entry.energy = raw.energy;
+  return entry;
+}
+
+function validateAchievement(raw: unknown): EarnedAchievement | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || !raw.id || !isIsoDate(raw.at)) return null;
+  return { id: raw.id, at: raw.at };
+}
+
+function validateReminders(raw: unknown, repairs: LocalizedMessage[]): ReminderSettings {
+  if (!isRecord(raw)) {
+    repairs.push(repair("reminders", "repair.defaultSettings"));
+    return DEFAULT_REMINDERS;
+  }
+  const time = (v: unknown) => (isTimeOfDay(v) ? v : null);
+  const quiet = isRecord(raw.quietHours) && isTimeOfDay(raw.quietHours.start) && isTimeOfDay(raw.quietHours.end)
+    ? { start: raw.quietHours.start, end: raw.quietHours.end }
+    : null;
+  return {
+    dailyTime: time(raw.dailyTime),
+    unfinishedTime: time(raw.unfinishedTime),
+    quietHours: quiet,
+    browser: raw.browser === true,
+  };
+}
+
+function validateGenerator(raw: unknown, repairs: LocalizedMessage[]): GeneratorSettings {
+  if (!isRecord(raw)) {
+    repairs.push(repair("generator", "repair.defaultSettings"));
+    return defaultGeneratorSettings();
+  }
+  const budget = raw.dailyBudget;
+  const validBudget = typeof budget === "number" && Number.isInteger(budget) && budget >= 1 && budget <= MAX_DAILY_BUDGET;
+  if (!validBudget) repairs.push(repair("generator.dailyBudget", "repair.defaultValue"));
+  return {
+    seed: typeof raw.seed === "string" && raw.seed ? raw.seed : uid(),
+    dailyBudget: validBudget ? budget : DEFAULT_DAILY_BUDGET,
+    adaptive: raw.adaptive !== false,
+  };
+}
+
+function validateAvatar(raw: unknown, repairs: LocalizedMessage[]): ProfileAvatar {
+  if (isRecord(raw) && raw.kind === "emoji" && typeof raw.emoji === "string" && raw.emoji.trim()) {
+    return { kind: "emoji", emoji: raw.emoji.trim() };
+  }
+  if (isRecord(raw) && raw.kind === "image" && isAvatarDataUrl(raw.dataUrl)) {
+    return { kind: "image", dataUrl: raw.dataUrl };
+  }
+  repairs.push(repair("profile.avatar", "repair.avatar"));
+  return DEFAULT_AVATAR;
+}
+
+/** 既定の表示名はデータの表示言語 */
+function validateProfile(raw: unknown, locale: Locale, repairs: LocalizedMessage[]): Profile {
+  const fallback = defaultProfile(translator(locale));
+  if (!isRecord(raw)) {
+    repairs.push(repair("profile", "repair.profile"));
+    return fallback;
+  }
+  const name = typeof raw.displayName === "string" ? raw.displayName.trim().slice(0, MAX_DISPLAY_NAME) : "";
+  if (!name) repairs.push(repair("profile.displayName", "repair.displayName"));
+  const profile: Profile = {
+    displayName: name || fallback.displayName,
+    avatar: validateAvatar(raw.avatar, repairs),
+    goal: typeof raw.goal === "string" ? raw.goal.slice(0, MAX_GOAL) : "",
+  };
+  if (isWeekStart(raw.weekStart)) profile.weekStart = raw.weekStart;
+  if (isDayStartHour(raw.dayStartHour)) profile.dayStartHour = raw.dayStartHour;
+  return profile;
+}
+
+function validateCustomCategory(raw: unknown): CustomCategory | null {
+  if (!isRecord(raw) || !isCustomCategoryKey(raw.key)) return null;
+  const name = typeof raw.name === "string" ? raw.name.trim().slice(0, MAX_CATEGORY_NAME) : "";
+  if (!name) return null;
+  return {
+    key: raw.key,
+    name,
+    icon: typeof raw.icon === "string" && raw.icon.trim() ? raw.icon.trim() : CUSTOM_CATEGORY_ICONS[0],
+    color: isHexColor(raw.color) ? raw.color : CUSTOM_CATEGORY_COLORS[0],
+  };
+}
+
+/** 文字列なら全言語で同じ文言。言語ごとの文言で欠けている言語は、ある言語の文言で埋める */
+function validateTemplateTitle(raw: unknown): LocalizedText | null {
+  const clean = (v: unknown) => (typeof v === "string" ? v.trim().slice(0, MAX_TEMPLATE_TITLE) : "");
+  if (typeof raw === "string") return clean(raw) ? sameText(clean(raw)) : null;
+  if (!isRecord(raw)) return null;
+  const texts = Object.entries(raw).filter(([l, v]) => isLocale(l) && clean(v)).map(([l, v]) => [l, clean(v)] as const);
+  if (!texts.length) return null;
+  return { ...sameText(texts[0][1]), ...Object.fromEntries(texts) };
+}
+
+function validateTemplate(raw: unknown): QuestTemplate | null {
+  if (!isRecord(raw)) return null;
+  const title = validateTemplateTitle(raw.title);
+  if (!title) return null;
+  const points = raw.points;
+  const template: QuestTemplate = {
+    title,
+    points:
+      typeof points === "number" && Number.isInteger(points) && points >= 0 && points <= MAX_TEMPLATE_POINTS ? points : POINTS_PER_QUEST,
+  };
+  if (typeof raw.target === "number" && Number.isFinite(raw.target) && raw.target > 0) {
+    template.target = raw.target;
+    template.unit = isQuestUnit(raw.unit) ? raw.unit : "count";
+  }
+  return template;
+}
+
+/** テンプレートライブラリ（保存データとテンプレートパックで共通） */
+export function validateLibrary(raw: unknown, repairs: LocalizedMessage[]): TemplateLibrary {
+  if (raw === undefined) return DEFAULT_LIBRARY;
+  if (!isRecord(raw)) {
+    repairs.push(repair("library", "repair.library"));
+    return DEFAULT_LIBRARY;
+  }
+
+  const rawCategories = Array.isArray(raw.categories) ? raw.categories : [];
+  const categories: CustomCategory[] = [];
+  rawCategories.forEach((rc) => {
+    const c = validateCustomCategory(rc);
+    // キーが重複していれば最初のものを残す
+    if (c && !categories.some((x) => x.key === c.key) && categories.length < MAX_CUSTOM_CATEGORIES) categories.push(c);
+  });
+  if (categories.length !== rawCategories.length) repairs.push(repair("library.categories", "repair.badCategories"));
+
+  const library: TemplateLibrary = { categories, templates: {} };
+  if (isRecord(raw.templates)) {
+    Object.entries(raw.templates).forEach(([key, list]) => {
+      if (!hasCategory(library, key) || !Array.isArray(list)) {
+        repairs.push(repair(`library.templates.${key}`, "repair.orphanTemplates"));
+        return;
+      }
+      const templates = list.map(validateTemplate).filter((t): t is QuestTemplate => t !== null).slice(0, MAX_TEMPLATES);
+      if (templates.length !== list.length) repairs.push(repair(`library.templates.${key}`, "repair.badTemplates"));
+      library.templates[key as CategoryKey] = templates;
+    });
+  }
+  return library;
+}
+
+export function validateAppState(input: unknown): ValidationResult {
+  if (!isRecord(input)) return { ok: false, error: { key: "storage.notObject" } };
+  if (!Array.isArray(input.plans)) return { ok: false, error: { key: "storage.plansNotArray" } };
+
+  const repairs: LocalizedMessage[] = [];
+
+  const library = validateLibrary(input.library, repairs);
+  const rawCategories = Array.isArray(input.selectedCategories) ? input.selectedCategories : [];
+  if (!Array.isArray(input.selectedCategories)) repairs.push(repair("selectedCategories", "repair.notArray"));
+  const selectedCategories = rawCategories.filter((c): c is CategoryKey => hasCategory(library, c));
+  if (selectedCategories.length !== rawCategories.length) repairs.push(repair("selectedCategories", "repair.unknownCategories"));
+
+  const plans = input.plans
+    .map((p, i) => validateDayPlan(p, i, repairs))
+    .filter((p): p is DayPlan => p !== null);
+
+  const rawLedger = Array.isArray(input.ledger) ? input.ledger : [];
+  if (!Array.isArray(input.ledger)) repairs.push(repair("ledger", "repair.notArray"));
+  const ledger = rawLedger.map(validatePointEvent).filter((e): e is PointEvent => e !== null);
+  if (ledger.length !== rawLedger.length) repairs.push(repair("ledger", "repair.badEvents", { count: rawLedger.length - ledger.length }));
+
+  const rawHistory = Array.isArray(input.history) ? input.history : [];
+  if (!Array.isArray(input.history)) repairs.push(repair("history", "repair.notArray"));
+  const history = rawHistory
+    .map((w, i) => validateArchivedWeek(w, i, repairs))
+    .filter((w): w is ArchivedWeek => w !== null);
+  if (history.length !== rawHistory.length) repairs.push(repair("history", "repair.badWeeks", { count: rawHistory.length - history.length }));
+
+  const lastCycle = history.length ? history[history.length - 1].cycle : 0;
+  let cycle = typeof input.cycle === "number" && Number.isInteger(input.cycle) && input.cycle >= 1 ? input.cycle : lastCycle + 1;
+  if (cycle !== input.cycle) repairs.push(repair("cycle", "repair.cycle"));
+  if (cycle <= lastCycle) {
+    cycle = lastCycle + 1;
+    repairs.push(repair("cycle", "repair.cycleBeforeHistory"));
+  }
+
+  const rawNotifications = Array.isArray(input.notifications) ? input.notifications : [];
+  const notifications = rawNotifications
+    .map(validateNotification)
+    .filter((n): n is AppNotification => n !== null);
+  if (notifications.length !== rawNotifications.length) repairs.push(repair("notifications", "repair.badNotifications"));
+  const reminders = validateReminders(input.reminders, repairs);
+  const generator = validateGenerator(input.generator, repairs);
+  const timer = validateFocusTimer(input.timer, repairs);
+
+  const rawFocusLog = Array.isArray(input.focusLog) ? input.focusLog : [];
+  const focusLog = rawFocusLog.map(validateFocusSession).filter((f): f is FocusSession => f !== null);
+  if (focusLog.length !== rawFocusLog.length) repairs.push(repair("focusLog", "repair.badRecords"));
+
+  const rawCompletions = Array.isArray(input.completions) ? input.completions : [];
+  const completions = rawCompletions.map(validateCompletion).filter((c): c is CompletionEvent => c !== null);
+  if (completions.length !== rawCompletions.length) repairs.push(repair("completions", "repair.badRecords"));
+
+  const rawJournal = Array.isArray(input.journal) ? input.journal : [];
+  const journal = rawJournal.map(validateJournalEntry).filter((e): e is JournalEntry => e !== null);
+  if (journal.length !== rawJournal.length) repairs.push(repair("journal", "repair.badJournal"));
+
+  // 知らない実績（新しいバージョンで追加されたもの）も残しておく
+  const rawAchievements = Array.isArray(input.achievements) ? input.achievements : [];
+  const achievements = mergeAchievements(
+    rawAchievements.map(validateAchievement).filter((e): e is EarnedAchievement => e !== null),
+    []
+  );
+  if (achievements.length !== rawAchievements.length) repairs.push(repair("achievements", "repair.badAchievements"));
+  const streakRule = input.streakRule === "same_day" ? "same_day" : "any";
+  const locale = isLocale(input.locale) ? input.locale : DEFAULT_LOCALE;
+  if (locale !== input.locale) repairs.push(repair("locale", "repair.locale"));
+  const profile = validateProfile(input.profile, locale, repairs);
+
+  const state: AppState = {
+    selectedCategories,
+    plans,
+    ledger,
+    cycle,
+    history,
+    notifications,
+    reminders,
+    generator,
+    timer,
+    focusLog,
+    completions,
+    journal,
+    achievements,
+    streakRule,
+    profile,
+    locale,
+    library,
+  };
+
+  if (typeof input.createdAt === "string" && !Number.isNaN(Date.parse(input.createdAt))) {
+    state.createdAt = input.createdAt;
+  } else if (input.createdAt !== undefined || plans.length) {
+    // プランがあるのに開始日が読めない場合は今日を開始日とみなす
+    state.createdAt = new Date().toISOString();
+    repairs.push(repair("createdAt", "repair.createdAt"));
+  }
+  if (isDateKey(input.startDate)) {
+    state.startDate = input.startDate;
+  } else if (state.createdAt) {
+    state.startDate = dayKeyAt(new Date(state.createdAt), dayStartHourOf(profile));
+    repairs.push(repair("startDate", "repair.startDate"));
+  }
+
+  const theme = validateTheme(input.theme, repairs);
+  if (theme) state.theme = theme;
+
+  return { ok: true, state, repairs };
+}